@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin, getRequestUser } from '@/lib/supabaseAdmin';
+import { can, roleLabels } from '@/lib/utils/permissions';
+import type { Role } from '@/lib/utils/permissions';
+
+// Invites a user by email with the role an admin picked. Supabase sends the
+// invite; the link lands on /auth/set-password to choose a password. Staff
+// join the admin's current organisation and start in the admin's station.
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestUser(request);
+    if (!admin || !can(admin.role, 'users:manage')) {
+      return NextResponse.json({ error: 'Only admins can invite users' }, { status: 403 });
+    }
+
+    const { data: station } = await supabaseAdmin
+      .from('stations')
+      .select('id, organisation_id')
+      .eq('id', admin.current_station_id ?? '')
+      .maybeSingle();
+    if (!station) {
+      return NextResponse.json({ error: 'Switch to a station before inviting users' }, { status: 400 });
+    }
+
+    const { email, name, role } = await request.json() as { email?: string; name?: string; role?: Role };
+    if (!email?.trim() || !name?.trim() || !role || !(role in roleLabels)) {
+      return NextResponse.json({ error: 'Name, email and a valid role are required' }, { status: 400 });
+    }
+
+    const { data: { user: authUser }, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(
+      email.trim(),
+      {
+        data: { name: name.trim() },
+        redirectTo: `${new URL(request.url).origin}/auth/set-password`,
+      }
+    );
+
+    if (inviteError || !authUser) {
+      console.error('Error inviting user:', inviteError);
+      return NextResponse.json({ error: inviteError?.message || 'Failed to invite user' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .insert([
+        {
+          id: authUser.id,
+          email: email.trim(),
+          name: name.trim(),
+          role,
+          current_station_id: role === 'advertiser' ? null : station.id,
+          created_at: new Date().toISOString(),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating invited user profile:', error);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Advertisers reach their client through the portal link instead
+    if (role !== 'advertiser') {
+      const { error: memberError } = await supabaseAdmin
+        .from('organisation_members')
+        .insert({ organisation_id: station.organisation_id, user_id: authUser.id });
+
+      if (memberError) {
+        console.error('Error adding organisation member:', memberError);
+        return NextResponse.json({ error: memberError.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in invite route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,26 @@
-import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
-import type { Database } from '@/lib/database.types';
-
-// Create a Supabase client with the service role key
-const supabaseAdmin = createClient<Database>(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY!
-);
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
 
+// Public signup only creates advertiser accounts; staff are invited by an admin
 export async function POST(request: Request) {
   try {
-    const { id, email, name, role } = await request.json();
+    const { id, name } = await request.json();
+
+    // Trust the auth record rather than the request for who is signing up
+    const { data: { user: authUser }, error: authError } = await supabaseAdmin.auth.admin.getUserById(id);
+    if (authError || !authUser?.email) {
+      return NextResponse.json({ error: 'Unknown user' }, { status: 400 });
+    }
 
     // Create the user profile using the service role key
     const { data, error } = await supabaseAdmin
       .from('users')
       .insert([
         {
-          id,
-          email,
+          id: authUser.id,
+          email: authUser.email,
           name,
-          role,
+          role: 'advertiser',
           created_at: new Date().toISOString(),
         },
       ])
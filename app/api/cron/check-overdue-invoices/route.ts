@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin, isSchedulerRequest } from '@/lib/supabaseAdmin';
+
+// Run daily by the scheduler. Marks unpaid invoices past their due date
+// overdue across every organisation, logging each change to
+// invoice_status_events, and reports each organisation's balances by age.
+// Safe to repeat: a second run finds nothing left to change. With
+// ?dry_run=true the changes are reported but not made.
+export async function GET(request: Request) {
+  if (!isSchedulerRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = new URL(request.url).searchParams.get('dry_run') === 'true';
+
+  try {
+    const { data: transitions, error: transitionsError } = await supabaseAdmin
+      .rpc('check_overdue_invoices', { p_dry_run: dryRun });
+    if (transitionsError) throw transitionsError;
+
+    const { data: ageing, error: ageingError } = await supabaseAdmin.rpc('invoice_ageing');
+    if (ageingError) throw ageingError;
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      markedOverdue: transitions.filter(transition => transition.to_status === 'overdue').length,
+      reopened: transitions.filter(transition => transition.to_status === 'pending').length,
+      transitions,
+      ageing,
+    });
+  } catch (error) {
+    console.error('Error checking overdue invoices:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to check overdue invoices'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useUser } from '@/hooks/useUser';
+import { agenciesAPI } from '@/lib/api/index';
+import type { Database } from '@/lib/database.types';
+
+type Agency = Database['public']['Tables']['agencies']['Row'];
+
+type AgencyFormData = {
+  name: string;
+  contact_person: string;
+  email: string;
+  phone: string;
+  address: string;
+  commission_rate: number;
+};
+
+const emptyForm: AgencyFormData = {
+  name: '',
+  contact_person: '',
+  email: '',
+  phone: '',
+  address: '',
+  commission_rate: 15,
+};
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function AgenciesPage() {
+  const router = useRouter();
+  const { user, loading: userLoading } = useUser();
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null when the form is closed, 'new' when adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<AgencyFormData>(emptyForm);
+
+  const loadAgencies = async () => {
+    try {
+      setAgencies((await agenciesAPI.listAgencies()).rows);
+    } catch (error) {
+      console.error('Error loading agencies:', error);
+      toast.error('Failed to load agencies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (user) loadAgencies();
+  }, [user, userLoading, router]);
+
+  const openForm = (agency?: Agency) => {
+    setEditingId(agency?.id ?? 'new');
+    setFormData(agency ? {
+      name: agency.name,
+      contact_person: agency.contact_person || '',
+      email: agency.email || '',
+      phone: agency.phone || '',
+      address: agency.address || '',
+      commission_rate: agency.commission_rate,
+    } : emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!formData.name.trim()) {
+      toast.error('Agency name is required');
+      return;
+    }
+    if (formData.commission_rate < 0 || formData.commission_rate > 100) {
+      toast.error('Commission must be between 0 and 100%');
+      return;
+    }
+
+    const data = {
+      name: formData.name.trim(),
+      contact_person: formData.contact_person.trim() || null,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      address: formData.address.trim() || null,
+      commission_rate: formData.commission_rate,
+    };
+
+    try {
+      setSaving(true);
+      if (editingId === 'new') {
+        await agenciesAPI.createAgency({ ...data, created_by: user.id });
+        toast.success('Agency added');
+      } else if (editingId) {
+        await agenciesAPI.updateAgency(editingId, data);
+        toast.success('Agency updated');
+      }
+      setEditingId(null);
+      await loadAgencies();
+    } catch (error) {
+      console.error('Error saving agency:', error);
+      toast.error('Failed to save agency');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">Agencies</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Advertising agencies that book on behalf of clients, and the commission they take.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              onClick={() => openForm()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+            >
+              Add Agency
+            </button>
+          </div>
+        </div>
+
+        {editingId && (
+          <form onSubmit={handleSubmit} className="mt-6 rounded-lg border border-gray-200 bg-white p-6 shadow-sm space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="agency_name" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  id="agency_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="agency_contact" className="block text-sm font-medium text-gray-700">Contact Person</label>
+                <input
+                  type="text"
+                  id="agency_contact"
+                  value={formData.contact_person}
+                  onChange={(e) => setFormData({ ...formData, contact_person: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="agency_commission" className="block text-sm font-medium text-gray-700">Commission (%)</label>
+                <input
+                  type="number"
+                  id="agency_commission"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.commission_rate}
+                  onChange={(e) => setFormData({ ...formData, commission_rate: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="agency_email" className="block text-sm font-medium text-gray-700">Email</label>
+                <input
+                  type="email"
+                  id="agency_email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="agency_phone" className="block text-sm font-medium text-gray-700">Phone</label>
+                <input
+                  type="tel"
+                  id="agency_phone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="agency_address" className="block text-sm font-medium text-gray-700">Address</label>
+                <input
+                  type="text"
+                  id="agency_address"
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Agency'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="mt-8">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : agencies.length === 0 ? (
+            <p className="text-sm text-gray-500">No agencies yet.</p>
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agency</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {agencies.map((agency) => (
+                    <tr key={agency.id}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{agency.name}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {agency.contact_person}
+                        {agency.email && <p>{agency.email}</p>}
+                        {agency.phone && <p>{agency.phone}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{agency.commission_rate}%</td>
+                      <td className="px-6 py-4 text-sm text-right">
+                        <button
+                          onClick={() => openForm(agency)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Edit
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -4,19 +4,21 @@ import { useState, useEffect } from 'react';
 import { format, subDays, startOfWeek, startOfMonth, startOfYear, parseISO } from 'date-fns';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { supabase } from '@/lib/supabase';
-import type { Database } from '@/lib/database.types';
 import { useRouter } from 'next/navigation';
+import { priceLine } from '@/lib/utils/pricing';
+import { jobsAPI, invoicesAPI } from '@/lib/api/index';
+import type { JobWithClient, InvoiceDocument } from '@/lib/api/index';
 
-type Job = Database['public']['Tables']['jobs']['Row'] & {
-  client: {
-    name: string;
-  };
-};
+type Job = JobWithClient;
 
-type Invoice = Database['public']['Tables']['invoices']['Row'];
+type Invoice = InvoiceDocument;
 
 interface AnalyticsData {
+  // Net of discounts and agency commission, before VAT
   totalRevenue: number;
+  grossRevenue: number;
+  totalDiscounts: number;
+  totalCommission: number;
   totalJobs: number;
   completedJobs: number;
   pendingInvoices: number;
@@ -104,32 +106,18 @@ export default function AnalyticsPage() {
           startDate = startOfMonth(new Date());
       }
 
-      // Fetch jobs
-      const { data: jobs, error: jobsError } = await supabase
-        .from('jobs')
-        .select(`
-          *,
-          client:clients (
-            name
-          )
-        `)
-        .eq('created_by', user.id)  // Only show jobs created by the current user
-        .gte('created_at', format(startDate, 'yyyy-MM-dd'));
-
-      if (jobsError) throw jobsError;
-
-      // Fetch invoices
-      const { data: invoices, error: invoicesError } = await supabase
-        .from('invoices')
-        .select('*')
-        .eq('created_by', user.id)  // Only show invoices created by the current user
-        .gte('created_at', format(startDate, 'yyyy-MM-dd'));
-
-      if (invoicesError) throw invoicesError;
+      const from = format(startDate, 'yyyy-MM-dd');
+      const [{ rows: jobs }, { rows: invoices }] = await Promise.all([
+        jobsAPI.listJobs({ from }),
+        invoicesAPI.listInvoices({ from }),
+      ]);
 
       if (!jobs?.length && !invoices?.length) {
         setAnalyticsData({
           totalRevenue: 0,
+          grossRevenue: 0,
+          totalDiscounts: 0,
+          totalCommission: 0,
           totalJobs: 0,
           completedJobs: 0,
           pendingInvoices: 0,
@@ -144,7 +132,7 @@ export default function AnalyticsPage() {
       }
 
       // Calculate analytics data
-      const data = calculateAnalytics(jobs as Job[], invoices as Invoice[]);
+      const data = calculateAnalytics(jobs, invoices);
       setAnalyticsData(data);
     } catch (error) {
       console.error('Error loading analytics:', error);
@@ -156,7 +144,13 @@ export default function AnalyticsPage() {
 
   const calculateAnalytics = (jobs: Job[], invoices: Invoice[]): AnalyticsData => {
     // Calculate total revenue
-    const totalRevenue = invoices.reduce((sum, inv) => sum + inv.total_amount, 0);
+    const totalRevenue = invoices.reduce((sum, inv) => sum + inv.subtotal, 0);
+    const grossRevenue = invoices.reduce((sum, inv) => sum + inv.gross_total, 0);
+    const totalDiscounts = invoices.reduce((sum, inv) => sum + inv.discount_total, 0);
+    const totalCommission = invoices.reduce((sum, inv) => sum + inv.commission_total, 0);
+
+    // What the station keeps per spot once discount and commission are taken off
+    const netRate = (job: Job) => priceLine({ quantity: 1, ...job }).amount;
 
     // Count jobs by status
     const jobsByStatus = Object.entries(
@@ -170,7 +164,7 @@ export default function AnalyticsPage() {
     const revenueByMonth = Object.entries(
       invoices.reduce((acc, inv) => {
         const month = format(parseISO(inv.created_at), 'MMMM yyyy');
-        acc[month] = (acc[month] || 0) + inv.total_amount;
+        acc[month] = (acc[month] || 0) + inv.subtotal;
         return acc;
       }, {} as Record<string, number>)
     )
@@ -185,7 +179,7 @@ export default function AnalyticsPage() {
     const topClients = Object.entries(
       jobs.reduce((acc, job) => {
         const clientName = job.client?.name || 'Unknown Client';
-        acc[clientName] = (acc[clientName] || 0) + job.rate;
+        acc[clientName] = (acc[clientName] || 0) + netRate(job);
         return acc;
       }, {} as Record<string, number>)
     )
@@ -200,10 +194,13 @@ export default function AnalyticsPage() {
     const paidInvoices = invoices.filter(inv => inv.status === 'paid').length;
     const paymentRate = invoices.length > 0 ? (paidInvoices / invoices.length) * 100 : 0;
     
-    const averageJobValue = jobs.length > 0 ? jobs.reduce((sum, job) => sum + job.rate, 0) / jobs.length : 0;
+    const averageJobValue = jobs.length > 0 ? jobs.reduce((sum, job) => sum + netRate(job), 0) / jobs.length : 0;
 
     return {
       totalRevenue,
+      grossRevenue,
+      totalDiscounts,
+      totalCommission,
       totalJobs: jobs.length,
       completedJobs,
       pendingInvoices: invoices.filter(inv => inv.status === 'pending').length,
@@ -313,6 +310,13 @@ export default function AnalyticsPage() {
                     <p className="mt-2 text-3xl font-semibold text-gray-900">
                       {formatCurrency(analyticsData.totalRevenue)}
                     </p>
+                    {(analyticsData.totalDiscounts > 0 || analyticsData.totalCommission > 0) && (
+                      <p className="mt-1 text-sm text-gray-500">
+                        {formatCurrency(analyticsData.grossRevenue)} gross, less{' '}
+                        {formatCurrency(analyticsData.totalDiscounts)} discounts and{' '}
+                        {formatCurrency(analyticsData.totalCommission)} commission
+                      </p>
+                    )}
                   </div>
                   <div className="bg-white rounded-lg shadow p-6">
                     <h3 className="text-sm font-medium text-gray-500">Average Job Value</h3>
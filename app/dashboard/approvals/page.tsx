@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useUser } from '@/hooks/useUser';
+import { useAuth } from '@/context/AuthContext';
+import { jobsAPI, schedulesAPI, toApiError } from '@/lib/api/index';
+import type { AirtimeConflict } from '@/lib/api/index';
+import { canApproveJobs, formatAirTimes } from '@/lib/utils/jobs';
+import { formatDuration, addDurationToTime } from '@/lib/utils/duration';
+import { formatCurrency } from '@/lib/utils';
+
+type PendingJob = Awaited<ReturnType<typeof jobsAPI.listPendingApprovals>>['rows'][number];
+
+// The dated entries of repeat_days that are still to come
+const upcomingDates = (job: PendingJob) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return job.repeat_days.filter(day => /^\d{4}-\d{2}-\d{2}$/.test(day) && day >= today).sort();
+};
+
+const describeConflict = (conflict: AirtimeConflict) =>
+  conflict.conflict_type === 'overlap'
+    ? `${conflict.requested_date} ${conflict.requested_start_time.slice(0, 5)} overlaps ${conflict.job_title ?? 'a booking'}${conflict.client_name ? ` (${conflict.client_name})` : ''}`
+    : `${conflict.requested_date} ${conflict.requested_start_time.slice(0, 5)} hour is over the commercial limit`;
+
+export default function ApprovalsPage() {
+  const router = useRouter();
+  const { user: authUser, loading: authLoading } = useUser();
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<PendingJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Clashes found per job; missing until the job has been checked
+  const [conflicts, setConflicts] = useState<Record<string, AirtimeConflict[]>>({});
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<{ id: string; reason: string } | null>(null);
+
+  const canApprove = canApproveJobs(user?.role);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs((await jobsAPI.listPendingApprovals()).rows);
+    } catch (error) {
+      console.error('Error loading approvals:', error);
+      toast.error('Failed to load bookings waiting for approval');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && !authUser) {
+      router.push('/auth/login');
+      return;
+    }
+    if (user && canApprove) loadJobs();
+  }, [authUser, authLoading, user, canApprove, router, loadJobs]);
+
+  const handleCheck = async (job: PendingJob) => {
+    const durationSeconds = job.duration_seconds;
+    if (!durationSeconds) {
+      toast.error('This booking has no spot duration yet');
+      return;
+    }
+
+    try {
+      setCheckingId(job.id);
+      const slots = upcomingDates(job).flatMap(date =>
+        job.air_times.map(time => ({
+          scheduled_date: date,
+          start_time: time.slice(0, 5),
+          end_time: addDurationToTime(time.slice(0, 5), durationSeconds),
+        }))
+      );
+      const found = await schedulesAPI.checkAvailability(slots, { excludeJobId: job.id });
+      setConflicts(prev => ({ ...prev, [job.id]: found }));
+    } catch (error) {
+      console.error('Error checking availability:', error);
+      toast.error('Failed to check availability');
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const handleApprove = async (job: PendingJob) => {
+    try {
+      setApprovingId(job.id);
+      const spotCount = await jobsAPI.approveJob(job.id);
+      toast.success(`${job.title} approved with ${spotCount} spots scheduled`);
+      await loadJobs();
+    } catch (error) {
+      console.error('Error approving job:', error);
+      // 23P01 is raised by the airtime availability trigger
+      const apiError = toApiError(error);
+      toast.error(
+        apiError.code === '23P01'
+          ? `Not approved, a spot clashes: ${apiError.message}`
+          : apiError.message || 'Failed to approve booking'
+      );
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!user || !rejecting) return;
+    if (!rejecting.reason.trim()) {
+      toast.error('Give a reason so the booking can be reworked');
+      return;
+    }
+
+    try {
+      await jobsAPI.rejectJob(rejecting.id, user.id, rejecting.reason.trim());
+      toast.success('Booking rejected');
+      setRejecting(null);
+      await loadJobs();
+    } catch (error) {
+      console.error('Error rejecting job:', error);
+      toast.error('Failed to reject booking');
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Approvals</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Bookings waiting for sign-off. Approving a booking schedules its spots; it is refused if any spot clashes.
+        </p>
+
+        <div className="mt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing is waiting for approval.</p>
+          ) : (
+            <ul className="space-y-4">
+              {jobs.map(job => {
+                const dates = upcomingDates(job);
+                const jobConflicts = conflicts[job.id];
+                return (
+                  <li key={job.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{job.title}</p>
+                        <p className="text-sm text-gray-700">{job.clients?.name}</p>
+                        <p className="mt-1 text-sm text-gray-500">
+                          {formatDuration(job.duration_seconds)} at {formatAirTimes(job.air_times, job.air_time)},{' '}
+                          {dates.length === 0
+                            ? 'no upcoming dates'
+                            : `${dates.length} day${dates.length === 1 ? '' : 's'} from ${format(parseISO(dates[0]), 'd MMM')} to ${format(parseISO(dates[dates.length - 1]), 'd MMM yyyy')}`}
+                          {' · '}{formatCurrency(job.rate)} per spot
+                        </p>
+                        {job.submitted_at && (
+                          <p className="mt-1 text-xs text-gray-400">
+                            Submitted {format(parseISO(job.submitted_at), 'd MMM yyyy HH:mm')}
+                            {job.submitter && ` by ${job.submitter.name}`}
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleCheck(job)}
+                        disabled={checkingId === job.id}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {checkingId === job.id ? 'Checking...' : 'Check Availability'}
+                      </button>
+                    </div>
+
+                    {jobConflicts && (
+                      jobConflicts.length === 0 ? (
+                        <p className="mt-3 text-sm text-green-700">All spots are free.</p>
+                      ) : (
+                        <ul className="mt-3 space-y-1 text-sm text-red-700">
+                          {jobConflicts.map((conflict, index) => (
+                            <li key={`${conflict.schedule_id}-${index}`}>{describeConflict(conflict)}</li>
+                          ))}
+                        </ul>
+                      )
+                    )}
+
+                    {rejecting?.id === job.id ? (
+                      <div className="mt-4 space-y-2">
+                        <textarea
+                          rows={2}
+                          value={rejecting.reason}
+                          onChange={(e) => setRejecting({ id: job.id, reason: e.target.value })}
+                          placeholder="Why the booking can't go ahead"
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setRejecting(null)}
+                            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={handleReject}
+                            className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+                          >
+                            Reject Booking
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mt-4 flex justify-end gap-2">
+                        <button
+                          onClick={() => router.push(`/dashboard/jobs/${job.id}/edit`)}
+                          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setRejecting({ id: job.id, reason: '' })}
+                          className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => handleApprove(job)}
+                          disabled={approvingId === job.id}
+                          className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                        >
+                          {approvingId === job.id ? 'Approving...' : 'Approve'}
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
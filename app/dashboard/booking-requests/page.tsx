@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useUser } from '@/hooks/useUser';
+import { bookingRequestsAPI } from '@/lib/api/index';
+import type { BookingRequest, BookingRequestWithClient } from '@/lib/api/index';
+import { formatCurrency } from '@/lib/utils';
+import { formatDuration } from '@/lib/utils/duration';
+
+const statusColors: Record<BookingRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export default function BookingRequestsPage() {
+  const router = useRouter();
+  const { user, loading: userLoading } = useUser();
+  const [requests, setRequests] = useState<BookingRequestWithClient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  // The request being rejected and the note that goes back to the advertiser
+  const [rejecting, setRejecting] = useState<{ id: string; note: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRequests((await bookingRequestsAPI.listRequests(showAll ? undefined : { status: 'pending' })).rows);
+    } catch (error) {
+      console.error('Error loading booking requests:', error);
+      toast.error('Failed to load booking requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (user) loadRequests();
+  }, [user, userLoading, router, loadRequests]);
+
+  const handleReject = async () => {
+    if (!user || !rejecting) return;
+    if (!rejecting.note.trim()) {
+      toast.error('Tell the advertiser why the request was declined');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await bookingRequestsAPI.rejectRequest(rejecting.id, user.id, rejecting.note.trim());
+      toast.success('Request declined');
+      setRejecting(null);
+      await loadRequests();
+    } catch (error) {
+      console.error('Error rejecting booking request:', error);
+      toast.error('Failed to decline request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">Booking Requests</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Airtime advertisers have asked for through the portal. Create a job to approve a request.
+            </p>
+          </div>
+          <label className="mt-4 sm:mt-0 sm:ml-16 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Show reviewed requests
+          </label>
+        </div>
+
+        <div className="mt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-gray-500">{showAll ? 'No booking requests yet.' : 'No requests waiting for review.'}</p>
+          ) : (
+            <ul className="space-y-4">
+              {requests.map(request => (
+                <li key={request.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{request.title}</p>
+                      <p className="text-sm text-gray-700">
+                        <Link href={`/dashboard/clients/${request.client.id}`} className="text-blue-600 hover:text-blue-800">
+                          {request.client.name}
+                        </Link>
+                        {' · '}requested {format(parseISO(request.created_at), 'd MMM yyyy')}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {formatDuration(request.duration_seconds)} spots, {request.spots_per_day} a day,{' '}
+                        {format(parseISO(request.start_date), 'd MMM')} to {format(parseISO(request.end_date), 'd MMM yyyy')}
+                        {request.preferred_air_times.length > 0 && ` around ${request.preferred_air_times.join(', ')}`}
+                        {request.budget !== null && ` · budget ${formatCurrency(request.budget)}`}
+                      </p>
+                      {request.notes && <p className="mt-1 text-sm text-gray-700">{request.notes}</p>}
+                      {request.review_note && (
+                        <p className="mt-1 text-sm text-gray-500">Review note: {request.review_note}</p>
+                      )}
+                    </div>
+                    <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusColors[request.status]}`}>
+                      {request.status}
+                    </span>
+                  </div>
+
+                  {request.status === 'pending' && request.job_id && (
+                    <p className="mt-2 text-sm text-gray-500">A job has been drafted and is awaiting approval.</p>
+                  )}
+
+                  {request.status === 'pending' && !request.job_id && (
+                    rejecting?.id === request.id ? (
+                      <div className="mt-4 space-y-2">
+                        <textarea
+                          rows={2}
+                          value={rejecting.note}
+                          onChange={(e) => setRejecting({ id: request.id, note: e.target.value })}
+                          placeholder="Reason, e.g. those slots are sold out"
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setRejecting(null)}
+                            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={handleReject}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                          >
+                            {saving ? 'Declining...' : 'Decline Request'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mt-4 flex justify-end gap-2">
+                        <button
+                          onClick={() => setRejecting({ id: request.id, note: '' })}
+                          className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                        >
+                          Decline
+                        </button>
+                        <Link
+                          href={`/dashboard/jobs/new?request=${request.id}`}
+                          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                        >
+                          Create Job
+                        </Link>
+                      </div>
+                    )
+                  )}
+
+                  {request.job_id && (
+                    <p className="mt-2 text-sm">
+                      <Link href={`/dashboard/jobs/${request.job_id}/edit`} className="text-blue-600 hover:text-blue-800">
+                        View job
+                      </Link>
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { ClientForm } from '@/components/clients/ClientForm';
+import type { ClientFormValues } from '@/components/clients/ClientForm';
+import { useUser } from '@/hooks/useUser';
+import { clientsAPI, agenciesAPI } from '@/lib/api/index';
+import { formatCurrency } from '@/lib/utils';
+import type { Database } from '@/lib/database.types';
+
+type Tables = Database['public']['Tables'];
+type Client = Tables['clients']['Row'];
+type Activity = Awaited<ReturnType<typeof clientsAPI.getClientActivity>>;
+type Advertiser = Awaited<ReturnType<typeof clientsAPI.listAdvertisers>>[number];
+
+const MAX_UPCOMING_SPOTS = 10;
+
+// What the client still owes on an invoice once WHT is withheld
+const invoiceBalance = (invoice: Tables['invoices']['Row']) =>
+  invoice.status === 'paid' || invoice.status === 'draft'
+    ? 0
+    : Math.max(invoice.total_amount - invoice.wht_total - invoice.credited_total - invoice.amount_paid, 0);
+
+export default function ClientDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const { user, loading: userLoading } = useUser();
+  const [client, setClient] = useState<Client | null>(null);
+  const [agencyName, setAgencyName] = useState<string | null>(null);
+  const [activity, setActivity] = useState<Activity>({ jobs: [], invoices: [] });
+  const [otherClients, setOtherClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [duplicateId, setDuplicateId] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [advertisers, setAdvertisers] = useState<Advertiser[]>([]);
+  const [advertiserEmail, setAdvertiserEmail] = useState('');
+  const [linking, setLinking] = useState(false);
+
+  const loadClient = useCallback(async () => {
+    try {
+      const [client, activity, clients, advertisers] = await Promise.all([
+        clientsAPI.getClient(params.id),
+        clientsAPI.getClientActivity(params.id),
+        clientsAPI.listClients(),
+        clientsAPI.listAdvertisers(params.id),
+      ]);
+      setClient(client);
+      setActivity(activity);
+      setAdvertisers(advertisers);
+      setOtherClients(clients.rows.filter(other => other.id !== params.id));
+      setAgencyName(client.agency_id ? (await agenciesAPI.getAgency(client.agency_id)).name : null);
+    } catch (error) {
+      console.error('Error loading client:', error);
+      toast.error('Failed to load client');
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (user) loadClient();
+  }, [user, userLoading, router, loadClient]);
+
+  const handleUpdate = async (values: ClientFormValues) => {
+    try {
+      await clientsAPI.updateClient(params.id, { ...values, updated_at: new Date().toISOString() });
+      toast.success('Client updated');
+      setEditing(false);
+      await loadClient();
+    } catch (error) {
+      console.error('Error updating client:', error);
+      toast.error('Failed to update client');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!duplicateId) return;
+    try {
+      setMerging(true);
+      await clientsAPI.mergeClients(params.id, duplicateId);
+      toast.success('Clients merged');
+      setDuplicateId('');
+      await loadClient();
+    } catch (error) {
+      console.error('Error merging clients:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge clients');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleLinkAdvertiser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!advertiserEmail.trim()) return;
+    try {
+      setLinking(true);
+      await clientsAPI.linkAdvertiser(advertiserEmail.trim(), params.id);
+      toast.success('Portal access granted');
+      setAdvertiserEmail('');
+      setAdvertisers(await clientsAPI.listAdvertisers(params.id));
+    } catch (error) {
+      console.error('Error linking advertiser:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to grant portal access');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleUnlinkAdvertiser = async (advertiser: Advertiser) => {
+    if (!confirm(`Remove ${advertiser.email}'s portal access?`)) return;
+    try {
+      await clientsAPI.unlinkAdvertiser(advertiser.id);
+      toast.success('Portal access removed');
+      setAdvertisers(await clientsAPI.listAdvertisers(params.id));
+    } catch (error) {
+      console.error('Error unlinking advertiser:', error);
+      toast.error('Failed to remove portal access');
+    }
+  };
+
+  if (loading || !client) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-8">
+          {loading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          ) : (
+            <p className="text-sm text-gray-500">Client not found.</p>
+          )}
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcomingSpots = activity.jobs
+    .flatMap(job => job.schedules.map(schedule => ({ ...schedule, jobTitle: job.title })))
+    .filter(spot => spot.status === 'upcoming' && spot.scheduled_date >= today)
+    .sort((a, b) => `${a.scheduled_date} ${a.start_time}`.localeCompare(`${b.scheduled_date} ${b.start_time}`));
+  // Drafts haven't been billed yet
+  const invoicedTotal = activity.invoices
+    .filter(invoice => invoice.status !== 'draft')
+    .reduce((sum, invoice) => sum + invoice.total_amount, 0);
+  const outstanding = activity.invoices.reduce((sum, invoice) => sum + invoiceBalance(invoice), 0);
+  const duplicate = otherClients.find(other => other.id === duplicateId);
+
+  const stats = [
+    { label: 'Jobs', value: activity.jobs.length.toString() },
+    { label: 'Upcoming Spots', value: upcomingSpots.length.toString() },
+    { label: 'Invoiced', value: formatCurrency(invoicedTotal) },
+    { label: 'Outstanding', value: formatCurrency(outstanding) },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="sm:flex sm:items-start sm:justify-between">
+          <div>
+            <Link href="/dashboard/clients" className="text-sm text-blue-600 hover:text-blue-800">&larr; All clients</Link>
+            <h1 className="mt-2 text-2xl font-semibold text-gray-900">{client.name}</h1>
+            <div className="mt-2 text-sm text-gray-500 space-y-1">
+              {client.contact_person && <p>{client.contact_person}</p>}
+              {[client.email, client.phone].filter(Boolean).length > 0 && (
+                <p>{[client.email, client.phone].filter(Boolean).join(' | ')}</p>
+              )}
+              {client.address && <p>{client.address}</p>}
+              <p>{agencyName ? `Books through ${agencyName}` : 'Books direct'}</p>
+            </div>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing(true)}
+              className="mt-4 sm:mt-0 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+            >
+              Edit Details
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <ClientForm client={client} onSubmit={handleUpdate} onCancel={() => setEditing(false)} />
+        )}
+
+        <dl className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+              <dt className="text-sm text-gray-500">{stat.label}</dt>
+              <dd className="mt-1 text-xl font-semibold text-gray-900">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900">Jobs</h2>
+          {activity.jobs.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No jobs booked yet.</p>
+          ) : (
+            <div className="mt-3 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Spots</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {activity.jobs.map(job => (
+                    <tr key={job.id}>
+                      <td className="px-6 py-4 text-sm font-medium">
+                        <Link href={`/dashboard/jobs/${job.id}/edit`} className="text-blue-600 hover:text-blue-800">
+                          {job.title}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 capitalize">{job.status.replace('_', ' ')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{job.schedules.length}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(job.rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900">Upcoming Spots</h2>
+          {upcomingSpots.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">Nothing scheduled.</p>
+          ) : (
+            <ul className="mt-3 divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+              {upcomingSpots.slice(0, MAX_UPCOMING_SPOTS).map(spot => (
+                <li key={spot.id} className="flex justify-between px-6 py-3 text-sm">
+                  <span className="text-gray-900">{spot.jobTitle}</span>
+                  <span className="text-gray-500">
+                    {format(parseISO(spot.scheduled_date), 'EEE d MMM yyyy')} at {spot.start_time.slice(0, 5)}
+                  </span>
+                </li>
+              ))}
+              {upcomingSpots.length > MAX_UPCOMING_SPOTS && (
+                <li className="px-6 py-3 text-sm text-gray-500">
+                  and {upcomingSpots.length - MAX_UPCOMING_SPOTS} more
+                </li>
+              )}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900">Invoices</h2>
+          {activity.invoices.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No invoices yet.</p>
+          ) : (
+            <div className="mt-3 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {activity.invoices.map(invoice => (
+                    <tr key={invoice.id}>
+                      <td className="px-6 py-4 text-sm font-medium">
+                        <Link href={`/dashboard/invoices/${invoice.id}`} className="text-blue-600 hover:text-blue-800">
+                          {invoice.invoice_number ?? 'Draft'}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{format(parseISO(invoice.due_date), 'd MMM yyyy')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500 capitalize">{invoice.status.replace('_', ' ')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(invoice.total_amount)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(invoiceBalance(invoice))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-medium text-gray-900">Portal Access</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Advertiser accounts that can see {client.name}&apos;s campaigns and invoices and request bookings.
+            The advertiser signs up first, then you link them here by email.
+          </p>
+          {advertisers.length > 0 && (
+            <ul className="mt-4 divide-y divide-gray-200">
+              {advertisers.map(advertiser => (
+                <li key={advertiser.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-900">
+                    {advertiser.name} <span className="text-gray-500">({advertiser.email})</span>
+                  </span>
+                  <button
+                    onClick={() => handleUnlinkAdvertiser(advertiser)}
+                    className="text-red-600 hover:text-red-800 font-medium"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleLinkAdvertiser} className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center">
+            <input
+              type="email"
+              value={advertiserEmail}
+              onChange={(e) => setAdvertiserEmail(e.target.value)}
+              placeholder="advertiser@example.com"
+              className="block w-full max-w-md rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <button
+              type="submit"
+              disabled={linking || !advertiserEmail.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {linking ? 'Linking...' : 'Give Access'}
+            </button>
+          </form>
+        </section>
+
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-medium text-gray-900">Merge a Duplicate</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Moves the duplicate&apos;s jobs, invoices, booking requests and advertiser logins to {client.name}, fills in any missing contact details, then deletes the duplicate.
+          </p>
+          <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center">
+            <select
+              value={duplicateId}
+              onChange={(e) => setDuplicateId(e.target.value)}
+              className="block w-full max-w-md rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="">Choose the duplicate client</option>
+              {otherClients.map(other => (
+                <option key={other.id} value={other.id}>
+                  {other.name}{other.email ? ` (${other.email})` : ''}
+                </option>
+              ))}
+            </select>
+            {duplicate && (
+              <button
+                onClick={handleMerge}
+                disabled={merging}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md shadow-sm hover:bg-red-700 disabled:opacity-50"
+              >
+                {merging ? 'Merging...' : `Merge ${duplicate.name} into ${client.name}`}
+              </button>
+            )}
+          </div>
+          {duplicate && (
+            <p className="mt-2 text-sm text-red-600">{duplicate.name} will be deleted. This cannot be undone.</p>
+          )}
+        </section>
+      </div>
+    </DashboardLayout>
+  );
+}
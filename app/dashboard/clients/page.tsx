@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { ClientForm } from '@/components/clients/ClientForm';
+import type { ClientFormValues } from '@/components/clients/ClientForm';
+import { useUser } from '@/hooks/useUser';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { clientsAPI, agenciesAPI } from '@/lib/api/index';
+import type { Database } from '@/lib/database.types';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+
+const SEARCH_LIMIT = 50;
+
+export default function ClientsPage() {
+  const router = useRouter();
+  const { user, loading: userLoading } = useUser();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [agencyNames, setAgencyNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [adding, setAdding] = useState(false);
+  // Ranked matches for the search box; null when not searching
+  const [searchResults, setSearchResults] = useState<Client[] | null>(null);
+  const query = useDebouncedValue(search.trim());
+
+  const loadClients = async () => {
+    try {
+      const [clients, agencies] = await Promise.all([clientsAPI.listClients(), agenciesAPI.listAgencies()]);
+      setClients(clients.rows);
+      setAgencyNames(Object.fromEntries(agencies.rows.map(agency => [agency.id, agency.name])));
+    } catch (error) {
+      console.error('Error loading clients:', error);
+      toast.error('Failed to load clients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (user) loadClients();
+  }, [user, userLoading, router]);
+
+  useEffect(() => {
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let stale = false;
+    clientsAPI.searchClients(query, SEARCH_LIMIT)
+      .then(results => {
+        if (!stale) setSearchResults(results);
+      })
+      .catch(error => {
+        console.error('Error searching clients:', error);
+        toast.error('Failed to search clients');
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [query]);
+
+  const handleCreate = async (values: ClientFormValues) => {
+    if (!user) return;
+    try {
+      const client = await clientsAPI.createClient({ ...values, created_by: user.id });
+      toast.success('Client added');
+      router.push(`/dashboard/clients/${client.id}`);
+    } catch (error) {
+      console.error('Error creating client:', error);
+      toast.error('Failed to add client');
+    }
+  };
+
+  const filteredClients = searchResults ?? clients;
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">Clients</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Advertisers the station books airtime for.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              onClick={() => setAdding(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+            >
+              Add Client
+            </button>
+          </div>
+        </div>
+
+        {adding && (
+          <div className="mt-6">
+            <ClientForm onSubmit={handleCreate} onCancel={() => setAdding(false)} />
+          </div>
+        )}
+
+        <div className="mt-6">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, contact, email or phone"
+            className="block w-full max-w-md rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+
+        <div className="mt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : filteredClients.length === 0 ? (
+            <p className="text-sm text-gray-500">{query ? 'No clients match your search.' : 'No clients yet.'}</p>
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agency</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {filteredClients.map((client) => (
+                    <tr key={client.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm font-medium">
+                        <Link href={`/dashboard/clients/${client.id}`} className="text-blue-600 hover:text-blue-800">
+                          {client.name}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {client.contact_person}
+                        {client.email && <p>{client.email}</p>}
+                        {client.phone && <p>{client.phone}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {client.agency_id ? agencyNames[client.agency_id] : 'Direct'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,526 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { invoicesAPI, jobsAPI, schedulesAPI, taxRulesAPI, isNotFound } from '@/lib/api/index';
+import type { InvoiceDocument, InvoiceItemInput, JobWithClient } from '@/lib/api/index';
+import { useAuth } from '@/context/AuthContext';
+import { can } from '@/lib/utils/permissions';
+import { formatCurrency } from '@/lib/utils';
+import { isJobApproved } from '@/lib/utils/jobs';
+import { getDefaultTaxCode } from '@/lib/utils/tax';
+import type { TaxRule } from '@/lib/utils/tax';
+import { TotalsBreakdown } from '@/components/invoices/PricingFields';
+
+type InvoiceItem = InvoiceDocument['invoice_items'][number];
+
+type LineFormData = {
+  job_id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  discount_rate: number;
+  commission_rate: number;
+  tax_code: string;
+  wht_code: string;
+};
+
+const cellInputClass = "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+const inputClass = `mt-1 ${cellInputClass}`;
+
+const toLineFormData = (item: InvoiceItem): LineFormData => ({
+  job_id: item.job_id,
+  description: item.description,
+  quantity: item.quantity,
+  rate: item.rate,
+  discount_rate: item.discount_rate,
+  commission_rate: item.commission_rate,
+  tax_code: item.tax_code ?? '',
+  wht_code: item.wht_code ?? '',
+});
+
+const toItemInput = (line: LineFormData): Omit<InvoiceItemInput, 'schedule_ids'> => ({
+  ...line,
+  tax_code: line.tax_code || null,
+  wht_code: line.wht_code || null,
+});
+
+// One editable row; amounts shown are the ones the database last priced
+function LineFields({
+  line,
+  taxRules,
+  onChange,
+}: {
+  line: LineFormData;
+  taxRules: TaxRule[];
+  onChange: (line: LineFormData) => void;
+}) {
+  const number = (value: string) => parseFloat(value) || 0;
+
+  return (
+    <>
+      <td className="px-2 py-2">
+        <input
+          type="text"
+          value={line.description}
+          onChange={(e) => onChange({ ...line, description: e.target.value })}
+          className={cellInputClass}
+          required
+        />
+      </td>
+      <td className="px-2 py-2 w-20">
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={line.quantity}
+          onChange={(e) => onChange({ ...line, quantity: number(e.target.value) })}
+          className={`${cellInputClass} text-right`}
+        />
+      </td>
+      <td className="px-2 py-2 w-32">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={line.rate}
+          onChange={(e) => onChange({ ...line, rate: number(e.target.value) })}
+          className={`${cellInputClass} text-right`}
+        />
+      </td>
+      <td className="px-2 py-2 w-20">
+        <input
+          type="number"
+          min="0"
+          max="100"
+          step="0.01"
+          value={line.discount_rate}
+          onChange={(e) => onChange({ ...line, discount_rate: number(e.target.value) })}
+          className={`${cellInputClass} text-right`}
+        />
+      </td>
+      <td className="px-2 py-2 w-20">
+        <input
+          type="number"
+          min="0"
+          max="100"
+          step="0.01"
+          value={line.commission_rate}
+          onChange={(e) => onChange({ ...line, commission_rate: number(e.target.value) })}
+          className={`${cellInputClass} text-right`}
+        />
+      </td>
+      <td className="px-2 py-2 w-32">
+        <select
+          value={line.tax_code}
+          onChange={(e) => onChange({ ...line, tax_code: e.target.value })}
+          className={cellInputClass}
+        >
+          <option value="">No VAT</option>
+          {taxRules.filter(rule => rule.kind === 'vat').map(rule => (
+            <option key={rule.code} value={rule.code}>{rule.name}</option>
+          ))}
+        </select>
+        <select
+          value={line.wht_code}
+          onChange={(e) => onChange({ ...line, wht_code: e.target.value })}
+          className={`${cellInputClass} mt-1`}
+        >
+          <option value="">No WHT</option>
+          {taxRules.filter(rule => rule.kind === 'withholding').map(rule => (
+            <option key={rule.code} value={rule.code}>{rule.name}</option>
+          ))}
+        </select>
+      </td>
+    </>
+  );
+}
+
+export default function EditInvoicePage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const { user: profile } = useAuth();
+  const canManage = can(profile?.role, 'invoices:manage');
+  const [invoice, setInvoice] = useState<InvoiceDocument | null>(null);
+  const [jobs, setJobs] = useState<JobWithClient[]>([]);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [details, setDetails] = useState({ due_date: '', notes: '', discount_rate: 0 });
+  // Unsaved edits, keyed by line
+  const [edits, setEdits] = useState<Record<string, LineFormData>>({});
+  const [newLine, setNewLine] = useState<LineFormData | null>(null);
+
+  const loadInvoice = useCallback(async () => {
+    try {
+      const data = await invoicesAPI.getInvoice(params.id);
+      setInvoice(data);
+      setDetails({ due_date: data.due_date, notes: data.notes ?? '', discount_rate: data.discount_rate });
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      setError(isNotFound(error) ? 'Invoice not found' : 'Failed to load invoice');
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    loadInvoice();
+    taxRulesAPI.listTaxRules({ activeOnly: true })
+      .then(setTaxRules)
+      .catch(error => console.error('Error loading tax rules:', error));
+  }, [loadInvoice]);
+
+  useEffect(() => {
+    if (!invoice) return;
+    jobsAPI.listJobs({ clientId: invoice.client_id })
+      .then(({ rows }) => setJobs(rows.filter(job => isJobApproved(job.status) && job.status !== 'cancelled')))
+      .catch(error => console.error('Error loading jobs:', error));
+  }, [invoice?.client_id]);
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+      toast.success(success);
+      await loadInvoice();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(
+      () => invoicesAPI.updateInvoice(params.id, {
+        due_date: details.due_date,
+        notes: details.notes.trim() || null,
+        discount_rate: details.discount_rate,
+      }),
+      'Invoice details saved',
+      'Failed to save invoice details'
+    );
+  };
+
+  const handleSaveLine = async (item: InvoiceItem) => {
+    const saved = await run(
+      () => invoicesAPI.updateInvoiceItem(item.id, toItemInput(edits[item.id])),
+      'Line saved',
+      'Failed to save line'
+    );
+    if (saved) {
+      setEdits(({ [item.id]: _saved, ...rest }) => rest);
+    }
+  };
+
+  const handleRemoveLine = async (item: InvoiceItem) => {
+    if (invoice?.invoice_items.length === 1) {
+      toast.error('An invoice needs at least one line; delete the draft instead');
+      return;
+    }
+    if (!confirm(`Remove "${item.description}" from the invoice?`)) return;
+    await run(() => invoicesAPI.deleteInvoiceItem(item.id), 'Line removed', 'Failed to remove line');
+  };
+
+  const startNewLine = () => {
+    setNewLine({
+      job_id: '',
+      description: '',
+      quantity: 1,
+      rate: 0,
+      discount_rate: 0,
+      commission_rate: 0,
+      tax_code: getDefaultTaxCode(taxRules, 'vat') ?? '',
+      wht_code: getDefaultTaxCode(taxRules, 'withholding') ?? '',
+    });
+  };
+
+  // Starts the line from the job's booking
+  const handleNewLineJob = async (jobId: string) => {
+    const job = jobs.find(job => job.id === jobId);
+    if (!job || !newLine) return;
+
+    setNewLine({
+      ...newLine,
+      job_id: job.id,
+      description: job.title,
+      rate: job.rate || 0,
+      discount_rate: job.discount_rate,
+      commission_rate: job.commission_rate,
+    });
+    try {
+      const spots = await schedulesAPI.countSpots(job.id);
+      setNewLine(prev => (prev?.job_id === job.id ? { ...prev, quantity: Math.max(spots, 1) } : prev));
+    } catch (error) {
+      console.error('Error counting scheduled spots:', error);
+    }
+  };
+
+  const handleAddLine = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLine?.job_id) {
+      toast.error('Choose the job this line bills');
+      return;
+    }
+    const added = await run(
+      () => invoicesAPI.addInvoiceItem(params.id, toItemInput(newLine)),
+      'Line added',
+      'Failed to add line'
+    );
+    if (added) setNewLine(null);
+  };
+
+  const handleIssue = async () => {
+    if (Object.keys(edits).length && !confirm('Some line changes are not saved. Issue the invoice without them?')) return;
+    if (!confirm('Issue this invoice? It will be numbered and its lines can no longer be changed.')) return;
+
+    const issued = await run(() => invoicesAPI.issueInvoice(params.id), 'Invoice issued', 'Failed to issue invoice');
+    if (issued) router.push(`/dashboard/invoices/${params.id}`);
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!invoice || !canManage || invoice.status !== 'draft') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">
+            {!invoice ? error || 'Invoice not found' : !canManage ? 'You cannot edit invoices' : 'This invoice has been issued'}
+          </h3>
+          {invoice && canManage && (
+            <p className="mt-1 text-sm text-gray-500">
+              Issued invoices can&apos;t be changed; raise a credit note from the invoice instead.
+            </p>
+          )}
+          <button
+            onClick={() => router.push(invoice ? `/dashboard/invoices/${invoice.id}` : '/dashboard/invoices')}
+            className="mt-4 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {invoice ? 'Back to Invoice' : 'Back to Invoices'}
+          </button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div>
+          <button
+            onClick={() => router.push(`/dashboard/invoices/${invoice.id}`)}
+            className="text-gray-500 hover:text-gray-700 text-sm font-medium flex items-center"
+          >
+            ← Back to Invoice
+          </button>
+          <h1 className="mt-4 text-3xl font-bold text-gray-900">Edit Draft Invoice</h1>
+          <p className="mt-2 text-gray-500">
+            {invoice.client.name}
+            {invoice.agency && ` c/o ${invoice.agency.name}`}. The invoice is numbered and its lines locked when it is issued.
+          </p>
+        </div>
+
+        {/* Invoice details */}
+        <form onSubmit={handleSaveDetails} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Details</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="due_date" className="block text-sm font-medium text-gray-700">Due Date</label>
+              <input
+                type="date"
+                id="due_date"
+                value={details.due_date}
+                onChange={(e) => setDetails({ ...details, due_date: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="discount_rate" className="block text-sm font-medium text-gray-700">Invoice Discount (%)</label>
+              <input
+                type="number"
+                id="discount_rate"
+                min="0"
+                max="100"
+                step="0.01"
+                value={details.discount_rate}
+                onChange={(e) => setDetails({ ...details, discount_rate: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700">Notes</label>
+            <textarea
+              id="notes"
+              rows={3}
+              value={details.notes}
+              onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Details
+            </button>
+          </div>
+        </form>
+
+        {/* Lines */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Lines</h2>
+            {!newLine && (
+              <button
+                onClick={startNewLine}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Add Line
+              </button>
+            )}
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="px-2 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Spots</th>
+                <th className="px-2 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                <th className="px-2 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Disc. %</th>
+                <th className="px-2 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Comm. %</th>
+                <th className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax</th>
+                <th className="px-2 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-2 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoice.invoice_items.map(item => (
+                <tr key={item.id}>
+                  <LineFields
+                    line={edits[item.id] ?? toLineFormData(item)}
+                    taxRules={taxRules}
+                    onChange={(line) => setEdits({ ...edits, [item.id]: line })}
+                  />
+                  <td className="px-2 py-2 text-sm text-gray-900 text-right whitespace-nowrap">
+                    {formatCurrency(item.amount)}
+                  </td>
+                  <td className="px-2 py-2 text-sm text-right whitespace-nowrap space-x-3">
+                    {edits[item.id] && (
+                      <button
+                        onClick={() => handleSaveLine(item)}
+                        disabled={saving}
+                        className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemoveLine(item)}
+                      disabled={saving}
+                      className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {newLine && (
+            <form onSubmit={handleAddLine} className="mt-6 rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-4">
+              <div>
+                <label htmlFor="new_line_job" className="block text-sm font-medium text-gray-700">Job</label>
+                <select
+                  id="new_line_job"
+                  value={newLine.job_id}
+                  onChange={(e) => handleNewLineJob(e.target.value)}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select one of {invoice.client.name}&apos;s jobs</option>
+                  {jobs.map(job => (
+                    <option key={job.id} value={job.id}>{job.title}</option>
+                  ))}
+                </select>
+              </div>
+              <table className="min-w-full">
+                <tbody>
+                  <tr>
+                    <LineFields line={newLine} taxRules={taxRules} onChange={setNewLine} />
+                  </tr>
+                </tbody>
+              </table>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setNewLine(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Add Line
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="mt-6 max-w-sm ml-auto">
+            <TotalsBreakdown
+              totals={{
+                gross_total: invoice.gross_total,
+                discount_total: invoice.discount_total,
+                commission_total: invoice.commission_total,
+                subtotal: invoice.subtotal,
+                tax_total: invoice.tax_total,
+                wht_total: invoice.wht_total,
+                total_amount: invoice.total_amount,
+                amount_due: invoice.total_amount - invoice.wht_total,
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4">
+          <button
+            onClick={() => router.push(`/dashboard/invoices/${invoice.id}`)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            Done
+          </button>
+          <button
+            onClick={handleIssue}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Issue Invoice
+          </button>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -2,28 +2,39 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { supabase } from '@/lib/supabase';
-import type { Database } from '@/lib/database.types';
 import { downloadInvoicePDF } from '@/lib/utils/pdfGenerator';
+import { PaymentsPanel } from '@/components/invoices/PaymentsPanel';
+import { CreditNotesPanel } from '@/components/invoices/CreditNotesPanel';
+import { invoicesAPI, organisationAPI, isNotFound } from '@/lib/api/index';
+import type { InvoiceDocument } from '@/lib/api/index';
+import { useAuth } from '@/context/AuthContext';
+import { can } from '@/lib/utils/permissions';
+import { describeOrganisation, describeBankDetails, describePaymentTerms } from '@/lib/utils/organisation';
+import type { OrganisationSettings } from '@/lib/utils/organisation';
 
-type InvoiceItem = Database['public']['Tables']['invoice_items']['Row'] & {
-  job: Database['public']['Tables']['jobs']['Row'];
-};
-
-type Invoice = Database['public']['Tables']['invoices']['Row'] & {
-  client: Database['public']['Tables']['clients']['Row'];
-  invoice_items: InvoiceItem[];
-};
+type Invoice = InvoiceDocument;
 
-type InvoiceStatus = 'pending' | 'paid' | 'overdue';
+type InvoiceStatus = Invoice['status'];
 
 const statusColors: Record<InvoiceStatus, { bg: string; text: string; icon: string }> = {
+  'draft': {
+    bg: 'bg-gray-50 border-gray-200',
+    text: 'text-gray-700',
+    icon: '✎'
+  },
   'pending': {
     bg: 'bg-yellow-50 border-yellow-200',
     text: 'text-yellow-800',
     icon: '⏳'
   },
+  'partially_paid': {
+    bg: 'bg-blue-50 border-blue-200',
+    text: 'text-blue-800',
+    icon: '◐'
+  },
   'paid': {
     bg: 'bg-green-50 border-green-200',
     text: 'text-green-800',
@@ -34,13 +45,28 @@ const statusColors: Record<InvoiceStatus, { bg: string; text: string; icon: stri
     text: 'text-red-800',
     icon: '⚠'
   },
+  'credited': {
+    bg: 'bg-purple-50 border-purple-200',
+    text: 'text-purple-800',
+    icon: '↺'
+  },
 };
 
 export default function InvoiceDetailsPage({ params }: { params: { id: string } }) {
   const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [organisation, setOrganisation] = useState<OrganisationSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
   const router = useRouter();
+  const { user: profile } = useAuth();
+  const canManage = can(profile?.role, 'invoices:manage');
+
+  useEffect(() => {
+    organisationAPI.getSettings()
+      .then(setOrganisation)
+      .catch(error => console.error('Error loading organisation settings:', error));
+  }, []);
 
   useEffect(() => {
     loadInvoice();
@@ -68,33 +94,46 @@ export default function InvoiceDetailsPage({ params }: { params: { id: string }
 
   const loadInvoice = async () => {
     try {
-      const { data: invoice, error } = await supabase
-        .from('invoices')
-        .select(`
-          *,
-          client:clients (
-            *
-          ),
-          invoice_items (
-            *,
-            job:jobs (
-              *
-            )
-          )
-        `)
-        .eq('id', params.id)
-        .single();
-
-      if (error) throw error;
-      setInvoice(invoice as Invoice);
+      setInvoice(await invoicesAPI.getInvoice(params.id));
     } catch (error) {
       console.error('Error loading invoice:', error);
-      setError('Failed to load invoice details');
+      setError(isNotFound(error) ? 'Invoice not found' : 'Failed to load invoice details');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleIssue = async () => {
+    if (!confirm('Issue this invoice? It will be numbered and its lines can no longer be changed.')) return;
+
+    try {
+      setSaving(true);
+      const issued = await invoicesAPI.issueInvoice(params.id);
+      toast.success(`Invoice ${issued.invoice_number} issued`);
+      await loadInvoice();
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to issue invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteDraft = async () => {
+    if (!confirm('Delete this draft invoice?')) return;
+
+    try {
+      setSaving(true);
+      await invoicesAPI.deleteDraftInvoice(params.id);
+      toast.success('Draft deleted');
+      router.push('/dashboard/invoices');
+    } catch (error) {
+      console.error('Error deleting draft invoice:', error);
+      toast.error('Failed to delete draft');
+      setSaving(false);
+    }
+  };
+
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-NG', {
       year: 'numeric',
@@ -158,15 +197,31 @@ export default function InvoiceDetailsPage({ params }: { params: { id: string }
               } ${statusColors[invoice.status as InvoiceStatus].text}`}
             >
               <span className="mr-1">{statusColors[invoice.status as InvoiceStatus].icon}</span>
-              {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+              {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1).replace('_', ' ')}
             </span>
           </div>
           <h1 className="mt-4 text-3xl font-bold text-gray-900">
-            Invoice #{invoice.invoice_number}
+            {invoice.invoice_number ? `Invoice #${invoice.invoice_number}` : 'Draft Invoice'}
           </h1>
           <p className="mt-2 text-gray-500">
-            Created on {formatDate(invoice.created_at)}
+            {invoice.issued_at
+              ? `Issued on ${formatDate(invoice.issued_at)}`
+              : `Created on ${formatDate(invoice.created_at)}; numbered when issued`}
           </p>
+          {organisation && (
+            <div className="mt-4 flex items-center space-x-4">
+              {organisation.logo_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={organisation.logo_url} alt="" className="h-12 w-12 object-contain" />
+              )}
+              <div>
+                <p className="text-sm font-semibold text-gray-900">{organisation.station_name}</p>
+                {describeOrganisation(organisation).map(line => (
+                  <p key={line} className="text-xs text-gray-500">{line}</p>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
@@ -184,6 +239,13 @@ export default function InvoiceDetailsPage({ params }: { params: { id: string }
                 <p className="mt-1 text-sm text-gray-900">{invoice.client.email}</p>
                 <p className="mt-1 text-sm text-gray-500">{invoice.client.phone}</p>
               </div>
+              {invoice.agency && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Agency</h3>
+                  <p className="mt-1 text-sm text-gray-900">{invoice.agency.name}</p>
+                  <p className="mt-1 text-sm text-gray-500">{invoice.agency.contact_person}</p>
+                </div>
+              )}
             </div>
           </div>
 
@@ -197,6 +259,15 @@ export default function InvoiceDetailsPage({ params }: { params: { id: string }
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Job
                     </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Spots
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Rate
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      VAT
+                    </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Amount
                     </th>
@@ -208,19 +279,70 @@ export default function InvoiceDetailsPage({ params }: { params: { id: string }
                       <td className="px-6 py-4 text-sm text-gray-900">
                         {item.job.title}
                       </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                        {item.quantity}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                        {formatCurrency(item.rate)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                        {item.tax_code ? `${item.tax_rate}%` : '—'}
+                        {item.wht_code && (
+                          <p className="text-xs text-gray-500">WHT {item.wht_rate}%</p>
+                        )}
+                      </td>
                       <td className="px-6 py-4 text-sm text-gray-900 text-right">
                         {formatCurrency(item.amount)}
+                        {item.gross_amount !== item.amount && (
+                          <p className="text-xs text-gray-500">
+                            Gross {formatCurrency(item.gross_amount)}
+                            {item.discount_amount > 0 && `, less ${formatCurrency(item.discount_amount)} discount`}
+                            {item.commission_amount > 0 && `, less ${formatCurrency(item.commission_amount)} commission (${item.commission_rate}%)`}
+                          </p>
+                        )}
                       </td>
                     </tr>
                   ))}
-                  <tr className="bg-gray-50">
-                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
-                      Total Amount
-                    </td>
-                    <td className="px-6 py-4 text-sm font-medium text-gray-900 text-right">
-                      {formatCurrency(invoice.total_amount)}
-                    </td>
-                  </tr>
+                  {[
+                    ...(invoice.gross_total !== invoice.subtotal ? [['Gross', invoice.gross_total]] : []),
+                    ...(invoice.discount_total > 0 ? [['Less Discount', -invoice.discount_total]] : []),
+                    ...(invoice.commission_total > 0 ? [['Less Agency Commission', -invoice.commission_total]] : []),
+                    ['Subtotal', invoice.subtotal],
+                    ['VAT', invoice.tax_total],
+                    ['Total Amount', invoice.total_amount],
+                  ].map(([label, value]) => (
+                    <tr key={label} className="bg-gray-50">
+                      <td colSpan={4} className="px-6 py-2 text-sm font-medium text-gray-900">
+                        {label}
+                      </td>
+                      <td className="px-6 py-2 text-sm font-medium text-gray-900 text-right">
+                        {(value as number) < 0 ? `(${formatCurrency(-(value as number))})` : formatCurrency(value as number)}
+                      </td>
+                    </tr>
+                  ))}
+                  {[
+                    ...(invoice.wht_total > 0 ? [['Less Withholding Tax', invoice.wht_total]] : []),
+                    ...(invoice.credited_total > 0 ? [['Less Credit Notes', invoice.credited_total]] : []),
+                  ].map(([label, value]) => (
+                    <tr key={label} className="bg-gray-50">
+                      <td colSpan={4} className="px-6 py-2 text-sm font-medium text-gray-900">
+                        {label}
+                      </td>
+                      <td className="px-6 py-2 text-sm font-medium text-gray-900 text-right">
+                        ({formatCurrency(value as number)})
+                      </td>
+                    </tr>
+                  ))}
+                  {(invoice.wht_total > 0 || invoice.credited_total > 0) && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={4} className="px-6 py-2 text-sm font-semibold text-gray-900">
+                        Amount Due
+                      </td>
+                      <td className="px-6 py-2 text-sm font-semibold text-gray-900 text-right">
+                        {formatCurrency(invoice.total_amount - invoice.wht_total - invoice.credited_total)}
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -234,30 +356,91 @@ export default function InvoiceDetailsPage({ params }: { params: { id: string }
                 <h3 className="text-sm font-medium text-gray-500">Due Date</h3>
                 <p className="mt-1 text-sm text-gray-900">{formatDate(invoice.due_date)}</p>
               </div>
+              {invoice.billing_period_start && invoice.billing_period_end && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Billing Period</h3>
+                  <p className="mt-1 text-sm text-gray-900">
+                    {formatDate(invoice.billing_period_start)} - {formatDate(invoice.billing_period_end)}
+                  </p>
+                </div>
+              )}
               <div>
                 <h3 className="text-sm font-medium text-gray-500">Payment Status</h3>
                 <p className="mt-1 text-sm text-gray-900">
-                  {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                  {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1).replace('_', ' ')}
                 </p>
               </div>
             </div>
+            {organisation && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium text-gray-500">Payment Terms</h3>
+                <p className="mt-1 text-sm text-gray-900">{describePaymentTerms(organisation)}</p>
+                {describeBankDetails(organisation).map(line => (
+                  <p key={line} className="mt-1 text-sm text-gray-500">{line}</p>
+                ))}
+              </div>
+            )}
+            {invoice.notes && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium text-gray-500">Notes</h3>
+                <p className="mt-1 text-sm text-gray-900 whitespace-pre-line">{invoice.notes}</p>
+              </div>
+            )}
           </div>
+
+          {/* Payments and credit notes; drafts have neither until issued */}
+          {invoice.status !== 'draft' && (
+            <>
+              <PaymentsPanel
+                invoice={invoice}
+                formatCurrency={formatCurrency}
+                formatDate={formatDate}
+                onChange={loadInvoice}
+              />
+              <CreditNotesPanel
+                invoice={invoice}
+                organisation={organisation}
+                formatCurrency={formatCurrency}
+                formatDate={formatDate}
+                onChange={loadInvoice}
+              />
+            </>
+          )}
         </div>
 
         {/* Actions */}
         <div className="mt-8 flex justify-end space-x-4">
+          {canManage && invoice.status === 'draft' && (
+            <>
+              <button
+                onClick={handleDeleteDraft}
+                disabled={saving}
+                className="inline-flex items-center px-4 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+              >
+                Delete Draft
+              </button>
+              <button
+                onClick={() => router.push(`/dashboard/invoices/${invoice.id}/edit`)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Edit Invoice
+              </button>
+              <button
+                onClick={handleIssue}
+                disabled={saving}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                Issue Invoice
+              </button>
+            </>
+          )}
           <button
-            onClick={() => downloadInvoicePDF(invoice)}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            onClick={() => organisation && downloadInvoicePDF(invoice, organisation)}
+            disabled={!organisation}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
           >
             Download PDF
           </button>
-          <button
-            onClick={() => {/* Add mark as paid functionality */}}
-            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-          >
-            Mark as Paid
-          </button>
         </div>
       </div>
     </DashboardLayout>
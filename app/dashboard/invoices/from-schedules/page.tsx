@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useUser } from '@/hooks/useUser';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { toast } from 'react-hot-toast';
+import { format, parseISO, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { clientsAPI, invoicesAPI, taxRulesAPI, organisationAPI } from '@/lib/api/index';
+import { summariseAiredSpots } from '@/lib/utils/billing';
+import type { AiredSpotsSummary } from '@/lib/utils/billing';
+import { getDefaultTaxCode } from '@/lib/utils/tax';
+import type { TaxRule } from '@/lib/utils/tax';
+import { priceInvoice } from '@/lib/utils/pricing';
+import { defaultDueDate } from '@/lib/utils/organisation';
+import { TaxCodeFields, TotalsBreakdown } from '@/components/invoices/PricingFields';
+import { formatCurrency } from '@/lib/utils';
+import type { Database } from '@/lib/database.types';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+
+const lastMonth = subMonths(new Date(), 1);
+
+const inputClass = "block w-full px-4 py-3 rounded-lg border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 text-base";
+
+export default function InvoiceFromSchedulesPage() {
+  const router = useRouter();
+  const { user, loading: userLoading } = useUser();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [periodStart, setPeriodStart] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [periodEnd, setPeriodEnd] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [dueDate, setDueDate] = useState(defaultDueDate(null));
+  const [notes, setNotes] = useState('');
+  const [summary, setSummary] = useState<AiredSpotsSummary | null>(null);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [taxCode, setTaxCode] = useState('');
+  const [whtCode, setWhtCode] = useState('');
+  // Volume discount across the whole invoice, on top of each job's own discount
+  const [discountRate, setDiscountRate] = useState(0);
+  const [loadingSpots, setLoadingSpots] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (!user) return;
+
+    clientsAPI.listClients({ createdBy: user.id })
+      .then(({ rows }) => setClients(rows))
+      .catch(error => {
+        console.error('Error loading clients:', error);
+        toast.error('Failed to load clients');
+      });
+
+    taxRulesAPI.listTaxRules({ activeOnly: true })
+      .then(rules => {
+        setTaxRules(rules);
+        setTaxCode(getDefaultTaxCode(rules, 'vat') ?? '');
+        setWhtCode(getDefaultTaxCode(rules, 'withholding') ?? '');
+      })
+      .catch(error => console.error('Error loading tax rules:', error));
+
+    organisationAPI.getSettings()
+      .then(settings => setDueDate(defaultDueDate(settings)))
+      .catch(error => console.error('Error loading organisation settings:', error));
+  }, [user, userLoading, router]);
+
+  const { lines: pricedLines, totals } = priceInvoice(
+    (summary?.lines ?? []).map(line => ({ ...line, tax_code: taxCode || null, wht_code: whtCode || null })),
+    taxRules,
+    { discountRate }
+  );
+
+  useEffect(() => {
+    if (!clientId || !periodStart || !periodEnd || periodEnd < periodStart) {
+      setSummary(null);
+      return;
+    }
+
+    const loadSpots = async () => {
+      try {
+        setLoadingSpots(true);
+        const schedules = await invoicesAPI.listSchedulesForBilling(clientId, periodStart, periodEnd);
+        setSummary(summariseAiredSpots(schedules));
+      } catch (error) {
+        console.error('Error loading aired spots:', error);
+        toast.error('Failed to load aired spots');
+      } finally {
+        setLoadingSpots(false);
+      }
+    };
+
+    loadSpots();
+  }, [clientId, periodStart, periodEnd]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !summary?.lines.length) return;
+
+    setSubmitting(true);
+    const toastId = 'invoice-from-schedules';
+
+    try {
+      toast.loading('Creating invoice...', { id: toastId });
+      const invoice = await invoicesAPI.createInvoiceFromSchedules({
+        client_id: clientId,
+        agency_id: clients.find(client => client.id === clientId)?.agency_id ?? null,
+        discount_rate: discountRate,
+        billing_period_start: periodStart,
+        billing_period_end: periodEnd,
+        due_date: dueDate,
+        notes: notes.trim() || null,
+        status: 'pending',
+      }, {
+        tax_code: taxCode || null,
+        wht_code: whtCode || null,
+      });
+
+      toast.success('Invoice created successfully!', { id: toastId });
+      router.push(`/dashboard/invoices/${invoice.id}`);
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      toast.error('Failed to create invoice', { id: toastId });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (userLoading || !user) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-5xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-gray-900">
+            Invoice from Schedules
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Bill a client for the spots that aired in a billing period
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-8">
+          {/* Client and Period Card */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-6">Client and Billing Period</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label htmlFor="client_id" className="block text-sm font-medium text-gray-700 mb-2">
+                  Client
+                </label>
+                <select
+                  id="client_id"
+                  value={clientId}
+                  onChange={(e) => setClientId(e.target.value)}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select a client</option>
+                  {clients.map((client) => (
+                    <option key={client.id} value={client.id}>
+                      {client.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="period_start" className="block text-sm font-medium text-gray-700 mb-2">
+                  From
+                </label>
+                <input
+                  type="date"
+                  id="period_start"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="period_end" className="block text-sm font-medium text-gray-700 mb-2">
+                  To
+                </label>
+                <input
+                  type="date"
+                  id="period_end"
+                  value={periodEnd}
+                  min={periodStart}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Aired Spots Card */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-6">Aired Spots</h3>
+            {!clientId ? (
+              <p className="text-sm text-gray-500">Select a client to see the spots that aired.</p>
+            ) : loadingSpots ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : !summary?.lines.length ? (
+              <p className="text-sm text-gray-500">No unbilled aired spots in this period.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Spots</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {pricedLines.map((line) => (
+                    <tr key={line.job_id}>
+                      <td className="py-3 text-sm text-gray-900">{line.description}</td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{line.quantity}</td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{formatCurrency(line.rate)}</td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{formatCurrency(line.gross_amount)}</td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{formatCurrency(line.discount_amount)}</td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{formatCurrency(line.commission_amount)}</td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {!!summary?.lines.length && (
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="invoice_discount_rate" className="block text-sm font-medium text-gray-700">
+                      Invoice Discount (%)
+                    </label>
+                    <input
+                      type="number"
+                      id="invoice_discount_rate"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={discountRate}
+                      onChange={(e) => setDiscountRate(parseFloat(e.target.value) || 0)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Applied after each job&apos;s own discount</p>
+                  </div>
+                  <TaxCodeFields
+                    rules={taxRules}
+                    taxCode={taxCode}
+                    whtCode={whtCode}
+                    onChange={(codes) => {
+                      setTaxCode(codes.taxCode);
+                      setWhtCode(codes.whtCode);
+                    }}
+                  />
+                </div>
+                <TotalsBreakdown totals={totals} />
+              </div>
+            )}
+
+            {summary && summary.excluded.length > 0 && (
+              <div className="mt-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+                <h4 className="text-sm font-medium text-yellow-800">
+                  {summary.excluded.length} {summary.excluded.length === 1 ? 'spot' : 'spots'} will not be billed
+                </h4>
+                <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                  {summary.excluded.map(({ schedule, reason }) => (
+                    <li key={schedule.id}>
+                      {schedule.job.title}, {format(parseISO(schedule.scheduled_date), 'MMM d, yyyy')} at{' '}
+                      {schedule.start_time.substring(0, 5)}: {reason}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-xs text-yellow-700">These are listed in the invoice notes.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Payment Details Card */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-6">Payment Details</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="due_date" className="block text-sm font-medium text-gray-700 mb-2">
+                  Due Date
+                </label>
+                <input
+                  type="date"
+                  id="due_date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  className={inputClass}
+                  required
+                  min={new Date().toISOString().split('T')[0]}
+                />
+              </div>
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes
+                </label>
+                <textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  className={inputClass}
+                  placeholder="Add payment instructions or additional notes..."
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-4 pt-4">
+            <button
+              type="button"
+              onClick={() => router.back()}
+              className="px-6 py-3 rounded-lg text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 border border-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !summary?.lines.length}
+              className="px-6 py-3 rounded-lg text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {submitting ? 'Creating...' : 'Create Invoice'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </DashboardLayout>
+  );
+}
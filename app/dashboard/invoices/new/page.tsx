@@ -3,54 +3,58 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useUser } from '@/hooks/useUser';
-import { supabase } from '@/lib/supabase';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { toast } from 'react-hot-toast';
-import type { Database } from '@/lib/database.types';
+import { invoicesAPI, jobsAPI, schedulesAPI, taxRulesAPI, organisationAPI } from '@/lib/api/index';
+import type { JobWithClient } from '@/lib/api/index';
+import { formatCurrency } from '@/lib/utils';
+import { getDefaultTaxCode } from '@/lib/utils/tax';
+import type { TaxRule } from '@/lib/utils/tax';
+import { priceInvoice } from '@/lib/utils/pricing';
+import { defaultDueDate } from '@/lib/utils/organisation';
+import { TaxCodeFields, DiscountCommissionFields, TotalsBreakdown } from '@/components/invoices/PricingFields';
 
-type Job = Database['public']['Tables']['jobs']['Row'] & {
-  client: Database['public']['Tables']['clients']['Row'];
-};
+type Job = JobWithClient;
 
 type InvoiceFormData = {
   job_id: string;
-  invoice_number: string;
-  amount: number;
+  rate: number;
+  quantity: number;
   due_date: string;
-  status: 'pending' | 'paid' | 'overdue';
+  status: 'draft' | 'pending' | 'paid' | 'overdue';
   description: string;
+  discount_rate: number;
+  commission_rate: number;
+  tax_code: string;
+  wht_code: string;
 };
 
 const defaultFormData: InvoiceFormData = {
   job_id: '',
-  invoice_number: '',
-  amount: 0,
-  due_date: '',
+  rate: 0,
+  quantity: 1,
+  due_date: defaultDueDate(null),
   status: 'pending',
   description: '',
+  discount_rate: 0,
+  commission_rate: 0,
+  tax_code: '',
+  wht_code: '',
 };
 
 export default function NewInvoicePage() {
   const [formData, setFormData] = useState<InvoiceFormData>(defaultFormData);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(false);
+  const [nextInvoiceNumber, setNextInvoiceNumber] = useState('');
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
   const router = useRouter();
   const { user, loading: userLoading } = useUser();
 
   const loadJobs = async () => {
     try {
-      const { data: jobs, error } = await supabase
-        .from('jobs')
-        .select(`
-          *,
-          client:clients (
-            *
-          )
-        `)
-        .eq('status', 'completed');
-
-      if (error) throw error;
-      setJobs(jobs as Job[]);
+      const { rows } = await jobsAPI.listJobs({ status: 'completed' });
+      setJobs(rows);
     } catch (error) {
       console.error('Error loading jobs:', error);
       toast.error('Failed to load jobs');
@@ -63,6 +67,22 @@ export default function NewInvoicePage() {
       return;
     }
     loadJobs();
+    invoicesAPI.previewNextInvoiceNumber()
+      .then(setNextInvoiceNumber)
+      .catch(error => console.error('Error loading next invoice number:', error));
+    taxRulesAPI.listTaxRules({ activeOnly: true })
+      .then(rules => {
+        setTaxRules(rules);
+        setFormData(prev => ({
+          ...prev,
+          tax_code: getDefaultTaxCode(rules, 'vat') ?? '',
+          wht_code: getDefaultTaxCode(rules, 'withholding') ?? '',
+        }));
+      })
+      .catch(error => console.error('Error loading tax rules:', error));
+    organisationAPI.getSettings()
+      .then(settings => setFormData(prev => ({ ...prev, due_date: defaultDueDate(settings) })))
+      .catch(error => console.error('Error loading organisation settings:', error));
   }, [user, userLoading, router]);
 
   if (userLoading) {
@@ -79,25 +99,37 @@ export default function NewInvoicePage() {
     return null; // Will redirect in useEffect
   }
 
-  const generateInvoiceNumber = () => {
-    const prefix = 'INV';
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-    return `${prefix}-${timestamp}-${random}`;
-  };
-
-  const handleJobSelect = (jobId: string) => {
+  const handleJobSelect = async (jobId: string) => {
     const selectedJob = jobs.find(job => job.id === jobId);
     if (selectedJob) {
       setFormData(prev => ({
         ...prev,
         job_id: jobId,
-        invoice_number: generateInvoiceNumber(),
-        amount: selectedJob.rate || 0,
+        rate: selectedJob.rate || 0,
+        discount_rate: selectedJob.discount_rate,
+        commission_rate: selectedJob.commission_rate,
       }));
+
+      // Bill every spot the job was booked for
+      try {
+        const spots = await schedulesAPI.countSpots(jobId);
+        setFormData(prev => (prev.job_id === jobId ? { ...prev, quantity: Math.max(spots, 1) } : prev));
+      } catch (error) {
+        console.error('Error counting scheduled spots:', error);
+      }
     }
   };
 
+  const line = {
+    quantity: formData.quantity,
+    rate: formData.rate || 0,
+    discount_rate: formData.discount_rate,
+    commission_rate: formData.commission_rate,
+    tax_code: formData.tax_code || null,
+    wht_code: formData.wht_code || null,
+  };
+  const { lines: [pricedLine], totals } = priceInvoice([line], taxRules);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) {
@@ -106,48 +138,45 @@ export default function NewInvoicePage() {
       return;
     }
 
+    // "Save as Draft" keeps the invoice open for editing before it is issued
+    const asDraft = (e.nativeEvent as SubmitEvent).submitter?.getAttribute('name') === 'draft';
+
     setLoading(true);
     const toastId = 'invoice-submit';
     
     try {
-      toast.loading('Creating invoice...', { id: toastId });
+      toast.loading(asDraft ? 'Saving draft...' : 'Creating invoice...', { id: toastId });
 
       const selectedJob = jobs.find(job => job.id === formData.job_id);
       if (!selectedJob) throw new Error('Job not found');
 
-      // Create invoice
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          invoice_number: formData.invoice_number,
+      // The database assigns the number; taxes and totals are computed from the line
+      const invoice = await invoicesAPI.createInvoice(
+        {
           client_id: selectedJob.client_id,
-          total_amount: formData.amount,
-          status: formData.status,
+          agency_id: selectedJob.agency_id,
+          status: asDraft ? 'draft' : formData.status,
           due_date: formData.due_date,
           notes: formData.description,
-          created_by: user.id,
-        })
-        .select()
-        .single();
-
-      if (invoiceError) throw invoiceError;
-
-      // Create invoice item
-      const { error: itemError } = await supabase
-        .from('invoice_items')
-        .insert({
-          invoice_id: invoice.id,
+        },
+        [{
           job_id: selectedJob.id,
           description: selectedJob.title,
-          quantity: 1,
-          rate: formData.amount,
-          amount: formData.amount,
-          created_by: user.id,
-        });
-
-      if (itemError) throw itemError;
+          quantity: line.quantity,
+          rate: line.rate,
+          discount_rate: line.discount_rate,
+          commission_rate: line.commission_rate,
+          tax_code: line.tax_code,
+          wht_code: line.wht_code,
+        }]
+      );
 
-      toast.success('Invoice created successfully!', { id: toastId });
+      if (asDraft) {
+        toast.success('Draft invoice saved', { id: toastId });
+        router.push(`/dashboard/invoices/${invoice.id}/edit`);
+        return;
+      }
+      toast.success(`Invoice ${invoice.invoice_number} created successfully!`, { id: toastId });
       router.push('/dashboard/invoices');
     } catch (error) {
       console.error('Error creating invoice:', error);
@@ -203,11 +232,11 @@ export default function NewInvoicePage() {
                 <input
                   type="text"
                   id="invoice_number"
-                  value={formData.invoice_number}
+                  value={nextInvoiceNumber}
                   readOnly
                   className="block w-full px-4 py-3 rounded-lg bg-gray-50 border-gray-300 text-gray-500 shadow-sm text-base"
                 />
-                <p className="mt-1 text-sm text-gray-500">Auto-generated invoice number</p>
+                <p className="mt-1 text-sm text-gray-500">Next number in sequence; assigned when the invoice is issued</p>
               </div>
             </div>
           </div>
@@ -216,10 +245,10 @@ export default function NewInvoicePage() {
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h3 className="text-xl font-semibold text-gray-900 mb-6">Payment Details</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Amount */}
+              {/* Rate */}
               <div>
-                <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-2">
-                  Amount (₦)
+                <label htmlFor="rate" className="block text-sm font-medium text-gray-700 mb-2">
+                  Rate per Spot (₦)
                 </label>
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -227,15 +256,18 @@ export default function NewInvoicePage() {
                   </div>
                   <input
                     type="number"
-                    id="amount"
-                    value={formData.amount}
-                    onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) }))}
+                    id="rate"
+                    value={formData.rate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, rate: parseFloat(e.target.value) }))}
                     className="block w-full pl-8 pr-4 py-3 rounded-lg border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 text-base"
                     required
                     min="0"
                     step="0.01"
                   />
                 </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {formData.quantity} {formData.quantity === 1 ? 'spot' : 'spots'} × rate = {formatCurrency(pricedLine.gross_amount)}
+                </p>
               </div>
 
               {/* Due Date */}
@@ -254,6 +286,31 @@ export default function NewInvoicePage() {
                 />
               </div>
             </div>
+
+            <div className="mt-6">
+              <DiscountCommissionFields
+                discountRate={formData.discount_rate}
+                commissionRate={formData.commission_rate}
+                onChange={({ discountRate, commissionRate }) =>
+                  setFormData(prev => ({ ...prev, discount_rate: discountRate, commission_rate: commissionRate }))
+                }
+                inputClassName="block w-full px-4 py-3 mt-2 rounded-lg border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 text-base"
+              />
+            </div>
+
+            <div className="mt-6">
+              <TaxCodeFields
+                rules={taxRules}
+                taxCode={formData.tax_code}
+                whtCode={formData.wht_code}
+                onChange={({ taxCode, whtCode }) => setFormData(prev => ({ ...prev, tax_code: taxCode, wht_code: whtCode }))}
+                inputClassName="block w-full px-4 py-3 mt-2 rounded-lg border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 text-base"
+              />
+            </div>
+
+            <div className="mt-6 max-w-sm ml-auto">
+              <TotalsBreakdown totals={totals} />
+            </div>
           </div>
 
           {/* Additional Information Card */}
@@ -283,6 +340,14 @@ export default function NewInvoicePage() {
             >
               Cancel
             </button>
+            <button
+              type="submit"
+              name="draft"
+              disabled={loading}
+              className="px-6 py-3 rounded-lg text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 border border-gray-300 disabled:opacity-50"
+            >
+              Save as Draft
+            </button>
             <button
               type="submit"
               disabled={loading}
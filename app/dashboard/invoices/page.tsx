@@ -5,26 +5,34 @@ import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { supabase } from '@/lib/supabase';
 import { downloadInvoicePDF } from '@/lib/utils/pdfGenerator';
-import type { Database } from '@/lib/database.types';
+import { invoicesAPI, organisationAPI, defaultPageSize } from '@/lib/api/index';
+import type { InvoiceDocument } from '@/lib/api/index';
+import { Pagination } from '@/components/common/Pagination';
+import { useAuth } from '@/context/AuthContext';
+import { can } from '@/lib/utils/permissions';
+import type { OrganisationSettings } from '@/lib/utils/organisation';
 
-type InvoiceItem = Database['public']['Tables']['invoice_items']['Row'] & {
-  job: Database['public']['Tables']['jobs']['Row'];
-};
-
-type Invoice = Database['public']['Tables']['invoices']['Row'] & {
-  client: Database['public']['Tables']['clients']['Row'];
-  invoice_items: InvoiceItem[];
-};
+type Invoice = InvoiceDocument;
 
-type InvoiceStatus = 'pending' | 'paid' | 'overdue';
+type InvoiceStatus = Invoice['status'];
 type FilterStatus = InvoiceStatus | 'all';
 
 const statusColors: Record<InvoiceStatus, { bg: string; text: string; icon: string }> = {
+  'draft': {
+    bg: 'bg-gray-50 border-gray-200',
+    text: 'text-gray-700',
+    icon: '✎'
+  },
   'pending': {
     bg: 'bg-yellow-50 border-yellow-200',
     text: 'text-yellow-800',
     icon: '⏳'
   },
+  'partially_paid': {
+    bg: 'bg-blue-50 border-blue-200',
+    text: 'text-blue-800',
+    icon: '◐'
+  },
   'paid': {
     bg: 'bg-green-50 border-green-200',
     text: 'text-green-800',
@@ -35,14 +43,30 @@ const statusColors: Record<InvoiceStatus, { bg: string; text: string; icon: stri
     text: 'text-red-800',
     icon: '⚠'
   },
+  'credited': {
+    bg: 'bg-purple-50 border-purple-200',
+    text: 'text-purple-800',
+    icon: '↺'
+  },
 };
 
 export default function InvoicesPage() {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [organisation, setOrganisation] = useState<OrganisationSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [statusFilter, setStatusFilter] = useState<FilterStatus>('all');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
   const router = useRouter();
+  const { user: profile } = useAuth();
+  const canManage = can(profile?.role, 'invoices:manage');
+
+  useEffect(() => {
+    organisationAPI.getSettings()
+      .then(setOrganisation)
+      .catch(error => console.error('Error loading organisation settings:', error));
+  }, []);
 
   useEffect(() => {
     loadInvoices();
@@ -65,7 +89,7 @@ export default function InvoicesPage() {
     return () => {
       channel.unsubscribe();
     };
-  }, [statusFilter]);
+  }, [statusFilter, page]);
 
   const loadInvoices = async () => {
     try {
@@ -76,30 +100,12 @@ export default function InvoicesPage() {
         return;
       }
 
-      let query = supabase
-        .from('invoices')
-        .select(`
-          *,
-          client:clients (
-            *
-          ),
-          invoice_items:invoice_items (
-            *,
-            job:jobs (
-              *
-            )
-          )
-        `)
-        .eq('created_by', user.id);  // Only show invoices created by the current user
-
-      if (statusFilter !== 'all') {
-        query = query.eq('status', statusFilter);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setInvoices(data as Invoice[]);
+      const { rows, total } = await invoicesAPI.listInvoices({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        page,
+      });
+      setInvoices(rows);
+      setTotal(total);
     } catch (error) {
       console.error('Error loading invoices:', error);
       setError('Failed to load invoices');
@@ -133,14 +139,22 @@ export default function InvoicesPage() {
               A list of all your invoices including their status, amount, and client details.
             </p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-            <button
-              onClick={() => router.push('/dashboard/invoices/new')}
-              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
-            >
-              Add Invoice
-            </button>
-          </div>
+          {canManage && (
+            <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none space-x-3">
+              <button
+                onClick={() => router.push('/dashboard/invoices/from-schedules')}
+                className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+              >
+                Invoice from Schedules
+              </button>
+              <button
+                onClick={() => router.push('/dashboard/invoices/new')}
+                className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+              >
+                Add Invoice
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Filter controls */}
@@ -154,13 +168,19 @@ export default function InvoicesPage() {
           <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as FilterStatus)}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as FilterStatus);
+                setPage(1);
+              }}
               className="rounded-lg border-gray-300 text-gray-700 text-sm focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Status</option>
+              <option value="draft">Draft</option>
               <option value="pending">Pending</option>
+              <option value="partially_paid">Partially Paid</option>
               <option value="paid">Paid</option>
               <option value="overdue">Overdue</option>
+              <option value="credited">Credited</option>
             </select>
           </div>
         </div>
@@ -184,12 +204,14 @@ export default function InvoicesPage() {
                 ? 'Try adjusting your filter to see more invoices.'
                 : 'Get started by creating your first invoice.'}
             </p>
-            <button
-              onClick={() => router.push('/dashboard/invoices/new')}
-              className="mt-4 inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              Create New Invoice
-            </button>
+            {canManage && (
+              <button
+                onClick={() => router.push('/dashboard/invoices/new')}
+                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Create New Invoice
+              </button>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8">
@@ -203,7 +225,7 @@ export default function InvoicesPage() {
                   <div className="flex justify-between items-start">
                     <div>
                       <h3 className="text-lg font-semibold text-gray-900">
-                        Invoice #{invoice.invoice_number}
+                        {invoice.invoice_number ? `Invoice #${invoice.invoice_number}` : 'Draft Invoice'}
                       </h3>
                       <p className="text-sm text-gray-500 mt-1">
                         {invoice.invoice_items?.[0]?.job?.title}
@@ -215,7 +237,7 @@ export default function InvoicesPage() {
                       } ${statusColors[invoice.status as InvoiceStatus].text}`}
                     >
                       <span className="mr-1">{statusColors[invoice.status as InvoiceStatus].icon}</span>
-                      {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                      {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1).replace('_', ' ')}
                     </span>
                   </div>
 
@@ -240,6 +262,11 @@ export default function InvoicesPage() {
                         <p className="text-sm font-semibold text-gray-900">
                           {formatCurrency(invoice.total_amount)}
                         </p>
+                        {(invoice.status === 'partially_paid' || invoice.credited_total > 0) && (
+                          <p className="text-xs text-gray-500">
+                            Balance {formatCurrency(invoice.total_amount - invoice.wht_total - invoice.credited_total - invoice.amount_paid)}
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="text-sm text-gray-500">Due Date</p>
@@ -259,8 +286,9 @@ export default function InvoicesPage() {
                       View Details
                     </button>
                     <button
-                      onClick={() => downloadInvoicePDF(invoice)}
-                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
+                      onClick={() => organisation && downloadInvoicePDF(invoice, organisation)}
+                      disabled={!organisation}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200 disabled:opacity-50"
                     >
                       Download PDF
                     </button>
@@ -270,6 +298,11 @@ export default function InvoicesPage() {
             ))}
           </div>
         )}
+        <Pagination
+          page={{ page, pageSize: defaultPageSize, total }}
+          onChange={setPage}
+          className="mt-6"
+        />
       </div>
     </DashboardLayout>
   );
@@ -4,11 +4,18 @@ import { useRouter, useParams } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { JobForm } from '@/components/jobs/JobForm';
-import { jobsAPI } from '@/lib/api';
+import { useAuth } from '@/context/AuthContext';
+import { jobsAPI, recurrenceRulesAPI, isNotFound } from '@/lib/api/index';
 import type { Database } from '@/lib/database.types';
+import type { RecurrencePattern } from '@/lib/utils/recurrence';
+import { expandRecurrencePattern } from '@/lib/utils/recurrence';
+import { isJobApproved } from '@/lib/utils/jobs';
+import type { JobStatus } from '@/lib/utils/jobs';
+import { format, parseISO } from 'date-fns';
 
 type Tables = Database['public']['Tables'];
 type JobUpdate = Tables['jobs']['Update'];
+type RecurrenceRule = Tables['job_recurrence_rules']['Row'];
 
 interface JobFormData {
   title: string;
@@ -18,43 +25,72 @@ interface JobFormData {
   client_email?: string;
   client_phone?: string;
   client_address?: string;
-  duration: string;
-  air_time: string;
+  agency_id: string | null;
+  discount_rate: number;
+  commission_rate: number;
+  duration_seconds: number | null;
+  air_times: string[];
   rate: number;
+  rate_card_id?: string | null;
+  suggested_rate?: number | null;
+  rate_override_reason?: string | null;
   schedule_dates: Date[];
+  recurrence: RecurrencePattern | null;
   description: string;
-  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  status: JobStatus;
 }
 
 export default function EditJobPage() {
   const router = useRouter();
   const params = useParams();
+  const { user } = useAuth();
   const [job, setJob] = useState<JobFormData | undefined>();
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
   useEffect(() => {
     const fetchJob = async () => {
       try {
-        const jobData = await jobsAPI.getJob(params.id as string);
-        if (!jobData) {
-          setError('Job not found');
-          return;
-        }
-        
+        const [jobData, rule] = await Promise.all([
+          jobsAPI.getJob(params.id as string),
+          recurrenceRulesAPI.getRuleForJob(params.id as string),
+        ]);
+
+        setRecurrenceRule(rule);
+        const approved = isJobApproved(jobData.status);
         setJob({
           title: jobData.title,
           client_id: jobData.client_id,
-          duration: jobData.duration,
-          air_time: jobData.air_time,
+          agency_id: jobData.agency_id,
+          discount_rate: jobData.discount_rate,
+          commission_rate: jobData.commission_rate,
+          duration_seconds: jobData.duration_seconds,
+          air_times: (jobData.air_times?.length ? jobData.air_times : [jobData.air_time])
+            .map((time: string) => time.substring(0, 5)),
           rate: jobData.rate,
-          schedule_dates: [], // You might want to fetch and set actual schedule dates
+          rate_card_id: jobData.rate_card_id,
+          suggested_rate: jobData.suggested_rate,
+          rate_override_reason: jobData.rate_override_reason,
+          // Unapproved bookings keep their picked dates on the job itself
+          schedule_dates: approved || rule
+            ? []
+            : jobData.repeat_days
+              .filter((day: string) => /^\d{4}-\d{2}-\d{2}$/.test(day))
+              .map((day: string) => parseISO(day)),
+          recurrence: rule ? {
+            weekdays: rule.weekdays,
+            air_times: rule.air_times.map((time: string) => time.substring(0, 5)),
+            start_date: rule.start_date,
+            end_date: rule.end_date,
+            excluded_dates: rule.excluded_dates,
+          } : null,
           description: jobData.description || '',
           status: jobData.status,
         });
       } catch (error) {
         console.error('Error fetching job:', error);
-        setError('Failed to load job');
+        setError(isNotFound(error) ? 'Job not found' : 'Failed to load job');
       } finally {
         setLoading(false);
       }
@@ -66,18 +102,57 @@ export default function EditJobPage() {
   }, [params.id]);
 
   const handleSubmit = async (data: JobFormData) => {
+    const approved = !!job && isJobApproved(job.status);
     try {
       const updates: Partial<JobUpdate> = {
         title: data.title,
         client_id: data.client_id,
-        duration: data.duration,
-        air_time: data.air_time,
+        agency_id: data.agency_id,
+        discount_rate: data.discount_rate,
+        commission_rate: data.commission_rate,
+        duration_seconds: data.duration_seconds,
+        // A corrected duration clears the migration's review flag
+        duration_needs_review: false,
+        duration_legacy: null,
+        air_time: data.air_times[0],
+        air_times: data.air_times,
         rate: data.rate,
+        rate_card_id: data.rate_card_id ?? null,
+        suggested_rate: data.suggested_rate ?? null,
+        rate_override_reason: data.rate_override_reason ?? null,
         description: data.description,
         status: data.status,
       };
 
+      // Dates of an unapproved booking are booked by approve_job()
+      if (!approved) {
+        updates.repeat_days = data.recurrence
+          ? Array.from(new Set(expandRecurrencePattern(data.recurrence).map(o => o.scheduled_date)))
+          : data.schedule_dates.map(date => format(date, 'yyyy-MM-dd'));
+        if (data.status === 'pending_approval' && job?.status !== 'pending_approval' && user) {
+          updates.submitted_at = new Date().toISOString();
+          updates.submitted_by = user.id;
+        }
+      }
+
       await jobsAPI.updateJob(params.id as string, updates);
+
+      // Future occurrences are regenerated from the edited pattern
+      if (data.recurrence) {
+        if (recurrenceRule) {
+          await recurrenceRulesAPI.updateRule(recurrenceRule.id, data.recurrence, data.duration_seconds, {
+            generateSchedules: approved,
+          });
+        } else if (user) {
+          await recurrenceRulesAPI.createRule({
+            job_id: params.id as string,
+            ...data.recurrence,
+            created_by: user.id,
+          }, data.duration_seconds, { generateSchedules: approved });
+        }
+      } else if (recurrenceRule) {
+        await recurrenceRulesAPI.deleteRule(recurrenceRule.id);
+      }
       router.push('/dashboard/jobs');
     } catch (error) {
       console.error('Error updating job:', error);
@@ -108,7 +183,9 @@ export default function EditJobPage() {
       <div className="max-w-5xl mx-auto py-6">
         <h1 className="text-2xl font-semibold text-gray-900 mb-6">Edit Job</h1>
         <JobForm
+          jobId={params.id as string}
           initialData={job}
+          needsApproval={!!job && !isJobApproved(job.status)}
           onSubmit={handleSubmit}
           onCancel={() => router.push('/dashboard/jobs')}
         />
@@ -1,24 +1,38 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { JobForm } from '@/components/jobs/JobForm';
-import { jobsAPI, schedulesAPI } from '@/lib/api/index';
+import { jobsAPI, schedulesAPI, recurrenceRulesAPI, bookingRequestsAPI, agenciesAPI, toApiError } from '@/lib/api/index';
+import type { BookingRequestWithClient } from '@/lib/api/index';
 import { useAuth } from '@/context/AuthContext';
-import { addDays, format, parseISO } from 'date-fns';
+import { formatCurrency } from '@/lib/utils';
+import { addDays, eachDayOfInterval, format, parseISO } from 'date-fns';
 import type { Database } from '@/lib/database.types';
+import { expandRecurrencePattern } from '@/lib/utils/recurrence';
+import type { RecurrencePattern } from '@/lib/utils/recurrence';
+import { canApproveJobs, isJobApproved } from '@/lib/utils/jobs';
+import type { JobStatus } from '@/lib/utils/jobs';
 
 type JobFormData = {
   title: string;
   client_id: string;
-  duration: string;
-  air_time: string;
+  client_name?: string;
+  agency_id: string | null;
+  discount_rate: number;
+  commission_rate: number;
+  duration_seconds: number | null;
+  air_times: string[];
   rate: number;
+  rate_card_id?: string | null;
+  suggested_rate?: number | null;
+  rate_override_reason?: string | null;
   schedule_dates: Date[];
+  recurrence: RecurrencePattern | null;
   description: string;
-  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  status: JobStatus;
 };
 
 const dayToNumber: Record<string, number> = {
@@ -31,10 +45,83 @@ const dayToNumber: Record<string, number> = {
   'Sunday': 0
 };
 
-export default function NewJobPage() {
+// A job prefilled from what the advertiser asked for; staff adjust the
+// slots and rate before saving
+const jobDefaultsFromRequest = (
+  request: BookingRequestWithClient,
+  commissionRate: number
+): Partial<JobFormData> => ({
+  title: request.title,
+  client_id: request.client.id,
+  client_name: request.client.name,
+  agency_id: request.client.agency_id,
+  commission_rate: commissionRate,
+  duration_seconds: request.duration_seconds,
+  air_times: request.preferred_air_times.length > 0 ? request.preferred_air_times : ['07:00'],
+  schedule_dates: eachDayOfInterval({ start: parseISO(request.start_date), end: parseISO(request.end_date) }),
+  description: [
+    request.notes,
+    `Requested ${request.spots_per_day} spot${request.spots_per_day === 1 ? '' : 's'} a day`,
+    request.budget !== null ? `Budget: ${formatCurrency(request.budget)}` : null,
+  ].filter(Boolean).join('\n'),
+});
+
+export default function NewJobPage({ searchParams }: { searchParams: { request?: string } }) {
   const router = useRouter();
   const { user } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const requestId = searchParams.request;
+  const [request, setRequest] = useState<BookingRequestWithClient | null>(null);
+  const [defaults, setDefaults] = useState<Partial<JobFormData> | undefined>();
+  const [loadingRequest, setLoadingRequest] = useState(!!requestId);
+
+  useEffect(() => {
+    if (!requestId) return;
+
+    const loadRequest = async () => {
+      try {
+        const [request, agencies] = await Promise.all([
+          bookingRequestsAPI.getRequest(requestId),
+          agenciesAPI.listAgencies(),
+        ]);
+        if (request.status !== 'pending') {
+          toast.error('This booking request has already been reviewed');
+          router.push('/dashboard/booking-requests');
+          return;
+        }
+        const agency = agencies.rows.find(a => a.id === request.client.agency_id);
+        setRequest(request);
+        setDefaults(jobDefaultsFromRequest(request, agency?.commission_rate ?? 0));
+      } catch (error) {
+        console.error('Error loading booking request:', error);
+        toast.error('Failed to load booking request');
+      } finally {
+        setLoadingRequest(false);
+      }
+    };
+
+    loadRequest();
+  }, [requestId, router]);
+
+  // A booking request is approved along with its job; a job that still
+  // needs approval is only linked to the request until approve_job() runs
+  const finish = async (job: { id: string; status: JobStatus }) => {
+    if (request && user) {
+      try {
+        if (isJobApproved(job.status)) {
+          await bookingRequestsAPI.approveRequest(request.id, job.id, user.id);
+        } else {
+          await bookingRequestsAPI.attachJob(request.id, job.id);
+        }
+      } catch (error) {
+        console.error('Error updating booking request:', error);
+        toast.error('Job created but the booking request could not be updated');
+      }
+      router.push('/dashboard/booking-requests');
+      return;
+    }
+    router.push('/dashboard/jobs');
+  };
 
   const handleSubmit = async (data: JobFormData) => {
     if (!user) {
@@ -51,81 +138,116 @@ export default function NewJobPage() {
     try {
       // Create job
       toast.loading('Creating job...', { id: jobToastId });
+      const repeatDays = data.recurrence
+        ? Array.from(new Set(expandRecurrencePattern(data.recurrence).map(o => o.scheduled_date)))
+        : data.schedule_dates.map(date => format(date, 'yyyy-MM-dd'));
       const job = await jobsAPI.createJob({
         title: data.title,
         client_id: data.client_id,
-        duration: data.duration,
-        air_time: data.air_time,
+        agency_id: data.agency_id,
+        discount_rate: data.discount_rate,
+        commission_rate: data.commission_rate,
+        duration_seconds: data.duration_seconds,
+        // Earliest slot, kept for screens that show a single air time
+        air_time: data.air_times[0],
+        air_times: data.air_times,
         rate: data.rate,
+        rate_card_id: data.rate_card_id ?? null,
+        suggested_rate: data.suggested_rate ?? null,
+        rate_override_reason: data.rate_override_reason ?? null,
         description: data.description,
         status: data.status,
-        repeat_days: data.schedule_dates.map(date => format(date, 'yyyy-MM-dd')),
+        ...(data.status === 'pending_approval' && {
+          submitted_at: new Date().toISOString(),
+          submitted_by: user.id,
+        }),
+        repeat_days: repeatDays,
         created_by: user.id,
       });
 
-      // Create schedules for all selected dates
-      if (data.schedule_dates.length > 0) {
-        toast.loading(`Creating schedules for ${data.schedule_dates.length} dates...`, { id: jobToastId });
-        
-        // Calculate end time based on duration and start time
-        const [startHour, startMinute] = data.air_time.split(':').map(Number);
-        const durationMatch = data.duration.match(/(\d+)\s*(min|sec)/i);
-        let endHour = startHour;
-        let endMinute = startMinute;
-        
-        if (durationMatch) {
-          const [, amount, unit] = durationMatch;
-          if (unit.toLowerCase() === 'min') {
-            endMinute += parseInt(amount);
-          } else if (unit.toLowerCase() === 'sec') {
-            endMinute += Math.ceil(parseInt(amount) / 60);
-          }
-          
-          // Handle minute overflow
-          if (endMinute >= 60) {
-            endHour += Math.floor(endMinute / 60);
-            endMinute = endMinute % 60;
-          }
-          
-          // Handle 24-hour format
-          if (endHour >= 24) {
-            endHour = endHour % 24;
-          }
+      // Unapproved bookings keep their dates on the job; approval books the spots
+      if (!isJobApproved(job.status)) {
+        if (data.recurrence) {
+          await recurrenceRulesAPI.createRule({
+            job_id: job.id,
+            ...data.recurrence,
+            created_by: user.id,
+          }, data.duration_seconds, { generateSchedules: false });
+        }
+        toast.success(job.status === 'draft' ? 'Draft saved' : 'Booking sent for approval', { id: jobToastId });
+        await finish(job);
+        return;
+      }
+
+      // A weekly pattern is stored as a rule that generates its own schedules
+      if (data.recurrence) {
+        toast.loading('Creating schedules from weekly pattern...', { id: jobToastId });
+
+        try {
+          const { schedules } = await recurrenceRulesAPI.createRule({
+            job_id: job.id,
+            ...data.recurrence,
+            created_by: user.id,
+          }, data.duration_seconds);
+
+          toast.success(`Job and ${schedules.length} schedules created successfully!`, { id: jobToastId });
+        } catch (error) {
+          console.error('Error creating recurrence rule:', error);
+          const apiError = toApiError(error);
+          toast.error(
+            apiError.code === '23P01'
+              ? `Job created but a schedule was rejected: ${apiError.message}`
+              : 'Job created but the weekly schedule failed to create',
+            { id: jobToastId }
+          );
         }
+        await finish(job);
+        return;
+      }
 
-        // Create schedules for each selected date
-        const schedulePromises = data.schedule_dates.map(async (scheduleDate) => {
+      // Create a schedule for every air time on every selected date
+      const spotCount = data.schedule_dates.length * data.air_times.length;
+      if (spotCount > 0) {
+        toast.loading(`Creating ${spotCount} schedules across ${data.schedule_dates.length} dates...`, { id: jobToastId });
+
+        const schedulePromises = data.schedule_dates.flatMap((scheduleDate) => {
           const formattedDate = format(scheduleDate, 'yyyy-MM-dd');
-          const startTime = `${String(startHour).padStart(2, '0')}:${String(startMinute).padStart(2, '0')}`;
-          const endTime = `${String(endHour).padStart(2, '0')}:${String(endMinute).padStart(2, '0')}`;
-
-          try {
-            await schedulesAPI.createSchedule({
-              job_id: job.id,
-              scheduled_date: formattedDate,
-              start_time: startTime,
-              end_time: endTime,
-              status: 'upcoming',
-              created_by: user.id
-            });
-          } catch (error) {
-            console.error(`Error creating schedule for ${formattedDate}:`, error);
-            throw error;
-          }
+
+          return data.air_times.map(async (airTime) => {
+            try {
+              await schedulesAPI.createSchedule({
+                job_id: job.id,
+                scheduled_date: formattedDate,
+                start_time: airTime,
+                status: 'upcoming',
+                created_by: user.id
+              }, data.duration_seconds);
+            } catch (error) {
+              console.error(`Error creating schedule for ${formattedDate} at ${airTime}:`, error);
+              throw error;
+            }
+          });
         });
 
         try {
           await Promise.all(schedulePromises);
         } catch (error) {
           console.error('Error creating some schedules:', error);
-          toast.error('Job created but some schedules failed to create', { id: jobToastId });
-          router.push('/dashboard/jobs');
+          // 23P01 is raised by the airtime availability trigger
+          const apiError = toApiError(error);
+          toast.error(
+            apiError.code === '23P01'
+              ? `Job created but a schedule was rejected: ${apiError.message}`
+              : 'Job created but some schedules failed to create',
+            { id: jobToastId }
+          );
+          await finish(job);
           return;
         }
       }
 
-      toast.success(`Job and ${data.schedule_dates.length} schedules created successfully!`, { id: jobToastId });
-      router.push('/dashboard/jobs');
+      toast.success(`Job and ${spotCount} schedules created successfully!`, { id: jobToastId });
+      await finish(job);
     } catch (error) {
       console.error('Error creating job:', error);
       toast.error('Failed to create job', { id: jobToastId });
@@ -135,14 +257,30 @@ export default function NewJobPage() {
   };
 
   const handleCancel = () => {
-    router.push('/dashboard/jobs');
+    router.push(requestId ? '/dashboard/booking-requests' : '/dashboard/jobs');
   };
 
   return (
     <DashboardLayout>
       <div className="max-w-4xl mx-auto px-4 py-6">
         <h1 className="text-2xl font-semibold mb-6">Create New Job</h1>
-        <JobForm onSubmit={handleSubmit} onCancel={handleCancel} />
+        {request && (
+          <p className="-mt-4 mb-6 text-sm text-gray-600">
+            From {request.client.name}&apos;s booking request. Saving the job approves the request.
+          </p>
+        )}
+        {loadingRequest ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <JobForm
+            defaults={defaults}
+            needsApproval={!canApproveJobs(user?.role)}
+            onSubmit={handleSubmit}
+            onCancel={handleCancel}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
@@ -4,17 +4,24 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { supabase } from '@/lib/supabase';
-import type { Database } from '@/lib/database.types';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
+import { formatDuration } from '@/lib/utils/duration';
+import { formatAirTimes, jobStatusLabels, unapprovedJobStatuses } from '@/lib/utils/jobs';
+import type { JobStatus } from '@/lib/utils/jobs';
+import { jobsAPI, defaultPageSize } from '@/lib/api/index';
+import type { JobWithClient } from '@/lib/api/index';
+import { Pagination } from '@/components/common/Pagination';
+import { useAuth } from '@/context/AuthContext';
+import { can } from '@/lib/utils/permissions';
+import { toast } from 'react-hot-toast';
 
-type Job = Database['public']['Tables']['jobs']['Row'] & {
-  client: Database['public']['Tables']['clients']['Row'];
-};
-
-type JobStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+type Job = JobWithClient;
 
 const statusColors: Record<JobStatus, string> = {
+  'draft': 'bg-gray-100 text-gray-800 border-gray-200',
+  'pending_approval': 'bg-purple-100 text-purple-800 border-purple-200',
+  'rejected': 'bg-orange-100 text-orange-800 border-orange-200',
   'scheduled': 'bg-blue-100 text-blue-800 border-blue-200',
   'in_progress': 'bg-yellow-100 text-yellow-800 border-yellow-200',
   'completed': 'bg-green-100 text-green-800 border-green-200',
@@ -27,9 +34,15 @@ export default function JobsPage() {
   const [error, setError] = useState('');
   const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [mineOnly, setMineOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const router = useRouter();
+  const { user: profile } = useAuth();
+  const canCreate = can(profile?.role, 'jobs:create');
+  const canEdit = (job: Job) => can(profile?.role, 'jobs:edit_any') || job.created_by === profile?.id;
 
   useEffect(() => {
     loadJobs();
@@ -52,7 +65,7 @@ export default function JobsPage() {
     return () => {
       channel.unsubscribe();
     };
-  }, [statusFilter, searchQuery]);
+  }, [statusFilter, searchQuery, mineOnly, page]);
 
   const loadJobs = async () => {
     try {
@@ -63,29 +76,14 @@ export default function JobsPage() {
         return;
       }
 
-      let query = supabase
-        .from('jobs')
-        .select(`
-          *,
-          client:clients (
-            *
-          )
-        `)
-        .eq('created_by', user.id)  // Only show jobs created by the current user
-        .order('created_at', { ascending: false });
-
-      if (statusFilter !== 'all') {
-        query = query.eq('status', statusFilter);
-      }
-
-      if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setJobs(data as Job[]);
+      const { rows, total } = await jobsAPI.listJobs({
+        createdBy: mineOnly ? user.id : undefined,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        search: searchQuery || undefined,
+        page,
+      });
+      setJobs(rows);
+      setTotal(total);
     } catch (error) {
       console.error('Error loading jobs:', error);
       setError('Failed to load jobs');
@@ -111,6 +109,19 @@ export default function JobsPage() {
     }).format(amount);
   };
 
+  const handleSubmitForApproval = async (job: Job) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      await jobsAPI.submitForApproval(job.id, user.id);
+      toast.success('Sent for approval');
+      loadJobs();
+    } catch (error) {
+      console.error('Error submitting job for approval:', error);
+      toast.error('Failed to submit for approval');
+    }
+  };
+
   const handleViewDetails = (job: Job) => {
     setSelectedJob(job);
     setIsDetailModalOpen(true);
@@ -127,14 +138,16 @@ export default function JobsPage() {
                 A list of all jobs including their title, client, status, and other details.
               </p>
             </div>
-            <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-              <button
-                onClick={() => router.push('/dashboard/jobs/new')}
-                className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
-              >
-                Add Job
-              </button>
-            </div>
+            {canCreate && (
+              <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+                <button
+                  onClick={() => router.push('/dashboard/jobs/new')}
+                  className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  Add Job
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Search and filter controls */}
@@ -150,7 +163,10 @@ export default function JobsPage() {
                   type="text"
                   placeholder="Search jobs..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setPage(1);
+                  }}
                   className="focus:ring-blue-500 focus:border-blue-500 block w-full pl-10 pr-3 py-2 border-gray-300 rounded-md"
                 />
               </div>
@@ -158,16 +174,30 @@ export default function JobsPage() {
             <div className="sm:w-48">
               <select
                 value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value as JobStatus | 'all')}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as JobStatus | 'all');
+                  setPage(1);
+                }}
                 className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
               >
                 <option value="all">All Status</option>
-                <option value="scheduled">Scheduled</option>
-                <option value="in_progress">In Progress</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
+                {Object.entries(jobStatusLabels).map(([status, label]) => (
+                  <option key={status} value={status}>{label}</option>
+                ))}
               </select>
             </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={mineOnly}
+                onChange={(e) => {
+                  setMineOnly(e.target.checked);
+                  setPage(1);
+                }}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Only my jobs
+            </label>
           </div>
 
           {loading ? (
@@ -185,16 +215,18 @@ export default function JobsPage() {
               </div>
               <h3 className="mt-4 text-lg font-medium text-gray-900">No jobs found</h3>
               <p className="mt-1 text-sm text-gray-500">
-                {(searchQuery || statusFilter !== 'all') 
+                {(searchQuery || statusFilter !== 'all' || mineOnly) 
                   ? 'Try adjusting your search or filter to find what you\'re looking for.'
                   : 'Get started by creating your first job.'}
               </p>
-              <button
-                onClick={() => router.push('/dashboard/jobs/new')}
-                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              >
-                Create New Job
-              </button>
+              {canCreate && (
+                <button
+                  onClick={() => router.push('/dashboard/jobs/new')}
+                  className="mt-4 inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Create New Job
+                </button>
+              )}
             </div>
           ) : (
             <div className="mt-8 bg-white shadow overflow-hidden rounded-lg">
@@ -210,11 +242,30 @@ export default function JobsPage() {
                           </svg>
                           {job.client?.name}
                         </div>
+                        {job.status === 'rejected' && job.rejection_reason && (
+                          <p className="mt-2 text-sm text-orange-700">Rejected: {job.rejection_reason}</p>
+                        )}
                       </div>
                       <div className="flex items-center space-x-4">
                         <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${statusColors[job.status]}`}>
-                          {job.status.replace('_', ' ')}
+                          {jobStatusLabels[job.status]}
                         </span>
+                        {canEdit(job) && (job.status === 'draft' || job.status === 'rejected') && (
+                          <button
+                            onClick={() => handleSubmitForApproval(job)}
+                            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                          >
+                            Submit for Approval
+                          </button>
+                        )}
+                        {canEdit(job) && unapprovedJobStatuses.includes(job.status) && (
+                          <button
+                            onClick={() => router.push(`/dashboard/jobs/${job.id}/edit`)}
+                            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                          >
+                            Edit
+                          </button>
+                        )}
                         <button
                           onClick={() => handleViewDetails(job)}
                           className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -228,13 +279,21 @@ export default function JobsPage() {
                         <svg className="flex-shrink-0 mr-1.5 h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                           <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
                         </svg>
-                        Air Time: {job.air_time}
+                        {job.air_times?.length > 1 ? 'Air Times' : 'Air Time'}: {formatAirTimes(job.air_times, job.air_time)}
                       </div>
                       <div className="flex items-center text-sm text-gray-500">
                         <svg className="flex-shrink-0 mr-1.5 h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                           <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
                         </svg>
-                        Duration: {job.duration}
+                        Duration: {formatDuration(job.duration_seconds)}
+                        {job.duration_needs_review && (
+                          <span
+                            title={job.duration_legacy ? `Was "${job.duration_legacy}"` : undefined}
+                            className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                          >
+                            Needs review
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center text-sm text-gray-500">
                         <svg className="flex-shrink-0 mr-1.5 h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -248,6 +307,11 @@ export default function JobsPage() {
               </div>
             </div>
           )}
+          <Pagination
+            page={{ page, pageSize: defaultPageSize, total }}
+            onChange={setPage}
+            className="mt-6"
+          />
         </div>
       </DashboardLayout>
 
@@ -300,17 +364,20 @@ export default function JobsPage() {
                               <dt className="text-sm font-medium text-gray-500">Status</dt>
                               <dd className="mt-1">
                                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusColors[selectedJob?.status]}`}>
-                                  {selectedJob?.status.replace('_', ' ')}
+                                  {jobStatusLabels[selectedJob?.status]}
                                 </span>
+                                {selectedJob?.rejection_reason && selectedJob.status === 'rejected' && (
+                                  <p className="mt-1 text-sm text-orange-700">{selectedJob.rejection_reason}</p>
+                                )}
                               </dd>
                             </div>
                             <div>
                               <dt className="text-sm font-medium text-gray-500">Duration</dt>
-                              <dd className="mt-1 text-sm text-gray-900">{selectedJob?.duration}</dd>
+                              <dd className="mt-1 text-sm text-gray-900">{formatDuration(selectedJob?.duration_seconds)}</dd>
                             </div>
                             <div>
-                              <dt className="text-sm font-medium text-gray-500">Air Time</dt>
-                              <dd className="mt-1 text-sm text-gray-900">{selectedJob?.air_time}</dd>
+                              <dt className="text-sm font-medium text-gray-500">Air Times</dt>
+                              <dd className="mt-1 text-sm text-gray-900">{formatAirTimes(selectedJob?.air_times, selectedJob?.air_time)}</dd>
                             </div>
                             <div>
                               <dt className="text-sm font-medium text-gray-500">Rate</dt>
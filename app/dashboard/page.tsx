@@ -4,37 +4,9 @@ import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { supabase } from '@/lib/supabase';
-import { updateJobStatuses } from '@/lib/utils/cron';
-import { Database } from '@/lib/database.types';
-
-type Tables = Database['public']['Tables'];
-type Jobs = Tables['jobs']['Row'];
-type Clients = Tables['clients']['Row'];
-type Schedules = Tables['schedules']['Row'];
-
-type JobWithClient = {
-  id: string;
-  title: string;
-  status: string;
-  created_at: string;
-  client: {
-    name: string;
-  } | null;
-};
-
-type ScheduleWithJob = {
-  id: string;
-  status: string;
-  scheduled_date: string;
-  start_time: string;
-  end_time: string;
-  job: {
-    title: string;
-    client: {
-      name: string;
-    } | null;
-  } | null;
-};
+import { priceLine } from '@/lib/utils/pricing';
+import { clientsAPI, jobsAPI, schedulesAPI } from '@/lib/api/index';
+import type { JobWithClient, ScheduleWithJob } from '@/lib/api/index';
 
 type DashboardStats = {
   totalRevenue: number;
@@ -62,7 +34,7 @@ export default function DashboardPage() {
     checkNewUser();
     loadDashboardStats();
 
-    // Subscribe to real-time updates
+    // Subscribe to real-time updates, including the scheduler's status changes
     const subscription = supabase
       .channel('dashboard_channel')
       .on('postgres_changes', 
@@ -83,21 +55,8 @@ export default function DashboardPage() {
       )
       .subscribe();
 
-    // Update job statuses every minute
-    const updateInterval = setInterval(async () => {
-      try {
-        await updateJobStatuses();
-      } catch (error) {
-        console.error('Failed to update job statuses:', error);
-      }
-    }, 60000); // Every minute
-
-    // Initial update
-    updateJobStatuses().catch(console.error);
-
     return () => {
       subscription.unsubscribe();
-      clearInterval(updateInterval);
     };
   }, []);
 
@@ -108,19 +67,12 @@ export default function DashboardPage() {
       if (!user) return;
 
       // Check if user has any jobs or clients
-      const { data: jobs } = await supabase
-        .from('jobs')
-        .select('id')
-        .eq('user_id', user.id)
-        .limit(1);
-
-      const { data: clients } = await supabase
-        .from('clients')
-        .select('id')
-        .eq('user_id', user.id)
-        .limit(1);
+      const [jobs, clients] = await Promise.all([
+        jobsAPI.listJobs({ createdBy: user.id, page: 1, pageSize: 1 }),
+        clientsAPI.listClients({ createdBy: user.id, page: 1, pageSize: 1 }),
+      ]);
 
-      setIsNewUser(!jobs?.length && !clients?.length);
+      setIsNewUser(!jobs.total && !clients.total);
     } catch (error) {
       console.error('Error checking new user status:', error);
     }
@@ -138,127 +90,28 @@ export default function DashboardPage() {
       const today = new Date();
       const todayStr = format(today, 'yyyy-MM-dd');
 
-      // Run all queries in parallel
-      const [
-        recentJobsResult,
-        recentSchedulesResult,
-        revenueResult,
-        totalJobsResult,
-        activeJobsResult,
-        upcomingSchedulesResult
-      ] = await Promise.all([
-        // Recent jobs query
-        (supabase
-          .from('jobs')
-          .select(`
-            id,
-            title,
-            status,
-            created_at,
-            client:clients (
-              name
-            )
-          `)
-          .order('created_at', { ascending: false })
-          .limit(5)).then(result => ({
-            data: result.data as (Omit<Database['public']['Tables']['jobs']['Row'], 'client'> & {
-              client: { name: string } | null
-            })[] | null,
-            error: result.error
-          })),
-
-        // Upcoming schedules query
-        (supabase
-          .from('schedules')
-          .select(`
-            id,
-            status,
-            scheduled_date,
-            start_time,
-            end_time,
-            job:jobs (
-              title,
-              client:clients (
-                name
-              )
-            )
-          `)
-          .eq('status', 'upcoming')
-          .order('scheduled_date', { ascending: true })
-          .order('start_time', { ascending: true })
-          .limit(5)).then(result => ({
-            data: result.data as (Omit<Database['public']['Tables']['schedules']['Row'], 'job'> & {
-              job: {
-                title: string;
-                client: { name: string } | null;
-              } | null;
-            })[] | null,
-            error: result.error
-          })),
-
-        // Total revenue query (from completed jobs)
-        supabase
-          .from('jobs')
-          .select('rate')
-          .eq('status', 'completed'),
-
-        // Total jobs count
-        supabase
-          .from('jobs')
-          .select('id', { count: 'exact', head: true }),
-
-        // Active jobs count
-        supabase
-          .from('jobs')
-          .select('id', { count: 'exact', head: true })
-          .eq('status', 'in_progress'),
-
-        // Upcoming schedules count
-        supabase
-          .from('schedules')
-          .select('id', { count: 'exact', head: true })
-          .gte('scheduled_date', todayStr)
+      // Run all queries in parallel; the single-row pages are only there for their totals
+      const [recentJobs, upcomingSchedules, completedJobs, activeJobs, schedulesFromToday] = await Promise.all([
+        jobsAPI.listJobs({ page: 1, pageSize: 5 }),
+        schedulesAPI.listSchedules({ status: 'upcoming', page: 1, pageSize: 5 }),
+        jobsAPI.listJobs({ status: 'completed' }),
+        jobsAPI.listJobs({ status: 'in_progress', page: 1, pageSize: 1 }),
+        schedulesAPI.listSchedules({ from: todayStr, page: 1, pageSize: 1 }),
       ]);
 
-      // Check for errors
-      if (recentJobsResult.error) throw recentJobsResult.error;
-      if (recentSchedulesResult.error) throw recentSchedulesResult.error;
-      if (revenueResult.error) throw revenueResult.error;
-      if (totalJobsResult.error) throw totalJobsResult.error;
-      if (activeJobsResult.error) throw activeJobsResult.error;
-      if (upcomingSchedulesResult.error) throw upcomingSchedulesResult.error;
-
-      // Calculate total revenue
-      const totalRevenue = revenueResult.data?.reduce((sum, job) => sum + (job.rate || 0), 0) || 0;
-
-      // Transform the data to match our types
-      const transformedJobs: JobWithClient[] = (recentJobsResult.data || []).map(job => ({
-        id: job.id,
-        title: job.title,
-        status: job.status,
-        created_at: job.created_at,
-        client: job.client
-      }));
-
-      const transformedSchedules: ScheduleWithJob[] = (recentSchedulesResult.data || []).map(schedule => ({
-        id: schedule.id,
-        status: schedule.status,
-        scheduled_date: schedule.scheduled_date,
-        start_time: schedule.start_time,
-        end_time: schedule.end_time,
-        job: schedule.job ? {
-          title: schedule.job.title,
-          client: schedule.job.client
-        } : null
-      }));
+      // Calculate total revenue, net of discounts and agency commission
+      const totalRevenue = completedJobs.rows.reduce(
+        (sum, job) => sum + priceLine({ quantity: 1, ...job, rate: job.rate || 0 }).amount,
+        0
+      );
 
       setStats({
         totalRevenue,
-        totalJobs: totalJobsResult.count || 0,
-        activeJobs: activeJobsResult.count || 0,
-        upcomingSchedules: upcomingSchedulesResult.count || 0,
-        recentJobs: transformedJobs,
-        recentSchedules: transformedSchedules,
+        totalJobs: recentJobs.total,
+        activeJobs: activeJobs.total,
+        upcomingSchedules: schedulesFromToday.total,
+        recentJobs: recentJobs.rows,
+        recentSchedules: upcomingSchedules.rows,
       });
     } catch (error) {
       console.error('Error loading dashboard stats:', error);
@@ -3,54 +3,15 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import { format, startOfWeek, addDays, parseISO, isSameDay, isBefore } from 'date-fns';
 import DashboardLayout from '@/components/layout/DashboardLayout';
-import { schedulesAPI } from '@/lib/api/index';
+import { jobsAPI, schedulesAPI } from '@/lib/api/index';
+import type { ScheduleWithJob } from '@/lib/api/index';
 import { supabase } from '@/lib/supabase';
-import type { Database } from '@/lib/database.types';
-import { updateJobStatus } from '@/lib/utils/jobs';
 import { toast } from 'react-hot-toast';
 import { useRouter } from 'next/navigation';
 
-type RawSchedule = {
-  id: string;
-  job_id: string;
-  scheduled_date: string;
-  start_time: string;
-  end_time: string;
-  status: 'upcoming' | 'live' | 'completed' | 'cancelled';
-  notes: string | null;
-  created_at: string;
-  created_by: string;
-  updated_at: string;
-  job: {
-    id: string;
-    title: string;
-    client: {
-      id: string;
-      name: string;
-    } | null;
-    status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
-  } | null;
-};
-
-type Schedule = {
-  id: string;
-  job_id: string;
-  scheduled_date: string;
-  start_time: string;
-  end_time: string;
-  status: 'upcoming' | 'live' | 'completed' | 'cancelled';
-  job: {
-    id: string;
-    title: string;
-    client: {
-      id: string;
-      name: string;
-    };
-    status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
-  };
-};
+type Schedule = ScheduleWithJob;
 
-type ScheduleStatus = 'upcoming' | 'live' | 'completed' | 'cancelled';
+type ScheduleStatus = Schedule['status'];
 
 const timeSlots = Array.from({ length: 24 }, (_, i) => {
   const hour = i.toString().padStart(2, '0');
@@ -98,40 +59,13 @@ export default function SchedulePage() {
       }
 
       const weekEnd = addDays(weekStart, 6);
-      const { data: rawSchedules, error } = await supabase
-        .from('schedules')
-        .select(`
-          *,
-          job:jobs (
-            id,
-            title,
-            status,
-            client:clients (
-              id,
-              name
-            )
-          )
-        `)
-        .eq('created_by', user.id)
-        .gte('scheduled_date', format(weekStart, 'yyyy-MM-dd'))
-        .lte('scheduled_date', format(weekEnd, 'yyyy-MM-dd'))
-        .order('scheduled_date')
-        .order('start_time');
-
-      if (error) throw error;
-
-      // Filter out schedules with null jobs or clients
-      const validSchedules = (rawSchedules as RawSchedule[])
-        .filter(schedule => schedule.job && schedule.job.client)
-        .map(schedule => ({
-          ...schedule,
-          job: {
-            ...schedule.job!,
-            client: schedule.job!.client!
-          }
-        }));
+      const { rows } = await schedulesAPI.listSchedules({
+        from: format(weekStart, 'yyyy-MM-dd'),
+        to: format(weekEnd, 'yyyy-MM-dd'),
+      });
 
-      setSchedules(validSchedules as Schedule[]);
+      // Row level security can hide a schedule's job or its client
+      setSchedules(rows.filter(schedule => schedule.job?.client));
     } catch (error) {
       console.error('Error fetching schedules:', error);
       toast.error('Failed to load schedules');
@@ -166,7 +100,7 @@ export default function SchedulePage() {
             schedule.status !== 'cancelled' &&
             schedule.job?.status !== 'completed') {
           try {
-            updateJobStatus(schedule.job.id, schedule.id, 'completed');
+            jobsAPI.updateJobStatus(schedule.job.id, schedule.id, 'completed');
             schedule.status = 'completed';
             schedule.job.status = 'completed';
             hasUpdates = true;
@@ -187,22 +121,20 @@ export default function SchedulePage() {
 
   const handleCompleteJob = async (schedule: Schedule) => {
     try {
-      await updateJobStatus(schedule.job.id, schedule.id, 'completed');
-      toast.success('Job marked as completed');
+      const jobStatus = await jobsAPI.updateJobStatus(schedule.job.id, schedule.id, 'completed');
+      toast.success(jobStatus === 'completed' ? 'Job marked as completed' : 'Spot marked as aired');
       
       // Update local state
       setSchedules(prev => prev.map(s => {
-        if (s.id === schedule.id) {
-          return {
-            ...s,
-            status: 'completed',
-            job: {
-              ...s.job,
-              status: 'completed'
-            }
-          };
-        }
-        return s;
+        if (s.job_id !== schedule.job_id) return s;
+        return {
+          ...s,
+          status: s.id === schedule.id ? 'completed' : s.status,
+          job: {
+            ...s.job,
+            status: jobStatus
+          }
+        };
       }));
     } catch (error) {
       toast.error('Failed to update job status');
@@ -216,6 +148,25 @@ export default function SchedulePage() {
     shortDate: format(addDays(weekStart, i), 'MMM d'),
   })), [weekStart]);
 
+  // "Spot 2 of 3" labels for jobs that air several times a day
+  const spotPositions = useMemo(() => {
+    const byJobDay = new Map<string, Schedule[]>();
+    for (const schedule of schedules) {
+      const key = `${schedule.job_id}:${schedule.scheduled_date}`;
+      byJobDay.set(key, [...(byJobDay.get(key) || []), schedule]);
+    }
+
+    const positions = new Map<string, { index: number; total: number }>();
+    byJobDay.forEach((daySchedules) => {
+      [...daySchedules]
+        .sort((a, b) => a.start_time.localeCompare(b.start_time))
+        .forEach((schedule, index) => {
+          positions.set(schedule.id, { index: index + 1, total: daySchedules.length });
+        });
+    });
+    return positions;
+  }, [schedules]);
+
   const getSchedulesForTimeSlot = useCallback((date: Date, time: string) => {
     return schedules.filter(schedule => {
       const scheduleDate = parseISO(schedule.scheduled_date);
@@ -334,29 +285,38 @@ export default function SchedulePage() {
                             isSameDay(day.date, new Date()) ? 'bg-blue-50' : ''
                           }`}
                         >
-                          {daySchedules.map((schedule) => (
-                            <div
-                              key={schedule.id}
-                              className={`p-2 mb-1 rounded-lg border ${statusColors[schedule.status]} shadow-sm`}
-                              style={{
-                                marginTop: `${(parseInt(schedule.start_time.split(':')[1]) / 60) * 4}rem`
-                              }}
-                            >
-                              <div className="font-medium text-sm">{schedule.job.title}</div>
-                              <div className="text-xs mt-1">{schedule.job.client.name}</div>
-                              <div className="text-xs mt-1">
-                                {formatTimeDisplay(schedule.start_time)} - {formatTimeDisplay(schedule.end_time)}
+                          {daySchedules.map((schedule) => {
+                            const spot = spotPositions.get(schedule.id);
+
+                            return (
+                              <div
+                                key={schedule.id}
+                                className={`p-2 mb-1 rounded-lg border ${statusColors[schedule.status]} shadow-sm`}
+                                style={{
+                                  marginTop: `${(parseInt(schedule.start_time.split(':')[1]) / 60) * 4}rem`
+                                }}
+                              >
+                                <div className="font-medium text-sm">{schedule.job.title}</div>
+                                <div className="text-xs mt-1">{schedule.job.client.name}</div>
+                                <div className="text-xs mt-1">
+                                  {formatTimeDisplay(schedule.start_time)} - {formatTimeDisplay(schedule.end_time)}
+                                </div>
+                                {spot && spot.total > 1 && (
+                                  <div className="text-xs mt-1 text-gray-600">
+                                    Spot {spot.index} of {spot.total}
+                                  </div>
+                                )}
+                                {schedule.status !== 'completed' && schedule.status !== 'cancelled' && (
+                                  <button
+                                    onClick={() => handleCompleteJob(schedule)}
+                                    className="mt-2 w-full px-2 py-1 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-green-500"
+                                  >
+                                    Mark Complete
+                                  </button>
+                                )}
                               </div>
-                              {schedule.status !== 'completed' && schedule.status !== 'cancelled' && (
-                                <button
-                                  onClick={() => handleCompleteJob(schedule)}
-                                  className="mt-2 w-full px-2 py-1 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-green-500"
-                                >
-                                  Mark Complete
-                                </button>
-                              )}
-                            </div>
-                          ))}
+                            );
+                          })}
                         </div>
                       );
                     })}
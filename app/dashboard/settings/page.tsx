@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useUser } from '@/hooks/useUser';
+import { useAuth } from '@/context/AuthContext';
+import { LoadingSpinner } from '@/components/settings/SettingsSection';
+import { ProfileSettings } from '@/components/settings/ProfileSettings';
+import { OrganisationSettingsForm } from '@/components/settings/OrganisationSettingsForm';
+import { InvoiceDefaultsSettings } from '@/components/settings/InvoiceDefaultsSettings';
+import { RateCardSettingsForm } from '@/components/settings/RateCardSettingsForm';
+import { NotificationSettings } from '@/components/settings/NotificationSettings';
+import { StationsSettings } from '@/components/settings/StationsSettings';
+import { can, staffRoles } from '@/lib/utils/permissions';
+
+// Station-wide tabs are hidden from advertisers
+const tabs = [
+  { id: 'profile', name: 'Profile', stationWide: false },
+  { id: 'organisation', name: 'Organisation', stationWide: true },
+  { id: 'stations', name: 'Stations', stationWide: true },
+  { id: 'invoices', name: 'Invoice Defaults', stationWide: true },
+  { id: 'rate-cards', name: 'Rate Cards', stationWide: true },
+  { id: 'notifications', name: 'Notifications', stationWide: false },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { user: authUser, loading } = useUser();
+  // The profile row, which carries the user's name and role
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<TabId>('profile');
+
+  useEffect(() => {
+    if (!loading && !authUser) {
+      router.push('/auth/login');
+    }
+  }, [authUser, loading, router]);
+
+  // Station-wide tabs are read-only for everyone but admins
+  const canEdit = can(user?.role, 'settings:manage');
+  const visibleTabs = tabs.filter(tab => !tab.stationWide || (user && staffRoles.includes(user.role)));
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Settings</h1>
+
+        <div className="mt-6 border-b border-gray-200">
+          <nav className="-mb-px flex space-x-8 overflow-x-auto">
+            {visibleTabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`whitespace-nowrap border-b-2 py-3 px-1 text-sm font-medium ${
+                  activeTab === tab.id
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                }`}
+              >
+                {tab.name}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="mt-6">
+          {!user ? (
+            <LoadingSpinner />
+          ) : activeTab === 'profile' ? (
+            <ProfileSettings />
+          ) : activeTab === 'organisation' ? (
+            <OrganisationSettingsForm userId={user.id} canEdit={canEdit} />
+          ) : activeTab === 'stations' ? (
+            <StationsSettings currentStationId={user.current_station_id} canEdit={canEdit} />
+          ) : activeTab === 'invoices' ? (
+            <InvoiceDefaultsSettings userId={user.id} canEdit={canEdit} />
+          ) : activeTab === 'rate-cards' ? (
+            <RateCardSettingsForm userId={user.id} canEdit={canEdit} />
+          ) : (
+            <NotificationSettings userId={user.id} />
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
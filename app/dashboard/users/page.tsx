@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useUser } from '@/hooks/useUser';
+import { useAuth } from '@/context/AuthContext';
+import { userAPI, toApiError } from '@/lib/api/index';
+import { can, roleLabels } from '@/lib/utils/permissions';
+import type { Role } from '@/lib/utils/permissions';
+import type { Database } from '@/lib/database.types';
+
+type User = Database['public']['Tables']['users']['Row'];
+
+const emptyInvite = { name: '', email: '', role: 'host' as Role };
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function UsersPage() {
+  const router = useRouter();
+  const { user: authUser, loading: authLoading } = useUser();
+  const { user } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInvite, setShowInvite] = useState(false);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const canManage = can(user?.role, 'users:manage');
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers((await userAPI.listUsers()).rows);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && !authUser) {
+      router.push('/auth/login');
+      return;
+    }
+    if (user && canManage) loadUsers();
+  }, [authUser, authLoading, user, canManage, router, loadUsers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite.name.trim() || !invite.email.trim()) {
+      toast.error('Name and email are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await userAPI.inviteUser({ ...invite, name: invite.name.trim(), email: invite.email.trim() });
+      toast.success(`Invite sent to ${invite.email.trim()}`);
+      setInvite(emptyInvite);
+      setShowInvite(false);
+      await loadUsers();
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      toast.error(toApiError(error).message || 'Failed to invite user');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (target: User, role: Role) => {
+    if (target.id === user?.id && role !== 'admin' &&
+      !window.confirm('You will lose access to user management. Continue?')) {
+      return;
+    }
+
+    try {
+      setUpdatingId(target.id);
+      await userAPI.updateRole(target.id, role);
+      toast.success(`${target.name} is now ${roleLabels[role]}`);
+      await loadUsers();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast.error(toApiError(error).message || 'Failed to change role');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">Users</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Everyone with a login and what their role lets them do. Staff join by invite; advertisers can also sign up themselves.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              onClick={() => setShowInvite(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+            >
+              Invite User
+            </button>
+          </div>
+        </div>
+
+        {showInvite && (
+          <form onSubmit={handleInvite} className="mt-6 rounded-lg border border-gray-200 bg-white p-6 shadow-sm space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="invite_name" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  id="invite_name"
+                  value={invite.name}
+                  onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="invite_email" className="block text-sm font-medium text-gray-700">Email</label>
+                <input
+                  type="email"
+                  id="invite_email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="invite_role" className="block text-sm font-medium text-gray-700">Role</label>
+                <select
+                  id="invite_role"
+                  value={invite.role}
+                  onChange={(e) => setInvite({ ...invite, role: e.target.value as Role })}
+                  className={inputClass}
+                >
+                  {Object.entries(roleLabels).map(([role, label]) => (
+                    <option key={role} value={role}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowInvite(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Sending...' : 'Send Invite'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="mt-8">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {users.map((member) => (
+                    <tr key={member.id}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                        {member.name}
+                        {member.id === user?.id && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{member.email}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <select
+                          value={member.role}
+                          disabled={updatingId === member.id}
+                          onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-50"
+                        >
+                          {Object.entries(roleLabels).map(([role, label]) => (
+                            <option key={role} value={role}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useUser } from '@/hooks/useUser';
+import { useAuth } from '@/context/AuthContext';
+import { clientsAPI, invoicesAPI, organisationAPI } from '@/lib/api/index';
+import type { InvoiceDocument } from '@/lib/api/index';
+import { downloadInvoicePDF } from '@/lib/utils/pdfGenerator';
+import type { OrganisationSettings } from '@/lib/utils/organisation';
+import { formatCurrency } from '@/lib/utils';
+import type { Database } from '@/lib/database.types';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type Activity = Awaited<ReturnType<typeof clientsAPI.getClientActivity>>;
+
+const MAX_SPOTS_SHOWN = 10;
+
+const invoiceBalance = (invoice: InvoiceDocument) =>
+  invoice.status === 'paid' || invoice.status === 'draft'
+    ? 0
+    : Math.max(invoice.total_amount - invoice.wht_total - invoice.credited_total - invoice.amount_paid, 0);
+
+const formatSpotTime = (spot: { scheduled_date: string; start_time: string }) =>
+  `${format(parseISO(spot.scheduled_date), 'EEE d MMM yyyy')} at ${spot.start_time.slice(0, 5)}`;
+
+export default function PortalPage() {
+  const router = useRouter();
+  const { user: authUser, loading: authLoading } = useUser();
+  const { user } = useAuth();
+  const [client, setClient] = useState<Client | null>(null);
+  const [activity, setActivity] = useState<Activity>({ jobs: [], invoices: [] });
+  const [invoices, setInvoices] = useState<InvoiceDocument[]>([]);
+  const [organisation, setOrganisation] = useState<OrganisationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const clientId = user?.client_id ?? null;
+
+  const loadPortal = useCallback(async (clientId: string) => {
+    try {
+      const [client, activity, invoices, organisation] = await Promise.all([
+        clientsAPI.getClient(clientId),
+        clientsAPI.getClientActivity(clientId),
+        invoicesAPI.listInvoices({ clientId }),
+        organisationAPI.getSettings(),
+      ]);
+      setClient(client);
+      setActivity(activity);
+      setInvoices(invoices.rows);
+      setOrganisation(organisation);
+    } catch (error) {
+      console.error('Error loading portal:', error);
+      toast.error('Failed to load your campaigns');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && !authUser) {
+      router.push('/auth/login');
+      return;
+    }
+    if (!user) return;
+    if (user.role !== 'advertiser') {
+      router.replace('/dashboard');
+      return;
+    }
+    if (clientId) {
+      loadPortal(clientId);
+    } else {
+      setLoading(false);
+    }
+  }, [authUser, authLoading, user, clientId, router, loadPortal]);
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!clientId || !client) {
+    return (
+      <DashboardLayout>
+        <div className="max-w-xl mx-auto py-12 text-center">
+          <h1 className="text-2xl font-semibold text-gray-900">Welcome</h1>
+          <p className="mt-4 text-gray-600">
+            Your account isn&apos;t linked to an advertiser yet. Ask the station to give you portal access,
+            then sign in again to see your campaigns and invoices.
+          </p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const spots = activity.jobs.flatMap(job => job.schedules.map(schedule => ({ ...schedule, jobTitle: job.title })));
+  const upcomingSpots = spots
+    .filter(spot => spot.status === 'upcoming' && spot.scheduled_date >= today)
+    .sort((a, b) => `${a.scheduled_date} ${a.start_time}`.localeCompare(`${b.scheduled_date} ${b.start_time}`));
+  const airedSpots = spots
+    .filter(spot => spot.status === 'completed')
+    .sort((a, b) => `${b.scheduled_date} ${b.start_time}`.localeCompare(`${a.scheduled_date} ${a.start_time}`));
+  const outstanding = invoices.reduce((sum, invoice) => sum + invoiceBalance(invoice), 0);
+
+  const stats = [
+    { label: 'Campaigns', value: activity.jobs.length.toString() },
+    { label: 'Upcoming Spots', value: upcomingSpots.length.toString() },
+    { label: 'Aired Spots', value: airedSpots.length.toString() },
+    { label: 'Outstanding', value: formatCurrency(outstanding) },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">{client.name}</h1>
+            <p className="mt-2 text-sm text-gray-700">Your campaigns, spots and invoices.</p>
+          </div>
+          <Link
+            href="/portal/requests"
+            className="mt-4 sm:mt-0 inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700"
+          >
+            Request a Booking
+          </Link>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+              <dt className="text-sm text-gray-500">{stat.label}</dt>
+              <dd className="mt-1 text-xl font-semibold text-gray-900">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900">Campaigns</h2>
+          {activity.jobs.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No campaigns booked yet.</p>
+          ) : (
+            <div className="mt-3 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaign</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aired</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Booked</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {activity.jobs.map(job => (
+                    <tr key={job.id}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{job.title}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500 capitalize">{job.status.replace('_', ' ')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                        {job.schedules.filter(schedule => schedule.status === 'completed').length}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                        {job.schedules.filter(schedule => schedule.status !== 'cancelled').length}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+          <section>
+            <h2 className="text-lg font-medium text-gray-900">Upcoming Spots</h2>
+            {upcomingSpots.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">Nothing scheduled.</p>
+            ) : (
+              <ul className="mt-3 divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+                {upcomingSpots.slice(0, MAX_SPOTS_SHOWN).map(spot => (
+                  <li key={spot.id} className="flex justify-between px-6 py-3 text-sm">
+                    <span className="text-gray-900">{spot.jobTitle}</span>
+                    <span className="text-gray-500">{formatSpotTime(spot)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-lg font-medium text-gray-900">Recently Aired</h2>
+            {airedSpots.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">No spots have aired yet.</p>
+            ) : (
+              <ul className="mt-3 divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+                {airedSpots.slice(0, MAX_SPOTS_SHOWN).map(spot => (
+                  <li key={spot.id} className="flex justify-between px-6 py-3 text-sm">
+                    <span className="text-gray-900">{spot.jobTitle}</span>
+                    <span className="text-gray-500">{formatSpotTime(spot)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900">Invoices</h2>
+          {invoices.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No invoices yet.</p>
+          ) : (
+            <div className="mt-3 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {invoices.map(invoice => (
+                    <tr key={invoice.id}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{invoice.invoice_number}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{format(parseISO(invoice.due_date), 'd MMM yyyy')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500 capitalize">{invoice.status.replace('_', ' ')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(invoice.total_amount)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(invoiceBalance(invoice))}</td>
+                      <td className="px-6 py-4 text-sm text-right">
+                        <button
+                          onClick={() => organisation && downloadInvoicePDF(invoice, organisation)}
+                          disabled={!organisation}
+                          className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                        >
+                          Download PDF
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { addDays, format, parseISO } from 'date-fns';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { AirTimesField } from '@/components/jobs/AirTimesField';
+import { useUser } from '@/hooks/useUser';
+import { useAuth } from '@/context/AuthContext';
+import { bookingRequestsAPI } from '@/lib/api/index';
+import type { BookingRequest } from '@/lib/api/index';
+import { formatCurrency } from '@/lib/utils';
+import { formatDuration } from '@/lib/utils/duration';
+
+type RequestFormData = {
+  title: string;
+  duration_seconds: number;
+  start_date: string;
+  end_date: string;
+  preferred_air_times: string[];
+  spots_per_day: number;
+  budget: string;
+  notes: string;
+};
+
+const spotLengths = [15, 30, 45, 60];
+
+const newRequest = (): RequestFormData => ({
+  title: '',
+  duration_seconds: 30,
+  start_date: format(addDays(new Date(), 7), 'yyyy-MM-dd'),
+  end_date: format(addDays(new Date(), 13), 'yyyy-MM-dd'),
+  preferred_air_times: ['07:00'],
+  spots_per_day: 1,
+  budget: '',
+  notes: '',
+});
+
+const statusColors: Record<BookingRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function PortalRequestsPage() {
+  const router = useRouter();
+  const { user: authUser, loading: authLoading } = useUser();
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<BookingRequest[]>([]);
+  const [formData, setFormData] = useState<RequestFormData>(newRequest);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const clientId = user?.client_id ?? null;
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setRequests((await bookingRequestsAPI.listRequests()).rows);
+    } catch (error) {
+      console.error('Error loading booking requests:', error);
+      toast.error('Failed to load booking requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && !authUser) {
+      router.push('/auth/login');
+      return;
+    }
+    if (!user) return;
+    if (user.role !== 'advertiser') {
+      router.replace('/dashboard/booking-requests');
+      return;
+    }
+    loadRequests();
+  }, [authUser, authLoading, user, router, loadRequests]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !clientId) return;
+
+    const airTimes = Array.from(new Set(formData.preferred_air_times.filter(Boolean))).sort();
+    const budget = formData.budget ? parseFloat(formData.budget) : null;
+
+    if (!formData.title.trim()) {
+      toast.error('Give the campaign a name');
+      return;
+    }
+    if (formData.end_date < formData.start_date) {
+      toast.error('End date must be on or after the start date');
+      return;
+    }
+    if (formData.spots_per_day < 1) {
+      toast.error('Ask for at least one spot a day');
+      return;
+    }
+    if (budget !== null && !(budget > 0)) {
+      toast.error('Budget must be more than zero');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await bookingRequestsAPI.createRequest({
+        client_id: clientId,
+        title: formData.title.trim(),
+        duration_seconds: formData.duration_seconds,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+        preferred_air_times: airTimes,
+        spots_per_day: formData.spots_per_day,
+        budget,
+        notes: formData.notes.trim() || null,
+        created_by: user.id,
+      });
+      toast.success('Request sent. The station will review it shortly.');
+      setFormData(newRequest());
+      await loadRequests();
+    } catch (error) {
+      console.error('Error submitting booking request:', error);
+      toast.error('Failed to send request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Booking Requests</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Tell us what you&apos;d like to air. A member of the station team will confirm the slots and rate.
+          </p>
+        </div>
+
+        {!clientId ? (
+          <p className="text-sm text-gray-500">
+            Your account isn&apos;t linked to an advertiser yet, so you can&apos;t request bookings.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label htmlFor="request_title" className="block text-sm font-medium text-gray-700">Campaign</label>
+                <input
+                  type="text"
+                  id="request_title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g. Christmas sales promo"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="request_duration" className="block text-sm font-medium text-gray-700">Spot Length</label>
+                <select
+                  id="request_duration"
+                  value={formData.duration_seconds}
+                  onChange={(e) => setFormData({ ...formData, duration_seconds: parseInt(e.target.value) })}
+                  className={inputClass}
+                >
+                  {spotLengths.map(length => (
+                    <option key={length} value={length}>{length} seconds</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="request_start" className="block text-sm font-medium text-gray-700">From</label>
+                <input
+                  type="date"
+                  id="request_start"
+                  value={formData.start_date}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="request_end" className="block text-sm font-medium text-gray-700">To</label>
+                <input
+                  type="date"
+                  id="request_end"
+                  value={formData.end_date}
+                  min={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="request_spots" className="block text-sm font-medium text-gray-700">Spots per Day</label>
+                <input
+                  type="number"
+                  id="request_spots"
+                  min="1"
+                  value={formData.spots_per_day}
+                  onChange={(e) => setFormData({ ...formData, spots_per_day: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Preferred Air Times</span>
+                <AirTimesField
+                  value={formData.preferred_air_times}
+                  onChange={(preferred_air_times) => setFormData({ ...formData, preferred_air_times })}
+                />
+              </div>
+              <div>
+                <label htmlFor="request_budget" className="block text-sm font-medium text-gray-700">Budget (optional)</label>
+                <input
+                  type="number"
+                  id="request_budget"
+                  min="0"
+                  step="0.01"
+                  value={formData.budget}
+                  onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="request_notes" className="block text-sm font-medium text-gray-700">Notes</label>
+                <textarea
+                  id="request_notes"
+                  rows={3}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  className={inputClass}
+                  placeholder="Anything the station should know"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Sending...' : 'Send Request'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900">Your Requests</h2>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">You haven&apos;t requested any bookings yet.</p>
+          ) : (
+            <ul className="mt-3 space-y-3">
+              {requests.map(request => (
+                <li key={request.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{request.title}</p>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {formatDuration(request.duration_seconds)} spots, {request.spots_per_day} a day,{' '}
+                        {format(parseISO(request.start_date), 'd MMM')} to {format(parseISO(request.end_date), 'd MMM yyyy')}
+                        {request.budget !== null && ` · budget ${formatCurrency(request.budget)}`}
+                      </p>
+                    </div>
+                    <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusColors[request.status]}`}>
+                      {request.status}
+                    </span>
+                  </div>
+                  {request.review_note && (
+                    <p className="mt-2 text-sm text-gray-700">Station note: {request.review_note}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </DashboardLayout>
+  );
+}
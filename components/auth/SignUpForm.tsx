@@ -3,9 +3,6 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
-import type { Database } from '@/lib/database.types';
-
-type UserRole = Database['public']['Tables']['users']['Row']['role'];
 
 export function SignUpForm() {
   const [status, setStatus] = useState('idle');
@@ -13,7 +10,6 @@ export function SignUpForm() {
     name: '',
     email: '',
     password: '',
-    role: 'host' as UserRole,
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -37,15 +33,13 @@ export function SignUpForm() {
       setStatus('signing-up');
       console.log('Starting signup process with:', {
         email: formData.email,
-        name: formData.name,
-        role: formData.role
+        name: formData.name
       });
 
       const result = await signUp(
         formData.email,
         formData.password,
-        formData.name,
-        formData.role
+        formData.name
       );
 
       setStatus('completed');
@@ -64,7 +58,7 @@ export function SignUpForm() {
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
@@ -138,22 +132,9 @@ export function SignUpForm() {
         />
       </div>
 
-      <div>
-        <label htmlFor="role" className="block text-sm font-medium text-gray-700">
-          Role
-        </label>
-        <select
-          id="role"
-          name="role"
-          value={formData.role}
-          onChange={handleChange}
-          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-        >
-          <option value="host">Radio Host</option>
-          <option value="advertiser">Advertiser</option>
-          <option value="admin">Admin</option>
-        </select>
-      </div>
+      <p className="text-sm text-gray-500">
+        This creates an advertiser account. Station staff are invited by an admin.
+      </p>
 
       <button
         type="submit"
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { agenciesAPI } from '@/lib/api/index';
+import type { Database } from '@/lib/database.types';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type Agency = Database['public']['Tables']['agencies']['Row'];
+
+export type ClientFormValues = Pick<Client, 'name' | 'contact_person' | 'email' | 'phone' | 'address' | 'agency_id'>;
+
+interface ClientFormProps {
+  client?: Client;
+  onSubmit: (values: ClientFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export function ClientForm({ client, onSubmit, onCancel }: ClientFormProps) {
+  const [formData, setFormData] = useState({
+    name: client?.name ?? '',
+    contact_person: client?.contact_person ?? '',
+    email: client?.email ?? '',
+    phone: client?.phone ?? '',
+    address: client?.address ?? '',
+    agency_id: client?.agency_id ?? '',
+  });
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    agenciesAPI.listAgencies()
+      .then(({ rows }) => setAgencies(rows))
+      .catch(error => console.error('Error loading agencies:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast.error('Client name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSubmit({
+        name: formData.name.trim(),
+        contact_person: formData.contact_person.trim() || null,
+        email: formData.email.trim() || null,
+        phone: formData.phone.trim() || null,
+        address: formData.address.trim() || null,
+        agency_id: formData.agency_id || null,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="client_name" className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            id="client_name"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={inputClass}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="client_contact" className="block text-sm font-medium text-gray-700">Contact Person</label>
+          <input
+            type="text"
+            id="client_contact"
+            value={formData.contact_person}
+            onChange={(e) => setFormData({ ...formData, contact_person: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="client_agency" className="block text-sm font-medium text-gray-700">Agency</label>
+          <select
+            id="client_agency"
+            value={formData.agency_id}
+            onChange={(e) => setFormData({ ...formData, agency_id: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Direct (no agency)</option>
+            {agencies.map(agency => (
+              <option key={agency.id} value={agency.id}>{agency.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="client_email" className="block text-sm font-medium text-gray-700">Email</label>
+          <input
+            type="email"
+            id="client_email"
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="client_phone" className="block text-sm font-medium text-gray-700">Phone</label>
+          <input
+            type="tel"
+            id="client_phone"
+            value={formData.phone}
+            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="client_address" className="block text-sm font-medium text-gray-700">Address</label>
+          <input
+            type="text"
+            id="client_address"
+            value={formData.address}
+            onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Client'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { pageCount } from '@/lib/api/index';
+import type { Page } from '@/lib/api/index';
+
+interface PaginationProps {
+  page: Pick<Page<unknown>, 'page' | 'pageSize' | 'total'>;
+  onChange: (page: number) => void;
+  className?: string;
+}
+
+export function Pagination({ page, onChange, className = '' }: PaginationProps) {
+  const pages = pageCount(page);
+  if (pages <= 1) return null;
+
+  const first = (page.page - 1) * page.pageSize + 1;
+  const last = Math.min(page.page * page.pageSize, page.total);
+
+  return (
+    <div className={`flex items-center justify-between text-sm text-gray-700 ${className}`}>
+      <p>
+        Showing {first}–{last} of {page.total}
+      </p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onChange(page.page - 1)}
+          disabled={page.page <= 1}
+          className="px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(page.page + 1)}
+          disabled={page.page >= pages}
+          className="px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
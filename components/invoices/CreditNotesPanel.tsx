@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { creditNotesAPI } from '@/lib/api/index';
+import type { CreditNoteDocument, InvoiceDocument } from '@/lib/api/index';
+import { useAuth } from '@/context/AuthContext';
+import { can } from '@/lib/utils/permissions';
+import { roundCurrency } from '@/lib/utils/tax';
+import { downloadCreditNotePDF } from '@/lib/utils/pdfGenerator';
+import type { OrganisationSettings } from '@/lib/utils/organisation';
+
+interface CreditNotesPanelProps {
+  invoice: InvoiceDocument;
+  organisation: OrganisationSettings | null;
+  formatCurrency: (amount: number) => string;
+  formatDate: (date: string) => string;
+  onChange: () => void;
+}
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export function CreditNotesPanel({ invoice, organisation, formatCurrency, formatDate, onChange }: CreditNotesPanelProps) {
+  const { user: profile } = useAuth();
+  const canManage = can(profile?.role, 'invoices:manage');
+  const [creditNotes, setCreditNotes] = useState<CreditNoteDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [reason, setReason] = useState('');
+  // Net amount to credit, keyed by invoice line
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  const balance = Math.max(invoice.total_amount - invoice.wht_total - invoice.credited_total - invoice.amount_paid, 0);
+
+  const loadCreditNotes = useCallback(async () => {
+    try {
+      setCreditNotes((await creditNotesAPI.listCreditNotes({ invoiceId: invoice.id })).rows);
+    } catch (error) {
+      console.error('Error loading credit notes:', error);
+      toast.error('Failed to load credit notes');
+    } finally {
+      setLoading(false);
+    }
+  }, [invoice.id]);
+
+  useEffect(() => {
+    loadCreditNotes();
+  }, [loadCreditNotes]);
+
+  // What each line has left to credit
+  const creditedByLine = creditNotes
+    .flatMap(creditNote => creditNote.credit_note_items)
+    .reduce<Record<string, number>>((totals, item) => ({
+      ...totals,
+      [item.invoice_item_id]: (totals[item.invoice_item_id] ?? 0) + item.amount,
+    }), {});
+  const remaining = (line: InvoiceDocument['invoice_items'][number]) =>
+    roundCurrency(line.amount - (creditedByLine[line.id] ?? 0));
+
+  // Same rounding as create_credit_note()
+  const lines = invoice.invoice_items
+    .map(line => {
+      const amount = roundCurrency(parseFloat(amounts[line.id]) || 0);
+      return {
+        line,
+        amount,
+        tax: roundCurrency(amount * line.tax_rate / 100),
+        wht: roundCurrency(amount * line.wht_rate / 100),
+      };
+    })
+    .filter(({ amount }) => amount > 0);
+  const creditTotal = roundCurrency(lines.reduce((sum, { amount, tax }) => sum + amount + tax, 0));
+  const creditDue = roundCurrency(creditTotal - lines.reduce((sum, { wht }) => sum + wht, 0));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      toast.error('Please give a reason for the credit note');
+      return;
+    }
+    if (!lines.length) {
+      toast.error('Enter an amount to credit on at least one line');
+      return;
+    }
+    const overCredited = lines.find(({ line, amount }) => amount > remaining(line));
+    if (overCredited) {
+      toast.error(`${overCredited.line.description} has only ${formatCurrency(remaining(overCredited.line))} left to credit`);
+      return;
+    }
+    if (creditDue > balance) {
+      toast.error(`The credit cannot exceed the balance of ${formatCurrency(balance)}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const creditNote = await creditNotesAPI.createCreditNote(
+        invoice.id,
+        reason,
+        lines.map(({ line, amount }) => ({ invoice_item_id: line.id, amount }))
+      );
+      toast.success(`Credit note ${creditNote.credit_note_number} raised`);
+      setShowForm(false);
+      setReason('');
+      setAmounts({});
+      await loadCreditNotes();
+      onChange();
+    } catch (error) {
+      console.error('Error raising credit note:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to raise credit note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Credit Notes</h2>
+        {canManage && balance > 0 && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Raise Credit Note
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-4">
+          <div>
+            <label htmlFor="credit_reason" className="block text-sm font-medium text-gray-700">
+              Reason
+            </label>
+            <input
+              type="text"
+              id="credit_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className={inputClass}
+              placeholder="Spots not aired, agreed discount..."
+              required
+            />
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Line</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Left to Credit</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Credit (before VAT)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoice.invoice_items.map(line => (
+                <tr key={line.id}>
+                  <td className="px-2 py-2 text-sm text-gray-900">{line.description}</td>
+                  <td className="px-2 py-2 text-sm text-gray-900 text-right">{formatCurrency(remaining(line))}</td>
+                  <td className="px-2 py-2 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      max={remaining(line)}
+                      value={amounts[line.id] ?? ''}
+                      onChange={(e) => setAmounts({ ...amounts, [line.id]: e.target.value })}
+                      disabled={remaining(line) <= 0}
+                      className="w-36 rounded-md border-gray-300 shadow-sm text-right focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-100"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              Total credit {formatCurrency(creditTotal)}
+              {creditDue !== creditTotal && ` (${formatCurrency(creditDue)} after WHT)`}
+            </p>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Raise Credit Note'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : creditNotes.length === 0 ? (
+        <p className="text-sm text-gray-500">No credit notes raised.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Number</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {creditNotes.map(creditNote => (
+              <tr key={creditNote.id} className="text-gray-900">
+                <td className="px-4 py-3 text-sm font-medium">{creditNote.credit_note_number}</td>
+                <td className="px-4 py-3 text-sm">{formatDate(creditNote.created_at)}</td>
+                <td className="px-4 py-3 text-sm">{creditNote.reason}</td>
+                <td className="px-4 py-3 text-sm text-right">{formatCurrency(creditNote.total_amount)}</td>
+                <td className="px-4 py-3 text-sm text-right">
+                  <button
+                    onClick={() => organisation && downloadCreditNotePDF(creditNote, organisation)}
+                    disabled={!organisation}
+                    className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                  >
+                    PDF
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { jobsAPI, invoicesAPI, clientsAPI } from '@/lib/api';
+import { invoicesAPI, clientsAPI, schedulesAPI, taxRulesAPI, organisationAPI } from '@/lib/api/index';
 import type { Database } from '@/lib/database.types';
 import { useAuth } from '@/context/AuthContext';
+import { formatDuration } from '@/lib/utils/duration';
+import { formatAirTimes } from '@/lib/utils/jobs';
+import { formatCurrency } from '@/lib/utils';
+import { getDefaultTaxCode } from '@/lib/utils/tax';
+import type { TaxRule } from '@/lib/utils/tax';
+import { priceInvoice } from '@/lib/utils/pricing';
+import { defaultDueDate } from '@/lib/utils/organisation';
+import { TaxCodeFields, DiscountCommissionFields, TotalsBreakdown } from './PricingFields';
 
 type Job = Database['public']['Tables']['jobs']['Row'];
 type Client = Database['public']['Tables']['clients']['Row'];
@@ -19,10 +27,17 @@ export function InvoiceGenerator({ job, onSuccess, onCancel }: InvoiceGeneratorP
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [client, setClient] = useState<Client | null>(null);
+  const [spotCount, setSpotCount] = useState(1);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
   const [formData, setFormData] = useState({
-    amount: job.rate.toString(),
-    dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now
+    rate: job.rate.toString(),
+    dueDate: defaultDueDate(null),
     notes: '',
+    taxCode: '',
+    whtCode: '',
+    // Start from the rates agreed when the job was booked
+    discountRate: job.discount_rate,
+    commissionRate: job.commission_rate,
   });
 
   useEffect(() => {
@@ -45,6 +60,42 @@ export function InvoiceGenerator({ job, onSuccess, onCancel }: InvoiceGeneratorP
     fetchClient();
   }, [job.client_id, user]);
 
+  useEffect(() => {
+    schedulesAPI.countSpots(job.id)
+      .then(count => setSpotCount(Math.max(count, 1)))
+      .catch(error => console.error('Error counting scheduled spots:', error));
+  }, [job.id]);
+
+  // Due date follows the station's payment terms
+  useEffect(() => {
+    organisationAPI.getSettings()
+      .then(settings => setFormData(prev => ({ ...prev, dueDate: defaultDueDate(settings) })))
+      .catch(error => console.error('Error loading organisation settings:', error));
+  }, []);
+
+  useEffect(() => {
+    taxRulesAPI.listTaxRules({ activeOnly: true })
+      .then(rules => {
+        setTaxRules(rules);
+        setFormData(prev => ({
+          ...prev,
+          taxCode: getDefaultTaxCode(rules, 'vat') ?? '',
+          whtCode: getDefaultTaxCode(rules, 'withholding') ?? '',
+        }));
+      })
+      .catch(error => console.error('Error loading tax rules:', error));
+  }, []);
+
+  const line = {
+    quantity: spotCount,
+    rate: parseFloat(formData.rate) || 0,
+    discount_rate: formData.discountRate,
+    commission_rate: formData.commissionRate,
+    tax_code: formData.taxCode || null,
+    wht_code: formData.whtCode || null,
+  };
+  const { lines: [pricedLine], totals } = priceInvoice([line], taxRules);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) {
@@ -56,26 +107,24 @@ export function InvoiceGenerator({ job, onSuccess, onCancel }: InvoiceGeneratorP
     setError('');
 
     try {
-      // Generate invoice number (you might want to implement a proper numbering system)
-      const invoiceNumber = `INV-${Date.now()}`;
-      
-      // Create the invoice
+      // Create the invoice; its number is assigned when it is saved
       await invoicesAPI.createInvoice(
         {
-          invoice_number: invoiceNumber,
           client_id: job.client_id,
-          total_amount: parseFloat(formData.amount),
+          agency_id: job.agency_id,
           due_date: formData.dueDate,
           notes: formData.notes,
-          status: 'pending',
-          created_by: job.created_by
+          status: 'pending'
         },
         [{
           description: job.title,
           job_id: job.id,
-          rate: parseFloat(formData.amount),
-          amount: parseFloat(formData.amount),
-          quantity: 1
+          rate: line.rate,
+          quantity: spotCount,
+          discount_rate: line.discount_rate,
+          commission_rate: line.commission_rate,
+          tax_code: line.tax_code,
+          wht_code: line.wht_code
         }]
       );
 
@@ -112,21 +161,42 @@ export function InvoiceGenerator({ job, onSuccess, onCancel }: InvoiceGeneratorP
             {client && (
               <p className="text-sm text-gray-500">{client.name}</p>
             )}
-            <p className="text-sm text-gray-500">Duration: {job.duration}</p>
+            <p className="text-sm text-gray-500">Duration: {formatDuration(job.duration_seconds)}</p>
+            <p className="text-sm text-gray-500">Air Times: {formatAirTimes(job.air_times, job.air_time)}</p>
           </div>
         </div>
 
         <div>
-          <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
-            Amount (₦)
+          <label htmlFor="rate" className="block text-sm font-medium text-gray-700">
+            Rate per Spot (₦)
           </label>
           <input
             type="number"
-            id="amount"
-            value={formData.amount}
-            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            id="rate"
+            value={formData.rate}
+            onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
           />
+          <p className="mt-1 text-sm text-gray-500">
+            {spotCount} {spotCount === 1 ? 'spot' : 'spots'} × rate = {formatCurrency(pricedLine.gross_amount)}
+          </p>
+        </div>
+
+        <DiscountCommissionFields
+          discountRate={formData.discountRate}
+          commissionRate={formData.commissionRate}
+          onChange={({ discountRate, commissionRate }) => setFormData({ ...formData, discountRate, commissionRate })}
+        />
+
+        <TaxCodeFields
+          rules={taxRules}
+          taxCode={formData.taxCode}
+          whtCode={formData.whtCode}
+          onChange={({ taxCode, whtCode }) => setFormData({ ...formData, taxCode, whtCode })}
+        />
+
+        <div className="p-3 bg-gray-50 rounded-md">
+          <TotalsBreakdown totals={totals} />
         </div>
 
         <div>
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { paymentsAPI, paymentMethodLabels } from '@/lib/api/index';
+import type { PaymentMethod } from '@/lib/api/index';
+import { useUser } from '@/hooks/useUser';
+import { useAuth } from '@/context/AuthContext';
+import { can } from '@/lib/utils/permissions';
+import type { Database } from '@/lib/database.types';
+
+type Payment = Database['public']['Tables']['payments']['Row'];
+
+interface PaymentsPanelProps {
+  invoice: Pick<Database['public']['Tables']['invoices']['Row'], 'id' | 'total_amount' | 'wht_total' | 'amount_paid' | 'credited_total'>;
+  formatCurrency: (amount: number) => string;
+  formatDate: (date: string) => string;
+  onChange: () => void;
+}
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export function PaymentsPanel({ invoice, formatCurrency, formatDate, onChange }: PaymentsPanelProps) {
+  const { user } = useUser();
+  const { user: profile } = useAuth();
+  const canManage = can(profile?.role, 'invoices:manage');
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    amount: '',
+    payment_date: format(new Date(), 'yyyy-MM-dd'),
+    method: 'bank_transfer' as PaymentMethod,
+    reference: '',
+    notes: '',
+  });
+  const [reversingId, setReversingId] = useState<string | null>(null);
+  const [reversalReason, setReversalReason] = useState('');
+
+  // Withheld tax is paid to the tax authority, not to us; credit notes
+  // take their share off what is left
+  const amountDue = invoice.total_amount - invoice.wht_total;
+  const balance = Math.max(amountDue - invoice.credited_total - invoice.amount_paid, 0);
+
+  const loadPayments = useCallback(async () => {
+    try {
+      setPayments((await paymentsAPI.listPayments({ invoiceId: invoice.id })).rows);
+    } catch (error) {
+      console.error('Error loading payments:', error);
+      toast.error('Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  }, [invoice.id]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const openForm = () => {
+    setFormData(prev => ({ ...prev, amount: balance.toString() }));
+    setShowForm(true);
+  };
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const amount = parseFloat(formData.amount);
+    if (!amount || amount <= 0) {
+      toast.error('Enter a payment amount');
+      return;
+    }
+    if (amount > balance) {
+      toast.error(`Payment cannot exceed the balance of ${formatCurrency(balance)}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await paymentsAPI.recordPayment({
+        invoice_id: invoice.id,
+        amount,
+        payment_date: formData.payment_date,
+        method: formData.method,
+        reference: formData.reference.trim() || null,
+        notes: formData.notes.trim() || null,
+        created_by: user.id,
+      });
+      toast.success('Payment recorded');
+      setShowForm(false);
+      setFormData(prev => ({ ...prev, amount: '', reference: '', notes: '' }));
+      await loadPayments();
+      onChange();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error('Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReverse = async (payment: Payment) => {
+    if (!user) return;
+    if (!reversalReason.trim()) {
+      toast.error('Please give a reason for the reversal');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await paymentsAPI.reversePayment(payment.id, user.id, reversalReason.trim());
+      toast.success('Payment reversed');
+      setReversingId(null);
+      setReversalReason('');
+      await loadPayments();
+      onChange();
+    } catch (error) {
+      console.error('Error reversing payment:', error);
+      toast.error('Failed to reverse payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Payments</h2>
+        {canManage && balance > 0 && !showForm && (
+          <button
+            onClick={openForm}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Record Payment
+          </button>
+        )}
+      </div>
+
+      <div className={`grid ${invoice.credited_total > 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-8 mb-6`}>
+        <div>
+          <h3 className="text-sm font-medium text-gray-500">Amount Due</h3>
+          <p className="mt-1 text-sm text-gray-900">{formatCurrency(amountDue)}</p>
+        </div>
+        {invoice.credited_total > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-500">Credited</h3>
+            <p className="mt-1 text-sm text-gray-900">{formatCurrency(invoice.credited_total)}</p>
+          </div>
+        )}
+        <div>
+          <h3 className="text-sm font-medium text-gray-500">Paid</h3>
+          <p className="mt-1 text-sm text-gray-900">{formatCurrency(invoice.amount_paid)}</p>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-gray-500">Balance</h3>
+          <p className="mt-1 text-sm font-semibold text-gray-900">{formatCurrency(balance)}</p>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleRecord} className="mb-6 rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="payment_amount" className="block text-sm font-medium text-gray-700">
+                Amount (₦)
+              </label>
+              <input
+                type="number"
+                id="payment_amount"
+                min="0.01"
+                step="0.01"
+                max={balance}
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="payment_date" className="block text-sm font-medium text-gray-700">
+                Payment Date
+              </label>
+              <input
+                type="date"
+                id="payment_date"
+                value={formData.payment_date}
+                onChange={(e) => setFormData({ ...formData, payment_date: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="payment_method" className="block text-sm font-medium text-gray-700">
+                Method
+              </label>
+              <select
+                id="payment_method"
+                value={formData.method}
+                onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })}
+                className={inputClass}
+              >
+                {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {paymentMethodLabels[method]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="payment_reference" className="block text-sm font-medium text-gray-700">
+                Reference
+              </label>
+              <input
+                type="text"
+                id="payment_reference"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                className={inputClass}
+                placeholder="Transfer reference, cheque number..."
+              />
+            </div>
+            <div>
+              <label htmlFor="payment_notes" className="block text-sm font-medium text-gray-700">
+                Notes
+              </label>
+              <input
+                type="text"
+                id="payment_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Payment'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : payments.length === 0 ? (
+        <p className="text-sm text-gray-500">No payments recorded yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Method</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {payments.map((payment) => (
+              <tr key={payment.id} className={payment.reversed_at ? 'text-gray-400' : 'text-gray-900'}>
+                <td className="px-4 py-3 text-sm">{formatDate(payment.payment_date)}</td>
+                <td className="px-4 py-3 text-sm">{paymentMethodLabels[payment.method]}</td>
+                <td className="px-4 py-3 text-sm">
+                  {payment.reference || '—'}
+                  {payment.reversed_at && (
+                    <p className="text-xs text-red-600">
+                      Reversed {formatDate(payment.reversed_at)}: {payment.reversal_reason}
+                    </p>
+                  )}
+                </td>
+                <td className={`px-4 py-3 text-sm text-right ${payment.reversed_at ? 'line-through' : ''}`}>
+                  {formatCurrency(payment.amount)}
+                </td>
+                <td className="px-4 py-3 text-sm text-right">
+                  {canManage && !payment.reversed_at && reversingId !== payment.id && (
+                    <button
+                      onClick={() => {
+                        setReversingId(payment.id);
+                        setReversalReason('');
+                      }}
+                      className="text-red-600 hover:text-red-800 font-medium"
+                    >
+                      Reverse
+                    </button>
+                  )}
+                  {reversingId === payment.id && (
+                    <div className="flex items-center justify-end gap-2">
+                      <input
+                        type="text"
+                        value={reversalReason}
+                        onChange={(e) => setReversalReason(e.target.value)}
+                        placeholder="Reason"
+                        className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                      <button
+                        onClick={() => handleReverse(payment)}
+                        disabled={saving}
+                        className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                      >
+                        Confirm
+                      </button>
+                      <button
+                        onClick={() => setReversingId(null)}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
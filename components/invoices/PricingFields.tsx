@@ -0,0 +1,149 @@
+'use client';
+
+import type { TaxRule } from '@/lib/utils/tax';
+import type { PricedTotals } from '@/lib/utils/pricing';
+import { formatCurrency } from '@/lib/utils';
+
+interface TaxCodeFieldsProps {
+  rules: TaxRule[];
+  taxCode: string;
+  whtCode: string;
+  onChange: (codes: { taxCode: string; whtCode: string }) => void;
+  inputClassName?: string;
+}
+
+const defaultInputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export function TaxCodeFields({ rules, taxCode, whtCode, onChange, inputClassName = defaultInputClass }: TaxCodeFieldsProps) {
+  const vatRules = rules.filter(rule => rule.kind === 'vat');
+  const whtRules = rules.filter(rule => rule.kind === 'withholding');
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="tax_code" className="block text-sm font-medium text-gray-700">
+          VAT
+        </label>
+        <select
+          id="tax_code"
+          value={taxCode}
+          onChange={(e) => onChange({ taxCode: e.target.value, whtCode })}
+          className={inputClassName}
+        >
+          <option value="">No VAT</option>
+          {vatRules.map(rule => (
+            <option key={rule.code} value={rule.code}>{rule.name}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="wht_code" className="block text-sm font-medium text-gray-700">
+          Withholding Tax
+        </label>
+        <select
+          id="wht_code"
+          value={whtCode}
+          onChange={(e) => onChange({ taxCode, whtCode: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">None</option>
+          {whtRules.map(rule => (
+            <option key={rule.code} value={rule.code}>{rule.name}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">Deducted by the client and remitted to FIRS</p>
+      </div>
+    </div>
+  );
+}
+
+interface DiscountCommissionFieldsProps {
+  discountRate: number;
+  commissionRate: number;
+  onChange: (rates: { discountRate: number; commissionRate: number }) => void;
+  inputClassName?: string;
+}
+
+export function DiscountCommissionFields({
+  discountRate,
+  commissionRate,
+  onChange,
+  inputClassName = defaultInputClass,
+}: DiscountCommissionFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="discount_rate" className="block text-sm font-medium text-gray-700">
+          Discount (%)
+        </label>
+        <input
+          type="number"
+          id="discount_rate"
+          min="0"
+          max="100"
+          step="0.01"
+          value={discountRate}
+          onChange={(e) => onChange({ discountRate: parseFloat(e.target.value) || 0, commissionRate })}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="commission_rate" className="block text-sm font-medium text-gray-700">
+          Agency Commission (%)
+        </label>
+        <input
+          type="number"
+          id="commission_rate"
+          min="0"
+          max="100"
+          step="0.01"
+          value={commissionRate}
+          onChange={(e) => onChange({ discountRate, commissionRate: parseFloat(e.target.value) || 0 })}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function TotalsBreakdown({ totals }: { totals: PricedTotals }) {
+  // Negative values are deductions
+  const rows: [string, number][] = [];
+  if (totals.discount_total > 0 || totals.commission_total > 0) {
+    rows.push(['Gross', totals.gross_total]);
+  }
+  if (totals.discount_total > 0) {
+    rows.push(['Less Discount', -totals.discount_total]);
+  }
+  if (totals.commission_total > 0) {
+    rows.push(['Less Agency Commission', -totals.commission_total]);
+  }
+  rows.push(
+    ['Subtotal', totals.subtotal],
+    ['VAT', totals.tax_total],
+    ['Total', totals.total_amount]
+  );
+
+  return (
+    <dl className="space-y-1 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <dt className="text-gray-500">{label}</dt>
+          <dd className="text-gray-900">
+            {value < 0 ? `(${formatCurrency(-value)})` : formatCurrency(value)}
+          </dd>
+        </div>
+      ))}
+      {totals.wht_total > 0 && (
+        <div className="flex justify-between">
+          <dt className="text-gray-500">Less WHT</dt>
+          <dd className="text-gray-900">({formatCurrency(totals.wht_total)})</dd>
+        </div>
+      )}
+      <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+        <dt className="text-gray-900">Amount Due</dt>
+        <dd className="text-gray-900">{formatCurrency(totals.amount_due)}</dd>
+      </div>
+    </dl>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { TimeWheel } from '@/components/common/TimeWheel';
+
+interface AirTimesFieldProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  error?: string;
+}
+
+export function AirTimesField({ value, onChange, error }: AirTimesFieldProps) {
+  const addAirTime = () => {
+    onChange([...value, value[value.length - 1] || '07:00']);
+  };
+
+  return (
+    <div>
+      <div className="mt-2 space-y-2">
+        {value.map((time, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <TimeWheel
+              value={time}
+              onChange={(newTime) => onChange(value.map((t, i) => (i === index ? newTime : t)))}
+              className={`flex-1 ${error ? 'error' : ''}`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={addAirTime}
+        className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        + Add air time
+      </button>
+      {value.length > 1 && (
+        <p className="mt-1 text-sm text-gray-500">{value.length} spots per day</p>
+      )}
+    </div>
+  );
+}
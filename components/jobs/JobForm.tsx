@@ -1,16 +1,28 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { clientsAPI } from '@/lib/api/index';
+import { useState, useEffect, useMemo } from 'react';
+import { agenciesAPI, clientsAPI, rateCardsAPI, schedulesAPI } from '@/lib/api/index';
+import type { AirtimeConflict, FreeAirtimeSlot, ClientMatch } from '@/lib/api/index';
 import { toast } from 'react-hot-toast';
 import type { Database } from '@/lib/database.types';
 import { useAuth } from '@/context/AuthContext';
-import { TimeWheel } from '@/components/common/TimeWheel';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { AirTimesField } from '@/components/jobs/AirTimesField';
+import { RecurrenceRuleFields } from '@/components/jobs/RecurrenceRuleFields';
 import DatePicker from 'react-datepicker';
 import "react-datepicker/dist/react-datepicker.css";
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { suggestRate, daypartLabels } from '@/lib/utils/rateCards';
+import type { RateCardWithDetails, RateSuggestion } from '@/lib/utils/rateCards';
+import { formatCurrency } from '@/lib/utils';
+import { parseDuration, formatDuration, addDurationToTime } from '@/lib/utils/duration';
+import { expandRecurrencePattern } from '@/lib/utils/recurrence';
+import type { RecurrencePattern } from '@/lib/utils/recurrence';
+import { priceLine } from '@/lib/utils/pricing';
+import type { JobStatus } from '@/lib/utils/jobs';
 
 type Client = Database['public']['Tables']['clients']['Row'];
+type Agency = Database['public']['Tables']['agencies']['Row'];
 
 interface JobFormData {
   title: string;
@@ -20,16 +32,32 @@ interface JobFormData {
   client_email?: string;
   client_phone?: string;
   client_address?: string;
-  duration: string;
-  air_time: string;
+  // Agency booking on the client's behalf, if any
+  agency_id: string | null;
+  discount_rate: number;
+  commission_rate: number;
+  duration_seconds: number | null;
+  air_times: string[];
   rate: number;
+  rate_card_id?: string | null;
+  suggested_rate?: number | null;
+  rate_override_reason?: string | null;
   schedule_dates: Date[];
+  // Set when the job books a weekly pattern instead of picked dates.
+  // Its air_times follow the job's air_times.
+  recurrence: RecurrencePattern | null;
   description: string;
-  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  status: JobStatus;
 }
 
 interface JobFormProps {
+  // Set when editing, so the job's own bookings don't count as clashes
+  jobId?: string;
   initialData?: JobFormData;
+  // Prefills a new job, e.g. from an advertiser's booking request
+  defaults?: Partial<JobFormData>;
+  // Offers "Save Draft" and "Submit for Approval" instead of a plain save
+  needsApproval?: boolean;
   onSubmit: (data: JobFormData) => void;
   onCancel: () => void;
 }
@@ -42,10 +70,17 @@ const defaultFormData: JobFormData = {
   client_email: '',
   client_phone: '',
   client_address: '',
-  duration: '',
-  air_time: '',
+  agency_id: null,
+  discount_rate: 0,
+  commission_rate: 0,
+  duration_seconds: null,
+  air_times: ['07:00'],
   rate: 0,
+  rate_card_id: null,
+  suggested_rate: null,
+  rate_override_reason: '',
   schedule_dates: [],
+  recurrence: null,
   description: '',
   status: 'scheduled',
 };
@@ -53,15 +88,255 @@ const defaultFormData: JobFormData = {
 const inputBaseClass = "mt-2 block w-full rounded-lg border-gray-300 shadow-sm sm:text-base py-3 px-4 focus:border-blue-500 focus:ring-blue-500 transition-colors";
 const inputErrorClass = "border-red-300 focus:border-red-500 focus:ring-red-500";
 
-export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
-  const [formData, setFormData] = useState<JobFormData>(initialData || defaultFormData);
+const newRecurrencePattern = (airTimes: string[]): RecurrencePattern => ({
+  weekdays: [1, 2, 3, 4, 5],
+  air_times: airTimes,
+  start_date: format(new Date(), 'yyyy-MM-dd'),
+  end_date: '',
+  excluded_dates: [],
+});
+
+const describeConflict = (conflict: AirtimeConflict) => {
+  const booking = conflict.job_title
+    ? `"${conflict.job_title}"${conflict.client_name ? ` for ${conflict.client_name}` : ''}`
+    : null;
+
+  if (conflict.conflict_type === 'overlap') {
+    return `overlaps ${booking} (${conflict.start_time?.substring(0, 5)} - ${conflict.end_time?.substring(0, 5)})`;
+  }
+
+  const used = ((conflict.booked_seconds || 0) / 60).toFixed(1);
+  const limit = ((conflict.limit_seconds || 0) / 60).toFixed(1);
+  const hour = `${conflict.requested_start_time.substring(0, 5)} hour`;
+  return booking
+    ? `${hour} would carry ${used} of ${limit} commercial minutes, including ${booking}`
+    : `${hour} would carry ${used} of ${limit} commercial minutes`;
+};
+
+export function JobForm({ jobId, initialData, defaults, needsApproval, onSubmit, onCancel }: JobFormProps) {
+  const [formData, setFormData] = useState<JobFormData>(initialData || { ...defaultFormData, ...defaults });
   const [errors, setErrors] = useState<Partial<Record<keyof JobFormData, string>>>({});
-  const [loading, setLoading] = useState(false);
+  const [searchingClients, setSearchingClients] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [suggestions, setSuggestions] = useState<Client[]>([]);
+  const [suggestions, setSuggestions] = useState<ClientMatch[]>([]);
+  // Existing clients that look like the new client being typed
+  const [duplicates, setDuplicates] = useState<ClientMatch[]>([]);
+  const [newClientConfirmed, setNewClientConfirmed] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [showNewClientFields, setShowNewClientFields] = useState(false);
+  const [rateCard, setRateCard] = useState<RateCardWithDetails | null>(null);
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  // The agency the selected client is already linked to
+  const [clientAgencyId, setClientAgencyId] = useState<string | null>((initialData ?? defaults)?.agency_id ?? null);
+  const [suggestion, setSuggestion] = useState<RateSuggestion | null>(null);
+  // Existing jobs keep their saved rate until the user asks for the suggestion
+  const [rateEdited, setRateEdited] = useState(!!initialData);
+  const [durationInput, setDurationInput] = useState(() => {
+    const durationSeconds = (initialData ?? defaults)?.duration_seconds;
+    return durationSeconds ? formatDuration(durationSeconds) : '';
+  });
+  const [conflicts, setConflicts] = useState<AirtimeConflict[]>([]);
+  const [freeSlots, setFreeSlots] = useState<FreeAirtimeSlot[]>([]);
+  // The booked time the free-slot suggestions would replace
+  const [clashingTime, setClashingTime] = useState<string | null>(null);
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const [requireOverrideReason, setRequireOverrideReason] = useState(true);
   const { user } = useAuth();
+  const isNewJob = !initialData;
+
+  useEffect(() => {
+    rateCardsAPI.getSettings()
+      .then(settings => {
+        setRequireOverrideReason(settings.require_override_reason);
+        // New jobs start at the station's usual spot length
+        if (isNewJob) {
+          setFormData(prev => prev.duration_seconds ? prev : { ...prev, duration_seconds: settings.default_spot_length });
+          setDurationInput(prev => prev || formatDuration(settings.default_spot_length));
+        }
+      })
+      .catch(error => console.error('Error loading rate card settings:', error));
+    agenciesAPI.listAgencies()
+      .then(({ rows }) => setAgencies(rows))
+      .catch(error => console.error('Error loading agencies:', error));
+  }, [isNewJob]);
+
+  const clientQuery = useDebouncedValue(formData.client_name?.trim() ?? '');
+
+  useEffect(() => {
+    if (!clientQuery || formData.client_id) {
+      setSuggestions([]);
+      setDuplicates([]);
+      return;
+    }
+
+    // Ignore responses that arrive after the query has moved on
+    let stale = false;
+    setSearchingClients(true);
+    Promise.all([clientsAPI.searchClients(clientQuery, 8), clientsAPI.findDuplicateClients(clientQuery)])
+      .then(([matches, likelyDuplicates]) => {
+        if (stale) return;
+        setSuggestions(matches);
+        setShowSuggestions(matches.length > 0);
+        setDuplicates(likelyDuplicates);
+      })
+      .catch(error => {
+        console.error('Error searching clients:', error);
+        if (!stale) toast.error('Failed to search clients');
+      })
+      .finally(() => {
+        if (!stale) setSearchingClients(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [clientQuery, formData.client_id]);
+
+  const airTimes = useMemo(
+    () => Array.from(new Set(formData.air_times.filter(Boolean))).sort(),
+    [formData.air_times]
+  );
+
+  // Every spot the form would book: each air time on each picked date or weekly occurrence
+  const plannedSlots = useMemo(() => {
+    if (formData.recurrence) {
+      try {
+        return expandRecurrencePattern({ ...formData.recurrence, air_times: airTimes })
+          .map(({ scheduled_date, start_time }) => ({
+            date: parseISO(scheduled_date),
+            time: start_time,
+          }));
+      } catch {
+        return [];
+      }
+    }
+    return formData.schedule_dates.flatMap(date => airTimes.map(time => ({ date, time })));
+  }, [formData.recurrence, formData.schedule_dates, airTimes]);
+
+  // Bookings are priced from the card in force on their first day
+  const firstBookedDay = useMemo(
+    () => plannedSlots.map(({ date }) => format(date, 'yyyy-MM-dd')).sort()[0] ?? null,
+    [plannedSlots]
+  );
+
+  useEffect(() => {
+    if (!firstBookedDay) return;
+
+    let stale = false;
+    rateCardsAPI.getActiveRateCard(parseISO(firstBookedDay))
+      .then(card => {
+        if (!stale) setRateCard(card);
+      })
+      .catch(error => console.error('Error loading rate card:', error));
+
+    return () => {
+      stale = true;
+    };
+  }, [firstBookedDay]);
+
+  useEffect(() => {
+    if (!rateCard) return;
+
+    const nextSuggestion = suggestRate(rateCard, {
+      slots: plannedSlots,
+      durationSeconds: formData.duration_seconds,
+    });
+    setSuggestion(nextSuggestion);
+
+    if (nextSuggestion && !rateEdited) {
+      setFormData(prev => ({ ...prev, rate: nextSuggestion.rate }));
+    }
+  }, [rateCard, plannedSlots, formData.duration_seconds, rateEdited]);
+
+  useEffect(() => {
+    const durationSeconds = formData.duration_seconds;
+    if (!durationSeconds || !plannedSlots.length) {
+      setConflicts([]);
+      setFreeSlots([]);
+      return;
+    }
+
+    // Debounce so picking several dates doesn't fire a check per click
+    const timeout = setTimeout(async () => {
+      try {
+        setCheckingAvailability(true);
+        const slots = plannedSlots.map(({ date, time }) => ({
+          scheduled_date: format(date, 'yyyy-MM-dd'),
+          start_time: time,
+          end_time: addDurationToTime(time, durationSeconds),
+        }));
+
+        const found = await schedulesAPI.checkAvailability(slots, { excludeJobId: jobId });
+        setConflicts(found);
+
+        if (!found.length) {
+          setFreeSlots([]);
+          setClashingTime(null);
+          return;
+        }
+
+        // Offer alternatives for the first clashing spot
+        const [first] = found;
+        const clash = slots.find(slot =>
+          slot.scheduled_date === first.requested_date &&
+          slot.start_time >= first.requested_start_time.substring(0, 5) &&
+          slot.start_time < first.requested_end_time.substring(0, 5)
+        ) || slots.find(slot => slot.scheduled_date === first.requested_date) || slots[0];
+
+        setClashingTime(clash.start_time);
+        setFreeSlots(await schedulesAPI.findFreeSlots(
+          clash.scheduled_date,
+          clash.start_time,
+          durationSeconds,
+          { excludeJobId: jobId }
+        ));
+      } catch (error) {
+        console.error('Error checking airtime availability:', error);
+      } finally {
+        setCheckingAvailability(false);
+      }
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [plannedSlots, formData.duration_seconds, jobId]);
+
+  const replaceAirTime = (from: string | null, to: string) => {
+    handleInputChange('air_times', formData.air_times.map(time => (time === from ? to : time)));
+  };
+
+  const setScheduleMode = (mode: 'dates' | 'weekly') => {
+    handleInputChange('recurrence', mode === 'weekly' ? newRecurrencePattern(airTimes) : null);
+  };
+
+  const isRateOverridden = !!suggestion && Number(formData.rate) !== suggestion.rate;
+  // A saved job keeps its rate and reason when the card price moves later;
+  // only changing the rate asks for a new reason
+  const keepsSavedRate = !!initialData && Number(formData.rate) === Number(initialData.rate);
+  const needsOverrideReason = isRateOverridden && !keepsSavedRate;
+
+  // Booking value across every planned spot
+  const bookingValue = priceLine({
+    quantity: plannedSlots.length,
+    rate: Number(formData.rate) || 0,
+    discount_rate: formData.discount_rate,
+    commission_rate: formData.commission_rate,
+  });
+
+  const selectAgency = (agencyId: string | null) => {
+    const agency = agencies.find(a => a.id === agencyId);
+    setFormData(prev => ({
+      ...prev,
+      agency_id: agency?.id ?? null,
+      commission_rate: agency?.commission_rate ?? 0,
+    }));
+  };
+
+  const applySuggestedRate = () => {
+    if (!suggestion) return;
+    setRateEdited(false);
+    setFormData(prev => ({ ...prev, rate: suggestion.rate, rate_override_reason: '' }));
+    setErrors(prev => ({ ...prev, rate: undefined, rate_override_reason: undefined }));
+  };
 
   const handleInputChange = (field: keyof JobFormData, value: any) => {
     setFormData(prev => ({
@@ -76,9 +351,11 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
       }));
     }
 
-    // If the field is client_name, search for clients
+    // Typing a name starts a new client until one is picked from the suggestions
     if (field === 'client_name' && value.trim()) {
-      searchClients(value);
+      setFormData(prev => ({ ...prev, client_id: '' }));
+      setClientAgencyId(null);
+      setNewClientConfirmed(false);
       setShowNewClientFields(true);
     } else if (field === 'client_name') {
       setSuggestions([]);
@@ -93,26 +370,7 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
         client_phone: '',
         client_address: ''
       }));
-    }
-  };
-
-  const searchClients = async (query: string) => {
-    try {
-      setLoading(true);
-      if (!user) return;
-      
-      const clients = await clientsAPI.listClients(user.id);
-      const filteredClients = clients.filter(client => 
-        client.name.toLowerCase().includes(query.toLowerCase())
-      );
-      
-      setSuggestions(filteredClients);
-      setShowSuggestions(filteredClients.length > 0);
-    } catch (error) {
-      console.error('Error searching clients:', error);
-      toast.error('Failed to search clients');
-    } finally {
-      setLoading(false);
+      setClientAgencyId(null);
     }
   };
 
@@ -126,7 +384,10 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
       client_phone: client.phone || '',
       client_address: client.address || ''
     }));
+    setClientAgencyId(client.agency_id);
+    selectAgency(client.agency_id);
     setSuggestions([]);
+    setDuplicates([]);
     setShowSuggestions(false);
     setShowNewClientFields(true);
   };
@@ -140,18 +401,44 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
     if (!formData.client_name?.trim()) {
       newErrors.client_name = 'Client name is required';
     }
-    if (!formData.duration.trim()) {
-      newErrors.duration = 'Duration is required';
+    if (!durationInput.trim()) {
+      newErrors.duration_seconds = 'Duration is required';
+    } else if (!formData.duration_seconds) {
+      newErrors.duration_seconds = 'Enter a duration like 30 sec, 1 min or 1:30';
     }
-    if (!formData.air_time.trim()) {
-      newErrors.air_time = 'Air time is required';
+    if (!airTimes.length) {
+      newErrors.air_times = 'At least one air time is required';
+    } else if (airTimes.length < formData.air_times.length) {
+      newErrors.air_times = 'Each air time can only be booked once a day';
+    } else if (conflicts.length > 0) {
+      newErrors.air_times = 'These air times clash with existing bookings';
     }
     if (!formData.rate) {
       newErrors.rate = 'Rate is required';
     }
-    if (formData.schedule_dates.length === 0) {
+    if (needsOverrideReason && requireOverrideReason && !formData.rate_override_reason?.trim()) {
+      newErrors.rate_override_reason = 'Please give a reason for changing the rate card price';
+    }
+    if (formData.recurrence) {
+      const { weekdays, start_date, end_date } = formData.recurrence;
+      if (!weekdays.length) {
+        newErrors.recurrence = 'Pick at least one day of the week';
+      } else if (!start_date || !end_date) {
+        newErrors.recurrence = 'Start and end dates are required';
+      } else if (end_date < start_date) {
+        newErrors.recurrence = 'End date must be on or after the start date';
+      } else if (plannedSlots.length === 0) {
+        newErrors.recurrence = 'This pattern does not produce any spots';
+      }
+    } else if (formData.schedule_dates.length === 0) {
       newErrors.schedule_dates = 'At least one date must be selected';
     }
+    if (formData.discount_rate < 0 || formData.discount_rate > 100) {
+      newErrors.discount_rate = 'Discount must be between 0 and 100%';
+    }
+    if (formData.commission_rate < 0 || formData.commission_rate > 100) {
+      newErrors.commission_rate = 'Commission must be between 0 and 100%';
+    }
     if (formData.client_email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.client_email)) {
       newErrors.client_email = 'Please enter a valid email address';
     }
@@ -160,9 +447,14 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    
+    // Which of the approval buttons was pressed
+    const submitter = (e.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | null;
+    const status: JobStatus = needsApproval
+      ? (submitter?.value === 'draft' ? 'draft' : 'pending_approval')
+      : formData.status;
+
     if (!validateForm()) {
       toast.error('Please fix the errors in the form');
       return;
@@ -180,6 +472,17 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
 
       // If no client_id but we have a client_name, create a new client
       if (!finalClientId && formData.client_name) {
+        // Checked here too, as the debounced search may not have caught up with the name
+        if (!newClientConfirmed) {
+          const likelyDuplicates = await clientsAPI.findDuplicateClients(formData.client_name);
+          if (likelyDuplicates.length > 0) {
+            setDuplicates(likelyDuplicates);
+            setErrors(prev => ({ ...prev, client_name: 'This looks like an existing client' }));
+            toast.error('Choose the existing client or confirm this is a new one', { id: jobToastId });
+            setIsSaving(false);
+            return;
+          }
+        }
         try {
           toast.loading('Creating new client...', { id: jobToastId });
           const newClient = await clientsAPI.createClient({
@@ -188,6 +491,7 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
             email: formData.client_email || null,
             phone: formData.client_phone || null,
             address: formData.client_address || null,
+            agency_id: formData.agency_id,
             created_by: user.id
           });
           finalClientId = newClient.id;
@@ -199,11 +503,30 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
         }
       }
 
+      // Remember the agency on the client so later bookings pick it up
+      if (formData.client_id && formData.agency_id && formData.agency_id !== clientAgencyId) {
+        await clientsAPI.updateClient(formData.client_id, { agency_id: formData.agency_id });
+      }
+
       // Convert rate to number and ensure data matches database schema
       const submissionData = {
         ...formData,
+        status,
         client_id: finalClientId,
+        air_times: airTimes,
+        recurrence: formData.recurrence && { ...formData.recurrence, air_times: airTimes },
         rate: typeof formData.rate === 'string' ? parseFloat(formData.rate) : formData.rate,
+        ...(keepsSavedRate && initialData
+          ? {
+            rate_card_id: initialData.rate_card_id ?? null,
+            suggested_rate: initialData.suggested_rate ?? null,
+            rate_override_reason: initialData.rate_override_reason ?? null,
+          }
+          : {
+            rate_card_id: suggestion ? rateCard?.id ?? null : null,
+            suggested_rate: suggestion?.rate ?? null,
+            rate_override_reason: isRateOverridden ? formData.rate_override_reason?.trim() || null : null,
+          }),
       };
       
       // Remove client fields as they're not needed in the database
@@ -248,39 +571,82 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
             )}
           </div>
 
-          {/* Duration and Air Time fields */}
-          <div className="grid grid-cols-2 gap-6">
-            <div>
-              <label htmlFor="duration" className="block text-base font-medium text-gray-700">
-                Duration
-              </label>
-              <input
-                type="text"
-                id="duration"
-                placeholder="e.g., 30 sec"
-                value={formData.duration}
-                onChange={(e) => handleInputChange('duration', e.target.value)}
-                className={`${inputBaseClass} ${errors.duration ? inputErrorClass : ''}`}
-              />
-              {errors.duration && (
-                <p className="mt-2 text-sm text-red-600">{errors.duration}</p>
-              )}
-            </div>
+          {/* Duration field */}
+          <div>
+            <label htmlFor="duration" className="block text-base font-medium text-gray-700">
+              Duration
+            </label>
+            <input
+              type="text"
+              id="duration"
+              placeholder="e.g., 30 sec"
+              value={durationInput}
+              onChange={(e) => {
+                setDurationInput(e.target.value);
+                handleInputChange('duration_seconds', parseDuration(e.target.value));
+              }}
+              onBlur={() => {
+                if (formData.duration_seconds) {
+                  setDurationInput(formatDuration(formData.duration_seconds));
+                }
+              }}
+              className={`${inputBaseClass} ${errors.duration_seconds ? inputErrorClass : ''}`}
+            />
+            {errors.duration_seconds && (
+              <p className="mt-2 text-sm text-red-600">{errors.duration_seconds}</p>
+            )}
+          </div>
 
-            <div>
-              <label htmlFor="air_time" className="block text-base font-medium text-gray-700">
-                Air Time
-              </label>
-              <TimeWheel
-                value={formData.air_time}
-                onChange={(time) => handleInputChange('air_time', time)}
-                className={errors.air_time ? 'error' : ''}
-              />
-              {errors.air_time && (
-                <p className="mt-2 text-sm text-red-600">{errors.air_time}</p>
+          {/* Air Times field */}
+          <div>
+            <span className="block text-base font-medium text-gray-700">
+              Daily Air Times
+            </span>
+            <AirTimesField
+              value={formData.air_times}
+              onChange={(times) => handleInputChange('air_times', times)}
+              error={errors.air_times}
+            />
+            {errors.air_times && (
+              <p className="mt-2 text-sm text-red-600">{errors.air_times}</p>
+            )}
+          </div>
+
+          {/* Airtime availability */}
+          {checkingAvailability && (
+            <p className="text-sm text-gray-500">Checking airtime availability...</p>
+          )}
+          {!checkingAvailability && conflicts.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+              <h4 className="text-sm font-medium text-red-800">This slot is not available</h4>
+              <ul className="mt-2 space-y-1 text-sm text-red-700">
+                {conflicts.map((conflict, index) => (
+                  <li key={`${conflict.schedule_id}-${index}`}>
+                    {format(parseISO(conflict.requested_date), 'MMM d, yyyy')}: {describeConflict(conflict)}
+                  </li>
+                ))}
+              </ul>
+              {freeSlots.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-sm text-gray-700">
+                    Nearest free slots on {format(parseISO(conflicts[0].requested_date), 'MMM d')}:
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {freeSlots.map((slot) => (
+                      <button
+                        key={slot.start_time}
+                        type="button"
+                        onClick={() => replaceAirTime(clashingTime, slot.start_time.substring(0, 5))}
+                        className="px-3 py-1 rounded-full text-sm bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                      >
+                        {slot.start_time.substring(0, 5)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               )}
             </div>
-          </div>
+          )}
 
           {/* Rate field */}
           <div>
@@ -295,7 +661,10 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
                 type="number"
                 id="rate"
                 value={formData.rate}
-                onChange={(e) => handleInputChange('rate', e.target.value)}
+                onChange={(e) => {
+                  setRateEdited(true);
+                  handleInputChange('rate', e.target.value);
+                }}
                 className={`${inputBaseClass} pl-8 ${errors.rate ? inputErrorClass : ''}`}
                 placeholder="0.00"
               />
@@ -303,73 +672,211 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
             {errors.rate && (
               <p className="mt-2 text-sm text-red-600">{errors.rate}</p>
             )}
+            {suggestion && (
+              <div className="mt-2 flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  Rate card: {formatCurrency(suggestion.rate)} per spot
+                  ({suggestion.dayparts.map(daypart => daypartLabels[daypart]).join(', ')}, {suggestion.spotLength}s
+                  {suggestion.breakdown.length > 1 && `, averaged over ${suggestion.breakdown.length} spots`})
+                </span>
+                {isRateOverridden && (
+                  <button
+                    type="button"
+                    onClick={applySuggestedRate}
+                    className="ml-4 text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Use suggested rate
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
-          {/* Schedule Dates */}
-          <div className="col-span-6">
-            <label htmlFor="schedule_dates" className="block text-sm font-medium text-gray-700">
-              Schedule Dates
-            </label>
-            <div className="mt-2">
-              <DatePicker
-                selected={null}
-                onChange={(date: Date | null) => {
-                  if (date) {
-                    const newDates = [...formData.schedule_dates];
-                    const dateIndex = newDates.findIndex(
-                      (d) => d.getTime() === date.getTime()
-                    );
-                    if (dateIndex === -1) {
-                      newDates.push(date);
-                    } else {
-                      newDates.splice(dateIndex, 1);
-                    }
-                    handleInputChange('schedule_dates', newDates);
-                  }
-                }}
-                className={`${inputBaseClass} ${errors.schedule_dates ? inputErrorClass : ''}`}
-                dateFormat="MMMM d, yyyy"
-                minDate={new Date()}
-                placeholderText="Click to select dates"
-                inline
-                isClearable={false}
-                highlightDates={formData.schedule_dates}
-                dayClassName={(date) => {
-                  return formData.schedule_dates.some(
-                    (d) => d.getTime() === date.getTime()
-                  )
-                    ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
-                    : '';
-                }}
+          {/* Rate override reason */}
+          {needsOverrideReason && (
+            <div>
+              <label htmlFor="rate_override_reason" className="block text-base font-medium text-gray-700">
+                Reason for Rate Change{!requireOverrideReason && ' (optional)'}
+              </label>
+              <textarea
+                id="rate_override_reason"
+                rows={2}
+                value={formData.rate_override_reason || ''}
+                onChange={(e) => handleInputChange('rate_override_reason', e.target.value)}
+                className={`${inputBaseClass} ${errors.rate_override_reason ? inputErrorClass : ''}`}
+                placeholder="e.g. Negotiated package discount..."
               />
+              {errors.rate_override_reason && (
+                <p className="mt-2 text-sm text-red-600">{errors.rate_override_reason}</p>
+              )}
             </div>
-            {errors.schedule_dates && (
-              <p className="mt-1 text-sm text-red-600">{errors.schedule_dates}</p>
-            )}
-            {formData.schedule_dates.length > 0 && (
+          )}
+
+          {/* Discount and commission */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="discount_rate" className="block text-base font-medium text-gray-700">
+                Discount (%)
+              </label>
+              <input
+                type="number"
+                id="discount_rate"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.discount_rate}
+                onChange={(e) => handleInputChange('discount_rate', parseFloat(e.target.value) || 0)}
+                className={`${inputBaseClass} ${errors.discount_rate ? inputErrorClass : ''}`}
+              />
+              {errors.discount_rate && (
+                <p className="mt-2 text-sm text-red-600">{errors.discount_rate}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="commission_rate" className="block text-base font-medium text-gray-700">
+                Agency Commission (%)
+              </label>
+              <input
+                type="number"
+                id="commission_rate"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.commission_rate}
+                onChange={(e) => handleInputChange('commission_rate', parseFloat(e.target.value) || 0)}
+                disabled={!formData.agency_id}
+                className={`${inputBaseClass} disabled:bg-gray-50 disabled:text-gray-400 ${errors.commission_rate ? inputErrorClass : ''}`}
+              />
+              {errors.commission_rate && (
+                <p className="mt-2 text-sm text-red-600">{errors.commission_rate}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Booking value */}
+          {plannedSlots.length > 0 && bookingValue.gross_amount > 0 && (
+            <dl className="rounded-lg bg-gray-50 p-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-500">
+                  Gross ({plannedSlots.length} {plannedSlots.length === 1 ? 'spot' : 'spots'})
+                </dt>
+                <dd className="text-gray-900">{formatCurrency(bookingValue.gross_amount)}</dd>
+              </div>
+              {bookingValue.discount_amount > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Less Discount</dt>
+                  <dd className="text-gray-900">({formatCurrency(bookingValue.discount_amount)})</dd>
+                </div>
+              )}
+              {bookingValue.commission_amount > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Less Agency Commission</dt>
+                  <dd className="text-gray-900">({formatCurrency(bookingValue.commission_amount)})</dd>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+                <dt className="text-gray-900">Net</dt>
+                <dd className="text-gray-900">{formatCurrency(bookingValue.amount)}</dd>
+              </div>
+            </dl>
+          )}
+
+          {/* Schedule */}
+          <div className="col-span-6">
+            <div className="flex items-center justify-between">
+              <span className="block text-sm font-medium text-gray-700">
+                {formData.recurrence ? 'Weekly Pattern' : 'Schedule Dates'}
+              </span>
+              <div className="inline-flex rounded-lg border border-gray-300 p-1 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setScheduleMode('dates')}
+                  className={`px-3 py-1 rounded-md ${!formData.recurrence ? 'bg-blue-100 text-blue-700' : 'text-gray-600'}`}
+                >
+                  Pick Dates
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setScheduleMode('weekly')}
+                  className={`px-3 py-1 rounded-md ${formData.recurrence ? 'bg-blue-100 text-blue-700' : 'text-gray-600'}`}
+                >
+                  Weekly Pattern
+                </button>
+              </div>
+            </div>
+            {formData.recurrence ? (
+              <div className="mt-4">
+                <RecurrenceRuleFields
+                  value={formData.recurrence}
+                  onChange={(recurrence) => handleInputChange('recurrence', recurrence)}
+                  occurrenceCount={plannedSlots.length}
+                  error={errors.recurrence}
+                />
+              </div>
+            ) : (
+              <>
               <div className="mt-2">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Selected Dates:</h4>
-                <div className="flex flex-wrap gap-2">
-                  {formData.schedule_dates.map((date, index) => (
-                    <div
-                      key={index}
-                      className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center"
-                    >
-                      {format(date, 'MMM d, yyyy')}
-                      <button
-                        type="button"
-                        onClick={() => {
-                          const newDates = formData.schedule_dates.filter((_, i) => i !== index);
-                          handleInputChange('schedule_dates', newDates);
-                        }}
-                        className="ml-2 text-blue-600 hover:text-blue-800"
+                <DatePicker
+                  selected={null}
+                  onChange={(date: Date | null) => {
+                    if (date) {
+                      const newDates = [...formData.schedule_dates];
+                      const dateIndex = newDates.findIndex(
+                        (d) => d.getTime() === date.getTime()
+                      );
+                      if (dateIndex === -1) {
+                        newDates.push(date);
+                      } else {
+                        newDates.splice(dateIndex, 1);
+                      }
+                      handleInputChange('schedule_dates', newDates);
+                    }
+                  }}
+                  className={`${inputBaseClass} ${errors.schedule_dates ? inputErrorClass : ''}`}
+                  dateFormat="MMMM d, yyyy"
+                  minDate={new Date()}
+                  placeholderText="Click to select dates"
+                  inline
+                  isClearable={false}
+                  highlightDates={formData.schedule_dates}
+                  dayClassName={(date) => {
+                    return formData.schedule_dates.some(
+                      (d) => d.getTime() === date.getTime()
+                    )
+                      ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                      : '';
+                  }}
+                />
+              </div>
+              {errors.schedule_dates && (
+                <p className="mt-1 text-sm text-red-600">{errors.schedule_dates}</p>
+              )}
+              {formData.schedule_dates.length > 0 && (
+                <div className="mt-2">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Selected Dates:</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {formData.schedule_dates.map((date, index) => (
+                      <div
+                        key={index}
+                        className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center"
                       >
-                        ×
-                      </button>
-                    </div>
-                  ))}
+                        {format(date, 'MMM d, yyyy')}
+                        <button
+                          type="button"
+                          onClick={() => {
+                            const newDates = formData.schedule_dates.filter((_, i) => i !== index);
+                            handleInputChange('schedule_dates', newDates);
+                          }}
+                          className="ml-2 text-blue-600 hover:text-blue-800"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
+              </>
             )}
           </div>
 
@@ -411,6 +918,10 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
               <p className="mt-2 text-sm text-red-600">{errors.client_name}</p>
             )}
             
+            {searchingClients && (
+              <p className="mt-2 text-sm text-gray-500">Searching clients...</p>
+            )}
+
             {/* Client suggestions dropdown */}
             {showSuggestions && suggestions.length > 0 && (
               <div className="absolute z-10 w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200">
@@ -432,6 +943,42 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
             )}
           </div>
 
+          {/* Likely duplicates of a new client */}
+          {!formData.client_id && duplicates.length > 0 && (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+              <p className="font-medium">This may already be a client:</p>
+              <ul className="mt-2 space-y-1">
+                {duplicates.map((client) => (
+                  <li key={client.id} className="flex items-center justify-between">
+                    <span>
+                      {client.name}
+                      {client.contact_person && <span className="text-yellow-700"> ({client.contact_person})</span>}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => selectClient(client)}
+                      className="ml-4 font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Use this client
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <label className="mt-3 flex items-center">
+                <input
+                  type="checkbox"
+                  checked={newClientConfirmed}
+                  onChange={(e) => {
+                    setNewClientConfirmed(e.target.checked);
+                    setErrors(prev => ({ ...prev, client_name: undefined }));
+                  }}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-2">No, this is a new client</span>
+              </label>
+            </div>
+          )}
+
           {/* Additional Client Fields */}
           {showNewClientFields && (
             <div className="space-y-6 animate-fadeIn">
@@ -495,6 +1042,29 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
               </div>
             </div>
           )}
+
+          {/* Agency */}
+          <div>
+            <label htmlFor="agency_id" className="block text-base font-medium text-gray-700">
+              Agency
+            </label>
+            <select
+              id="agency_id"
+              value={formData.agency_id ?? ''}
+              onChange={(e) => selectAgency(e.target.value || null)}
+              className={inputBaseClass}
+            >
+              <option value="">Direct booking (no agency)</option>
+              {agencies.map((agency) => (
+                <option key={agency.id} value={agency.id}>
+                  {agency.name} ({agency.commission_rate}% commission)
+                </option>
+              ))}
+            </select>
+            {formData.client_id && formData.agency_id && formData.agency_id !== clientAgencyId && (
+              <p className="mt-2 text-sm text-gray-500">The client will be linked to this agency.</p>
+            )}
+          </div>
         </div>
       </div>
 
@@ -508,14 +1078,27 @@ export function JobForm({ initialData, onSubmit, onCancel }: JobFormProps) {
         >
           Cancel
         </button>
+        {needsApproval && (
+          <button
+            type="submit"
+            value="draft"
+            disabled={isSaving}
+            className={`px-8 py-3 text-base font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors ${
+              isSaving ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            Save Draft
+          </button>
+        )}
         <button
           type="submit"
+          value="pending_approval"
           disabled={isSaving}
           className={`px-8 py-3 text-base font-medium text-white bg-blue-600 rounded-lg shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors ${
             isSaving ? 'opacity-50 cursor-not-allowed' : ''
           }`}
         >
-          {isSaving ? 'Saving...' : 'Save Job'}
+          {isSaving ? 'Saving...' : needsApproval ? 'Submit for Approval' : 'Save Job'}
         </button>
       </div>
     </form>
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { weekdayOptions } from '@/lib/utils/recurrence';
+import type { RecurrencePattern } from '@/lib/utils/recurrence';
+
+// Air times come from the job itself, so only the calendar side is edited here
+interface RecurrenceRuleFieldsProps {
+  value: RecurrencePattern;
+  onChange: (value: RecurrencePattern) => void;
+  occurrenceCount: number;
+  error?: string;
+}
+
+const inputClass = "mt-2 block w-full rounded-lg border-gray-300 shadow-sm sm:text-base py-3 px-4 focus:border-blue-500 focus:ring-blue-500 transition-colors";
+
+export function RecurrenceRuleFields({ value, onChange, occurrenceCount, error }: RecurrenceRuleFieldsProps) {
+  const [excludedDateInput, setExcludedDateInput] = useState('');
+
+  const update = (changes: Partial<RecurrencePattern>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    update({
+      weekdays: value.weekdays.includes(weekday)
+        ? value.weekdays.filter(d => d !== weekday)
+        : [...value.weekdays, weekday],
+    });
+  };
+
+  const addExcludedDate = () => {
+    if (!excludedDateInput || value.excluded_dates.includes(excludedDateInput)) return;
+    update({ excluded_dates: [...value.excluded_dates, excludedDateInput].sort() });
+    setExcludedDateInput('');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Weekdays */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700">Days of the Week</span>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {weekdayOptions.map(({ value: weekday, label }) => (
+            <button
+              key={weekday}
+              type="button"
+              onClick={() => toggleWeekday(weekday)}
+              className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                value.weekdays.includes(weekday)
+                  ? 'bg-blue-100 border-blue-500 text-blue-700'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Date range */}
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="recurrence_start_date" className="block text-sm font-medium text-gray-700">
+            Start Date
+          </label>
+          <input
+            type="date"
+            id="recurrence_start_date"
+            value={value.start_date}
+            onChange={(e) => update({ start_date: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="recurrence_end_date" className="block text-sm font-medium text-gray-700">
+            End Date
+          </label>
+          <input
+            type="date"
+            id="recurrence_end_date"
+            value={value.end_date}
+            min={value.start_date || undefined}
+            onChange={(e) => update({ end_date: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Excluded dates */}
+      <div>
+        <label htmlFor="recurrence_excluded_date" className="block text-sm font-medium text-gray-700">
+          Excluded Dates
+        </label>
+        <p className="mt-1 text-sm text-gray-500">Public holidays or other days the campaign should not air.</p>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            id="recurrence_excluded_date"
+            value={excludedDateInput}
+            min={value.start_date || undefined}
+            max={value.end_date || undefined}
+            onChange={(e) => setExcludedDateInput(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={addExcludedDate}
+            className="mt-2 px-4 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Exclude
+          </button>
+        </div>
+        {value.excluded_dates.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {value.excluded_dates.map((date) => (
+              <div
+                key={date}
+                className="bg-gray-100 text-gray-800 px-3 py-1 rounded-full text-sm flex items-center"
+              >
+                {format(parseISO(date), 'MMM d, yyyy')}
+                <button
+                  type="button"
+                  onClick={() => update({ excluded_dates: value.excluded_dates.filter(d => d !== date) })}
+                  className="ml-2 text-gray-600 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {occurrenceCount === 1 ? '1 spot' : `${occurrenceCount} spots`} will be scheduled.
+      </p>
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
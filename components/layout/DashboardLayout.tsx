@@ -1,9 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
 import { useAuth } from '@/context/AuthContext';
+import { canAccessRoute, roleLabels } from '@/lib/utils/permissions';
+import { stationsAPI } from '@/lib/api/index';
+import type { StationWithOrganisation } from '@/lib/api/index';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -18,9 +22,21 @@ interface NavItem {
 const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/dashboard', icon: '📊' },
   { name: 'Jobs', href: '/dashboard/jobs', icon: '📝' },
+  { name: 'Approvals', href: '/dashboard/approvals', icon: '✅' },
   { name: 'Schedule', href: '/dashboard/schedule', icon: '📅' },
   { name: 'Invoices', href: '/dashboard/invoices', icon: '📄' },
+  { name: 'Requests', href: '/dashboard/booking-requests', icon: '📥' },
+  { name: 'Clients', href: '/dashboard/clients', icon: '👥' },
+  { name: 'Agencies', href: '/dashboard/agencies', icon: '🏢' },
   { name: 'Analytics', href: '/dashboard/analytics', icon: '📈' },
+  { name: 'Users', href: '/dashboard/users', icon: '🔑' },
+  { name: 'Settings', href: '/dashboard/settings', icon: '⚙️' },
+];
+
+// Advertisers only see their own client's portal
+const portalNavigation: NavItem[] = [
+  { name: 'Overview', href: '/portal', icon: '📊' },
+  { name: 'Booking Requests', href: '/portal/requests', icon: '📥' },
   { name: 'Settings', href: '/dashboard/settings', icon: '⚙️' },
 ];
 
@@ -28,8 +44,41 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [stations, setStations] = useState<StationWithOrganisation[]>([]);
   const pathname = usePathname();
+  const router = useRouter();
   const { user, signOut } = useAuth();
+  const isAdvertiser = user?.role === 'advertiser';
+  // Each role only sees the pages lib/utils/permissions.ts lets it open
+  const items = (isAdvertiser ? portalNavigation : navigation)
+    .filter(item => canAccessRoute(user?.role, item.href));
+  const canAccessPage = !user || canAccessRoute(user.role, pathname);
+  const homeHref = isAdvertiser ? '/portal' : '/dashboard';
+
+  useEffect(() => {
+    if (isAdvertiser && pathname.startsWith('/dashboard') && !pathname.startsWith('/dashboard/settings')) {
+      router.replace('/portal');
+    }
+  }, [isAdvertiser, pathname, router]);
+
+  useEffect(() => {
+    if (!user || isAdvertiser) return;
+    stationsAPI.listStations()
+      .then(setStations)
+      .catch(error => console.error('Error loading stations:', error));
+  }, [user, isAdvertiser]);
+
+  // Everything on screen belongs to the old station, so start afresh
+  const handleSwitchStation = async (stationId: string) => {
+    if (!user) return;
+    try {
+      await stationsAPI.switchStation(user.id, stationId);
+      window.location.reload();
+    } catch (error) {
+      console.error('Error switching station:', error);
+      toast.error('Failed to switch station');
+    }
+  };
 
   const handleSignOut = () => {
     setIsDialogOpen(true);
@@ -65,7 +114,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="flex items-center justify-between h-16">
               {/* Logo */}
-              <Link href="/dashboard" className="flex items-center space-x-2 transition-transform hover:scale-105">
+              <Link href={homeHref} className="flex items-center space-x-2 transition-transform hover:scale-105">
                 <div className="w-8 h-8 rounded-lg bg-white/10 backdrop-blur-sm flex items-center justify-center">
                   <span className="text-lg font-bold">R</span>
                 </div>
@@ -74,7 +123,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
 
               {/* Desktop Navigation */}
               <div className="hidden md:flex items-center space-x-4">
-                {navigation.map((item) => {
+                {items.map((item) => {
                   const isActive = pathname.startsWith(item.href);
                   return (
                     <Link
@@ -95,6 +144,25 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                 })}
               </div>
 
+              {/* Station switcher */}
+              {stations.length > 0 && (
+                <select
+                  value={user?.current_station_id ?? ''}
+                  onChange={(e) => handleSwitchStation(e.target.value)}
+                  aria-label="Station"
+                  className="rounded-lg border-white/20 bg-white/10 py-1.5 text-sm text-white focus:border-white focus:ring-white"
+                >
+                  {!user?.current_station_id && <option value="" className="text-gray-900">Choose a station</option>}
+                  {stations.map(station => (
+                    <option key={station.id} value={station.id} className="text-gray-900">
+                      {station.organisation.name === station.name
+                        ? station.name
+                        : `${station.organisation.name} · ${station.name}`}
+                    </option>
+                  ))}
+                </select>
+              )}
+
               {/* Profile Dropdown */}
               <div className="relative">
                 <button
@@ -113,6 +181,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                     <div className="px-4 py-2 border-b border-gray-100">
                       <p className="text-sm font-medium">{user?.name}</p>
                       <p className="text-xs text-gray-500">{user?.email}</p>
+                      {user && <p className="text-xs text-gray-400">{roleLabels[user.role]}</p>}
                     </div>
                     <Link href="/dashboard/settings" className="block px-4 py-2 text-sm hover:bg-gray-50">Settings</Link>
                     <button
@@ -145,7 +214,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
           {isMenuOpen && (
             <div className="md:hidden bg-white/5 backdrop-blur-sm animate-slideDown">
               <div className="px-2 pt-2 pb-3 space-y-1">
-                {navigation.map((item) => {
+                {items.map((item) => {
                   const isActive = pathname.startsWith(item.href);
                   return (
                     <Link
@@ -172,7 +241,14 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
 
         {/* Main content */}
         <main className="pt-20 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
-          {children}
+          {canAccessPage ? children : (
+            <div className="max-w-xl mx-auto py-12 text-center">
+              <h1 className="text-2xl font-semibold text-gray-900">No access</h1>
+              <p className="mt-4 text-gray-600">
+                Your role doesn&apos;t give you access to this page. Ask an admin if you need it.
+              </p>
+            </div>
+          )}
         </main>
       </div>
     </>
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { invoicesAPI, taxRulesAPI } from '@/lib/api/index';
+import { getDefaultTaxCode } from '@/lib/utils/tax';
+import type { TaxRule, TaxKind } from '@/lib/utils/tax';
+import { inputClass, SettingsSection, SaveButton, AdminOnlyNotice, LoadingSpinner } from './SettingsSection';
+
+type InvoiceDefaultsFormData = {
+  organisation_id: string;
+  prefix: string;
+  credit_note_prefix: string;
+  pad_length: number;
+  reset_yearly: boolean;
+  vat_code: string;
+  wht_code: string;
+};
+
+export function InvoiceDefaultsSettings({ userId, canEdit }: { userId: string; canEdit: boolean }) {
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [formData, setFormData] = useState<InvoiceDefaultsFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([invoicesAPI.getNumberingSettings(), taxRulesAPI.listTaxRules({ activeOnly: true })])
+      .then(([numbering, rules]) => {
+        setTaxRules(rules);
+        setFormData({
+          organisation_id: numbering.organisation_id,
+          prefix: numbering.prefix,
+          credit_note_prefix: numbering.credit_note_prefix,
+          pad_length: numbering.pad_length,
+          reset_yearly: numbering.reset_yearly,
+          vat_code: getDefaultTaxCode(rules, 'vat') ?? '',
+          wht_code: getDefaultTaxCode(rules, 'withholding') ?? '',
+        });
+      })
+      .catch(error => {
+        console.error('Error loading invoice settings:', error);
+        toast.error('Failed to load invoice settings');
+      });
+  }, []);
+
+  if (!formData) return <LoadingSpinner />;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (![formData.prefix, formData.credit_note_prefix].every(prefix => /^[A-Za-z0-9]{1,10}$/.test(prefix.trim()))) {
+      toast.error('Prefixes must be 1 to 10 letters or digits');
+      return;
+    }
+    if (formData.prefix.trim() === formData.credit_note_prefix.trim()) {
+      toast.error('Credit notes need a different prefix from invoices');
+      return;
+    }
+    if (formData.pad_length < 1 || formData.pad_length > 10) {
+      toast.error('Number length must be between 1 and 10 digits');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await invoicesAPI.updateNumberingSettings(formData.organisation_id, {
+        prefix: formData.prefix.trim(),
+        credit_note_prefix: formData.credit_note_prefix.trim(),
+        pad_length: formData.pad_length,
+        reset_yearly: formData.reset_yearly,
+        updated_by: userId,
+      });
+      // Only touch the tax rules when the default actually changed
+      const defaults: [TaxKind, string][] = [['vat', formData.vat_code], ['withholding', formData.wht_code]];
+      for (const [kind, code] of defaults) {
+        if (code !== (getDefaultTaxCode(taxRules, kind) ?? '')) {
+          await taxRulesAPI.setDefaultTaxRule(kind, code || null);
+        }
+      }
+      setTaxRules(await taxRulesAPI.listTaxRules({ activeOnly: true }));
+      toast.success('Invoice settings saved');
+    } catch (error) {
+      console.error('Error saving invoice settings:', error);
+      toast.error('Failed to save invoice settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Mirrors format_invoice_number() and format_credit_note_number() in the migrations
+  const preview = (prefix: string) => [
+    prefix,
+    formData.reset_yearly ? new Date().getFullYear() : null,
+    '1'.padStart(formData.pad_length, '0'),
+  ].filter(Boolean).join('-');
+
+  return (
+    <SettingsSection title="Invoice Defaults" description="How new invoices are numbered and which taxes they start with.">
+      {!canEdit && <AdminOnlyNotice />}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <fieldset disabled={!canEdit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="invoice_prefix" className="block text-sm font-medium text-gray-700">Number Prefix</label>
+            <input
+              type="text"
+              id="invoice_prefix"
+              value={formData.prefix}
+              onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="credit_note_prefix" className="block text-sm font-medium text-gray-700">Credit Note Prefix</label>
+            <input
+              type="text"
+              id="credit_note_prefix"
+              value={formData.credit_note_prefix}
+              onChange={(e) => setFormData({ ...formData, credit_note_prefix: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="invoice_pad_length" className="block text-sm font-medium text-gray-700">Number Length (digits)</label>
+            <input
+              type="number"
+              id="invoice_pad_length"
+              min="1"
+              max="10"
+              value={formData.pad_length}
+              onChange={(e) => setFormData({ ...formData, pad_length: parseInt(e.target.value) || 1 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-end">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.reset_yearly}
+                onChange={(e) => setFormData({ ...formData, reset_yearly: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2">Restart numbering each year</span>
+            </label>
+          </div>
+          <div>
+            <label htmlFor="default_vat" className="block text-sm font-medium text-gray-700">Default VAT</label>
+            <select
+              id="default_vat"
+              value={formData.vat_code}
+              onChange={(e) => setFormData({ ...formData, vat_code: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">None</option>
+              {taxRules.filter(rule => rule.kind === 'vat').map(rule => (
+                <option key={rule.code} value={rule.code}>{rule.name} ({rule.rate}%)</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="default_wht" className="block text-sm font-medium text-gray-700">Default Withholding Tax</label>
+            <select
+              id="default_wht"
+              value={formData.wht_code}
+              onChange={(e) => setFormData({ ...formData, wht_code: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">None</option>
+              {taxRules.filter(rule => rule.kind === 'withholding').map(rule => (
+                <option key={rule.code} value={rule.code}>{rule.name} ({rule.rate}%)</option>
+              ))}
+            </select>
+          </div>
+        </fieldset>
+        <p className="text-sm text-gray-500">Next numbers will look like {preview(formData.prefix)} for invoices and {preview(formData.credit_note_prefix)} for credit notes</p>
+        <SaveButton saving={saving} label="Save Invoice Defaults" disabled={!canEdit} />
+      </form>
+    </SettingsSection>
+  );
+}
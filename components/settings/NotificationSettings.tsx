@@ -0,0 +1,71 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { userAPI, defaultNotificationPreferences } from '@/lib/api/index';
+import { SettingsSection, SaveButton, LoadingSpinner } from './SettingsSection';
+
+type Preferences = typeof defaultNotificationPreferences;
+
+const options: { key: keyof Preferences; label: string; description: string }[] = [
+  { key: 'invoice_overdue', label: 'Overdue invoices', description: 'When an invoice passes its due date unpaid.' },
+  { key: 'payment_received', label: 'Payments received', description: 'When a payment is recorded against an invoice.' },
+  { key: 'booking_requests', label: 'Booking requests', description: 'When an advertiser asks for airtime.' },
+  { key: 'schedule_reminders', label: 'Schedule reminders', description: "A daily summary of the next day's spots." },
+];
+
+export function NotificationSettings({ userId }: { userId: string }) {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    userAPI.getNotificationPreferences(userId)
+      .then(({ invoice_overdue, payment_received, booking_requests, schedule_reminders }) =>
+        setPreferences({ invoice_overdue, payment_received, booking_requests, schedule_reminders })
+      )
+      .catch(error => {
+        console.error('Error loading notification preferences:', error);
+        toast.error('Failed to load notification preferences');
+      });
+  }, [userId]);
+
+  if (!preferences) return <LoadingSpinner />;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await userAPI.saveNotificationPreferences(userId, preferences);
+      toast.success('Notification preferences saved');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error('Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SettingsSection title="Notifications" description="Choose which emails you receive.">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-3">
+          {options.map(({ key, label, description }) => (
+            <label key={key} className="flex items-start text-sm">
+              <input
+                type="checkbox"
+                checked={preferences[key]}
+                onChange={(e) => setPreferences({ ...preferences, [key]: e.target.checked })}
+                className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-3">
+                <span className="font-medium text-gray-900">{label}</span>
+                <span className="block text-gray-500">{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <SaveButton saving={saving} label="Save Preferences" />
+      </form>
+    </SettingsSection>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { organisationAPI } from '@/lib/api/index';
+import type { OrganisationSettings } from '@/lib/utils/organisation';
+import { inputClass, SettingsSection, SaveButton, AdminOnlyNotice, LoadingSpinner } from './SettingsSection';
+
+const textFields: { key: keyof OrganisationSettings; label: string; type?: string }[] = [
+  { key: 'address', label: 'Address' },
+  { key: 'email', label: 'Email', type: 'email' },
+  { key: 'phone', label: 'Phone', type: 'tel' },
+  { key: 'rc_number', label: 'RC Number' },
+  { key: 'tin', label: 'TIN' },
+  { key: 'logo_url', label: 'Logo URL', type: 'url' },
+  { key: 'bank_name', label: 'Bank Name' },
+  { key: 'bank_account_name', label: 'Account Name' },
+  { key: 'bank_account_number', label: 'Account Number (NUBAN)' },
+];
+
+const timeZones = Intl.supportedValuesOf('timeZone');
+
+export function OrganisationSettingsForm({ userId, canEdit }: { userId: string; canEdit: boolean }) {
+  const [formData, setFormData] = useState<OrganisationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    organisationAPI.getSettings()
+      .then(setFormData)
+      .catch(error => {
+        console.error('Error loading organisation settings:', error);
+        toast.error('Failed to load organisation settings');
+      });
+  }, []);
+
+  if (!formData) return <LoadingSpinner />;
+
+  const setField = (key: keyof OrganisationSettings, value: string) =>
+    setFormData({ ...formData, [key]: value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.station_name.trim()) {
+      toast.error('Station name is required');
+      return;
+    }
+    const accountNumber = formData.bank_account_number?.trim();
+    if (accountNumber && !/^[0-9]{10}$/.test(accountNumber)) {
+      toast.error('Account number must be 10 digits');
+      return;
+    }
+    if (formData.payment_terms_days < 0 || formData.payment_terms_days > 365) {
+      toast.error('Payment terms must be between 0 and 365 days');
+      return;
+    }
+
+    // Blank optional fields are stored as null
+    const optional = (value: string | null) => value?.trim() || null;
+
+    try {
+      setSaving(true);
+      await organisationAPI.updateSettings(formData.organisation_id, {
+        station_name: formData.station_name.trim(),
+        time_zone: formData.time_zone,
+        logo_url: optional(formData.logo_url),
+        address: optional(formData.address),
+        email: optional(formData.email),
+        phone: optional(formData.phone),
+        rc_number: optional(formData.rc_number),
+        tin: optional(formData.tin),
+        bank_name: optional(formData.bank_name),
+        bank_account_name: optional(formData.bank_account_name),
+        bank_account_number: optional(formData.bank_account_number),
+        payment_terms_days: formData.payment_terms_days,
+        payment_terms_note: optional(formData.payment_terms_note),
+        updated_by: userId,
+      });
+      toast.success('Organisation settings saved');
+    } catch (error) {
+      console.error('Error saving organisation settings:', error);
+      toast.error('Failed to save organisation settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SettingsSection title="Organisation" description="Station details printed on invoices, the local time zone and payment terms.">
+      {!canEdit && <AdminOnlyNotice />}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <fieldset disabled={!canEdit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="station_name" className="block text-sm font-medium text-gray-700">Station Name</label>
+            <input
+              type="text"
+              id="station_name"
+              value={formData.station_name}
+              onChange={(e) => setField('station_name', e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="time_zone" className="block text-sm font-medium text-gray-700">Time Zone</label>
+            <select
+              id="time_zone"
+              value={formData.time_zone}
+              onChange={(e) => setField('time_zone', e.target.value)}
+              className={inputClass}
+            >
+              {(timeZones.includes(formData.time_zone) ? timeZones : [formData.time_zone, ...timeZones]).map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+          {textFields.map(({ key, label, type }) => (
+            <div key={key}>
+              <label htmlFor={`organisation_${key}`} className="block text-sm font-medium text-gray-700">{label}</label>
+              <input
+                type={type ?? 'text'}
+                id={`organisation_${key}`}
+                value={(formData[key] as string | null) ?? ''}
+                onChange={(e) => setField(key, e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <div>
+            <label htmlFor="payment_terms_days" className="block text-sm font-medium text-gray-700">Payment Terms (days)</label>
+            <input
+              type="number"
+              id="payment_terms_days"
+              min="0"
+              max="365"
+              value={formData.payment_terms_days}
+              onChange={(e) => setFormData({ ...formData, payment_terms_days: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="payment_terms_note" className="block text-sm font-medium text-gray-700">Payment Terms Note</label>
+            <input
+              type="text"
+              id="payment_terms_note"
+              value={formData.payment_terms_note ?? ''}
+              onChange={(e) => setField('payment_terms_note', e.target.value)}
+              className={inputClass}
+              placeholder="e.g. Cheques payable to the station"
+            />
+          </div>
+        </fieldset>
+        <SaveButton saving={saving} label="Save Organisation" disabled={!canEdit} />
+      </form>
+    </SettingsSection>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { userAPI } from '@/lib/api/index';
+import { useAuth } from '@/context/AuthContext';
+import { inputClass, SettingsSection, SaveButton } from './SettingsSection';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export function ProfileSettings() {
+  const { user, refreshUser } = useAuth();
+  const [name, setName] = useState(user?.name ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' });
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  if (!user) return null;
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    try {
+      setSavingProfile(true);
+      await userAPI.updateUser(user.id, { name: name.trim() });
+
+      const newEmail = email.trim().toLowerCase();
+      if (newEmail !== user.email.toLowerCase()) {
+        await userAPI.changeEmail(newEmail);
+        toast.success('Check your new email address to confirm the change');
+      } else {
+        toast.success('Profile updated');
+      }
+      await refreshUser();
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwords.next.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`New password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (passwords.next !== passwords.confirm) {
+      toast.error('New passwords do not match');
+      return;
+    }
+
+    try {
+      setSavingPassword(true);
+      await userAPI.changePassword(user.email, passwords.current, passwords.next);
+      setPasswords({ current: '', next: '', confirm: '' });
+      toast.success('Password changed');
+    } catch (error) {
+      console.error('Error changing password:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change password');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection title="Profile" description="Your name and the email address you sign in with.">
+        <form onSubmit={handleProfileSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="profile_name" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                id="profile_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="profile_email" className="block text-sm font-medium text-gray-700">Email</label>
+              <input
+                type="email"
+                id="profile_email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+          <SaveButton saving={savingProfile} label="Save Profile" />
+        </form>
+      </SettingsSection>
+
+      <SettingsSection title="Password" description="Enter your current password to choose a new one.">
+        <form onSubmit={handlePasswordSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="current_password" className="block text-sm font-medium text-gray-700">Current Password</label>
+              <input
+                type="password"
+                id="current_password"
+                autoComplete="current-password"
+                value={passwords.current}
+                onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="new_password" className="block text-sm font-medium text-gray-700">New Password</label>
+              <input
+                type="password"
+                id="new_password"
+                autoComplete="new-password"
+                value={passwords.next}
+                onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm_password" className="block text-sm font-medium text-gray-700">Confirm New Password</label>
+              <input
+                type="password"
+                id="confirm_password"
+                autoComplete="new-password"
+                value={passwords.confirm}
+                onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+          <SaveButton saving={savingPassword} label="Change Password" />
+        </form>
+      </SettingsSection>
+    </div>
+  );
+}
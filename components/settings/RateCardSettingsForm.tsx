@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { rateCardsAPI, schedulesAPI } from '@/lib/api/index';
+import type { Database } from '@/lib/database.types';
+import { inputClass, SettingsSection, SaveButton, AdminOnlyNotice, LoadingSpinner } from './SettingsSection';
+
+type RateCard = Database['public']['Tables']['rate_cards']['Row'];
+type SpotLength = Database['public']['Tables']['rate_card_settings']['Row']['default_spot_length'];
+
+type RateCardFormData = {
+  organisation_id: string;
+  default_rate_card_id: string;
+  default_spot_length: SpotLength;
+  require_override_reason: boolean;
+  max_commercial_minutes_per_hour: number;
+};
+
+const spotLengths: SpotLength[] = [15, 30, 60];
+
+export function RateCardSettingsForm({ userId, canEdit }: { userId: string; canEdit: boolean }) {
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [formData, setFormData] = useState<RateCardFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([rateCardsAPI.listRateCards(), rateCardsAPI.getSettings(), schedulesAPI.getAirtimeSettings()])
+      .then(([cards, settings, airtime]) => {
+        setRateCards(cards);
+        setFormData({
+          organisation_id: settings.organisation_id,
+          default_rate_card_id: settings.default_rate_card_id ?? '',
+          default_spot_length: settings.default_spot_length,
+          require_override_reason: settings.require_override_reason,
+          max_commercial_minutes_per_hour: airtime.max_commercial_minutes_per_hour,
+        });
+      })
+      .catch(error => {
+        console.error('Error loading rate card settings:', error);
+        toast.error('Failed to load rate card settings');
+      });
+  }, []);
+
+  if (!formData) return <LoadingSpinner />;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.max_commercial_minutes_per_hour <= 0 || formData.max_commercial_minutes_per_hour > 60) {
+      toast.error('Commercial minutes per hour must be more than 0 and at most 60');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await rateCardsAPI.updateSettings(formData.organisation_id, {
+        default_rate_card_id: formData.default_rate_card_id || null,
+        default_spot_length: formData.default_spot_length,
+        require_override_reason: formData.require_override_reason,
+        updated_by: userId,
+      });
+      await schedulesAPI.updateAirtimeSettings(formData.organisation_id, {
+        max_commercial_minutes_per_hour: formData.max_commercial_minutes_per_hour,
+        updated_by: userId,
+      });
+      toast.success('Rate card settings saved');
+    } catch (error) {
+      console.error('Error saving rate card settings:', error);
+      toast.error('Failed to save rate card settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SettingsSection title="Rate Card Defaults" description="What new bookings start with and how far they may depart from the rate card.">
+      {!canEdit && <AdminOnlyNotice />}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <fieldset disabled={!canEdit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="default_rate_card" className="block text-sm font-medium text-gray-700">Default Rate Card</label>
+            <select
+              id="default_rate_card"
+              value={formData.default_rate_card_id}
+              onChange={(e) => setFormData({ ...formData, default_rate_card_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Latest active card</option>
+              {rateCards.filter(card => card.is_active).map(card => (
+                <option key={card.id} value={card.id}>{card.name}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">Used when more than one active card covers a date</p>
+          </div>
+          <div>
+            <label htmlFor="default_spot_length" className="block text-sm font-medium text-gray-700">Default Spot Length</label>
+            <select
+              id="default_spot_length"
+              value={formData.default_spot_length}
+              onChange={(e) => setFormData({ ...formData, default_spot_length: parseInt(e.target.value) as SpotLength })}
+              className={inputClass}
+            >
+              {spotLengths.map(length => (
+                <option key={length} value={length}>{length} seconds</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="max_commercial_minutes" className="block text-sm font-medium text-gray-700">Max Commercial Minutes per Hour</label>
+            <input
+              type="number"
+              id="max_commercial_minutes"
+              min="0.5"
+              max="60"
+              step="0.5"
+              value={formData.max_commercial_minutes_per_hour}
+              onChange={(e) => setFormData({ ...formData, max_commercial_minutes_per_hour: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.require_override_reason}
+                onChange={(e) => setFormData({ ...formData, require_override_reason: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2">Require a reason when a booking changes the rate card price</span>
+            </label>
+          </div>
+        </fieldset>
+        <SaveButton saving={saving} label="Save Rate Card Defaults" disabled={!canEdit} />
+      </form>
+    </SettingsSection>
+  );
+}
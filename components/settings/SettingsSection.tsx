@@ -0,0 +1,48 @@
+export const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50 disabled:text-gray-500";
+
+type SettingsSectionProps = {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+};
+
+export function SettingsSection({ title, description, children }: SettingsSectionProps) {
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+      {description && <p className="mt-1 text-sm text-gray-500">{description}</p>}
+      <div className="mt-4">{children}</div>
+    </section>
+  );
+}
+
+export function SaveButton({ saving, label, disabled }: { saving: boolean; label: string; disabled?: boolean }) {
+  return (
+    <div className="flex justify-end">
+      <button
+        type="submit"
+        disabled={saving || disabled}
+        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : label}
+      </button>
+    </div>
+  );
+}
+
+// Station-wide settings are editable by admins only (enforced by RLS)
+export function AdminOnlyNotice() {
+  return (
+    <p className="mb-4 rounded-md bg-yellow-50 px-4 py-2 text-sm text-yellow-800">
+      Only admins can change these settings.
+    </p>
+  );
+}
+
+export function LoadingSpinner() {
+  return (
+    <div className="flex justify-center py-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { stationsAPI, toApiError } from '@/lib/api/index';
+import type { StationWithOrganisation } from '@/lib/api/index';
+import { inputClass, SettingsSection, AdminOnlyNotice, LoadingSpinner } from './SettingsSection';
+
+const emptyForm = { name: '', frequency: '' };
+
+export function StationsSettings({ currentStationId, canEdit }: { currentStationId: string | null; canEdit: boolean }) {
+  const [stations, setStations] = useState<StationWithOrganisation[] | null>(null);
+  // null when the form is closed, 'new' when adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadStations = useCallback(async () => {
+    try {
+      setStations(await stationsAPI.listStations());
+    } catch (error) {
+      console.error('Error loading stations:', error);
+      toast.error('Failed to load stations');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStations();
+  }, [loadStations]);
+
+  if (!stations) return <LoadingSpinner />;
+
+  // Only the current organisation's stations are managed here
+  const organisation = stations.find(station => station.id === currentStationId)?.organisation ?? null;
+  const organisationStations = stations.filter(station => station.organisation_id === organisation?.id);
+
+  const openForm = (station?: StationWithOrganisation) => {
+    setEditingId(station?.id ?? 'new');
+    setFormData(station ? { name: station.name, frequency: station.frequency || '' } : emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisation) return;
+    if (!formData.name.trim()) {
+      toast.error('Station name is required');
+      return;
+    }
+
+    const data = { name: formData.name.trim(), frequency: formData.frequency.trim() || null };
+
+    try {
+      setSaving(true);
+      if (editingId === 'new') {
+        await stationsAPI.createStation({ ...data, organisation_id: organisation.id });
+        toast.success('Station added');
+      } else if (editingId) {
+        await stationsAPI.updateStation(editingId, data);
+        toast.success('Station updated');
+      }
+      setEditingId(null);
+      await loadStations();
+    } catch (error) {
+      console.error('Error saving station:', error);
+      // 23505 is the unique station name per organisation
+      toast.error(toApiError(error).code === '23505' ? 'A station with that name already exists' : 'Failed to save station');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!organisation) {
+    return (
+      <SettingsSection title="Stations">
+        <p className="text-sm text-gray-500">Pick a station with the station switcher to see its organisation.</p>
+      </SettingsSection>
+    );
+  }
+
+  return (
+    <SettingsSection
+      title="Stations"
+      description={`Stations run by ${organisation.name}. Clients and invoices are shared between them; each has its own bookings and airtime.`}
+    >
+      {!canEdit && <AdminOnlyNotice />}
+
+      <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+        {organisationStations.map(station => (
+          <li key={station.id} className="flex items-center justify-between px-4 py-3 text-sm">
+            <div>
+              <p className="font-medium text-gray-900">
+                {station.name}
+                {station.id === currentStationId && <span className="ml-2 text-xs text-gray-400">(current)</span>}
+              </p>
+              {station.frequency && <p className="text-gray-500">{station.frequency}</p>}
+            </div>
+            {canEdit && (
+              <button onClick={() => openForm(station)} className="text-blue-600 hover:text-blue-800 font-medium">
+                Edit
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (editingId ? (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="station_name" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                id="station_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="station_frequency" className="block text-sm font-medium text-gray-700">Frequency</label>
+              <input
+                type="text"
+                id="station_frequency"
+                value={formData.frequency}
+                onChange={(e) => setFormData({ ...formData, frequency: e.target.value })}
+                placeholder="e.g. 99.3 FM"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Station'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={() => openForm()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700"
+          >
+            Add Station
+          </button>
+        </div>
+      ))}
+    </SettingsSection>
+  );
+}
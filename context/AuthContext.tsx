@@ -3,7 +3,7 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
-import { userAPI } from '@/lib/api';
+import { userAPI } from '@/lib/api/index';
 import type { Database } from '@/lib/database.types';
 
 type User = Database['public']['Tables']['users']['Row'];
@@ -12,8 +12,9 @@ interface AuthContextType {
   user: User | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ success: boolean; message: string }>;
-  signUp: (email: string, password: string, name: string, role: User['role']) => Promise<{ success: boolean; message: string }>;
+  signUp: (email: string, password: string, name: string) => Promise<{ success: boolean; message: string }>;
   signOut: () => Promise<void>;
+  refreshUser: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -64,16 +65,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       try {
         // Fetch user profile
-        const { data: profile, error: profileError } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', user.id)
-          .single();
-
-        if (profileError) throw profileError;
-        
+        const profile = await userAPI.getUser(user.id);
         setUser(profile);
-        router.push('/dashboard');
+        router.push(profile.role === 'advertiser' ? '/portal' : '/dashboard');
         
         return {
           success: true,
@@ -104,7 +98,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const signUp = async (email: string, password: string, name: string, role: User['role']) => {
+  const signUp = async (email: string, password: string, name: string) => {
     try {
       console.log('Starting auth signup...');
       
@@ -115,7 +109,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         options: {
           data: {
             name,
-            role,
           },
           emailRedirectTo: `${window.location.origin}/auth/login`,
         },
@@ -141,9 +134,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         },
         body: JSON.stringify({
           id: authUser.id,
-          email,
           name,
-          role,
         }),
       });
 
@@ -185,8 +176,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Re-reads the profile after it has been edited elsewhere
+  const refreshUser = async () => {
+    setUser(await userAPI.getCurrentUser());
+  };
+
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut, refreshUser }}>
       {children}
     </AuthContext.Provider>
   );
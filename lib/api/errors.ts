@@ -0,0 +1,43 @@
+export type ApiErrorKind = 'not_found' | 'forbidden' | 'conflict' | 'invalid' | 'unknown';
+
+// Postgres and PostgREST codes the app treats differently
+const kindsByCode: Record<string, ApiErrorKind> = {
+  PGRST116: 'not_found',
+  '42501': 'forbidden',
+  '23505': 'conflict',
+  // exclusion_violation, raised by the airtime availability trigger
+  '23P01': 'conflict',
+  '23502': 'invalid',
+  '23503': 'invalid',
+  '23514': 'invalid',
+  '22P02': 'invalid',
+  // RAISE EXCEPTION in our own functions and triggers
+  P0001: 'invalid',
+};
+
+// Thrown by every API call, so pages can tell a missing row or a refused
+// write from a failure without parsing messages
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly code: string | null;
+  readonly details: string | null;
+
+  constructor(message: string, kind: ApiErrorKind = 'unknown', code: string | null = null, details: string | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Errors from the query builder, RPCs and auth are plain objects with a
+// message; pages pass whatever they caught
+export function toApiError(error: unknown) {
+  if (error instanceof ApiError) return error;
+  const { message = String(error), code = null, details = null } =
+    Object(error) as { message?: string; code?: string | null; details?: string | null };
+  return new ApiError(message, (code && kindsByCode[code]) || 'unknown', code, details);
+}
+
+export const isNotFound = (error: unknown) => error instanceof ApiError && error.kind === 'not_found';
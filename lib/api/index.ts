@@ -1,10 +1,43 @@
 import { supabase } from '../supabase';
 import type { Database } from '../database.types';
+import type { RateCardWithDetails } from '../utils/rateCards';
+import { addDurationToTime } from '../utils/duration';
+import { expandRecurrencePattern } from '../utils/recurrence';
+import { format } from 'date-fns';
+import type { DurationSeconds } from '../utils/duration';
+import { summariseAiredSpots, describeExcludedSpots } from '../utils/billing';
+import type { BillableSchedule } from '../utils/billing';
+import { requirePermission } from './users';
+import { ApiError, toApiError } from './errors';
+import { paginate, toPage } from './pagination';
+import type { Page, PageOptions } from './pagination';
 
 type Tables = Database['public']['Tables'];
+type Functions = Database['public']['Functions'];
+
+export type AirtimeConflict = Functions['check_airtime_availability']['Returns'][number];
+export type FreeAirtimeSlot = Functions['find_free_airtime_slots']['Returns'][number];
+export type ClientMatch = Functions['search_clients']['Returns'][number];
+export type InvoiceDocument = Tables['invoices']['Row'] & {
+  client: Tables['clients']['Row'];
+  agency: Tables['agencies']['Row'] | null;
+  invoice_items: (Tables['invoice_items']['Row'] & { job: Tables['jobs']['Row'] })[];
+};
 
 // Export all APIs
-export { userAPI } from './users';
+export { userAPI, defaultNotificationPreferences, requirePermission } from './users';
+export type { UserFilters } from './users';
+export { ApiError, isNotFound, toApiError } from './errors';
+export type { ApiErrorKind } from './errors';
+export { defaultPageSize, pageCount } from './pagination';
+export type { Page, PageOptions } from './pagination';
+
+type JobStatus = Tables['jobs']['Row']['status'];
+
+export type ClientFilters = {
+  createdBy?: string;
+  agencyId?: string;
+};
 
 // Clients API
 export const clientsAPI = {
@@ -14,10 +47,11 @@ export const clientsAPI = {
     email?: string | null;
     phone?: string | null;
     address?: string | null;
+    agency_id?: string | null;
     created_by: string;
   }) => {
     const response = await supabase.from('clients').insert([data]).select().single();
-    if (response.error) throw response.error;
+    if (response.error) throw toApiError(response.error);
     return response.data;
   },
 
@@ -29,23 +63,52 @@ export const clientsAPI = {
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return client;
   },
 
-  async listClients(userId?: string) {
-    const query = supabase
+  async listClients(filters?: ClientFilters & PageOptions) {
+    let query = supabase
       .from('clients')
-      .select('*')
+      .select('*', { count: 'exact' })
       .order('name');
-    
-    if (userId) {
-      query.eq('created_by', userId);
+
+    if (filters?.createdBy) {
+      query = query.eq('created_by', filters.createdBy);
+    }
+    if (filters?.agencyId) {
+      query = query.eq('agency_id', filters.agencyId);
     }
 
-    const { data: clients, error } = await query;
+    const { data: clients, count, error } = await paginate(query, filters);
+
+    if (error) throw toApiError(error);
+    return toPage(clients, count, filters);
+  },
+
+  // Ranked matches on name, contact person, email or phone
+  async searchClients(query: string, limit = 10): Promise<ClientMatch[]> {
+    if (!query.trim()) return [];
+
+    const { data: clients, error } = await supabase.rpc('search_clients', {
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) throw toApiError(error);
+    return clients;
+  },
+
+  // Existing clients whose names look like the same business as `name`
+  async findDuplicateClients(name: string, limit = 5): Promise<ClientMatch[]> {
+    if (!name.trim()) return [];
+
+    const { data: clients, error } = await supabase.rpc('find_duplicate_clients', {
+      p_name: name,
+      p_limit: limit,
+    });
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return clients;
   },
 
@@ -56,11 +119,140 @@ export const clientsAPI = {
       .eq('id', id)
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
+    return client;
+  },
+
+  // Everything booked and billed for a client, newest first
+  async getClientActivity(id: string) {
+    const [jobsResult, invoicesResult] = await Promise.all([
+      supabase
+        .from('jobs')
+        .select('*, schedules (*)')
+        .eq('client_id', id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('invoices')
+        .select('*')
+        .eq('client_id', id)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (jobsResult.error) throw toApiError(jobsResult.error);
+    if (invoicesResult.error) throw toApiError(invoicesResult.error);
+    return {
+      jobs: jobsResult.data,
+      invoices: invoicesResult.data,
+    };
+  },
+
+  // Advertiser logins that can see this client's portal
+  async listAdvertisers(clientId: string) {
+    const { data: advertisers, error } = await supabase.rpc('list_client_advertisers', {
+      p_client_id: clientId,
+    });
+
+    if (error) throw toApiError(error);
+    return advertisers;
+  },
+
+  async linkAdvertiser(email: string, clientId: string) {
+    const { data: advertiser, error } = await supabase.rpc('link_advertiser_to_client', {
+      p_email: email,
+      p_client_id: clientId,
+    });
+
+    if (error) throw toApiError(error);
+    return advertiser;
+  },
+
+  async unlinkAdvertiser(userId: string) {
+    const { error } = await supabase.rpc('unlink_advertiser', { p_user_id: userId });
+
+    if (error) throw toApiError(error);
+  },
+
+  // Moves the duplicate's jobs, invoices, booking requests and advertiser
+  // logins to the kept client and deletes it
+  async mergeClients(keepId: string, duplicateId: string) {
+    const { data: client, error } = await supabase.rpc('merge_clients', {
+      p_keep_id: keepId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) throw toApiError(error);
     return client;
   }
 };
 
+// Agencies API
+export const agenciesAPI = {
+  async createAgency(data: Omit<Tables['agencies']['Insert'], 'id' | 'created_at' | 'updated_at'>) {
+    const { data: agency, error } = await supabase
+      .from('agencies')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return agency;
+  },
+
+  async updateAgency(id: string, data: Partial<Tables['agencies']['Update']>) {
+    const { data: agency, error } = await supabase
+      .from('agencies')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return agency;
+  },
+
+  async listAgencies(options?: PageOptions) {
+    const query = supabase
+      .from('agencies')
+      .select('*', { count: 'exact' })
+      .order('name');
+
+    const { data: agencies, count, error } = await paginate(query, options);
+
+    if (error) throw toApiError(error);
+    return toPage(agencies, count, options);
+  },
+
+  async getAgency(id: string) {
+    const { data: agency, error } = await supabase
+      .from('agencies')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw toApiError(error);
+    return agency;
+  }
+};
+
+export type JobWithClient = Tables['jobs']['Row'] & {
+  client: Tables['clients']['Row'];
+};
+
+// from and to bound the day the job was created
+export type JobFilters = {
+  status?: JobStatus;
+  clientId?: string;
+  createdBy?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+};
+
+// An ilike pattern matching `term` anywhere, quoted for a PostgREST or()
+// filter so commas and brackets in a search stay part of the value
+const containsPattern = (term: string) =>
+  `"%${term.replace(/[\\%_]/g, '\\$&').replace(/[\\"]/g, '\\$&')}%"`;
+
 // Jobs API
 export const jobsAPI = {
   async createJob(data: Omit<Tables['jobs']['Insert'], 'id' | 'created_at' | 'updated_at'>) {
@@ -87,7 +279,7 @@ export const jobsAPI = {
 
     if (error) {
       console.error('Error creating job:', error);
-      throw error;
+      throw toApiError(error);
     }
     return job;
   },
@@ -100,69 +292,393 @@ export const jobsAPI = {
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return job;
   },
 
-  async listJobs(filters?: { status?: string; search?: string; userId?: string }) {
+  async deleteJob(id: string) {
+    const { error } = await supabase
+      .from('jobs')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw toApiError(error);
+  },
+
+  // Newest first; row level security decides which jobs the role can see
+  async listJobs(filters?: JobFilters & PageOptions): Promise<Page<JobWithClient>> {
     let query = supabase
       .from('jobs')
       .select(`
         *,
-        clients (
-          name
-        )
-      `)
+        client:clients (*)
+      `, { count: 'exact' })
       .order('created_at', { ascending: false });
 
     if (filters?.status) {
       query = query.eq('status', filters.status);
     }
-
+    if (filters?.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+    if (filters?.createdBy) {
+      query = query.eq('created_by', filters.createdBy);
+    }
     if (filters?.search) {
-      query = query.or(`title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
+      const pattern = containsPattern(filters.search);
+      query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`);
     }
-
-    if (filters?.userId) {
-      query = query.eq('created_by', filters.userId);
+    if (filters?.from) {
+      query = query.gte('created_at', filters.from);
+    }
+    if (filters?.to) {
+      query = query.lte('created_at', filters.to);
     }
 
-    const { data: jobs, error } = await query;
+    const { data: jobs, count, error } = await paginate(query, filters);
 
-    if (error) throw error;
-    return jobs;
+    if (error) throw toApiError(error);
+    return toPage(jobs, count, filters);
   },
 
-  async getJob(id: string) {
+  async getJob(id: string): Promise<JobWithClient> {
     const { data: job, error } = await supabase
+      .from('jobs')
+      .select(`
+        *,
+        client:clients (*)
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) throw toApiError(error);
+    return job;
+  },
+
+  // Marks one spot as live or aired and moves its job along. A job with
+  // several spots is only completed once every spot has aired.
+  async updateJobStatus(jobId: string, scheduleId: string, status: 'completed' | 'in_progress') {
+    await schedulesAPI.updateSchedule(scheduleId, {
+      status: status === 'completed' ? 'completed' : 'live',
+      updated_at: new Date().toISOString(),
+    });
+
+    let jobStatus: 'completed' | 'in_progress' = status;
+    if (status === 'completed') {
+      const { count, error } = await supabase
+        .from('schedules')
+        .select('id', { count: 'exact', head: true })
+        .eq('job_id', jobId)
+        .in('status', ['upcoming', 'live']);
+
+      if (error) throw toApiError(error);
+      if (count) jobStatus = 'in_progress';
+    }
+
+    await jobsAPI.updateJob(jobId, {
+      status: jobStatus,
+      updated_at: new Date().toISOString(),
+    });
+    return jobStatus;
+  },
+
+  async submitForApproval(id: string, submittedBy: string) {
+    return jobsAPI.updateJob(id, {
+      status: 'pending_approval',
+      submitted_at: new Date().toISOString(),
+      submitted_by: submittedBy,
+      updated_at: new Date().toISOString(),
+    });
+  },
+
+  // Oldest submissions first, so the queue is worked in order
+  async listPendingApprovals(options?: PageOptions) {
+    const query = supabase
       .from('jobs')
       .select(`
         *,
         clients (
           name
+        ),
+        submitter:users!jobs_submitted_by_fkey (
+          name
         )
+      `, { count: 'exact' })
+      .eq('status', 'pending_approval')
+      .order('submitted_at', { ascending: true });
+
+    const { data: jobs, count, error } = await paginate(query, options);
+
+    if (error) throw toApiError(error);
+    return toPage(jobs, count, options);
+  },
+
+  // Books the job's spots on the server; fails as a whole if any spot clashes
+  async approveJob(id: string) {
+    await requirePermission('jobs:approve', 'approve bookings');
+    const { data: spotCount, error } = await supabase.rpc('approve_job', { p_job_id: id });
+
+    if (error) throw toApiError(error);
+    return spotCount;
+  },
+
+  async rejectJob(id: string, reviewedBy: string, reason: string) {
+    await requirePermission('jobs:approve', 'reject bookings');
+    return jobsAPI.updateJob(id, {
+      status: 'rejected',
+      rejection_reason: reason,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: reviewedBy,
+      updated_at: new Date().toISOString(),
+    });
+  }
+};
+
+// Rate Cards API
+export const rateCardsAPI = {
+  async createRateCard(data: Omit<Tables['rate_cards']['Insert'], 'id' | 'created_at' | 'updated_at'>) {
+    const { data: rateCard, error } = await supabase
+      .from('rate_cards')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return rateCard;
+  },
+
+  async updateRateCard(id: string, data: Partial<Tables['rate_cards']['Update']>) {
+    const { data: rateCard, error } = await supabase
+      .from('rate_cards')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return rateCard;
+  },
+
+  async listRateCards() {
+    const { data: rateCards, error } = await supabase
+      .from('rate_cards')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw toApiError(error);
+    return rateCards;
+  },
+
+  async getRateCard(id: string): Promise<RateCardWithDetails> {
+    const { data: rateCard, error } = await supabase
+      .from('rate_cards')
+      .select(`
+        *,
+        rate_card_dayparts (*),
+        rate_card_entries (*)
       `)
       .eq('id', id)
       .single();
 
-    if (error) throw error;
-    return job;
+    if (error) throw toApiError(error);
+    return rateCard as RateCardWithDetails;
+  },
+
+  // The card in force on the given local day, newest first if several overlap
+  async getActiveRateCard(date: Date = new Date()): Promise<RateCardWithDetails | null> {
+    const day = format(date, 'yyyy-MM-dd');
+    const { data: rateCards, error } = await supabase
+      .from('rate_cards')
+      .select(`
+        *,
+        rate_card_dayparts (*),
+        rate_card_entries (*)
+      `)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false });
+
+    if (error) throw toApiError(error);
+
+    const covering = rateCards.filter(card =>
+      (!card.effective_from || card.effective_from <= day) &&
+      (!card.effective_to || card.effective_to >= day)
+    );
+    if (covering.length > 1) {
+      const { default_rate_card_id } = await rateCardsAPI.getSettings();
+      const preferred = covering.find(card => card.id === default_rate_card_id);
+      if (preferred) return preferred;
+    }
+    return covering[0] || null;
+  },
+
+  async getSettings() {
+    const { data: settings, error } = await supabase
+      .from('rate_card_settings')
+      .select('*')
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
+  async updateSettings(
+    organisationId: string,
+    data: Pick<Tables['rate_card_settings']['Update'], 'default_rate_card_id' | 'default_spot_length' | 'require_override_reason' | 'updated_by'>
+  ) {
+    const { data: settings, error } = await supabase
+      .from('rate_card_settings')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('organisation_id', organisationId)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
+  async saveDayparts(
+    rateCardId: string,
+    dayparts: Omit<Tables['rate_card_dayparts']['Insert'], 'id' | 'created_at' | 'rate_card_id'>[]
+  ) {
+    const { data, error } = await supabase
+      .from('rate_card_dayparts')
+      .upsert(
+        dayparts.map(daypart => ({ ...daypart, rate_card_id: rateCardId })),
+        { onConflict: 'rate_card_id,daypart' }
+      )
+      .select();
+
+    if (error) throw toApiError(error);
+    return data;
+  },
+
+  async saveEntries(
+    rateCardId: string,
+    entries: Omit<Tables['rate_card_entries']['Insert'], 'id' | 'created_at' | 'updated_at' | 'rate_card_id'>[]
+  ) {
+    const { data, error } = await supabase
+      .from('rate_card_entries')
+      .upsert(
+        entries.map(entry => ({
+          ...entry,
+          rate_card_id: rateCardId,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'rate_card_id,daypart,spot_length,weekday' }
+      )
+      .select();
+
+    if (error) throw toApiError(error);
+    return data;
+  },
+
+  async deleteEntry(id: string) {
+    const { error } = await supabase
+      .from('rate_card_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw toApiError(error);
   }
 };
 
+export type ScheduleWithJob = Tables['schedules']['Row'] & {
+  job: Pick<Tables['jobs']['Row'], 'id' | 'title' | 'status'> & {
+    client: Pick<Tables['clients']['Row'], 'id' | 'name'>;
+  };
+};
+
+// from and to bound the day the spot airs
+export type ScheduleFilters = {
+  status?: Tables['schedules']['Row']['status'];
+  jobId?: string;
+  from?: string;
+  to?: string;
+};
+
 // Schedules API
 export const schedulesAPI = {
-  async createSchedule(data: Omit<Tables['schedules']['Insert'], 'id' | 'created_at' | 'updated_at'>) {
+  // end_time may be omitted when the spot's duration is passed instead
+  async createSchedule(
+    data: Omit<Tables['schedules']['Insert'], 'id' | 'created_at' | 'updated_at' | 'end_time'> & { end_time?: string },
+    durationSeconds?: DurationSeconds | null
+  ) {
+    const endTime = data.end_time || (durationSeconds ? addDurationToTime(data.start_time, durationSeconds) : null);
+    if (!endTime) {
+      throw new ApiError('A schedule needs either an end time or the spot duration', 'invalid');
+    }
+
     const { data: schedule, error } = await supabase
       .from('schedules')
-      .insert(data)
+      .insert({ ...data, end_time: endTime })
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return schedule;
   },
 
+  // Server-side clash check for a prospective booking. Returns the booked
+  // schedules that overlap a slot or push its clock hour over the limit.
+  async checkAvailability(
+    slots: { scheduled_date: string; start_time: string; end_time: string }[],
+    options?: { excludeJobId?: string; excludeScheduleId?: string }
+  ): Promise<AirtimeConflict[]> {
+    if (!slots.length) return [];
+
+    const { data: conflicts, error } = await supabase.rpc('check_airtime_availability', {
+      p_slots: slots,
+      p_exclude_job_id: options?.excludeJobId,
+      p_exclude_schedule_id: options?.excludeScheduleId,
+    });
+
+    if (error) throw toApiError(error);
+    return conflicts || [];
+  },
+
+  async findFreeSlots(
+    scheduledDate: string,
+    startTime: string,
+    durationSeconds: DurationSeconds,
+    options?: { excludeJobId?: string; limit?: number }
+  ): Promise<FreeAirtimeSlot[]> {
+    const { data: slots, error } = await supabase.rpc('find_free_airtime_slots', {
+      p_scheduled_date: scheduledDate,
+      p_start_time: startTime,
+      p_duration_seconds: durationSeconds,
+      p_exclude_job_id: options?.excludeJobId,
+      p_limit: options?.limit ?? 3,
+    });
+
+    if (error) throw toApiError(error);
+    return slots || [];
+  },
+
+  async getAirtimeSettings() {
+    const { data: settings, error } = await supabase
+      .from('airtime_settings')
+      .select('*')
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
+  async updateAirtimeSettings(
+    organisationId: string,
+    data: Pick<Tables['airtime_settings']['Update'], 'max_commercial_minutes_per_hour' | 'updated_by'>
+  ) {
+    const { data: settings, error } = await supabase
+      .from('airtime_settings')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('organisation_id', organisationId)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
   async updateSchedule(id: string, data: Partial<Tables['schedules']['Update']>) {
     const { data: schedule, error } = await supabase
       .from('schedules')
@@ -171,70 +687,471 @@ export const schedulesAPI = {
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return schedule;
   },
 
-  async listSchedules(date?: string) {
+  // In airing order
+  async listSchedules(filters?: ScheduleFilters & PageOptions): Promise<Page<ScheduleWithJob>> {
     let query = supabase
       .from('schedules')
       .select(`
         *,
-        jobs (
+        job:jobs (
+          id,
           title,
-          clients (
+          status,
+          client:clients (
+            id,
             name
           )
         )
-      `)
+      `, { count: 'exact' })
       .order('scheduled_date')
       .order('start_time');
 
-    if (date) {
-      query = query.eq('scheduled_date', date);
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters?.jobId) {
+      query = query.eq('job_id', filters.jobId);
+    }
+    if (filters?.from) {
+      query = query.gte('scheduled_date', filters.from);
+    }
+    if (filters?.to) {
+      query = query.lte('scheduled_date', filters.to);
+    }
+
+    const { data: schedules, count, error } = await paginate(query, filters);
+
+    if (error) throw toApiError(error);
+    return toPage(schedules, count, filters);
+  },
+
+  // Billable spots for a job: every slot that wasn't cancelled
+  async countSpots(jobId: string) {
+    const { count, error } = await supabase
+      .from('schedules')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .neq('status', 'cancelled');
+
+    if (error) throw toApiError(error);
+    return count ?? 0;
+  }
+};
+
+// Recurrence Rules API
+export const recurrenceRulesAPI = {
+  // Jobs waiting for approval keep the rule without schedules; approve_job()
+  // books the spots later
+  async createRule(
+    data: Omit<Tables['job_recurrence_rules']['Insert'], 'id' | 'created_at' | 'updated_at'>,
+    durationSeconds: DurationSeconds | null,
+    options?: { generateSchedules?: boolean }
+  ) {
+    const { data: rule, error } = await supabase
+      .from('job_recurrence_rules')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+
+    const schedules = options?.generateSchedules === false
+      ? []
+      : await recurrenceRulesAPI.regenerateSchedules(rule, durationSeconds);
+    return { rule, schedules };
+  },
+
+  // Editing a rule rewrites its future occurrences; anything already aired stays
+  async updateRule(
+    id: string,
+    data: Partial<Tables['job_recurrence_rules']['Update']>,
+    durationSeconds: DurationSeconds | null,
+    options?: { generateSchedules?: boolean }
+  ) {
+    const { data: rule, error } = await supabase
+      .from('job_recurrence_rules')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+
+    const schedules = options?.generateSchedules === false
+      ? []
+      : await recurrenceRulesAPI.regenerateSchedules(rule, durationSeconds);
+    return { rule, schedules };
+  },
+
+  async getRuleForJob(jobId: string) {
+    const { data: rule, error } = await supabase
+      .from('job_recurrence_rules')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw toApiError(error);
+    return rule;
+  },
+
+  async deleteRule(id: string) {
+    await recurrenceRulesAPI.clearFutureSchedules(id);
+
+    const { error } = await supabase
+      .from('job_recurrence_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw toApiError(error);
+  },
+
+  async clearFutureSchedules(ruleId: string, from: string = format(new Date(), 'yyyy-MM-dd')) {
+    const { error } = await supabase
+      .from('schedules')
+      .delete()
+      .eq('recurrence_rule_id', ruleId)
+      .eq('status', 'upcoming')
+      .gte('scheduled_date', from);
+
+    if (error) throw toApiError(error);
+  },
+
+  async regenerateSchedules(
+    rule: Tables['job_recurrence_rules']['Row'],
+    durationSeconds: DurationSeconds | null,
+    from: string = format(new Date(), 'yyyy-MM-dd')
+  ) {
+    if (!durationSeconds) {
+      throw new ApiError('Recurring schedules need the spot duration', 'invalid');
     }
 
-    const { data: schedules, error } = await query;
+    const occurrences = expandRecurrencePattern(
+      {
+        weekdays: rule.weekdays,
+        air_times: rule.air_times,
+        start_date: rule.start_date,
+        end_date: rule.end_date,
+        excluded_dates: rule.excluded_dates,
+      },
+      { from }
+    );
+
+    // The old spots are only removed if the new ones can all be booked
+    const { data: schedules, error } = await supabase.rpc('regenerate_recurrence_schedules', {
+      p_rule_id: rule.id,
+      p_from: from,
+      p_schedules: occurrences.map(occurrence => ({
+        scheduled_date: occurrence.scheduled_date,
+        start_time: occurrence.start_time,
+        end_time: addDurationToTime(occurrence.start_time, durationSeconds),
+      })),
+    });
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return schedules;
   }
 };
 
-// Invoices API
-export const invoicesAPI = {
-  async createInvoice(
-    data: Omit<Tables['invoices']['Insert'], 'id' | 'created_at' | 'updated_at'>,
-    items: Omit<Tables['invoice_items']['Insert'], 'id' | 'created_at' | 'invoice_id'>[]
+// Organisation API
+export const organisationAPI = {
+  async getSettings() {
+    const { data: settings, error } = await supabase
+      .from('organisation_settings')
+      .select('*')
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
+  async updateSettings(
+    organisationId: string,
+    data: Omit<Tables['organisation_settings']['Update'], 'organisation_id' | 'updated_at'>
   ) {
-    const { data: invoice, error } = await supabase
-      .from('invoices')
-      .insert({
-        ...data,
-        created_by: data.created_by
-      })
+    await requirePermission('settings:manage', 'change station settings');
+    const { data: settings, error } = await supabase
+      .from('organisation_settings')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('organisation_id', organisationId)
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
+    return settings;
+  }
+};
 
-    // Create invoice items
-    const { error: itemsError } = await supabase
-      .from('invoice_items')
-      .insert(
-        items.map(item => ({ 
-          ...item, 
-          invoice_id: invoice.id,
-          created_by: data.created_by
-        }))
-      );
+export type StationWithOrganisation = Tables['stations']['Row'] & {
+  organisation: Pick<Tables['organisations']['Row'], 'id' | 'name'>;
+};
+
+// Stations API
+export const stationsAPI = {
+  // Stations of every organisation the user belongs to, for the switcher
+  async listStations() {
+    const { data: stations, error } = await supabase
+      .from('stations')
+      .select(`
+        *,
+        organisation:organisations (
+          id,
+          name
+        )
+      `)
+      .order('name');
+
+    if (error) throw toApiError(error);
+    return stations;
+  },
+
+  // Row level security follows the current station, so callers reload afterwards
+  async switchStation(userId: string, stationId: string) {
+    const { error } = await supabase
+      .from('users')
+      .update({ current_station_id: stationId })
+      .eq('id', userId);
+
+    if (error) throw toApiError(error);
+  },
+
+  async createStation(data: Pick<Tables['stations']['Insert'], 'organisation_id' | 'name' | 'frequency'>) {
+    await requirePermission('settings:manage', 'add stations');
+    const { data: station, error } = await supabase
+      .from('stations')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return station;
+  },
+
+  async updateStation(id: string, data: Pick<Tables['stations']['Update'], 'name' | 'frequency'>) {
+    await requirePermission('settings:manage', 'edit stations');
+    const { data: station, error } = await supabase
+      .from('stations')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return station;
+  }
+};
+
+// Tax Rules API
+export const taxRulesAPI = {
+  async listTaxRules(options?: { activeOnly?: boolean }) {
+    let query = supabase
+      .from('tax_rules')
+      .select('*')
+      .order('kind')
+      .order('rate');
+
+    if (options?.activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data: rules, error } = await query;
+
+    if (error) throw toApiError(error);
+    return rules;
+  },
+
+  // Only one rule per kind can be the default, so the old one is cleared first
+  async setDefaultTaxRule(kind: Tables['tax_rules']['Row']['kind'], code: string | null) {
+    const { error: clearError } = await supabase
+      .from('tax_rules')
+      .update({ is_default: false, updated_at: new Date().toISOString() })
+      .eq('kind', kind)
+      .eq('is_default', true);
+
+    if (clearError) throw toApiError(clearError);
+    if (!code) return;
+
+    const { error } = await supabase
+      .from('tax_rules')
+      .update({ is_default: true, updated_at: new Date().toISOString() })
+      .eq('code', code)
+      .eq('kind', kind);
+
+    if (error) throw toApiError(error);
+  },
+
+  // New rules go to the current organisation
+  async saveTaxRule(data: Omit<Tables['tax_rules']['Insert'], 'organisation_id' | 'created_at' | 'updated_at'>) {
+    const { data: rule, error } = await supabase
+      .from('tax_rules')
+      .upsert({ ...data, updated_at: new Date().toISOString() }, { onConflict: 'organisation_id,code' })
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return rule;
+  }
+};
+
+// Callers give quantity, rate and the discount, commission and tax codes;
+// the database prices the line and totals the invoice
+export type InvoiceItemInput = Omit<
+  Tables['invoice_items']['Insert'],
+  | 'id' | 'created_at' | 'invoice_id' | 'amount' | 'gross_amount' | 'discount_amount' | 'commission_amount'
+  | 'tax_rate' | 'tax_amount' | 'wht_rate' | 'wht_amount'
+> & {
+  // Spots the line bills; they are linked to it in the same transaction
+  schedule_ids?: string[];
+};
+
+// The columns create_invoice() reads
+type InvoiceInput = Pick<
+  Tables['invoices']['Insert'],
+  | 'client_id' | 'agency_id' | 'status' | 'due_date' | 'notes' | 'discount_rate'
+  | 'billing_period_start' | 'billing_period_end'
+>;
+
+// from and to bound the day the invoice was raised
+export type InvoiceFilters = {
+  status?: Tables['invoices']['Row']['status'];
+  clientId?: string;
+  from?: string;
+  to?: string;
+};
 
-    if (itemsError) throw itemsError;
+// Everything the invoice pages and the PDF need
+const invoiceDocumentSelect = `
+  *,
+  client:clients (*),
+  agency:agencies (*),
+  invoice_items (
+    *,
+    job:jobs (*)
+  )
+` as const;
 
+// Invoices API
+export const invoicesAPI = {
+  // The invoice and its lines are saved together or not at all;
+  // invoice_number and the totals are filled in by the database
+  async createInvoice(data: InvoiceInput, items: InvoiceItemInput[]) {
+    await requirePermission('invoices:manage', 'create invoices');
+
+    const { data: invoice, error } = await supabase.rpc('create_invoice', {
+      p_invoice: data,
+      p_items: items,
+    });
+
+    if (error) throw toApiError(error);
     return invoice;
   },
 
-  async updateInvoice(id: string, data: Partial<Tables['invoices']['Update']>) {
+  // Every spot for a client's jobs in the period that hasn't been billed yet
+  async listSchedulesForBilling(clientId: string, periodStart: string, periodEnd: string): Promise<BillableSchedule[]> {
+    const { data: schedules, error } = await supabase
+      .from('schedules')
+      .select(`
+        *,
+        job:jobs!inner (
+          id,
+          title,
+          rate,
+          client_id,
+          duration_seconds,
+          discount_rate,
+          commission_rate
+        )
+      `)
+      .eq('job.client_id', clientId)
+      .gte('scheduled_date', periodStart)
+      .lte('scheduled_date', periodEnd)
+      .is('invoice_item_id', null)
+      .order('scheduled_date')
+      .order('start_time');
+
+    if (error) throw toApiError(error);
+    return schedules;
+  },
+
+  // Proof-of-performance invoice: bills the completed spots in the period
+  // and links them to their invoice line
+  async createInvoiceFromSchedules(
+    data: Omit<InvoiceInput, 'billing_period_start' | 'billing_period_end'> & {
+      billing_period_start: string;
+      billing_period_end: string;
+    },
+    taxCodes: Pick<InvoiceItemInput, 'tax_code' | 'wht_code'> = {}
+  ) {
+    const schedules = await invoicesAPI.listSchedulesForBilling(
+      data.client_id,
+      data.billing_period_start,
+      data.billing_period_end
+    );
+    const summary = summariseAiredSpots(schedules);
+    if (!summary.lines.length) {
+      throw new ApiError('No aired spots to invoice for this period', 'invalid');
+    }
+
+    const notes = [data.notes, describeExcludedSpots(summary.excluded)].filter(Boolean).join('\n\n');
+    return invoicesAPI.createInvoice(
+      { ...data, notes: notes || null },
+      summary.lines.map(({ job_id, description, quantity, rate, discount_rate, commission_rate, schedule_ids }) => ({
+        job_id,
+        description,
+        quantity,
+        rate,
+        discount_rate,
+        commission_rate,
+        ...taxCodes,
+        schedule_ids,
+      }))
+    );
+  },
+
+  // The number the next invoice will get; it is only claimed when an
+  // invoice is issued
+  async previewNextInvoiceNumber() {
+    const { data: invoiceNumber, error } = await supabase.rpc('preview_next_invoice_number');
+
+    if (error) throw toApiError(error);
+    return invoiceNumber;
+  },
+
+  async getNumberingSettings() {
+    const { data: settings, error } = await supabase
+      .from('invoice_number_settings')
+      .select('*')
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
+  async updateNumberingSettings(
+    organisationId: string,
+    data: Pick<
+      Tables['invoice_number_settings']['Update'],
+      'prefix' | 'credit_note_prefix' | 'pad_length' | 'reset_yearly' | 'updated_by'
+    >
+  ) {
+    const { data: settings, error } = await supabase
+      .from('invoice_number_settings')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('organisation_id', organisationId)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return settings;
+  },
+
+  async updateInvoice(id: string, data: Partial<Omit<Tables['invoices']['Update'], 'invoice_number'>>) {
+    await requirePermission('invoices:manage', 'edit invoices');
     const { data: invoice, error } = await supabase
       .from('invoices')
       .update(data)
@@ -242,60 +1159,352 @@ export const invoicesAPI = {
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return invoice;
   },
 
-  async listInvoices(filters?: { status?: string }) {
+  // Claims the invoice number; the lines can't be changed afterwards
+  async issueInvoice(id: string) {
+    return invoicesAPI.updateInvoice(id, { status: 'pending' });
+  },
+
+  // Issued invoices are kept and credited instead
+  async deleteDraftInvoice(id: string) {
+    await requirePermission('invoices:manage', 'delete invoices');
+    const { error } = await supabase
+      .from('invoices')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'draft');
+
+    if (error) throw toApiError(error);
+  },
+
+  // Lines of a draft; the database prices each line and re-totals the invoice
+  async addInvoiceItem(invoiceId: string, item: Omit<InvoiceItemInput, 'schedule_ids'>) {
+    await requirePermission('invoices:manage', 'edit invoices');
+    const { data: invoiceItem, error } = await supabase
+      .from('invoice_items')
+      .insert({ ...item, invoice_id: invoiceId })
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return invoiceItem;
+  },
+
+  async updateInvoiceItem(id: string, item: Partial<Omit<InvoiceItemInput, 'schedule_ids'>>) {
+    await requirePermission('invoices:manage', 'edit invoices');
+    const { data: invoiceItem, error } = await supabase
+      .from('invoice_items')
+      .update(item)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return invoiceItem;
+  },
+
+  // Spots billed by the line become billable again
+  async deleteInvoiceItem(id: string) {
+    await requirePermission('invoices:manage', 'edit invoices');
+    const { error } = await supabase
+      .from('invoice_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw toApiError(error);
+  },
+
+  // Newest first
+  async listInvoices(filters?: InvoiceFilters & PageOptions): Promise<Page<InvoiceDocument>> {
     let query = supabase
       .from('invoices')
-      .select(`
-        *,
-        clients (
-          name
-        ),
-        invoice_items (
-          *,
-          jobs (
-            title
-          )
-        )
-      `)
+      .select(invoiceDocumentSelect, { count: 'exact' })
       .order('created_at', { ascending: false });
 
     if (filters?.status) {
       query = query.eq('status', filters.status);
     }
+    if (filters?.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+    if (filters?.from) {
+      query = query.gte('created_at', filters.from);
+    }
+    if (filters?.to) {
+      query = query.lte('created_at', filters.to);
+    }
 
-    const { data: invoices, error } = await query;
+    const { data: invoices, count, error } = await paginate(query, filters);
 
-    if (error) throw error;
-    return invoices;
+    if (error) throw toApiError(error);
+    return toPage(invoices, count, filters);
   },
 
-  async getInvoice(id: string) {
+  async getInvoice(id: string): Promise<InvoiceDocument> {
     const { data: invoice, error } = await supabase
       .from('invoices')
-      .select(`
-        *,
-        clients (
-          name,
-          email,
-          address
-        ),
-        invoice_items (
-          *,
-          jobs (
-            title,
-            duration,
-            air_time
-          )
-        )
-      `)
+      .select(invoiceDocumentSelect)
       .eq('id', id)
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return invoice;
   }
 };
+
+// Credit notes API
+export type CreditNoteDocument = Tables['credit_notes']['Row'] & {
+  invoice: Tables['invoices']['Row'] & {
+    client: Tables['clients']['Row'];
+    agency: Tables['agencies']['Row'] | null;
+  };
+  credit_note_items: (Tables['credit_note_items']['Row'] & { invoice_item: Tables['invoice_items']['Row'] })[];
+};
+
+// amount is net of VAT; the invoice line's tax rates are applied to it
+export type CreditNoteItemInput = {
+  invoice_item_id: string;
+  amount: number;
+  description?: string;
+};
+
+export type CreditNoteFilters = {
+  invoiceId?: string;
+};
+
+const creditNoteDocumentSelect = `
+  *,
+  invoice:invoices (
+    *,
+    client:clients (*),
+    agency:agencies (*)
+  ),
+  credit_note_items (
+    *,
+    invoice_item:invoice_items (*)
+  )
+` as const;
+
+export const creditNotesAPI = {
+  // The number, taxes and totals are filled in by the database, which also
+  // checks the credit against the lines and the invoice's balance
+  async createCreditNote(invoiceId: string, reason: string, items: CreditNoteItemInput[]) {
+    await requirePermission('invoices:manage', 'raise credit notes');
+    if (!reason.trim()) {
+      throw new ApiError('Give a reason for the credit note', 'invalid');
+    }
+
+    const { data: creditNote, error } = await supabase.rpc('create_credit_note', {
+      p_invoice_id: invoiceId,
+      p_reason: reason,
+      p_items: items,
+    });
+
+    if (error) throw toApiError(error);
+    return creditNote;
+  },
+
+  // Newest first
+  async listCreditNotes(filters?: CreditNoteFilters & PageOptions): Promise<Page<CreditNoteDocument>> {
+    let query = supabase
+      .from('credit_notes')
+      .select(creditNoteDocumentSelect, { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (filters?.invoiceId) {
+      query = query.eq('invoice_id', filters.invoiceId);
+    }
+
+    const { data: creditNotes, count, error } = await paginate(query, filters);
+
+    if (error) throw toApiError(error);
+    return toPage(creditNotes, count, filters);
+  },
+
+  async getCreditNote(id: string): Promise<CreditNoteDocument> {
+    const { data: creditNote, error } = await supabase
+      .from('credit_notes')
+      .select(creditNoteDocumentSelect)
+      .eq('id', id)
+      .single();
+
+    if (error) throw toApiError(error);
+    return creditNote;
+  }
+};
+
+// Booking Requests API
+export type BookingRequest = Tables['booking_requests']['Row'];
+export type BookingRequestWithClient = BookingRequest & {
+  client: Pick<Tables['clients']['Row'], 'id' | 'name' | 'agency_id'>;
+};
+
+export type BookingRequestFilters = {
+  status?: BookingRequest['status'];
+  clientId?: string;
+};
+
+export const bookingRequestsAPI = {
+  async createRequest(
+    data: Omit<Tables['booking_requests']['Insert'], 'id' | 'status' | 'job_id' | 'review_note' | 'reviewed_at' | 'reviewed_by' | 'created_at' | 'updated_at'>
+  ) {
+    const { data: request, error } = await supabase
+      .from('booking_requests')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return request;
+  },
+
+  // Advertisers only ever see their own client's requests
+  async listRequests(filters?: BookingRequestFilters & PageOptions): Promise<Page<BookingRequestWithClient>> {
+    let query = supabase
+      .from('booking_requests')
+      .select('*, client:clients (id, name, agency_id)', { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters?.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+
+    const { data: requests, count, error } = await paginate(query, filters);
+
+    if (error) throw toApiError(error);
+    return toPage(requests, count, filters);
+  },
+
+  async getRequest(id: string): Promise<BookingRequestWithClient> {
+    const { data: request, error } = await supabase
+      .from('booking_requests')
+      .select('*, client:clients (id, name, agency_id)')
+      .eq('id', id)
+      .single();
+
+    if (error) throw toApiError(error);
+    return request;
+  },
+
+  async approveRequest(id: string, jobId: string, reviewedBy: string) {
+    const { data: request, error } = await supabase
+      .from('booking_requests')
+      .update({
+        status: 'approved',
+        job_id: jobId,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: reviewedBy,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return request;
+  },
+
+  // A job drafted from the request; the request is approved with the job
+  async attachJob(id: string, jobId: string) {
+    const { data: request, error } = await supabase
+      .from('booking_requests')
+      .update({ job_id: jobId, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return request;
+  },
+
+  async rejectRequest(id: string, reviewedBy: string, note: string) {
+    const { data: request, error } = await supabase
+      .from('booking_requests')
+      .update({
+        status: 'rejected',
+        review_note: note,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: reviewedBy,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return request;
+  }
+};
+
+// Payments API
+export type PaymentMethod = Tables['payments']['Row']['method'];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank Transfer',
+  cash: 'Cash',
+  pos: 'POS',
+  cheque: 'Cheque',
+};
+
+export type PaymentFilters = {
+  invoiceId?: string;
+};
+
+export const paymentsAPI = {
+  // The invoice's amount_paid and status are updated by the database
+  async recordPayment(data: Omit<Tables['payments']['Insert'], 'id' | 'created_at' | 'reversed_at' | 'reversed_by' | 'reversal_reason'>) {
+    await requirePermission('invoices:manage', 'record payments');
+    const { data: payment, error } = await supabase
+      .from('payments')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return payment;
+  },
+
+  async reversePayment(id: string, reversedBy: string, reason: string) {
+    await requirePermission('invoices:manage', 'reverse payments');
+    const { data: payment, error } = await supabase
+      .from('payments')
+      .update({
+        reversed_at: new Date().toISOString(),
+        reversed_by: reversedBy,
+        reversal_reason: reason,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return payment;
+  },
+
+  // Newest first
+  async listPayments(filters?: PaymentFilters & PageOptions) {
+    let query = supabase
+      .from('payments')
+      .select('*', { count: 'exact' })
+      .order('payment_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (filters?.invoiceId) {
+      query = query.eq('invoice_id', filters.invoiceId);
+    }
+
+    const { data: payments, count, error } = await paginate(query, filters);
+
+    if (error) throw toApiError(error);
+    return toPage(payments, count, filters);
+  }
+};
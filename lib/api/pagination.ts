@@ -0,0 +1,38 @@
+// Lists of bookings, invoices and the other records that grow over time
+// take these options and return a Page. Settings lookups such as tax rules,
+// rate cards and stations stay small and come back as plain arrays.
+export type PageOptions = {
+  // 1-based; without it every matching row comes back as one page
+  page?: number;
+  pageSize?: number;
+};
+
+export type Page<T> = {
+  rows: T[];
+  // Matching rows across all pages
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export const defaultPageSize = 25;
+
+export function paginate<Q extends { range(from: number, to: number): Q }>(query: Q, options?: PageOptions): Q {
+  if (!options?.page) return query;
+  const pageSize = options.pageSize ?? defaultPageSize;
+  const from = (options.page - 1) * pageSize;
+  return query.range(from, from + pageSize - 1);
+}
+
+// Queries passed to paginate() select with { count: 'exact' } for the total
+export function toPage<T>(rows: T[], count: number | null, options?: PageOptions): Page<T> {
+  return {
+    rows,
+    total: count ?? rows.length,
+    page: options?.page ?? 1,
+    pageSize: options?.page ? options.pageSize ?? defaultPageSize : rows.length,
+  };
+}
+
+export const pageCount = ({ total, pageSize }: Pick<Page<unknown>, 'total' | 'pageSize'>) =>
+  pageSize ? Math.max(1, Math.ceil(total / pageSize)) : 1;
@@ -1,7 +1,34 @@
 import { supabase } from '../supabase';
 import type { Database } from '../database.types';
+import { can } from '../utils/permissions';
+import { ApiError, toApiError } from './errors';
+import { paginate, toPage } from './pagination';
+import type { PageOptions } from './pagination';
+import type { Permission, Role } from '../utils/permissions';
 
 type User = Database['public']['Tables']['users']['Row'];
+type NotificationPreferences = Database['public']['Tables']['notification_preferences']['Row'];
+
+export type UserFilters = {
+  role?: Role;
+};
+
+export const defaultNotificationPreferences: Omit<NotificationPreferences, 'user_id' | 'updated_at'> = {
+  invoice_overdue: true,
+  payment_received: true,
+  booking_requests: true,
+  schedule_reminders: false,
+};
+
+// Checked before writes so a missing permission gets a clear message;
+// row level security still has the final say
+export async function requirePermission(permission: Permission, action: string) {
+  const user = await userAPI.getCurrentUser();
+  if (!can(user?.role, permission)) {
+    throw new ApiError(`You do not have permission to ${action}`, 'forbidden');
+  }
+  return user!;
+}
 
 export const userAPI = {
   async getCurrentUser(): Promise<User | null> {
@@ -17,7 +44,8 @@ export const userAPI = {
     return data;
   },
 
-  async updateUser(id: string, data: Partial<User>) {
+  // Roles are managed separately; users only edit their own details here
+  async updateUser(id: string, data: Partial<Pick<User, 'name' | 'email'>>) {
     const { data: user, error } = await supabase
       .from('users')
       .update(data)
@@ -25,18 +53,108 @@ export const userAPI = {
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return user;
   },
 
-  async listUsers() {
-    const { data: users, error } = await supabase
-      .from('users')
+  // Supabase emails a confirmation link; the profile email follows once it is confirmed
+  async changeEmail(email: string) {
+    const { data, error } = await supabase.auth.updateUser({ email });
+
+    if (error) throw toApiError(error);
+    return data.user;
+  },
+
+  // Re-checks the current password so an unattended session can't change it
+  async changePassword(email: string, currentPassword: string, newPassword: string) {
+    const { error: signInError } = await supabase.auth.signInWithPassword({
+      email,
+      password: currentPassword,
+    });
+    if (signInError) throw new ApiError('Current password is incorrect', 'invalid');
+
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error) throw toApiError(error);
+  },
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const { data: preferences, error } = await supabase
+      .from('notification_preferences')
       .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw toApiError(error);
+    return preferences ?? {
+      user_id: userId,
+      ...defaultNotificationPreferences,
+      updated_at: new Date().toISOString(),
+    };
+  },
+
+  async saveNotificationPreferences(
+    userId: string,
+    data: Omit<NotificationPreferences, 'user_id' | 'updated_at'>
+  ) {
+    const { data: preferences, error } = await supabase
+      .from('notification_preferences')
+      .upsert({ ...data, user_id: userId, updated_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return preferences;
+  },
+
+  async listUsers(filters?: UserFilters & PageOptions) {
+    let query = supabase
+      .from('users')
+      .select('*', { count: 'exact' })
       .order('name');
 
-    if (error) throw error;
-    return users;
+    if (filters?.role) {
+      query = query.eq('role', filters.role);
+    }
+
+    const { data: users, count, error } = await paginate(query, filters);
+
+    if (error) throw toApiError(error);
+    return toPage(users, count, filters);
+  },
+
+  // Sends an invite email; the profile is created with the chosen role
+  async inviteUser(data: { email: string; name: string; role: Role }) {
+    await requirePermission('users:manage', 'invite users');
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch('/api/admin/users', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session?.access_token ?? ''}`,
+      },
+      body: JSON.stringify(data),
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new ApiError(body.error || 'Failed to invite user', response.status === 403 ? 'forbidden' : 'invalid');
+    }
+    return body.data as User;
+  },
+
+  // The database refuses to demote the last admin
+  async updateRole(id: string, role: Role) {
+    await requirePermission('users:manage', 'change roles');
+    const { data: user, error } = await supabase
+      .from('users')
+      .update({ role })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw toApiError(error);
+    return user;
   },
 
   async getUser(id: string) {
@@ -46,7 +164,7 @@ export const userAPI = {
       .eq('id', id)
       .single();
 
-    if (error) throw error;
+    if (error) throw toApiError(error);
     return user;
   }
 };
@@ -0,0 +1,2194 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      agencies: {
+        Row: {
+          address: string | null
+          commission_rate: number
+          contact_person: string | null
+          created_at: string
+          created_by: string
+          email: string | null
+          id: string
+          name: string
+          organisation_id: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          commission_rate?: number
+          contact_person?: string | null
+          created_at?: string
+          created_by: string
+          email?: string | null
+          id?: string
+          name: string
+          organisation_id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          commission_rate?: number
+          contact_person?: string | null
+          created_at?: string
+          created_by?: string
+          email?: string | null
+          id?: string
+          name?: string
+          organisation_id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agencies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agencies_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      airtime_settings: {
+        Row: {
+          max_commercial_minutes_per_hour: number
+          organisation_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          max_commercial_minutes_per_hour?: number
+          organisation_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          max_commercial_minutes_per_hour?: number
+          organisation_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "airtime_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "airtime_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_requests: {
+        Row: {
+          budget: number | null
+          client_id: string
+          created_at: string
+          created_by: string
+          duration_seconds: number
+          end_date: string
+          id: string
+          job_id: string | null
+          notes: string | null
+          preferred_air_times: string[]
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          spots_per_day: number
+          start_date: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          budget?: number | null
+          client_id: string
+          created_at?: string
+          created_by: string
+          duration_seconds: number
+          end_date: string
+          id?: string
+          job_id?: string | null
+          notes?: string | null
+          preferred_air_times?: string[]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          spots_per_day?: number
+          start_date: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          budget?: number | null
+          client_id?: string
+          created_at?: string
+          created_by?: string
+          duration_seconds?: number
+          end_date?: string
+          id?: string
+          job_id?: string | null
+          notes?: string | null
+          preferred_air_times?: string[]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          spots_per_day?: number
+          start_date?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_requests_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_requests_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_requests_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          address: string | null
+          agency_id: string | null
+          contact_person: string | null
+          created_at: string
+          created_by: string
+          email: string | null
+          id: string
+          name: string
+          organisation_id: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          agency_id?: string | null
+          contact_person?: string | null
+          created_at?: string
+          created_by: string
+          email?: string | null
+          id?: string
+          name: string
+          organisation_id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          agency_id?: string | null
+          contact_person?: string | null
+          created_at?: string
+          created_by?: string
+          email?: string | null
+          id?: string
+          name?: string
+          organisation_id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clients_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clients_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_items: {
+        Row: {
+          amount: number
+          created_at: string
+          credit_note_id: string
+          description: string
+          id: string
+          invoice_item_id: string
+          tax_amount: number
+          tax_rate: number
+          wht_amount: number
+          wht_rate: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          credit_note_id: string
+          description: string
+          id?: string
+          invoice_item_id: string
+          tax_amount?: number
+          tax_rate?: number
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          credit_note_id?: string
+          description?: string
+          id?: string
+          invoice_item_id?: string
+          tax_amount?: number
+          tax_rate?: number
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_number_counters: {
+        Row: {
+          last_number: number
+          organisation_id: string
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          organisation_id: string
+          year: number
+        }
+        Update: {
+          last_number?: number
+          organisation_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_number_counters_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          created_at: string
+          created_by: string
+          credit_note_number: string
+          id: string
+          invoice_id: string
+          organisation_id: string
+          reason: string
+          subtotal: number
+          tax_total: number
+          total_amount: number
+          wht_total: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          credit_note_number: string
+          id?: string
+          invoice_id: string
+          organisation_id: string
+          reason: string
+          subtotal?: number
+          tax_total?: number
+          total_amount?: number
+          wht_total?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          credit_note_number?: string
+          id?: string
+          invoice_id?: string
+          organisation_id?: string
+          reason?: string
+          subtotal?: number
+          tax_total?: number
+          total_amount?: number
+          wht_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          amount: number
+          commission_amount: number
+          commission_rate: number
+          created_at: string
+          description: string
+          discount_amount: number
+          discount_rate: number
+          gross_amount: number
+          id: string
+          invoice_id: string
+          job_id: string
+          quantity: number
+          rate: number
+          tax_amount: number
+          tax_code: string | null
+          tax_rate: number
+          wht_amount: number
+          wht_code: string | null
+          wht_rate: number
+        }
+        Insert: {
+          amount?: number
+          commission_amount?: number
+          commission_rate?: number
+          created_at?: string
+          description: string
+          discount_amount?: number
+          discount_rate?: number
+          gross_amount?: number
+          id?: string
+          invoice_id: string
+          job_id: string
+          quantity: number
+          rate: number
+          tax_amount?: number
+          tax_code?: string | null
+          tax_rate?: number
+          wht_amount?: number
+          wht_code?: string | null
+          wht_rate?: number
+        }
+        Update: {
+          amount?: number
+          commission_amount?: number
+          commission_rate?: number
+          created_at?: string
+          description?: string
+          discount_amount?: number
+          discount_rate?: number
+          gross_amount?: number
+          id?: string
+          invoice_id?: string
+          job_id?: string
+          quantity?: number
+          rate?: number
+          tax_amount?: number
+          tax_code?: string | null
+          tax_rate?: number
+          wht_amount?: number
+          wht_code?: string | null
+          wht_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_counters: {
+        Row: {
+          last_number: number
+          organisation_id: string
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          organisation_id: string
+          year: number
+        }
+        Update: {
+          last_number?: number
+          organisation_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_counters_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_settings: {
+        Row: {
+          credit_note_prefix: string
+          organisation_id: string
+          pad_length: number
+          prefix: string
+          reset_yearly: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          credit_note_prefix?: string
+          organisation_id: string
+          pad_length?: number
+          prefix?: string
+          reset_yearly?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          credit_note_prefix?: string
+          organisation_id?: string
+          pad_length?: number
+          prefix?: string
+          reset_yearly?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_number_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_status_events: {
+        Row: {
+          created_at: string
+          from_status: string
+          id: string
+          invoice_id: string
+          source: string
+          to_status: string
+        }
+        Insert: {
+          created_at?: string
+          from_status: string
+          id?: string
+          invoice_id: string
+          source: string
+          to_status: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string
+          id?: string
+          invoice_id?: string
+          source?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_status_events_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          agency_id: string | null
+          amount_paid: number
+          billing_period_end: string | null
+          billing_period_start: string | null
+          client_id: string
+          commission_total: number
+          created_at: string
+          created_by: string
+          credited_total: number
+          discount_rate: number
+          discount_total: number
+          due_date: string
+          gross_total: number
+          id: string
+          invoice_number: string | null
+          issued_at: string | null
+          notes: string | null
+          organisation_id: string
+          paid_date: string | null
+          status: string
+          subtotal: number
+          tax_total: number
+          total_amount: number
+          updated_at: string
+          wht_total: number
+        }
+        Insert: {
+          agency_id?: string | null
+          amount_paid?: number
+          billing_period_end?: string | null
+          billing_period_start?: string | null
+          client_id: string
+          commission_total?: number
+          created_at?: string
+          created_by: string
+          credited_total?: number
+          discount_rate?: number
+          discount_total?: number
+          due_date: string
+          gross_total?: number
+          id?: string
+          invoice_number?: string | null
+          issued_at?: string | null
+          notes?: string | null
+          organisation_id?: string
+          paid_date?: string | null
+          status?: string
+          subtotal?: number
+          tax_total?: number
+          total_amount?: number
+          updated_at?: string
+          wht_total?: number
+        }
+        Update: {
+          agency_id?: string | null
+          amount_paid?: number
+          billing_period_end?: string | null
+          billing_period_start?: string | null
+          client_id?: string
+          commission_total?: number
+          created_at?: string
+          created_by?: string
+          credited_total?: number
+          discount_rate?: number
+          discount_total?: number
+          due_date?: string
+          gross_total?: number
+          id?: string
+          invoice_number?: string | null
+          issued_at?: string | null
+          notes?: string | null
+          organisation_id?: string
+          paid_date?: string | null
+          status?: string
+          subtotal?: number
+          tax_total?: number
+          total_amount?: number
+          updated_at?: string
+          wht_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_recurrence_rules: {
+        Row: {
+          air_times: string[]
+          created_at: string
+          created_by: string
+          end_date: string
+          excluded_dates: string[]
+          id: string
+          job_id: string
+          start_date: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          air_times: string[]
+          created_at?: string
+          created_by: string
+          end_date: string
+          excluded_dates?: string[]
+          id?: string
+          job_id: string
+          start_date: string
+          updated_at?: string
+          weekdays: number[]
+        }
+        Update: {
+          air_times?: string[]
+          created_at?: string
+          created_by?: string
+          end_date?: string
+          excluded_dates?: string[]
+          id?: string
+          job_id?: string
+          start_date?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_recurrence_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_recurrence_rules_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_status_runs: {
+        Row: {
+          errors: Json
+          finished_at: string
+          id: string
+          jobs_completed: number
+          jobs_started: number
+          organisations_processed: number
+          schedules_updated: number
+          started_at: string
+          status: string
+        }
+        Insert: {
+          errors?: Json
+          finished_at?: string
+          id?: string
+          jobs_completed?: number
+          jobs_started?: number
+          organisations_processed?: number
+          schedules_updated?: number
+          started_at?: string
+          status: string
+        }
+        Update: {
+          errors?: Json
+          finished_at?: string
+          id?: string
+          jobs_completed?: number
+          jobs_started?: number
+          organisations_processed?: number
+          schedules_updated?: number
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          agency_id: string | null
+          air_time: string
+          air_times: string[]
+          client_id: string
+          commission_rate: number
+          created_at: string
+          created_by: string
+          description: string | null
+          discount_rate: number
+          duration_legacy: string | null
+          duration_needs_review: boolean
+          duration_seconds: number | null
+          id: string
+          rate: number
+          rate_card_id: string | null
+          rate_override_reason: string | null
+          rejection_reason: string | null
+          repeat_days: string[]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          station_id: string
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          suggested_rate: number | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          agency_id?: string | null
+          air_time: string
+          air_times?: string[]
+          client_id: string
+          commission_rate?: number
+          created_at?: string
+          created_by: string
+          description?: string | null
+          discount_rate?: number
+          duration_legacy?: string | null
+          duration_needs_review?: boolean
+          duration_seconds?: number | null
+          id?: string
+          rate: number
+          rate_card_id?: string | null
+          rate_override_reason?: string | null
+          rejection_reason?: string | null
+          repeat_days?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          station_id?: string
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          suggested_rate?: number | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string | null
+          air_time?: string
+          air_times?: string[]
+          client_id?: string
+          commission_rate?: number
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          discount_rate?: number
+          duration_legacy?: string | null
+          duration_needs_review?: boolean
+          duration_seconds?: number | null
+          id?: string
+          rate?: number
+          rate_card_id?: string | null
+          rate_override_reason?: string | null
+          rejection_reason?: string | null
+          repeat_days?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          station_id?: string
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          suggested_rate?: number | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_rate_card_id_fkey"
+            columns: ["rate_card_id"]
+            isOneToOne: false
+            referencedRelation: "rate_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          booking_requests: boolean
+          invoice_overdue: boolean
+          payment_received: boolean
+          schedule_reminders: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          booking_requests?: boolean
+          invoice_overdue?: boolean
+          payment_received?: boolean
+          schedule_reminders?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          booking_requests?: boolean
+          invoice_overdue?: boolean
+          payment_received?: boolean
+          schedule_reminders?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisation_members: {
+        Row: {
+          created_at: string
+          organisation_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organisation_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organisation_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organisation_members_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organisation_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisation_settings: {
+        Row: {
+          address: string | null
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_name: string | null
+          email: string | null
+          logo_url: string | null
+          organisation_id: string
+          payment_terms_days: number
+          payment_terms_note: string | null
+          phone: string | null
+          rc_number: string | null
+          station_name: string
+          time_zone: string
+          tin: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_name?: string | null
+          email?: string | null
+          logo_url?: string | null
+          organisation_id: string
+          payment_terms_days?: number
+          payment_terms_note?: string | null
+          phone?: string | null
+          rc_number?: string | null
+          station_name?: string
+          time_zone?: string
+          tin?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_name?: string | null
+          email?: string | null
+          logo_url?: string | null
+          organisation_id?: string
+          payment_terms_days?: number
+          payment_terms_note?: string | null
+          phone?: string | null
+          rc_number?: string | null
+          station_name?: string
+          time_zone?: string
+          tin?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organisation_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organisation_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          id: string
+          invoice_id: string
+          method: string
+          notes: string | null
+          payment_date: string
+          reference: string | null
+          reversal_reason: string | null
+          reversed_at: string | null
+          reversed_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by: string
+          id?: string
+          invoice_id: string
+          method: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          reversal_reason?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          reversal_reason?: string | null
+          reversed_at?: string | null
+          reversed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_reversed_by_fkey"
+            columns: ["reversed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_card_dayparts: {
+        Row: {
+          created_at: string
+          daypart: string
+          end_time: string
+          id: string
+          rate_card_id: string
+          start_time: string
+        }
+        Insert: {
+          created_at?: string
+          daypart: string
+          end_time: string
+          id?: string
+          rate_card_id: string
+          start_time: string
+        }
+        Update: {
+          created_at?: string
+          daypart?: string
+          end_time?: string
+          id?: string
+          rate_card_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_card_dayparts_rate_card_id_fkey"
+            columns: ["rate_card_id"]
+            isOneToOne: false
+            referencedRelation: "rate_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_card_entries: {
+        Row: {
+          created_at: string
+          daypart: string
+          id: string
+          rate: number
+          rate_card_id: string
+          spot_length: number
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          daypart: string
+          id?: string
+          rate: number
+          rate_card_id: string
+          spot_length: number
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          daypart?: string
+          id?: string
+          rate?: number
+          rate_card_id?: string
+          spot_length?: number
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_card_entries_rate_card_id_fkey"
+            columns: ["rate_card_id"]
+            isOneToOne: false
+            referencedRelation: "rate_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_card_settings: {
+        Row: {
+          default_rate_card_id: string | null
+          default_spot_length: number
+          organisation_id: string
+          require_override_reason: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          default_rate_card_id?: string | null
+          default_spot_length?: number
+          organisation_id: string
+          require_override_reason?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          default_rate_card_id?: string | null
+          default_spot_length?: number
+          organisation_id?: string
+          require_override_reason?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_card_settings_default_rate_card_id_fkey"
+            columns: ["default_rate_card_id"]
+            isOneToOne: false
+            referencedRelation: "rate_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_card_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_card_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_cards: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          effective_from: string | null
+          effective_to: string | null
+          id: string
+          is_active: boolean
+          name: string
+          organisation_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          description?: string | null
+          effective_from?: string | null
+          effective_to?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          organisation_id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          effective_from?: string | null
+          effective_to?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          organisation_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_cards_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_cards_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedules: {
+        Row: {
+          created_at: string
+          created_by: string
+          end_time: string
+          id: string
+          invoice_item_id: string | null
+          job_id: string
+          notes: string | null
+          recurrence_rule_id: string | null
+          scheduled_date: string
+          start_time: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          end_time: string
+          id?: string
+          invoice_item_id?: string | null
+          job_id: string
+          notes?: string | null
+          recurrence_rule_id?: string | null
+          scheduled_date: string
+          start_time: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          end_time?: string
+          id?: string
+          invoice_item_id?: string | null
+          job_id?: string
+          notes?: string | null
+          recurrence_rule_id?: string | null
+          scheduled_date?: string
+          start_time?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedules_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedules_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedules_recurrence_rule_id_fkey"
+            columns: ["recurrence_rule_id"]
+            isOneToOne: false
+            referencedRelation: "job_recurrence_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stations: {
+        Row: {
+          created_at: string
+          frequency: string | null
+          id: string
+          name: string
+          organisation_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          frequency?: string | null
+          id?: string
+          name: string
+          organisation_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          frequency?: string | null
+          id?: string
+          name?: string
+          organisation_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_rules: {
+        Row: {
+          code: string
+          created_at: string
+          is_active: boolean
+          is_default: boolean
+          kind: string
+          name: string
+          organisation_id: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          is_active?: boolean
+          is_default?: boolean
+          kind: string
+          name: string
+          organisation_id?: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          is_active?: boolean
+          is_default?: boolean
+          kind?: string
+          name?: string
+          organisation_id?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rules_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          current_station_id: string | null
+          email: string
+          id: string
+          name: string
+          role: string
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          current_station_id?: string | null
+          email: string
+          id: string
+          name: string
+          role: string
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          current_station_id?: string | null
+          email?: string
+          id?: string
+          name?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "users_current_station_id_fkey"
+            columns: ["current_station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "users_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      approve_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: number
+      }
+      assign_invoice_number: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      booked_job_spots: {
+        Args: {
+          p_organisation_id: string
+        }
+        Returns: {
+          job_id: string
+          schedule_id: string
+          starts_at: string
+          ends_at: string
+        }[]
+      }
+      can_approve_jobs: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      check_airtime_availability: {
+        Args: {
+          p_exclude_job_id?: string
+          p_exclude_schedule_id?: string
+          p_slots: Json
+          p_station_id?: string
+        }
+        Returns: {
+          conflict_type: string
+          requested_date: string
+          requested_start_time: string
+          requested_end_time: string
+          schedule_id: string
+          job_id: string
+          job_title: string
+          client_name: string
+          start_time: string
+          end_time: string
+          booked_seconds: number
+          limit_seconds: number
+        }[]
+      }
+      check_current_station: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      check_invoice_editable: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      check_invoice_item_editable: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      check_invoice_organisation: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      check_job_organisation: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      check_overdue_invoices: {
+        Args: {
+          p_dry_run?: boolean
+        }
+        Returns: {
+          invoice_id: string
+          invoice_number: string
+          organisation_id: string
+          due_date: string
+          from_status: string
+          to_status: string
+        }[]
+      }
+      check_payment_amount: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      client_search_text: {
+        Args: {
+          p_contact_person: string
+          p_email: string
+          p_name: string
+          p_phone: string
+        }
+        Returns: string
+      }
+      create_credit_note: {
+        Args: {
+          p_invoice_id: string
+          p_items: Json
+          p_reason: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          credit_note_number: string
+          id: string
+          invoice_id: string
+          organisation_id: string
+          reason: string
+          subtotal: number
+          tax_total: number
+          total_amount: number
+          wht_total: number
+        }
+      }
+      create_invoice: {
+        Args: {
+          p_invoice: Json
+          p_items: Json
+        }
+        Returns: {
+          agency_id: string | null
+          amount_paid: number
+          billing_period_end: string | null
+          billing_period_start: string | null
+          client_id: string
+          commission_total: number
+          created_at: string
+          created_by: string
+          credited_total: number
+          discount_rate: number
+          discount_total: number
+          due_date: string
+          gross_total: number
+          id: string
+          invoice_number: string | null
+          issued_at: string | null
+          notes: string | null
+          organisation_id: string
+          paid_date: string | null
+          status: string
+          subtotal: number
+          tax_total: number
+          total_amount: number
+          updated_at: string
+          wht_total: number
+        }
+      }
+      create_organisation_settings: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      current_client_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_organisation_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_station_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      enforce_airtime_availability: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      enforce_job_status_transition: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      find_duplicate_clients: {
+        Args: {
+          p_limit?: number
+          p_name: string
+        }
+        Returns: {
+          id: string
+          name: string
+          contact_person: string
+          email: string
+          phone: string
+          address: string
+          agency_id: string
+          organisation_id: string
+          created_at: string
+          created_by: string
+          updated_at: string
+          rank: number
+        }[]
+      }
+      find_free_airtime_slots: {
+        Args: {
+          p_duration_seconds: number
+          p_exclude_job_id?: string
+          p_limit?: number
+          p_scheduled_date: string
+          p_start_time: string
+        }
+        Returns: {
+          start_time: string
+          end_time: string
+          minutes_from_requested: number
+        }[]
+      }
+      format_credit_note_number: {
+        Args: {
+          p_number: number
+          p_organisation_id: string
+          p_year: number
+        }
+        Returns: string
+      }
+      format_invoice_number: {
+        Args: {
+          p_number: number
+          p_organisation_id: string
+          p_year: number
+        }
+        Returns: string
+      }
+      gtrgm_compress: {
+        Args: {
+          "": unknown
+        }
+        Returns: unknown
+      }
+      gtrgm_decompress: {
+        Args: {
+          "": unknown
+        }
+        Returns: unknown
+      }
+      gtrgm_in: {
+        Args: {
+          "": unknown
+        }
+        Returns: unknown
+      }
+      gtrgm_options: {
+        Args: {
+          "": unknown
+        }
+        Returns: undefined
+      }
+      gtrgm_out: {
+        Args: {
+          "": unknown
+        }
+        Returns: unknown
+      }
+      handle_invoice_discount_change: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      handle_invoice_item_change: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      handle_payment_change: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      has_role: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      invoice_ageing: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          organisation_id: string
+          invoice_count: number
+          current_balance: number
+          days_1_30: number
+          days_31_60: number
+          days_61_90: number
+          days_over_90: number
+          total_balance: number
+        }[]
+      }
+      is_member: {
+        Args: {
+          p_organisation_id: string
+        }
+        Returns: boolean
+      }
+      is_time_zone: {
+        Args: {
+          p_name: string
+        }
+        Returns: boolean
+      }
+      link_advertiser_to_client: {
+        Args: {
+          p_client_id: string
+          p_email: string
+        }
+        Returns: {
+          client_id: string | null
+          created_at: string
+          current_station_id: string | null
+          email: string
+          id: string
+          name: string
+          role: string
+        }
+      }
+      link_invoice_schedules: {
+        Args: {
+          p_invoice_item_id: string
+          p_schedule_ids: string[]
+        }
+        Returns: number
+      }
+      list_client_advertisers: {
+        Args: {
+          p_client_id: string
+        }
+        Returns: {
+          id: string
+          email: string
+          name: string
+        }[]
+      }
+      merge_clients: {
+        Args: {
+          p_duplicate_id: string
+          p_keep_id: string
+        }
+        Returns: {
+          address: string | null
+          agency_id: string | null
+          contact_person: string | null
+          created_at: string
+          created_by: string
+          email: string | null
+          id: string
+          name: string
+          organisation_id: string
+          phone: string | null
+          updated_at: string
+        }
+      }
+      next_credit_note_number: {
+        Args: {
+          p_issued_at: string
+          p_organisation_id: string
+        }
+        Returns: string
+      }
+      next_invoice_number: {
+        Args: {
+          p_issued_at: string
+          p_organisation_id: string
+        }
+        Returns: string
+      }
+      normalise_client_name: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      organisation_local_time: {
+        Args: {
+          p_at?: string
+          p_organisation_id: string
+        }
+        Returns: string
+      }
+      overdue_invoice_transitions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          invoice_id: string
+          invoice_number: string
+          organisation_id: string
+          due_date: string
+          from_status: string
+          to_status: string
+        }[]
+      }
+      parse_duration_seconds: {
+        Args: {
+          input: string
+        }
+        Returns: number
+      }
+      prevent_invoice_number_change: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      prevent_payment_edit: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      prevent_unapproved_schedules: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      preview_next_invoice_number: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      price_invoice_item: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      protect_host_schedule_changes: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      protect_invoice_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      protect_user_client_link: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      protect_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      refresh_invoice_payment_status: {
+        Args: {
+          p_invoice_id: string
+        }
+        Returns: undefined
+      }
+      refresh_invoice_totals: {
+        Args: {
+          p_invoice_id: string
+        }
+        Returns: undefined
+      }
+      regenerate_recurrence_schedules: {
+        Args: {
+          p_from: string
+          p_rule_id: string
+          p_schedules: Json
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          end_time: string
+          id: string
+          invoice_item_id: string | null
+          job_id: string
+          notes: string | null
+          recurrence_rule_id: string | null
+          scheduled_date: string
+          start_time: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      search_clients: {
+        Args: {
+          p_limit?: number
+          p_query: string
+        }
+        Returns: {
+          id: string
+          name: string
+          contact_person: string
+          email: string
+          phone: string
+          address: string
+          agency_id: string
+          organisation_id: string
+          created_at: string
+          created_by: string
+          updated_at: string
+          rank: number
+        }[]
+      }
+      set_limit: {
+        Args: {
+          "": number
+        }
+        Returns: number
+      }
+      show_limit: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      show_trgm: {
+        Args: {
+          "": string
+        }
+        Returns: string[]
+      }
+      sync_job_air_time: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      sync_user_email: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      tax_rule_rate: {
+        Args: {
+          p_code: string
+          p_kind: string
+          p_organisation_id: string
+        }
+        Returns: number
+      }
+      unlink_advertiser: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      update_job_statuses: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          errors: Json
+          finished_at: string
+          id: string
+          jobs_completed: number
+          jobs_started: number
+          organisations_processed: number
+          schedules_updated: number
+          started_at: string
+          status: string
+        }
+      }
+      update_organisation_job_statuses: {
+        Args: {
+          p_organisation_id: string
+        }
+        Returns: Record<string, unknown>
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  PublicTableNameOrOptions extends
+    | keyof (PublicSchema["Tables"] & PublicSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+        Database[PublicTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+      Database[PublicTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : PublicTableNameOrOptions extends keyof (PublicSchema["Tables"] &
+        PublicSchema["Views"])
+    ? (PublicSchema["Tables"] &
+        PublicSchema["Views"])[PublicTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  PublicEnumNameOrOptions extends
+    | keyof PublicSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends PublicEnumNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = PublicEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : PublicEnumNameOrOptions extends keyof PublicSchema["Enums"]
+    ? PublicSchema["Enums"][PublicEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof PublicSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof PublicSchema["CompositeTypes"]
+    ? PublicSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
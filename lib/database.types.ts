@@ -1,236 +1,106 @@
-export type Json =
-  | string
-  | number
-  | boolean
-  | null
-  | { [key: string]: Json | undefined }
-  | Json[]
+// Schema types for the Supabase client.
+//
+// database.generated.ts describes the schema that supabase/migrations
+// builds. After adding a migration, regenerate it with `npm run db:types`
+// against a local database reset from the migrations rather than editing it
+// to match; the CLI's output is the reference. Postgres reports text columns
+// guarded by a CHECK constraint as plain strings; the values those
+// constraints allow are layered on top here and must follow the migrations
+// when they change.
+import type { Database as GeneratedDatabase, Json } from './database.generated';
 
-export interface Database {
+export type { Json };
+
+type GeneratedSchema = GeneratedDatabase['public'];
+
+// Values allowed by the CHECK constraints on text columns
+type ColumnUnions = {
+  users: {
+    role: 'admin' | 'host' | 'traffic' | 'finance' | 'advertiser'
+  }
+  jobs: {
+    status: 'draft' | 'pending_approval' | 'rejected' | 'scheduled' | 'in_progress' | 'completed' | 'cancelled'
+  }
+  schedules: {
+    status: 'upcoming' | 'live' | 'completed' | 'cancelled'
+  }
+  invoices: {
+    status: 'draft' | 'pending' | 'partially_paid' | 'paid' | 'overdue' | 'credited'
+  }
+  payments: {
+    method: 'bank_transfer' | 'cash' | 'pos' | 'cheque'
+  }
+  tax_rules: {
+    kind: 'vat' | 'withholding'
+  }
+  rate_card_dayparts: {
+    daypart: 'breakfast' | 'midday' | 'drive_time' | 'overnight'
+  }
+  rate_card_entries: {
+    daypart: 'breakfast' | 'midday' | 'drive_time' | 'overnight'
+  }
+  booking_requests: {
+    status: 'pending' | 'approved' | 'rejected'
+  }
+  job_status_runs: {
+    status: 'succeeded' | 'failed' | 'skipped'
+  }
+};
+
+// Columns a BEFORE INSERT trigger fills in, so inserts may leave them out
+type TriggerFilled = {
+  invoices: 'invoice_number'
+};
+
+// The same for columns of function results
+type ReturnUnions = {
+  check_airtime_availability: {
+    conflict_type: 'overlap' | 'hour_limit'
+  }
+  link_advertiser_to_client: ColumnUnions['users']
+  create_invoice: ColumnUnions['invoices']
+  regenerate_recurrence_schedules: ColumnUnions['schedules']
+  check_overdue_invoices: {
+    from_status: ColumnUnions['invoices']['status']
+    to_status: ColumnUnions['invoices']['status']
+  }
+  update_job_statuses: ColumnUnions['job_status_runs']
+};
+
+type Tables = GeneratedSchema['Tables'];
+type Functions = GeneratedSchema['Functions'];
+
+type UnionsOf<T> = T extends keyof ColumnUnions ? ColumnUnions[T] : Record<never, never>;
+type TriggerFilledOf<T> = T extends keyof TriggerFilled ? TriggerFilled[T] : never;
+
+type WithUnions<T, Unions> = {
+  [K in keyof T]: K extends keyof Unions ? Unions[K] | Extract<T[K], null> : T[K]
+};
+
+type WithOptional<T, Keys> = Omit<T, Keys & keyof T> & Partial<Pick<T, Keys & keyof T>>;
+
+export type Database = {
   public: {
     Tables: {
-      users: {
-        Row: {
-          id: string
-          email: string
-          name: string
-          role: 'admin' | 'host' | 'advertiser'
-          created_at: string
-        }
-        Insert: {
-          id?: string
-          email: string
-          name: string
-          role: 'admin' | 'host' | 'advertiser'
-          created_at?: string
-        }
-        Update: {
-          id?: string
-          email?: string
-          name?: string
-          role?: 'admin' | 'host' | 'advertiser'
-          created_at?: string
-        }
+      [T in keyof Tables]: {
+        Row: WithUnions<Tables[T]['Row'], UnionsOf<T>>
+        Insert: WithUnions<WithOptional<Tables[T]['Insert'], TriggerFilledOf<T>>, UnionsOf<T>>
+        Update: WithUnions<Tables[T]['Update'], UnionsOf<T>>
+        Relationships: Tables[T]['Relationships']
       }
-      clients: {
-        Row: {
-          id: string
-          name: string
-          contact_person: string | null
-          email: string | null
-          phone: string | null
-          address: string | null
-          created_at: string
-          created_by: string
-          updated_at: string
-        }
-        Insert: {
-          id?: string
-          name: string
-          contact_person?: string | null
-          email?: string | null
-          phone?: string | null
-          address?: string | null
-          created_at?: string
-          created_by: string
-          updated_at?: string
-        }
-        Update: {
-          id?: string
-          name?: string
-          contact_person?: string | null
-          email?: string | null
-          phone?: string | null
-          address?: string | null
-          created_at?: string
-          created_by?: string
-          updated_at?: string
-        }
-      }
-      jobs: {
-        Row: {
-          id: string
-          title: string
-          client_id: string
-          duration: string
-          air_time: string
-          rate: number
-          repeat_days: string[]
-          description: string | null
-          status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled'
-          created_at: string
-          created_by: string
-          updated_at: string
-        }
-        Insert: {
-          id?: string
-          title: string
-          client_id: string
-          duration: string
-          air_time: string
-          rate: number
-          repeat_days: string[]
-          description?: string | null
-          status?: 'scheduled' | 'in_progress' | 'completed' | 'cancelled'
-          created_at?: string
-          created_by: string
-          updated_at?: string
-        }
-        Update: {
-          id?: string
-          title?: string
-          client_id?: string
-          duration?: string
-          air_time?: string
-          rate?: number
-          repeat_days?: string[]
-          description?: string | null
-          status?: 'scheduled' | 'in_progress' | 'completed' | 'cancelled'
-          created_at?: string
-          created_by?: string
-          updated_at?: string
-        }
-      }
-      schedules: {
-        Row: {
-          id: string
-          job_id: string
-          scheduled_date: string
-          start_time: string
-          end_time: string
-          status: 'upcoming' | 'live' | 'completed' | 'cancelled'
-          notes: string | null
-          created_at: string
-          created_by: string
-          updated_at: string
-        }
-        Insert: {
-          id?: string
-          job_id: string
-          scheduled_date: string
-          start_time: string
-          end_time: string
-          status?: 'upcoming' | 'live' | 'completed' | 'cancelled'
-          notes?: string | null
-          created_at?: string
-          created_by: string
-          updated_at?: string
-        }
-        Update: {
-          id?: string
-          job_id?: string
-          scheduled_date?: string
-          start_time?: string
-          end_time?: string
-          status?: 'upcoming' | 'live' | 'completed' | 'cancelled'
-          notes?: string | null
-          created_at?: string
-          created_by?: string
-          updated_at?: string
-        }
-      }
-      invoices: {
-        Row: {
-          id: string
-          invoice_number: string
-          client_id: string
-          total_amount: number
-          status: 'pending' | 'paid' | 'overdue'
-          due_date: string
-          paid_date: string | null
-          notes: string | null
-          created_at: string
-          created_by: string
-          updated_at: string
-        }
-        Insert: {
-          id?: string
-          invoice_number: string
-          client_id: string
-          total_amount: number
-          status?: 'pending' | 'paid' | 'overdue'
-          due_date: string
-          paid_date?: string | null
-          notes?: string | null
-          created_at?: string
-          created_by: string
-          updated_at?: string
-        }
-        Update: {
-          id?: string
-          invoice_number?: string
-          client_id?: string
-          total_amount?: number
-          status?: 'pending' | 'paid' | 'overdue'
-          due_date?: string
-          paid_date?: string | null
-          notes?: string | null
-          created_at?: string
-          created_by?: string
-          updated_at?: string
-        }
-      }
-      invoice_items: {
-        Row: {
-          id: string
-          invoice_id: string
-          job_id: string
-          description: string
-          quantity: number
-          rate: number
-          amount: number
-          created_at: string
-        }
-        Insert: {
-          id?: string
-          invoice_id: string
-          job_id: string
-          description: string
-          quantity: number
-          rate: number
-          amount: number
-          created_at?: string
-        }
-        Update: {
-          id?: string
-          invoice_id?: string
-          job_id?: string
-          description?: string
-          quantity?: number
-          rate?: number
-          amount?: number
-          created_at?: string
-        }
-      }
-    }
-    Views: {
-      [_ in never]: never
     }
+    Views: GeneratedSchema['Views']
     Functions: {
-      [_ in never]: never
-    }
-    Enums: {
-      [_ in never]: never
+      [F in keyof Functions]: F extends keyof ReturnUnions
+        ? {
+            Args: Functions[F]['Args']
+            Returns: Functions[F]['Returns'] extends (infer R)[]
+              ? WithUnions<R, ReturnUnions[F]>[]
+              : WithUnions<Functions[F]['Returns'], ReturnUnions[F]>
+          }
+        : Functions[F]
     }
+    Enums: GeneratedSchema['Enums']
+    CompositeTypes: GeneratedSchema['CompositeTypes']
   }
-}
+};
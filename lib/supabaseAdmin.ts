@@ -0,0 +1,47 @@
+import 'server-only';
+import { timingSafeEqual } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+// Service role client for API routes only. It bypasses row level security,
+// so its key has no NEXT_PUBLIC_ prefix to keep it out of the browser bundle,
+// and importing this from a client component fails the build.
+export const supabaseAdmin = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// The profile of the user whose access token came with the request, or null
+export async function getRequestUser(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile } = await supabaseAdmin
+    .from('users')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  return profile;
+}
+
+// Scheduled jobs authenticate with CRON_SECRET as a bearer token, the way
+// Vercel Cron sends it. Without the variable set every request is refused.
+export function isSchedulerRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
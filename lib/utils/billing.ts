@@ -0,0 +1,94 @@
+import { format, isBefore, parseISO } from 'date-fns';
+import type { Database } from '@/lib/database.types';
+
+type Schedule = Database['public']['Tables']['schedules']['Row'];
+type Job = Database['public']['Tables']['jobs']['Row'];
+
+export type BillableSchedule = Schedule & {
+  job: Pick<Job, 'id' | 'title' | 'rate' | 'client_id' | 'duration_seconds' | 'discount_rate' | 'commission_rate'>;
+};
+
+export type AiredSpotsLine = {
+  job_id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  discount_rate: number;
+  commission_rate: number;
+  // Gross: quantity × rate, before discount and commission
+  amount: number;
+  schedule_ids: string[];
+};
+
+export type ExcludedSpot = {
+  schedule: BillableSchedule;
+  reason: 'cancelled' | 'missed';
+};
+
+export type AiredSpotsSummary = {
+  lines: AiredSpotsLine[];
+  excluded: ExcludedSpot[];
+  total: number;
+};
+
+// A spot whose air time has passed without being marked as aired
+const isMissed = (schedule: Schedule, now: Date) =>
+  (schedule.status === 'upcoming' || schedule.status === 'live') &&
+  isBefore(parseISO(`${schedule.scheduled_date}T${schedule.end_time}`), now);
+
+// One invoice line per job: quantity is the number of completed spots,
+// priced at the job's rate. Cancelled and missed spots are set aside so
+// they can be listed on the invoice instead of billed.
+export const summariseAiredSpots = (
+  schedules: BillableSchedule[],
+  now: Date = new Date()
+): AiredSpotsSummary => {
+  const lines = new Map<string, AiredSpotsLine>();
+  const excluded: ExcludedSpot[] = [];
+
+  for (const schedule of schedules) {
+    if (schedule.status === 'cancelled') {
+      excluded.push({ schedule, reason: 'cancelled' });
+      continue;
+    }
+    if (isMissed(schedule, now)) {
+      excluded.push({ schedule, reason: 'missed' });
+      continue;
+    }
+    if (schedule.status !== 'completed' || schedule.invoice_item_id) continue;
+
+    const line = lines.get(schedule.job_id) || {
+      job_id: schedule.job_id,
+      description: schedule.job.title,
+      quantity: 0,
+      rate: schedule.job.rate,
+      discount_rate: schedule.job.discount_rate,
+      commission_rate: schedule.job.commission_rate,
+      amount: 0,
+      schedule_ids: [],
+    };
+    line.quantity += 1;
+    line.amount = line.quantity * line.rate;
+    line.schedule_ids.push(schedule.id);
+    lines.set(schedule.job_id, line);
+  }
+
+  const sortedLines = Array.from(lines.values()).sort((a, b) => a.description.localeCompare(b.description));
+
+  return {
+    lines: sortedLines,
+    excluded,
+    total: sortedLines.reduce((sum, line) => sum + line.amount, 0),
+  };
+};
+
+export const describeExcludedSpots = (excluded: ExcludedSpot[]): string => {
+  if (!excluded.length) return '';
+
+  const entries = excluded.map(({ schedule, reason }) =>
+    `- ${schedule.job.title}, ${format(parseISO(schedule.scheduled_date), 'MMM d, yyyy')} ` +
+    `at ${schedule.start_time.substring(0, 5)}: ${reason}`
+  );
+
+  return ['Spots not billed:', ...entries].join('\n');
+};
@@ -0,0 +1,59 @@
+// Spot durations are stored as whole seconds (jobs.duration_seconds).
+// The parser accepts what staff actually type: "30", "30s", "30 sec",
+// "1 min", "1m 30s", "1 min 30 secs" and "1:30".
+export type DurationSeconds = number;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const UNIT_PATTERN = /(\d+)\s*(seconds?|secs?|s|minutes?|mins?|m)/gi;
+
+export const parseDuration = (input: string): DurationSeconds | null => {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  // Bare number of seconds
+  if (/^\d+$/.test(value)) {
+    const seconds = parseInt(value, 10);
+    return seconds > 0 ? seconds : null;
+  }
+
+  // Clock notation, m:ss
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) {
+    const seconds = parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+    return seconds > 0 ? seconds : null;
+  }
+
+  // One or more "<amount> <unit>" parts, and nothing else
+  let seconds = 0;
+  const leftover = value.replace(UNIT_PATTERN, (_, amount: string, unit: string) => {
+    seconds += unit.startsWith('m') ? parseInt(amount, 10) * 60 : parseInt(amount, 10);
+    return '';
+  });
+
+  if (leftover.replace(/[\s,]|and/g, '') !== '') return null;
+  return seconds > 0 ? seconds : null;
+};
+
+export const formatDuration = (seconds: DurationSeconds | null | undefined): string => {
+  if (!seconds || seconds <= 0) return '—';
+
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+
+  if (!minutes) return `${remainder} sec`;
+  if (!remainder) return `${minutes} min`;
+  return `${minutes} min ${remainder} sec`;
+};
+
+// Adds a duration to an "HH:mm" or "HH:mm:ss" time, wrapping past midnight
+export const addDurationToTime = (time: string, seconds: DurationSeconds): string => {
+  const [hours, minutes, secs = 0] = time.split(':').map(Number);
+  const total = (hours * 3600 + minutes * 60 + secs + seconds) % SECONDS_PER_DAY;
+
+  return [
+    Math.floor(total / 3600),
+    Math.floor((total % 3600) / 60),
+    total % 60,
+  ].map(part => String(part).padStart(2, '0')).join(':');
+};
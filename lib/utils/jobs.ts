@@ -1,32 +1,29 @@
-import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/database.types';
+import { can } from '@/lib/utils/permissions';
+import type { Role } from '@/lib/utils/permissions';
 
-export async function updateJobStatus(jobId: string, scheduleId: string, status: 'completed' | 'in_progress') {
-  try {
-    // Update job status
-    const { error: jobError } = await supabase
-      .from('jobs')
-      .update({
-        status,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', jobId);
+export type JobStatus = Database['public']['Tables']['jobs']['Row']['status'];
 
-    if (jobError) throw jobError;
+// Bookings that have no schedules until an approver signs them off
+export const unapprovedJobStatuses: JobStatus[] = ['draft', 'pending_approval', 'rejected'];
 
-    // Update schedule status
-    const { error: scheduleError } = await supabase
-      .from('schedules')
-      .update({
-        status: status === 'completed' ? 'completed' : 'live',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', scheduleId);
+export const isJobApproved = (status: JobStatus) => !unapprovedJobStatuses.includes(status);
 
-    if (scheduleError) throw scheduleError;
+// Mirrors can_approve_jobs() in the database, which has the final say
+export const canApproveJobs = (role: Role | null | undefined) => can(role, 'jobs:approve');
 
-    return true;
-  } catch (error) {
-    console.error('Error updating job status:', error);
-    throw error;
-  }
-}
+export const jobStatusLabels: Record<JobStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending Approval',
+  rejected: 'Rejected',
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// "07:30, 12:00, 17:15" from a job's daily slots
+export const formatAirTimes = (airTimes: string[] | null | undefined, fallback?: string) => {
+  const times = airTimes?.length ? airTimes : fallback ? [fallback] : [];
+  return times.length ? times.map(time => time.substring(0, 5)).join(', ') : '—';
+};
@@ -0,0 +1,35 @@
+import { addDays, format } from 'date-fns';
+import type { Database } from '@/lib/database.types';
+
+export type OrganisationSettings = Database['public']['Tables']['organisation_settings']['Row'];
+
+// Used until the settings row has loaded
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+export const defaultDueDate = (
+  settings: Pick<OrganisationSettings, 'payment_terms_days'> | null,
+  from: Date = new Date()
+) => format(addDays(from, settings?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS), 'yyyy-MM-dd');
+
+export const describePaymentTerms = (settings: Pick<OrganisationSettings, 'payment_terms_days' | 'payment_terms_note'>) => {
+  const terms = settings.payment_terms_days === 0
+    ? 'Payment is due on receipt of this invoice.'
+    : `Please make payment within ${settings.payment_terms_days} days of invoice date.`;
+  return settings.payment_terms_note ? `${terms} ${settings.payment_terms_note}` : terms;
+};
+
+// Lines for the station's letterhead, skipping anything not filled in
+export const describeOrganisation = (settings: OrganisationSettings) => [
+  settings.address,
+  [settings.email, settings.phone].filter(Boolean).join(' | '),
+  [settings.rc_number && `RC ${settings.rc_number}`, settings.tin && `TIN ${settings.tin}`].filter(Boolean).join(' | '),
+].filter((line): line is string => !!line);
+
+export const describeBankDetails = (settings: OrganisationSettings) =>
+  settings.bank_name && settings.bank_account_number
+    ? [
+        `Bank: ${settings.bank_name}`,
+        `Account Name: ${settings.bank_account_name || settings.station_name}`,
+        `Account Number: ${settings.bank_account_number}`,
+      ]
+    : [];
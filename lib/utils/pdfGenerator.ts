@@ -1,5 +1,8 @@
 import { jsPDF } from 'jspdf';
 import type { Database } from '@/lib/database.types';
+import { formatDuration } from '@/lib/utils/duration';
+import { describeOrganisation, describeBankDetails, describePaymentTerms } from '@/lib/utils/organisation';
+import type { OrganisationSettings } from '@/lib/utils/organisation';
 
 type InvoiceItem = Database['public']['Tables']['invoice_items']['Row'] & {
   job: Database['public']['Tables']['jobs']['Row'];
@@ -7,13 +10,33 @@ type InvoiceItem = Database['public']['Tables']['invoice_items']['Row'] & {
 
 type Invoice = {
   id: string;
+  // Drafts have no number yet
+  invoice_number: string | null;
   created_at: string;
+  issued_at?: string | null;
   due_date: string;
   status: string;
+  notes?: string | null;
+  billing_period_start?: string | null;
+  billing_period_end?: string | null;
+  gross_total: number;
+  discount_total: number;
+  commission_total: number;
+  subtotal: number;
+  tax_total: number;
+  wht_total: number;
+  total_amount: number;
+  credited_total?: number;
   client: Database['public']['Tables']['clients']['Row'];
+  agency?: Database['public']['Tables']['agencies']['Row'] | null;
   invoice_items: InvoiceItem[];
 }
 
+type CreditNote = Database['public']['Tables']['credit_notes']['Row'] & {
+  invoice: Pick<Invoice, 'invoice_number' | 'client' | 'agency'>;
+  credit_note_items: Database['public']['Tables']['credit_note_items']['Row'][];
+};
+
 const formatDate = (date: string) => {
   return new Date(date).toLocaleDateString('en-NG', {
     day: '2-digit',
@@ -30,49 +53,70 @@ const formatCurrency = (amount: number) => {
   })}`;
 };
 
-const generateInvoiceNumber = (id: string) => {
-  // Take last 6 characters of the ID and pad with zeros if needed
-  const lastSix = id.slice(-6).padStart(6, '0');
-  return `INV${lastSix}`;
+// jsPDF needs image data rather than a URL
+const loadLogo = async (url: string): Promise<{ data: string; format: string } | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { data, format: blob.type === 'image/png' ? 'PNG' : 'JPEG' };
+  } catch (error) {
+    console.error('Error loading logo for invoice PDF:', error);
+    return null;
+  }
+};
+
+// Station name, logo and address at the top left of every document
+const drawStationHeader = async (doc: jsPDF, organisation: OrganisationSettings, margin: number) => {
+  doc.setFont('helvetica');
+
+  const logo = organisation.logo_url ? await loadLogo(organisation.logo_url) : null;
+  const nameX = logo ? margin + 22 : margin;
+  if (logo) {
+    doc.addImage(logo.data, logo.format, margin, 12, 18, 18);
+  }
+
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(organisation.station_name, nameX, 25);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(describeOrganisation(organisation), margin, 35);
 };
 
-export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
+export async function downloadInvoicePDF(invoice: Invoice, organisation: OrganisationSettings): Promise<void> {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
   const margin = 20;
   const contentWidth = pageWidth - (margin * 2);
   
-  // Set default font
-  doc.setFont('helvetica');
-  
-  // Company Info Section (Top Left)
-  doc.setFontSize(24);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Your Company', margin, 25);
-  
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'normal');
-  doc.text([
-    'Lagos, Nigeria',
-    'contact@yourcompany.com',
-    '+234 123 456 7890'
-  ], margin, 35);
+  await drawStationHeader(doc, organisation, margin);
   
   // Invoice Details (Top Right)
-  const invoiceNumber = generateInvoiceNumber(invoice.id);
+  const invoiceNumber = invoice.invoice_number ?? 'Draft';
   const rightAlign = pageWidth - margin;
   
   doc.setFontSize(20);
   doc.setFont('helvetica', 'bold');
-  doc.text('INVOICE', rightAlign, 25, { align: 'right' });
+  doc.text(invoice.invoice_number ? 'INVOICE' : 'DRAFT INVOICE', rightAlign, 25, { align: 'right' });
   
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
   doc.text([
     `Invoice No: ${invoiceNumber}`,
-    `Date: ${formatDate(invoice.created_at)}`,
+    `Date: ${formatDate(invoice.issued_at ?? invoice.created_at)}`,
     `Due Date: ${formatDate(invoice.due_date)}`,
-    `Status: ${invoice.status.toUpperCase()}`
+    `Status: ${invoice.status.toUpperCase()}`,
+    ...(invoice.billing_period_start && invoice.billing_period_end
+      ? [`Period: ${formatDate(invoice.billing_period_start)} - ${formatDate(invoice.billing_period_end)}`]
+      : [])
   ], rightAlign, 35, { align: 'right' });
   
   // Divider
@@ -89,7 +133,8 @@ export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
   doc.text([
     invoice.client.name,
     invoice.client.address || '',
-    invoice.client.email || ''
+    invoice.client.email || '',
+    ...(invoice.agency ? [`c/o ${invoice.agency.name}`] : [])
   ], margin, 80);
   
   // Table Header
@@ -100,13 +145,15 @@ export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(10);
   doc.text('Description', margin + 5, tableTop);
+  doc.text('Spots', rightAlign - 110, tableTop, { align: 'right' });
+  doc.text('Rate', rightAlign - 70, tableTop, { align: 'right' });
+  doc.text('VAT', rightAlign - 45, tableTop, { align: 'right' });
   doc.text('Amount', rightAlign - 5, tableTop, { align: 'right' });
   
   // Table Content
   let yPosition = tableTop + 10;
   doc.setFont('helvetica', 'normal');
   
-  let total = 0;
   invoice.invoice_items.forEach((item, index) => {
     // Subtle alternating background
     if (index % 2 === 0) {
@@ -114,10 +161,13 @@ export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
       doc.rect(margin, yPosition - 5, contentWidth, 10, 'F');
     }
     
-    doc.text(item.job.title, margin + 5, yPosition);
-    const amount = item.amount || 0;
-    doc.text(formatCurrency(amount), rightAlign - 5, yPosition, { align: 'right' });
-    total += amount;
+    const spotLength = item.job.duration_seconds ? ` (${formatDuration(item.job.duration_seconds)})` : '';
+    doc.text(`${item.job.title}${spotLength}`, margin + 5, yPosition);
+    doc.text(String(item.quantity), rightAlign - 110, yPosition, { align: 'right' });
+    doc.text(formatCurrency(item.rate || 0), rightAlign - 70, yPosition, { align: 'right' });
+    doc.text(item.tax_code ? `${item.tax_rate}%` : '-', rightAlign - 45, yPosition, { align: 'right' });
+    // Lines show gross; deductions are itemised in the totals
+    doc.text(formatCurrency(item.gross_amount || 0), rightAlign - 5, yPosition, { align: 'right' });
     yPosition += 10;
   });
   
@@ -126,17 +176,63 @@ export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
   doc.setDrawColor(220, 220, 220);
   doc.line(margin, yPosition + 5, pageWidth - margin, yPosition + 5);
   
-  doc.setFont('helvetica', 'bold');
-  doc.text('Total', pageWidth - margin - 80, totalSection);
-  doc.text(formatCurrency(total), rightAlign - 5, totalSection, { align: 'right' });
-  
+  // Gross less discount and commission, then VAT and, where the client
+  // withholds tax, the net amount due
+  const totalRows: [string, string][] = [];
+  if (invoice.discount_total > 0 || invoice.commission_total > 0) {
+    totalRows.push(['Gross', formatCurrency(invoice.gross_total)]);
+  }
+  if (invoice.discount_total > 0) {
+    totalRows.push(['Less Discount', `(${formatCurrency(invoice.discount_total)})`]);
+  }
+  if (invoice.commission_total > 0) {
+    totalRows.push(['Less Commission', `(${formatCurrency(invoice.commission_total)})`]);
+  }
+  totalRows.push(
+    ['Subtotal', formatCurrency(invoice.subtotal)],
+    ['VAT', formatCurrency(invoice.tax_total)],
+    ['Total', formatCurrency(invoice.total_amount)]
+  );
+  // Credit notes raised against the invoice reduce what is owed
+  const creditedTotal = invoice.credited_total ?? 0;
+  if (invoice.wht_total > 0) {
+    totalRows.push(['Less WHT', `(${formatCurrency(invoice.wht_total)})`]);
+  }
+  if (creditedTotal > 0) {
+    totalRows.push(['Less Credit Notes', `(${formatCurrency(creditedTotal)})`]);
+  }
+  if (invoice.wht_total > 0 || creditedTotal > 0) {
+    totalRows.push(['Amount Due', formatCurrency(invoice.total_amount - invoice.wht_total - creditedTotal)]);
+  }
+
+  totalRows.forEach(([label, value], index) => {
+    const isTotal = label === 'Total' || label === 'Amount Due';
+    doc.setFont('helvetica', isTotal ? 'bold' : 'normal');
+    doc.text(label, pageWidth - margin - 80, totalSection + index * 7);
+    doc.text(value, rightAlign - 5, totalSection + index * 7, { align: 'right' });
+  });
+
   // Payment Terms
   doc.setFontSize(10);
-  doc.setFont('helvetica', 'normal');
-  const termsY = totalSection + 30;
+  const termsY = totalSection + totalRows.length * 7 + 20;
+  doc.setFont('helvetica', 'bold');
   doc.text('Payment Terms', margin, termsY);
   doc.setFont('helvetica', 'normal');
-  doc.text('Please make payment within 14 days of invoice date.', margin, termsY + 7);
+  const terms = [
+    ...doc.splitTextToSize(describePaymentTerms(organisation), contentWidth),
+    ...describeBankDetails(organisation),
+  ];
+  doc.text(terms, margin, termsY + 7);
+
+  // Notes, including any spots that were not billed
+  const notesY = termsY + 7 + terms.length * 5 + 8;
+  if (invoice.notes) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Notes', margin, notesY);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(invoice.notes, contentWidth), margin, notesY + 7);
+  }
   
   // Footer
   const footerY = doc.internal.pageSize.height - 20;
@@ -145,5 +241,108 @@ export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
   doc.text('Thank you for your business!', pageWidth / 2, footerY, { align: 'center' });
   
   // Save the PDF
-  doc.save(`${invoiceNumber}.pdf`);
+  doc.save(`${invoice.invoice_number ?? 'draft-invoice'}.pdf`);
+}
+
+export async function downloadCreditNotePDF(creditNote: CreditNote, organisation: OrganisationSettings): Promise<void> {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const margin = 20;
+  const contentWidth = pageWidth - (margin * 2);
+  const rightAlign = pageWidth - margin;
+
+  await drawStationHeader(doc, organisation, margin);
+
+  // Credit Note Details (Top Right)
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CREDIT NOTE', rightAlign, 25, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text([
+    `Credit Note No: ${creditNote.credit_note_number}`,
+    `Date: ${formatDate(creditNote.created_at)}`,
+    `Against Invoice: ${creditNote.invoice.invoice_number}`,
+  ], rightAlign, 35, { align: 'right' });
+
+  doc.setDrawColor(220, 220, 220);
+  doc.line(margin, 55, pageWidth - margin, 55);
+
+  // Credit To Section
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CREDIT TO', margin, 70);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  const client = creditNote.invoice.client;
+  doc.text([
+    client.name,
+    client.address || '',
+    client.email || '',
+    ...(creditNote.invoice.agency ? [`c/o ${creditNote.invoice.agency.name}`] : [])
+  ], margin, 80);
+
+  // Table Header
+  const tableTop = 105;
+  doc.setFillColor(247, 248, 250);
+  doc.rect(margin, tableTop - 5, contentWidth, 10, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Description', margin + 5, tableTop);
+  doc.text('VAT', rightAlign - 45, tableTop, { align: 'right' });
+  doc.text('Amount', rightAlign - 5, tableTop, { align: 'right' });
+
+  let yPosition = tableTop + 10;
+  doc.setFont('helvetica', 'normal');
+
+  creditNote.credit_note_items.forEach((item, index) => {
+    if (index % 2 === 0) {
+      doc.setFillColor(252, 252, 252);
+      doc.rect(margin, yPosition - 5, contentWidth, 10, 'F');
+    }
+
+    doc.text(item.description, margin + 5, yPosition);
+    doc.text(item.tax_rate > 0 ? `${item.tax_rate}%` : '-', rightAlign - 45, yPosition, { align: 'right' });
+    doc.text(formatCurrency(item.amount), rightAlign - 5, yPosition, { align: 'right' });
+    yPosition += 10;
+  });
+
+  const totalSection = yPosition + 10;
+  doc.setDrawColor(220, 220, 220);
+  doc.line(margin, yPosition + 5, pageWidth - margin, yPosition + 5);
+
+  const totalRows: [string, string][] = [
+    ['Subtotal', formatCurrency(creditNote.subtotal)],
+    ['VAT', formatCurrency(creditNote.tax_total)],
+    ['Total Credit', formatCurrency(creditNote.total_amount)],
+  ];
+  if (creditNote.wht_total > 0) {
+    totalRows.push(
+      ['Less WHT', `(${formatCurrency(creditNote.wht_total)})`],
+      ['Credited to Balance', formatCurrency(creditNote.total_amount - creditNote.wht_total)]
+    );
+  }
+
+  totalRows.forEach(([label, value], index) => {
+    const isTotal = label === 'Total Credit' || label === 'Credited to Balance';
+    doc.setFont('helvetica', isTotal ? 'bold' : 'normal');
+    doc.text(label, pageWidth - margin - 80, totalSection + index * 7);
+    doc.text(value, rightAlign - 5, totalSection + index * 7, { align: 'right' });
+  });
+
+  // Reason
+  const reasonY = totalSection + totalRows.length * 7 + 20;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Reason', margin, reasonY);
+  doc.setFont('helvetica', 'normal');
+  doc.text(doc.splitTextToSize(creditNote.reason, contentWidth), margin, reasonY + 7);
+
+  const footerY = doc.internal.pageSize.height - 20;
+  doc.setFontSize(8);
+  doc.setTextColor(128, 128, 128);
+  doc.text(`Issued against invoice ${creditNote.invoice.invoice_number}`, pageWidth / 2, footerY, { align: 'center' });
+
+  doc.save(`${creditNote.credit_note_number}.pdf`);
 }
@@ -0,0 +1,81 @@
+import type { Database } from '@/lib/database.types';
+
+export type Role = Database['public']['Tables']['users']['Row']['role'];
+
+export type Permission =
+  | 'jobs:view'
+  | 'jobs:create'
+  | 'jobs:edit_any'
+  | 'jobs:approve'
+  | 'schedules:view'
+  | 'clients:view'
+  | 'clients:manage'
+  | 'agencies:manage'
+  | 'booking_requests:review'
+  | 'invoices:view'
+  | 'invoices:manage'
+  | 'analytics:view'
+  | 'settings:manage'
+  | 'users:manage'
+  | 'portal:view';
+
+export const roleLabels: Record<Role, string> = {
+  admin: 'Admin',
+  host: 'Host / Sales',
+  traffic: 'Traffic',
+  finance: 'Finance',
+  advertiser: 'Advertiser',
+};
+
+export const staffRoles: Role[] = ['admin', 'host', 'traffic', 'finance'];
+
+// The same matrix as 20261104_role_based_access.sql; row level security
+// enforces it, this copy decides what the UI offers
+const rolePermissions: Record<Role, Permission[]> = {
+  admin: [
+    'jobs:view', 'jobs:create', 'jobs:edit_any', 'jobs:approve', 'schedules:view',
+    'clients:view', 'clients:manage', 'agencies:manage', 'booking_requests:review',
+    'invoices:view', 'invoices:manage', 'analytics:view', 'settings:manage', 'users:manage',
+  ],
+  host: [
+    'jobs:view', 'jobs:create', 'schedules:view', 'clients:view', 'clients:manage',
+    'booking_requests:review', 'invoices:view', 'analytics:view',
+  ],
+  traffic: [
+    'jobs:view', 'jobs:create', 'jobs:edit_any', 'jobs:approve', 'schedules:view',
+    'clients:view', 'clients:manage', 'booking_requests:review', 'analytics:view',
+  ],
+  finance: [
+    'jobs:view', 'schedules:view', 'clients:view', 'clients:manage', 'agencies:manage',
+    'invoices:view', 'invoices:manage', 'analytics:view',
+  ],
+  advertiser: ['portal:view'],
+};
+
+export const can = (role: Role | null | undefined, permission: Permission) =>
+  !!role && rolePermissions[role].includes(permission);
+
+// Most specific prefix first; pages not listed are open to every signed-in user
+const routePermissions: [string, Permission][] = [
+  ['/dashboard/jobs/new', 'jobs:create'],
+  ['/dashboard/jobs', 'jobs:view'],
+  ['/dashboard/approvals', 'jobs:approve'],
+  ['/dashboard/schedule', 'schedules:view'],
+  ['/dashboard/invoices/new', 'invoices:manage'],
+  ['/dashboard/invoices/from-schedules', 'invoices:manage'],
+  ['/dashboard/invoices', 'invoices:view'],
+  ['/dashboard/booking-requests', 'booking_requests:review'],
+  ['/dashboard/clients', 'clients:view'],
+  ['/dashboard/agencies', 'clients:view'],
+  ['/dashboard/analytics', 'analytics:view'],
+  ['/dashboard/users', 'users:manage'],
+  ['/portal', 'portal:view'],
+];
+
+export const routePermission = (pathname: string) =>
+  routePermissions.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`))?.[1] ?? null;
+
+export const canAccessRoute = (role: Role | null | undefined, pathname: string) => {
+  const permission = routePermission(pathname);
+  return !permission || can(role, permission);
+};
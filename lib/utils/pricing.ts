@@ -0,0 +1,72 @@
+import { computeLineTaxes, computeInvoiceTotals, roundCurrency as round } from './tax';
+import type { TaxRule, TaxedLine, InvoiceTotals } from './tax';
+
+export type PricingLine = {
+  quantity: number;
+  rate: number;
+  discount_rate?: number | null;
+  commission_rate?: number | null;
+  tax_code?: string | null;
+  wht_code?: string | null;
+};
+
+export type PricedAmounts = {
+  gross_amount: number;
+  discount_rate: number;
+  // Includes the line's share of any invoice-level discount
+  discount_amount: number;
+  commission_rate: number;
+  commission_amount: number;
+  // Net amount: gross - discount - commission
+  amount: number;
+};
+
+export type PricedTotals = InvoiceTotals & {
+  gross_total: number;
+  discount_total: number;
+  commission_total: number;
+};
+
+// Discounts come off first; the agency's commission is taken from what is left.
+// The forms use this for previews; saved lines are priced by the
+// price_invoice_item() trigger, which must follow the same rules.
+export const priceLine = (line: PricingLine, invoiceDiscountRate = 0): PricedAmounts => {
+  const gross_amount = round(line.quantity * line.rate);
+  const discount_rate = line.discount_rate ?? 0;
+  const commission_rate = line.commission_rate ?? 0;
+
+  const lineDiscount = round(gross_amount * discount_rate / 100);
+  const invoiceDiscount = round((gross_amount - lineDiscount) * invoiceDiscountRate / 100);
+  const discount_amount = round(lineDiscount + invoiceDiscount);
+  const commission_amount = round((gross_amount - discount_amount) * commission_rate / 100);
+
+  return {
+    gross_amount,
+    discount_rate,
+    discount_amount,
+    commission_rate,
+    commission_amount,
+    amount: round(gross_amount - discount_amount - commission_amount),
+  };
+};
+
+export const priceInvoice = <T extends PricingLine>(
+  lines: T[],
+  rules: TaxRule[],
+  options: { discountRate?: number } = {}
+): { lines: (T & PricedAmounts & TaxedLine)[]; totals: PricedTotals } => {
+  const priced = lines.map(line => {
+    const amounts = priceLine(line, options.discountRate ?? 0);
+    return { ...line, ...amounts, ...computeLineTaxes({ ...line, amount: amounts.amount }, rules) };
+  });
+
+  return {
+    lines: priced,
+    totals: {
+      ...computeInvoiceTotals(priced),
+      gross_total: round(priced.reduce((sum, line) => sum + line.gross_amount, 0)),
+      discount_total: round(priced.reduce((sum, line) => sum + line.discount_amount, 0)),
+      commission_total: round(priced.reduce((sum, line) => sum + line.commission_amount, 0)),
+    },
+  };
+};
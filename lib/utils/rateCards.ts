@@ -0,0 +1,94 @@
+import type { Database } from '@/lib/database.types';
+import type { DurationSeconds } from '@/lib/utils/duration';
+
+type Tables = Database['public']['Tables'];
+type RateCardDaypart = Tables['rate_card_dayparts']['Row'];
+type RateCardEntry = Tables['rate_card_entries']['Row'];
+
+export type Daypart = RateCardDaypart['daypart'];
+export type SpotLength = RateCardEntry['spot_length'];
+
+export type RateCardWithDetails = Tables['rate_cards']['Row'] & {
+  rate_card_dayparts: RateCardDaypart[];
+  rate_card_entries: RateCardEntry[];
+};
+
+export type RateSuggestion = {
+  rate: number;
+  dayparts: Daypart[];
+  spotLength: SpotLength;
+  // Per-spot breakdown, so the form can explain a blended rate
+  breakdown: { date: Date; time: string; rate: number }[];
+};
+
+export const SPOT_LENGTHS: SpotLength[] = [15, 30, 60];
+
+export const daypartLabels: Record<Daypart, string> = {
+  breakfast: 'Breakfast',
+  midday: 'Midday',
+  drive_time: 'Drive Time',
+  overnight: 'Overnight',
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const getDaypart = (time: string, dayparts: RateCardDaypart[]): Daypart | null => {
+  const minutes = toMinutes(time);
+
+  const match = dayparts.find(({ start_time, end_time }) => {
+    const start = toMinutes(start_time);
+    const end = toMinutes(end_time);
+    // Windows that end before they start wrap past midnight
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  });
+
+  return match ? match.daypart : null;
+};
+
+// Spots are priced at the shortest card length that fits them; anything
+// longer than a minute is charged pro rata on the 60s rate.
+export const getSpotLength = (seconds: DurationSeconds): { spotLength: SpotLength; multiplier: number } => {
+  const spotLength = SPOT_LENGTHS.find(length => seconds <= length);
+  if (spotLength) return { spotLength, multiplier: 1 };
+  return { spotLength: 60, multiplier: seconds / 60 };
+};
+
+export const suggestRate = (
+  rateCard: RateCardWithDetails,
+  options: { slots: { date: Date; time: string }[]; durationSeconds: DurationSeconds | null }
+): RateSuggestion | null => {
+  const { slots, durationSeconds } = options;
+  if (!durationSeconds || !slots.length) return null;
+
+  const { spotLength, multiplier } = getSpotLength(durationSeconds);
+
+  const breakdown: RateSuggestion['breakdown'] = [];
+  const dayparts = new Set<Daypart>();
+  for (const { date, time } of slots) {
+    const daypart = getDaypart(time, rateCard.rate_card_dayparts);
+    const entry = daypart && rateCard.rate_card_entries.find(e =>
+      e.daypart === daypart &&
+      e.spot_length === spotLength &&
+      e.weekday === date.getDay()
+    );
+    // A single unpriced spot means the card can't price this booking
+    if (!daypart || !entry) return null;
+
+    dayparts.add(daypart);
+    breakdown.push({ date, time, rate: Number(entry.rate) * multiplier });
+  }
+
+  const total = breakdown.reduce((sum, { rate }) => sum + rate, 0);
+
+  return {
+    rate: Math.round((total / breakdown.length) * 100) / 100,
+    dayparts: Array.from(dayparts),
+    spotLength,
+    breakdown,
+  };
+};
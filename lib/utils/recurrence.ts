@@ -0,0 +1,69 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+
+// A weekly booking pattern, e.g. "Mon-Fri at 07:30 and 17:15 for six weeks".
+// Dates are 'yyyy-MM-dd' strings and weekdays follow getDay() (0 = Sunday),
+// matching the job_recurrence_rules columns.
+export type RecurrencePattern = {
+  weekdays: number[];
+  air_times: string[];
+  start_date: string;
+  end_date: string;
+  excluded_dates: string[];
+};
+
+export type RecurrenceOccurrence = {
+  scheduled_date: string;
+  start_time: string;
+};
+
+// Guards against a typo in the end date producing thousands of rows
+export const MAX_OCCURRENCES = 2000;
+
+export const weekdayOptions = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+export const expandRecurrencePattern = (
+  pattern: RecurrencePattern,
+  options?: { from?: string }
+): RecurrenceOccurrence[] => {
+  const { weekdays, air_times, start_date, end_date, excluded_dates } = pattern;
+  if (!weekdays.length || !air_times.length || !start_date || !end_date) return [];
+
+  const start = options?.from && options.from > start_date ? options.from : start_date;
+  if (end_date < start) return [];
+
+  const excluded = new Set(excluded_dates);
+  const times = Array.from(new Set(air_times)).sort();
+  const occurrences: RecurrenceOccurrence[] = [];
+
+  for (const day of eachDayOfInterval({ start: parseISO(start), end: parseISO(end_date) })) {
+    const date = format(day, 'yyyy-MM-dd');
+    if (!weekdays.includes(day.getDay()) || excluded.has(date)) continue;
+
+    for (const time of times) {
+      occurrences.push({ scheduled_date: date, start_time: time });
+    }
+    if (occurrences.length > MAX_OCCURRENCES) {
+      throw new Error(`Recurrence produces more than ${MAX_OCCURRENCES} spots`);
+    }
+  }
+
+  return occurrences;
+};
+
+export const describeRecurrencePattern = (pattern: RecurrencePattern): string => {
+  const days = weekdayOptions
+    .filter(({ value }) => pattern.weekdays.includes(value))
+    .map(({ label }) => label)
+    .join(', ');
+  const times = [...pattern.air_times].sort().map(time => time.substring(0, 5)).join(' and ');
+
+  return `${days} at ${times}, ${pattern.start_date} to ${pattern.end_date}`;
+};
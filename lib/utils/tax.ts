@@ -0,0 +1,76 @@
+import type { Database } from '@/lib/database.types';
+
+export type TaxRule = Database['public']['Tables']['tax_rules']['Row'];
+export type TaxKind = TaxRule['kind'];
+
+// amount is the net line amount, after any discount and agency commission
+export type TaxableLine = {
+  amount: number;
+  tax_code?: string | null;
+  wht_code?: string | null;
+};
+
+export type TaxedLine = {
+  tax_code: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  wht_code: string | null;
+  wht_rate: number;
+  wht_amount: number;
+};
+
+export type InvoiceTotals = {
+  subtotal: number;
+  tax_total: number;
+  wht_total: number;
+  // subtotal + VAT
+  total_amount: number;
+  // What the client actually pays once WHT is withheld
+  amount_due: number;
+};
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+const round = roundCurrency;
+
+const findRule = (rules: TaxRule[], code: string | null | undefined, kind: TaxKind) => {
+  if (!code) return null;
+  const rule = rules.find(r => r.code === code);
+  if (!rule || rule.kind !== kind) {
+    throw new Error(`Unknown ${kind === 'vat' ? 'VAT' : 'withholding'} tax code: ${code}`);
+  }
+  return rule;
+};
+
+export const getDefaultTaxCode = (rules: TaxRule[], kind: TaxKind) =>
+  rules.find(rule => rule.kind === kind && rule.is_default && rule.is_active)?.code ?? null;
+
+// VAT and WHT are both charged on the line's net amount
+export const computeLineTaxes = (line: TaxableLine, rules: TaxRule[]): TaxedLine => {
+  const { amount } = line;
+  const vat = findRule(rules, line.tax_code, 'vat');
+  const wht = findRule(rules, line.wht_code, 'withholding');
+
+  return {
+    tax_code: vat?.code ?? null,
+    tax_rate: vat?.rate ?? 0,
+    tax_amount: round(amount * (vat?.rate ?? 0) / 100),
+    wht_code: wht?.code ?? null,
+    wht_rate: wht?.rate ?? 0,
+    wht_amount: round(amount * (wht?.rate ?? 0) / 100),
+  };
+};
+
+export const computeInvoiceTotals = (lines: (Pick<TaxableLine, 'amount'> & Pick<TaxedLine, 'tax_amount' | 'wht_amount'>)[]): InvoiceTotals => {
+  const subtotal = round(lines.reduce((sum, line) => sum + line.amount, 0));
+  const tax_total = round(lines.reduce((sum, line) => sum + line.tax_amount, 0));
+  const wht_total = round(lines.reduce((sum, line) => sum + line.wht_amount, 0));
+  const total_amount = round(subtotal + tax_total);
+
+  return {
+    subtotal,
+    tax_total,
+    wht_total,
+    total_amount,
+    amount_due: round(total_amount - wht_total),
+  };
+};
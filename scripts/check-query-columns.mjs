@@ -0,0 +1,230 @@
+// Fails when a Supabase query names a column or relationship the schema
+// doesn't have. The generated types catch unknown columns in inserts and
+// updates, but filters, ordering and select strings are plain strings to
+// the compiler and only fail at runtime.
+//
+// Columns and relationships come from lib/database.generated.ts, so run
+// `npm run db:types` first when the migrations have changed.
+import ts from 'typescript';
+import path from 'path';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const schemaFile = path.join(root, 'lib/database.generated.ts');
+
+// Query builder methods whose first argument is a column name
+const columnMethods = new Set([
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'likeAllOf', 'likeAnyOf', 'ilikeAllOf', 'ilikeAnyOf',
+  'is', 'in', 'contains', 'containedBy', 'overlaps', 'rangeGt', 'rangeGte', 'rangeLt', 'rangeLte', 'rangeAdjacent',
+  'textSearch', 'not', 'filter', 'order',
+]);
+const rowMethods = new Set(['insert', 'upsert', 'update']);
+
+const configFile = ts.readConfigFile(path.join(root, 'tsconfig.json'), ts.sys.readFile);
+const config = ts.parseJsonConfigFileContent(configFile.config, ts.sys, root);
+const program = ts.createProgram(config.fileNames, config.options);
+const checker = program.getTypeChecker();
+
+// Schema
+
+const propertyType = (typeNode, name) => {
+  if (!typeNode || !ts.isTypeLiteralNode(typeNode)) return undefined;
+  const member = typeNode.members.find(m => ts.isPropertySignature(m) && m.name.getText() === name);
+  return member?.type;
+};
+
+const stringLiterals = (typeNode) => ts.isTupleTypeNode(typeNode)
+  ? typeNode.elements.map(e => e.literal.text)
+  : [typeNode.literal.text];
+
+const loadSchema = () => {
+  const source = program.getSourceFile(schemaFile);
+  if (!source) throw new Error(`${schemaFile} is missing; run npm run db:types`);
+  const database = source.statements.find(s => ts.isTypeAliasDeclaration(s) && s.name.text === 'Database');
+  const tablesNode = propertyType(propertyType(database.type, 'public'), 'Tables');
+
+  const tables = new Map();
+  for (const member of tablesNode.members) {
+    const columns = new Set(propertyType(member.type, 'Row').members.map(m => m.name.getText()));
+    const relationships = propertyType(member.type, 'Relationships').elements.map(r => ({
+      name: propertyType(r, 'foreignKeyName').literal.text,
+      columns: stringLiterals(propertyType(r, 'columns')),
+      referencedRelation: propertyType(r, 'referencedRelation').literal.text,
+    }));
+    tables.set(member.name.getText(), { columns, relationships });
+  }
+  return tables;
+};
+
+const tables = loadSchema();
+
+// The table an embedded resource in a select string points at, if the two
+// are related. PostgREST accepts the table name, a foreign key column or a
+// foreign key name, optionally followed by !hint.
+const embeddedTable = (table, resource) => {
+  const [target, hint] = resource.split('!');
+  const from = tables.get(table);
+  const byColumn = from.relationships.find(r => r.columns.length === 1 && r.columns[0] === target);
+  if (byColumn) return byColumn.referencedRelation;
+  const byName = from.relationships.find(r => r.name === target);
+  if (byName) return byName.referencedRelation;
+  if (!tables.has(target)) return undefined;
+
+  const related = from.relationships.some(r => r.referencedRelation === target && (!hint || r.name === hint || r.columns.includes(hint)))
+    || tables.get(target).relationships.some(r => r.referencedRelation === table && (!hint || r.name === hint || r.columns.includes(hint)));
+  return related || hint === 'inner' || hint === 'left' ? target : undefined;
+};
+
+// Splits on commas outside parentheses
+const splitTopLevel = (text) => {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+// Checks
+
+const problems = [];
+
+const report = (node, message) => {
+  const source = node.getSourceFile();
+  const { line, character } = source.getLineAndCharacterOfPosition(node.getStart());
+  problems.push(`${path.relative(root, source.fileName)}:${line + 1}:${character + 1} ${message}`);
+};
+
+const checkColumn = (node, table, column) => {
+  // Filters on embedded resources (client.name) are checked by the embed
+  if (column.includes('.')) return;
+  const name = column.split('->')[0].split('::')[0];
+  if (!tables.get(table).columns.has(name)) report(node, `${table} has no column "${name}"`);
+};
+
+const checkSelect = (node, table, select) => {
+  for (let field of splitTopLevel(select.replace(/\s+/g, ''))) {
+    field = field.replace(/^\.\.\./, '');
+    if (field === '*') continue;
+
+    const embed = field.match(/^(?:\w+:)?([\w!]+)\((.*)\)$/);
+    if (embed) {
+      const [, resource, inner] = embed;
+      // Aggregates such as count()
+      if (!inner && !tables.has(resource.split('!')[0])) continue;
+      const target = embeddedTable(table, resource);
+      if (!target) {
+        report(node, `${table} has no relationship "${resource}"`);
+      } else {
+        checkSelect(node, target, inner);
+      }
+      continue;
+    }
+
+    checkColumn(node, table, field.replace(/^\w+:(?!:)/, ''));
+  }
+};
+
+// Each condition of an or() filter starts with its column
+const checkOrFilter = (node, table, filter) => {
+  for (const condition of splitTopLevel(filter)) {
+    const nested = condition.match(/^(?:not\.)?(?:and|or)\((.*)\)$/);
+    if (nested) {
+      checkOrFilter(node, table, nested[1]);
+    } else {
+      checkColumn(node, table, condition.split('.')[0]);
+    }
+  }
+};
+
+const checkRows = (node, table, rows) => {
+  const literals = ts.isArrayLiteralExpression(rows) ? rows.elements : [rows];
+  for (const literal of literals) {
+    if (!ts.isObjectLiteralExpression(literal)) continue;
+    for (const property of literal.properties) {
+      if (ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property)) {
+        checkColumn(property.name, table, property.name.getText().replace(/['"]/g, ''));
+      }
+    }
+  }
+};
+
+const stringValue = (node) =>
+  node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+
+// Follows a builder chain such as from('jobs').select(...).eq(...)
+const checkChain = (expression, table) => {
+  let node = expression;
+  while (ts.isPropertyAccessExpression(node.parent) && ts.isCallExpression(node.parent.parent)) {
+    const call = node.parent.parent;
+    const method = node.parent.name.text;
+    const [first] = call.arguments;
+
+    if (method === 'select' && stringValue(first) !== undefined) {
+      checkSelect(first, table, stringValue(first));
+    } else if (method === 'or' && stringValue(first) !== undefined) {
+      checkOrFilter(first, table, stringValue(first));
+    } else if (columnMethods.has(method) && stringValue(first) !== undefined) {
+      checkColumn(first, table, stringValue(first));
+    } else if (method === 'match' && first && ts.isObjectLiteralExpression(first)) {
+      checkRows(first, table, first);
+    } else if (rowMethods.has(method) && first) {
+      checkRows(first, table, first);
+    }
+    node = call;
+  }
+  return node;
+};
+
+// Builders kept in a variable (let query = supabase.from('jobs')...) carry
+// their table to later calls on that variable
+const builderTables = new Map();
+
+const visit = (node) => {
+  if (
+    ts.isCallExpression(node)
+    && ts.isPropertyAccessExpression(node.expression)
+    && node.expression.name.text === 'from'
+    && !node.expression.expression.getText().endsWith('storage')
+  ) {
+    const table = stringValue(node.arguments[0]);
+    if (table !== undefined) {
+      if (!tables.has(table)) {
+        report(node.arguments[0], `unknown table "${table}"`);
+      } else {
+        const end = checkChain(node, table);
+        if (ts.isVariableDeclaration(end.parent) && ts.isIdentifier(end.parent.name)) {
+          builderTables.set(checker.getSymbolAtLocation(end.parent.name), table);
+        }
+      }
+    }
+  }
+
+  if (ts.isIdentifier(node) && ts.isPropertyAccessExpression(node.parent) && node.parent.expression === node) {
+    const table = builderTables.get(checker.getSymbolAtLocation(node));
+    if (table) checkChain(node, table);
+  }
+
+  ts.forEachChild(node, visit);
+};
+
+for (const source of program.getSourceFiles()) {
+  if (source.isDeclarationFile || source.fileName.includes('/node_modules/') || source.fileName === schemaFile) continue;
+  visit(source);
+}
+
+if (problems.length) {
+  console.error(problems.join('\n'));
+  console.error(`\n${problems.length} quer${problems.length === 1 ? 'y references' : 'ies reference'} unknown columns`);
+  process.exit(1);
+}
+
+console.log('All queries match the schema');
@@ -1,7 +1,13 @@
 -- Enable Row Level Security
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schedules ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+
+-- Advertisers have no policies here: nothing ties an advertiser login to a
+-- client yet, so they see nothing but their own profile.
 
 -- Users policies
 CREATE POLICY "Users can view their own profile"
@@ -14,6 +20,41 @@ CREATE POLICY "Users can update their own profile"
   FOR UPDATE
   USING (auth.uid() = id);
 
+-- Clients policies
+CREATE POLICY "Admins have full access to clients"
+  ON public.clients
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Hosts can view all clients"
+  ON public.clients
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'host'
+    )
+  );
+
+CREATE POLICY "Hosts can manage their own clients"
+  ON public.clients
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'host'
+    )
+    AND created_by = auth.uid()
+  );
+
 -- Jobs policies
 -- Admins can do everything
 CREATE POLICY "Admins have full access to jobs"
@@ -51,19 +92,42 @@ CREATE POLICY "Hosts can manage their own jobs"
     AND created_by = auth.uid()
   );
 
--- Advertisers can only view their own jobs
-CREATE POLICY "Advertisers can view their own jobs"
-  ON public.jobs
+-- Schedules policies
+CREATE POLICY "Admins have full access to schedules"
+  ON public.schedules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Hosts can view all schedules"
+  ON public.schedules
   FOR SELECT
   USING (
     EXISTS (
       SELECT 1 FROM public.users
       WHERE users.id = auth.uid()
-      AND users.role = 'advertiser'
+      AND users.role = 'host'
     )
-    AND client = (
-      SELECT email FROM public.users
+  );
+
+CREATE POLICY "Hosts can manage schedules for their own jobs"
+  ON public.schedules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
       WHERE users.id = auth.uid()
+      AND users.role = 'host'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.created_by = auth.uid()
     )
   );
 
@@ -80,7 +144,7 @@ CREATE POLICY "Admins have full access to invoices"
     )
   );
 
--- Hosts can view all invoices and create/update invoices for their jobs
+-- Hosts can view all invoices and raise invoices for clients they book
 CREATE POLICY "Hosts can view all invoices"
   ON public.invoices
   FOR SELECT
@@ -101,56 +165,52 @@ CREATE POLICY "Hosts can manage invoices for their jobs"
       WHERE users.id = auth.uid()
       AND users.role = 'host'
     )
+    AND created_by = auth.uid()
     AND EXISTS (
       SELECT 1 FROM public.jobs
-      WHERE jobs.id = job_id
+      WHERE jobs.client_id = invoices.client_id
       AND jobs.created_by = auth.uid()
     )
   );
 
--- Advertisers can only view their own invoices
-CREATE POLICY "Advertisers can view their own invoices"
-  ON public.invoices
-  FOR SELECT
+-- Invoice items policies
+CREATE POLICY "Admins have full access to invoice items"
+  ON public.invoice_items
+  FOR ALL
   USING (
     EXISTS (
-      SELECT 1 FROM public.users u
-      JOIN public.jobs j ON j.client = u.email
-      WHERE u.id = auth.uid()
-      AND u.role = 'advertiser'
-      AND j.id = job_id
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
     )
   );
 
--- Create functions for real-time features
-CREATE OR REPLACE FUNCTION public.handle_job_status_change()
-RETURNS TRIGGER AS $$
-BEGIN
-  -- If job is completed, create an invoice automatically
-  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
-    INSERT INTO public.invoices (
-      job_id,
-      amount,
-      due_date,
-      status
-    ) VALUES (
-      NEW.id,
-      NEW.rate,
-      (CURRENT_TIMESTAMP + INTERVAL '30 days'),
-      'pending'
-    );
-  END IF;
-  
-  RETURN NEW;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
+CREATE POLICY "Hosts can view all invoice items"
+  ON public.invoice_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'host'
+    )
+  );
 
--- Create trigger for job status changes
-CREATE TRIGGER on_job_status_change
-  AFTER UPDATE ON public.jobs
-  FOR EACH ROW
-  WHEN (OLD.status IS DISTINCT FROM NEW.status)
-  EXECUTE FUNCTION public.handle_job_status_change();
+CREATE POLICY "Hosts can add items for their jobs to their invoices"
+  ON public.invoice_items
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND invoices.created_by = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = invoice_items.job_id
+      AND jobs.created_by = auth.uid()
+    )
+  );
 
 -- Function to check for overdue invoices
 CREATE OR REPLACE FUNCTION public.check_overdue_invoices()
@@ -159,6 +219,6 @@ BEGIN
   UPDATE public.invoices
   SET status = 'overdue'
   WHERE status = 'pending'
-    AND due_date < CURRENT_TIMESTAMP;
+    AND due_date < CURRENT_DATE;
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
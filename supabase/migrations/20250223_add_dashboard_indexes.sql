@@ -1,6 +1,6 @@
 -- Add indexes for faster dashboard queries
-CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at DESC);
-CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
-CREATE INDEX IF NOT EXISTS idx_schedules_scheduled_date ON schedules(scheduled_date);
-CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
-CREATE INDEX IF NOT EXISTS idx_clients_user_id ON clients(user_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON public.jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON public.jobs(status);
+CREATE INDEX IF NOT EXISTS idx_schedules_scheduled_date ON public.schedules(scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_jobs_created_by ON public.jobs(created_by);
+CREATE INDEX IF NOT EXISTS idx_clients_created_by ON public.clients(created_by);
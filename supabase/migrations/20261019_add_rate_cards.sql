@@ -0,0 +1,102 @@
+-- Station rate cards: prices per daypart, spot length and weekday
+CREATE TABLE IF NOT EXISTS public.rate_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  effective_from DATE,
+  effective_to DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from)
+);
+
+-- Clock windows for each daypart. A window whose end_time is before its
+-- start_time wraps past midnight (e.g. overnight 20:00 - 06:00).
+CREATE TABLE IF NOT EXISTS public.rate_card_dayparts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rate_card_id UUID NOT NULL REFERENCES public.rate_cards(id) ON DELETE CASCADE,
+  daypart TEXT NOT NULL CHECK (daypart IN ('breakfast', 'midday', 'drive_time', 'overnight')),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (rate_card_id, daypart)
+);
+
+-- Price of a single spot. weekday follows JavaScript's getDay() (0 = Sunday).
+CREATE TABLE IF NOT EXISTS public.rate_card_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rate_card_id UUID NOT NULL REFERENCES public.rate_cards(id) ON DELETE CASCADE,
+  daypart TEXT NOT NULL CHECK (daypart IN ('breakfast', 'midday', 'drive_time', 'overnight')),
+  spot_length INTEGER NOT NULL CHECK (spot_length IN (15, 30, 60)),
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  rate NUMERIC(12, 2) NOT NULL CHECK (rate >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (rate_card_id, daypart, spot_length, weekday)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_card_entries_rate_card_id ON public.rate_card_entries(rate_card_id);
+CREATE INDEX IF NOT EXISTS idx_rate_card_dayparts_rate_card_id ON public.rate_card_dayparts(rate_card_id);
+
+-- Record how a job's rate was arrived at
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS rate_card_id UUID REFERENCES public.rate_cards(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS suggested_rate NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS rate_override_reason TEXT;
+
+-- Enable Row Level Security
+ALTER TABLE public.rate_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_card_dayparts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_card_entries ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in prices spots from the same cards
+CREATE POLICY "Authenticated users can view rate cards"
+  ON public.rate_cards
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view rate card dayparts"
+  ON public.rate_card_dayparts
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view rate card entries"
+  ON public.rate_card_entries
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- Only admins maintain rate cards
+CREATE POLICY "Admins have full access to rate cards"
+  ON public.rate_cards
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins have full access to rate card dayparts"
+  ON public.rate_card_dayparts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins have full access to rate card entries"
+  ON public.rate_card_entries
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
@@ -0,0 +1,76 @@
+-- Store spot duration as whole seconds instead of free text.
+-- Mirrors parseDuration() in lib/utils/duration.ts.
+CREATE OR REPLACE FUNCTION public.parse_duration_seconds(input TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  value TEXT := lower(btrim(coalesce(input, '')));
+  part TEXT[];
+  total INTEGER := 0;
+BEGIN
+  IF value = '' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Bare number of seconds
+  IF value ~ '^\d+$' THEN
+    total := value::INTEGER;
+    RETURN NULLIF(total, 0);
+  END IF;
+
+  -- Clock notation, m:ss
+  IF value ~ '^\d+:[0-5]\d$' THEN
+    total := split_part(value, ':', 1)::INTEGER * 60 + split_part(value, ':', 2)::INTEGER;
+    RETURN NULLIF(total, 0);
+  END IF;
+
+  -- One or more "<amount> <unit>" parts, and nothing else
+  IF regexp_replace(
+       regexp_replace(value, '(\d+)\s*(seconds?|secs?|s|minutes?|mins?|m)', '', 'g'),
+       '[\s,]|and', '', 'g'
+     ) <> '' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR part IN
+    SELECT regexp_matches(value, '(\d+)\s*(seconds?|secs?|s|minutes?|mins?|m)', 'g')
+  LOOP
+    IF left(part[2], 1) = 'm' THEN
+      total := total + part[1]::INTEGER * 60;
+    ELSE
+      total := total + part[1]::INTEGER;
+    END IF;
+  END LOOP;
+
+  RETURN NULLIF(total, 0);
+EXCEPTION
+  -- A number too long for an INTEGER is a typo, so the row is flagged for
+  -- review rather than failing the migration
+  WHEN numeric_value_out_of_range THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE public.jobs RENAME COLUMN duration TO duration_legacy;
+ALTER TABLE public.jobs ALTER COLUMN duration_legacy DROP NOT NULL;
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS duration_seconds INTEGER CHECK (duration_seconds > 0),
+  ADD COLUMN IF NOT EXISTS duration_needs_review BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Migrate existing rows; anything the parser can't read is flagged and
+-- keeps its original text in duration_legacy for a human to check.
+UPDATE public.jobs
+SET duration_seconds = public.parse_duration_seconds(duration_legacy);
+
+UPDATE public.jobs
+SET duration_needs_review = TRUE
+WHERE duration_seconds IS NULL;
+
+-- Parsed rows no longer need the free text
+UPDATE public.jobs
+SET duration_legacy = NULL
+WHERE duration_seconds IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_duration_needs_review
+  ON public.jobs(duration_needs_review)
+  WHERE duration_needs_review;
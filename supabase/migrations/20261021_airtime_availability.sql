@@ -0,0 +1,261 @@
+-- Airtime availability: stop double bookings and cap commercial minutes
+-- per clock hour.
+
+-- Station-wide scheduling limits (single row)
+CREATE TABLE IF NOT EXISTS public.airtime_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  max_commercial_minutes_per_hour NUMERIC(5, 2) NOT NULL DEFAULT 12 CHECK (max_commercial_minutes_per_hour > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES public.users(id)
+);
+
+INSERT INTO public.airtime_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.airtime_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view airtime settings"
+  ON public.airtime_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update airtime settings"
+  ON public.airtime_settings
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_schedules_date_start ON public.schedules(scheduled_date, start_time);
+
+-- Returns every booked schedule that clashes with the requested slots.
+-- p_slots is a JSON array of { scheduled_date, start_time, end_time }.
+--   conflict_type 'overlap'    - the booked spot overlaps a requested slot
+--   conflict_type 'hour_limit' - the clock hour would exceed the commercial cap;
+--                                every spot already booked in that hour is listed
+-- Runs as SECURITY DEFINER so bookings made by other users are taken into account.
+CREATE OR REPLACE FUNCTION public.check_airtime_availability(
+  p_slots JSONB,
+  p_exclude_job_id UUID DEFAULT NULL,
+  p_exclude_schedule_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  conflict_type TEXT,
+  requested_date DATE,
+  requested_start_time TIME,
+  requested_end_time TIME,
+  schedule_id UUID,
+  job_id UUID,
+  job_title TEXT,
+  client_name TEXT,
+  start_time TIME,
+  end_time TIME,
+  booked_seconds INTEGER,
+  limit_seconds INTEGER
+) AS $$
+  WITH settings AS (
+    SELECT (max_commercial_minutes_per_hour * 60)::INTEGER AS limit_seconds
+    FROM public.airtime_settings
+    WHERE id
+  ),
+  slots AS (
+    SELECT
+      (slot->>'scheduled_date')::DATE AS scheduled_date,
+      (slot->>'start_time')::TIME AS start_time,
+      (slot->>'end_time')::TIME AS end_time
+    FROM jsonb_array_elements(p_slots) AS slot
+  ),
+  booked AS (
+    SELECT
+      s.id,
+      s.job_id,
+      s.scheduled_date,
+      s.start_time,
+      s.end_time,
+      j.title AS job_title,
+      c.name AS client_name
+    FROM public.schedules s
+    JOIN public.jobs j ON j.id = s.job_id
+    LEFT JOIN public.clients c ON c.id = j.client_id
+    WHERE s.status <> 'cancelled'
+      AND s.scheduled_date IN (SELECT scheduled_date FROM slots)
+      AND (p_exclude_job_id IS NULL OR s.job_id <> p_exclude_job_id)
+      AND (p_exclude_schedule_id IS NULL OR s.id <> p_exclude_schedule_id)
+  ),
+  -- Clock hours touched by the requested slots
+  hours AS (
+    SELECT DISTINCT
+      sl.scheduled_date,
+      make_time(h, 0, 0) AS hour_start,
+      CASE WHEN h = 23 THEN '24:00:00'::TIME ELSE make_time(h + 1, 0, 0) END AS hour_end
+    FROM slots sl,
+      generate_series(
+        extract(hour FROM sl.start_time)::INTEGER,
+        extract(hour FROM sl.end_time - INTERVAL '1 second')::INTEGER
+      ) AS h
+  ),
+  hour_usage AS (
+    SELECT
+      hr.scheduled_date,
+      hr.hour_start,
+      hr.hour_end,
+      (
+        SELECT coalesce(sum(greatest(0, extract(epoch FROM least(b.end_time, hr.hour_end) - greatest(b.start_time, hr.hour_start)))), 0)
+        FROM booked b
+        WHERE b.scheduled_date = hr.scheduled_date
+      ) + (
+        SELECT coalesce(sum(greatest(0, extract(epoch FROM least(sl.end_time, hr.hour_end) - greatest(sl.start_time, hr.hour_start)))), 0)
+        FROM slots sl
+        WHERE sl.scheduled_date = hr.scheduled_date
+      ) AS used_seconds
+    FROM hours hr
+  )
+  SELECT
+    'overlap',
+    sl.scheduled_date,
+    sl.start_time,
+    sl.end_time,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    NULL::INTEGER,
+    NULL::INTEGER
+  FROM slots sl
+  JOIN booked b
+    ON b.scheduled_date = sl.scheduled_date
+    AND b.start_time < sl.end_time
+    AND b.end_time > sl.start_time
+
+  UNION ALL
+
+  SELECT
+    'hour_limit',
+    hu.scheduled_date,
+    hu.hour_start,
+    hu.hour_end,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    hu.used_seconds::INTEGER,
+    settings.limit_seconds
+  FROM hour_usage hu
+  CROSS JOIN settings
+  LEFT JOIN booked b
+    ON b.scheduled_date = hu.scheduled_date
+    AND b.start_time < hu.hour_end
+    AND b.end_time > hu.hour_start
+  WHERE hu.used_seconds > settings.limit_seconds
+
+  ORDER BY 2, 3, 9;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Nearest start times to p_start_time (in 5 minute steps, either side)
+-- where a spot of p_duration_seconds can air without any conflict.
+CREATE OR REPLACE FUNCTION public.find_free_airtime_slots(
+  p_scheduled_date DATE,
+  p_start_time TIME,
+  p_duration_seconds INTEGER,
+  p_exclude_job_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+  start_time TIME,
+  end_time TIME,
+  minutes_from_requested INTEGER
+) AS $$
+DECLARE
+  step INTEGER;
+  direction INTEGER;
+  candidate_start TIME;
+  candidate_end TIME;
+  found INTEGER := 0;
+BEGIN
+  FOR step IN 1..144 LOOP
+    FOREACH direction IN ARRAY ARRAY[-1, 1] LOOP
+      candidate_start := p_start_time + make_interval(mins => step * 5 * direction);
+      candidate_end := candidate_start + make_interval(secs => p_duration_seconds);
+
+      -- Keep suggestions on the requested day
+      CONTINUE WHEN (direction < 0 AND candidate_start > p_start_time)
+        OR (direction > 0 AND candidate_start < p_start_time)
+        OR candidate_end < candidate_start;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM public.check_airtime_availability(
+          jsonb_build_array(jsonb_build_object(
+            'scheduled_date', p_scheduled_date,
+            'start_time', candidate_start,
+            'end_time', candidate_end
+          )),
+          p_exclude_job_id
+        )
+      ) THEN
+        start_time := candidate_start;
+        end_time := candidate_end;
+        minutes_from_requested := step * 5 * direction;
+        RETURN NEXT;
+        found := found + 1;
+        IF found >= p_limit THEN
+          RETURN;
+        END IF;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enforce availability on every write, whatever the client does
+CREATE OR REPLACE FUNCTION public.enforce_airtime_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  conflict RECORD;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO conflict
+  FROM public.check_airtime_availability(
+    jsonb_build_array(jsonb_build_object(
+      'scheduled_date', NEW.scheduled_date,
+      'start_time', NEW.start_time,
+      'end_time', NEW.end_time
+    )),
+    NULL,
+    NEW.id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'exclusion_violation',
+      MESSAGE = CASE conflict.conflict_type
+        WHEN 'overlap' THEN format(
+          'Airtime on %s at %s is already booked for "%s"',
+          NEW.scheduled_date, NEW.start_time, conflict.job_title
+        )
+        ELSE format(
+          'Booking on %s at %s exceeds the commercial limit for the %s hour',
+          NEW.scheduled_date, NEW.start_time, conflict.requested_start_time
+        )
+      END,
+      DETAIL = conflict.conflict_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_schedule_airtime_check
+  BEFORE INSERT OR UPDATE OF scheduled_date, start_time, end_time, status ON public.schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_airtime_availability();
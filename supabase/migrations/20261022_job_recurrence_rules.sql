@@ -0,0 +1,52 @@
+-- Weekly recurrence rules for jobs. Occurrences are expanded into
+-- schedules rows by expandRecurrencePattern() in lib/utils/recurrence.ts.
+CREATE TABLE IF NOT EXISTS public.job_recurrence_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  -- 0 = Sunday, as returned by JavaScript's getDay()
+  weekdays SMALLINT[] NOT NULL CHECK (
+    cardinality(weekdays) > 0
+    AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+  ),
+  air_times TIME[] NOT NULL CHECK (cardinality(air_times) > 0),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  excluded_dates DATE[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_recurrence_rules_job_id ON public.job_recurrence_rules(job_id);
+
+-- Schedules generated from a rule, so they can be regenerated when it changes
+ALTER TABLE public.schedules
+  ADD COLUMN IF NOT EXISTS recurrence_rule_id UUID REFERENCES public.job_recurrence_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_schedules_recurrence_rule_id ON public.schedules(recurrence_rule_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.job_recurrence_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins have full access to recurrence rules"
+  ON public.job_recurrence_rules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Hosts can manage recurrence rules for their jobs"
+  ON public.job_recurrence_rules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.created_by = auth.uid()
+    )
+  );
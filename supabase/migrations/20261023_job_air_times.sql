@@ -0,0 +1,36 @@
+-- Jobs can air several times a day. air_times holds every daily slot;
+-- air_time is kept as the earliest of them for older readers.
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS air_times TIME[] NOT NULL DEFAULT '{}';
+
+UPDATE public.jobs
+SET air_times = ARRAY[air_time::TIME]
+WHERE cardinality(air_times) = 0
+  AND air_time IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.sync_job_air_time()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Writers that only know about the single air_time column
+  IF cardinality(NEW.air_times) = 0 AND NEW.air_time IS NOT NULL THEN
+    NEW.air_times := ARRAY[NEW.air_time::TIME];
+  ELSIF TG_OP = 'UPDATE'
+    AND NEW.air_time IS DISTINCT FROM OLD.air_time
+    AND NEW.air_times = OLD.air_times THEN
+    NEW.air_times := ARRAY[NEW.air_time::TIME];
+  END IF;
+
+  NEW.air_times := ARRAY(SELECT DISTINCT t FROM unnest(NEW.air_times) AS t ORDER BY t);
+  NEW.air_time := to_char(NEW.air_times[1], 'HH24:MI');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_job_air_times_change
+  BEFORE INSERT OR UPDATE OF air_time, air_times ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_job_air_time();
+
+ALTER TABLE public.jobs
+  ADD CONSTRAINT jobs_air_times_not_empty CHECK (cardinality(air_times) > 0);
@@ -0,0 +1,16 @@
+-- Proof-of-performance billing: invoices built from the spots that aired
+-- in a billing period. Each billed schedule points at its invoice line so
+-- the same spot can't be invoiced twice.
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS billing_period_start DATE,
+  ADD COLUMN IF NOT EXISTS billing_period_end DATE,
+  ADD CONSTRAINT invoices_billing_period_check
+    CHECK (billing_period_end IS NULL OR billing_period_start IS NULL OR billing_period_end >= billing_period_start);
+
+ALTER TABLE public.schedules
+  ADD COLUMN IF NOT EXISTS invoice_item_id UUID REFERENCES public.invoice_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_schedules_invoice_item_id ON public.schedules(invoice_item_id);
+CREATE INDEX IF NOT EXISTS idx_schedules_billable
+  ON public.schedules(scheduled_date)
+  WHERE status = 'completed' AND invoice_item_id IS NULL;
@@ -0,0 +1,117 @@
+-- One invoice numbering scheme for every path: <prefix>-<year>-<number>,
+-- e.g. RR-2026-00042. Numbers come from a counter row that is locked and
+-- incremented inside the inserting transaction, so a rolled-back insert
+-- gives its number back and the sequence has no gaps.
+
+-- Numbering settings (single row)
+CREATE TABLE IF NOT EXISTS public.invoice_number_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  prefix TEXT NOT NULL DEFAULT 'INV' CHECK (prefix ~ '^[A-Za-z0-9]{1,10}$'),
+  pad_length INTEGER NOT NULL DEFAULT 5 CHECK (pad_length BETWEEN 1 AND 10),
+  reset_yearly BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES public.users(id)
+);
+
+INSERT INTO public.invoice_number_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Last number issued per year; year 0 is used when numbers never reset
+CREATE TABLE IF NOT EXISTS public.invoice_number_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+ALTER TABLE public.invoice_number_settings ENABLE ROW LEVEL SECURITY;
+-- Counters are only touched through the functions below
+ALTER TABLE public.invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view invoice number settings"
+  ON public.invoice_number_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update invoice number settings"
+  ON public.invoice_number_settings
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.format_invoice_number(p_year INTEGER, p_number INTEGER)
+RETURNS TEXT AS $$
+  SELECT settings.prefix
+    || CASE WHEN settings.reset_yearly THEN '-' || p_year ELSE '' END
+    || '-' || lpad(p_number::TEXT, settings.pad_length, '0')
+  FROM public.invoice_number_settings settings
+  WHERE settings.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Claims the next number. Must run in the transaction that inserts the invoice.
+CREATE OR REPLACE FUNCTION public.next_invoice_number()
+RETURNS TEXT AS $$
+DECLARE
+  counter_year INTEGER;
+  next_number INTEGER;
+BEGIN
+  SELECT CASE WHEN reset_yearly THEN extract(year FROM now())::INTEGER ELSE 0 END
+  INTO counter_year
+  FROM public.invoice_number_settings
+  WHERE id;
+
+  INSERT INTO public.invoice_number_counters AS counters (year, last_number)
+  VALUES (counter_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = counters.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  RETURN public.format_invoice_number(extract(year FROM now())::INTEGER, next_number);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- What the next invoice will be numbered, without claiming it
+CREATE OR REPLACE FUNCTION public.preview_next_invoice_number()
+RETURNS TEXT AS $$
+  SELECT public.format_invoice_number(
+    extract(year FROM now())::INTEGER,
+    coalesce((
+      SELECT counters.last_number
+      FROM public.invoice_number_counters counters
+      WHERE counters.year = CASE WHEN settings.reset_yearly THEN extract(year FROM now())::INTEGER ELSE 0 END
+    ), 0) + 1
+  )
+  FROM public.invoice_number_settings settings
+  WHERE settings.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Every invoice gets its number from the counter, whatever the client sent
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.invoice_number := public.next_invoice_number();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_invoice_assign_number
+  BEFORE INSERT ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Issued numbers never change
+CREATE OR REPLACE FUNCTION public.prevent_invoice_number_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Invoice numbers cannot be changed once issued';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_invoice_number_locked
+  BEFORE UPDATE OF invoice_number ON public.invoices
+  FOR EACH ROW
+  WHEN (NEW.invoice_number IS DISTINCT FROM OLD.invoice_number)
+  EXECUTE FUNCTION public.prevent_invoice_number_change();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_invoice_number ON public.invoices(invoice_number);
@@ -0,0 +1,174 @@
+-- Payment ledger for invoices. Payments are never deleted; a mistaken
+-- payment is reversed, which keeps the history intact.
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('pending', 'partially_paid', 'paid', 'overdue'));
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL CHECK (method IN ('bank_transfer', 'cash', 'pos', 'cheque')),
+  reference TEXT,
+  notes TEXT,
+  reversed_at TIMESTAMPTZ,
+  reversed_by UUID REFERENCES public.users(id),
+  reversal_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  CHECK ((reversed_at IS NULL) = (reversed_by IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON public.payments(invoice_id);
+
+-- Recompute amount_paid and the payment-driven status from the ledger
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id UUID)
+RETURNS void AS $$
+  UPDATE public.invoices i
+  SET
+    amount_paid = ledger.amount_paid,
+    status = CASE
+      WHEN ledger.amount_paid >= i.total_amount AND i.total_amount > 0 THEN 'paid'
+      WHEN ledger.amount_paid > 0 THEN 'partially_paid'
+      WHEN i.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'pending'
+    END,
+    paid_date = CASE WHEN ledger.amount_paid >= i.total_amount AND i.total_amount > 0 THEN ledger.last_payment_date END,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      coalesce(sum(amount), 0) AS amount_paid,
+      max(payment_date) AS last_payment_date
+    FROM public.payments
+    WHERE invoice_id = p_invoice_id
+      AND reversed_at IS NULL
+  ) AS ledger
+  WHERE i.id = p_invoice_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Payments can't take an invoice past its total
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  balance NUMERIC;
+BEGIN
+  SELECT i.total_amount - coalesce((
+    SELECT sum(p.amount) FROM public.payments p
+    WHERE p.invoice_id = i.id AND p.reversed_at IS NULL AND p.id <> NEW.id
+  ), 0)
+  INTO balance
+  FROM public.invoices i
+  WHERE i.id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF NEW.reversed_at IS NULL AND NEW.amount > balance THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_payment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_invoice_payment_status(NEW.invoice_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_payment_check_amount
+  BEFORE INSERT OR UPDATE OF amount, reversed_at ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_payment_amount();
+
+CREATE TRIGGER on_payment_change
+  AFTER INSERT OR UPDATE OF amount, reversed_at ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_payment_change();
+
+-- Only the reversal columns may change once a payment is recorded
+CREATE OR REPLACE FUNCTION public.prevent_payment_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Payment has already been reversed';
+  END IF;
+  IF (NEW.invoice_id, NEW.amount, NEW.payment_date, NEW.method, NEW.reference, NEW.created_by)
+    IS DISTINCT FROM (OLD.invoice_id, OLD.amount, OLD.payment_date, OLD.method, OLD.reference, OLD.created_by) THEN
+    RAISE EXCEPTION 'Payments cannot be edited; reverse the payment and record a new one';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_payment_edit
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_payment_edit();
+
+-- Overdue checks must leave part-paid invoices alone
+CREATE OR REPLACE FUNCTION public.check_overdue_invoices()
+RETURNS void AS $$
+BEGIN
+  UPDATE public.invoices
+  SET status = 'overdue'
+  WHERE status = 'pending'
+    AND amount_paid = 0
+    AND due_date < CURRENT_TIMESTAMP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable Row Level Security
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins have full access to payments"
+  ON public.payments
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Hosts can view all payments"
+  ON public.payments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'host'
+    )
+  );
+
+CREATE POLICY "Hosts can record payments on their invoices"
+  ON public.payments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_id
+      AND invoices.created_by = auth.uid()
+    )
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Hosts can reverse payments on their invoices"
+  ON public.payments
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_id
+      AND invoices.created_by = auth.uid()
+    )
+  );
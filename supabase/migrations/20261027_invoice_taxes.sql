@@ -0,0 +1,114 @@
+-- VAT and withholding tax on invoices. Each line carries a VAT code and an
+-- optional WHT code; the rates used are copied onto the line so later rule
+-- changes don't alter issued invoices. Mirrors computeInvoiceTotals() in
+-- lib/utils/tax.ts.
+CREATE TABLE IF NOT EXISTS public.tax_rules (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z0-9_]{1,20}$'),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('vat', 'withholding')),
+  rate NUMERIC(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one default per kind
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_rules_default_kind
+  ON public.tax_rules(kind)
+  WHERE is_default;
+
+INSERT INTO public.tax_rules (code, name, kind, rate, is_default) VALUES
+  ('VAT', 'VAT 7.5%', 'vat', 7.5, TRUE),
+  ('VAT_EXEMPT', 'VAT exempt', 'vat', 0, FALSE),
+  ('WHT_5', 'Withholding tax 5%', 'withholding', 5, FALSE),
+  ('WHT_10', 'Withholding tax 10%', 'withholding', 10, FALSE)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS tax_code TEXT REFERENCES public.tax_rules(code),
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS wht_code TEXT REFERENCES public.tax_rules(code),
+  ADD COLUMN IF NOT EXISTS wht_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS wht_amount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+-- total_amount is subtotal + VAT; the client pays total_amount - wht_total
+-- and remits the withheld part to the tax authority.
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS subtotal NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS tax_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS wht_total NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+UPDATE public.invoices SET subtotal = total_amount WHERE subtotal IS NULL;
+ALTER TABLE public.invoices ALTER COLUMN subtotal SET NOT NULL;
+ALTER TABLE public.invoices ALTER COLUMN subtotal SET DEFAULT 0;
+
+-- Payments settle the amount due after withholding
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id UUID)
+RETURNS void AS $$
+  UPDATE public.invoices i
+  SET
+    amount_paid = ledger.amount_paid,
+    status = CASE
+      WHEN ledger.amount_paid >= i.total_amount - i.wht_total AND i.total_amount > 0 THEN 'paid'
+      WHEN ledger.amount_paid > 0 THEN 'partially_paid'
+      WHEN i.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'pending'
+    END,
+    paid_date = CASE
+      WHEN ledger.amount_paid >= i.total_amount - i.wht_total AND i.total_amount > 0 THEN ledger.last_payment_date
+    END,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      coalesce(sum(amount), 0) AS amount_paid,
+      max(payment_date) AS last_payment_date
+    FROM public.payments
+    WHERE invoice_id = p_invoice_id
+      AND reversed_at IS NULL
+  ) AS ledger
+  WHERE i.id = p_invoice_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  balance NUMERIC;
+BEGIN
+  SELECT i.total_amount - i.wht_total - coalesce((
+    SELECT sum(p.amount) FROM public.payments p
+    WHERE p.invoice_id = i.id AND p.reversed_at IS NULL AND p.id <> NEW.id
+  ), 0)
+  INTO balance
+  FROM public.invoices i
+  WHERE i.id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF NEW.reversed_at IS NULL AND NEW.amount > balance THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view tax rules"
+  ON public.tax_rules
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage tax rules"
+  ON public.tax_rules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
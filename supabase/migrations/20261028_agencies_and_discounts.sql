@@ -0,0 +1,91 @@
+-- Advertising agencies book airtime on behalf of clients and keep a
+-- commission. Bookings and invoice lines carry a discount and a commission
+-- rate; amounts flow gross -> less discount -> less commission -> net, and
+-- VAT/WHT are charged on the net amount. Mirrors priceLine() in
+-- lib/utils/pricing.ts.
+CREATE TABLE IF NOT EXISTS public.agencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  contact_person TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  commission_rate NUMERIC(5, 2) NOT NULL DEFAULT 15 CHECK (commission_rate >= 0 AND commission_rate <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS agency_id UUID REFERENCES public.agencies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clients_agency_id ON public.clients(agency_id);
+
+-- The agency and rates agreed when the job was booked
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS agency_id UUID REFERENCES public.agencies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_rate >= 0 AND discount_rate <= 100),
+  ADD COLUMN IF NOT EXISTS commission_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (commission_rate >= 0 AND commission_rate <= 100);
+
+-- amount stays the net line amount that taxes are charged on.
+-- discount_amount includes the line's share of any invoice-level discount.
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS gross_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS discount_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_rate >= 0 AND discount_rate <= 100),
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS commission_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (commission_rate >= 0 AND commission_rate <= 100),
+  ADD COLUMN IF NOT EXISTS commission_amount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+UPDATE public.invoice_items SET gross_amount = amount WHERE gross_amount IS NULL;
+ALTER TABLE public.invoice_items ALTER COLUMN gross_amount SET NOT NULL;
+ALTER TABLE public.invoice_items ALTER COLUMN gross_amount SET DEFAULT 0;
+
+-- subtotal is the net total (gross - discount - commission)
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS agency_id UUID REFERENCES public.agencies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_rate >= 0 AND discount_rate <= 100),
+  ADD COLUMN IF NOT EXISTS gross_total NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS discount_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS commission_total NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+UPDATE public.invoices SET gross_total = subtotal WHERE gross_total IS NULL;
+ALTER TABLE public.invoices ALTER COLUMN gross_total SET NOT NULL;
+ALTER TABLE public.invoices ALTER COLUMN gross_total SET DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_agency_id ON public.invoices(agency_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.agencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view agencies"
+  ON public.agencies
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins have full access to agencies"
+  ON public.agencies
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Hosts can add agencies"
+  ON public.agencies
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'host'
+    )
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Hosts can update their own agencies"
+  ON public.agencies
+  FOR UPDATE
+  USING (created_by = auth.uid());
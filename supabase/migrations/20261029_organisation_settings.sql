@@ -0,0 +1,40 @@
+-- Station details printed on invoices (single row). payment_terms_days sets
+-- the default due date for new invoices.
+CREATE TABLE IF NOT EXISTS public.organisation_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  station_name TEXT NOT NULL DEFAULT 'Our Station',
+  logo_url TEXT,
+  address TEXT,
+  email TEXT,
+  phone TEXT,
+  rc_number TEXT,
+  tin TEXT,
+  bank_name TEXT,
+  bank_account_name TEXT,
+  bank_account_number TEXT CHECK (bank_account_number ~ '^[0-9]{10}$'),
+  payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days BETWEEN 0 AND 365),
+  payment_terms_note TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES public.users(id)
+);
+
+INSERT INTO public.organisation_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security
+ALTER TABLE public.organisation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view organisation settings"
+  ON public.organisation_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update organisation settings"
+  ON public.organisation_settings
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
@@ -0,0 +1,68 @@
+-- Station-wide rate card defaults (single row)
+CREATE TABLE IF NOT EXISTS public.rate_card_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  -- Preferred when more than one active card covers a date
+  default_rate_card_id UUID REFERENCES public.rate_cards(id) ON DELETE SET NULL,
+  -- Spot length new jobs start with
+  default_spot_length INTEGER NOT NULL DEFAULT 30 CHECK (default_spot_length IN (15, 30, 60)),
+  require_override_reason BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES public.users(id)
+);
+
+INSERT INTO public.rate_card_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Which emails each user wants; a missing row means the defaults below
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  invoice_overdue BOOLEAN NOT NULL DEFAULT TRUE,
+  payment_received BOOLEAN NOT NULL DEFAULT TRUE,
+  booking_requests BOOLEAN NOT NULL DEFAULT TRUE,
+  schedule_reminders BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep the profile email in step once a changed auth email is confirmed
+CREATE OR REPLACE FUNCTION public.sync_user_email()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.users
+  SET email = NEW.email
+  WHERE id = NEW.id
+    AND email IS DISTINCT FROM NEW.email;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_change ON auth.users;
+CREATE TRIGGER on_auth_user_email_change
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.sync_user_email();
+
+-- Enable Row Level Security
+ALTER TABLE public.rate_card_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view rate card settings"
+  ON public.rate_card_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update rate card settings"
+  ON public.rate_card_settings
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can manage their own notification preferences"
+  ON public.notification_preferences
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
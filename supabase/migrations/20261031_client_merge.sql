@@ -0,0 +1,55 @@
+-- Merges a duplicate client into the one being kept. Jobs and invoices are
+-- moved across, blank contact details are filled from the duplicate, and the
+-- duplicate is deleted, all in one transaction.
+CREATE OR REPLACE FUNCTION public.merge_clients(p_keep_id UUID, p_duplicate_id UUID)
+RETURNS public.clients AS $$
+DECLARE
+  duplicate public.clients;
+  kept public.clients;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'host')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can merge clients';
+  END IF;
+
+  IF p_keep_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  -- Lock both rows so a concurrent edit or merge can't interleave
+  PERFORM 1 FROM public.clients WHERE id IN (p_keep_id, p_duplicate_id) FOR UPDATE;
+
+  SELECT * INTO duplicate FROM public.clients WHERE id = p_duplicate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_duplicate_id;
+  END IF;
+
+  UPDATE public.clients
+  SET
+    contact_person = coalesce(contact_person, duplicate.contact_person),
+    email = coalesce(email, duplicate.email),
+    phone = coalesce(phone, duplicate.phone),
+    address = coalesce(address, duplicate.address),
+    agency_id = coalesce(agency_id, duplicate.agency_id),
+    updated_at = NOW()
+  WHERE id = p_keep_id
+  RETURNING * INTO kept;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_keep_id;
+  END IF;
+
+  UPDATE public.jobs SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+  UPDATE public.invoices SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+
+  DELETE FROM public.clients WHERE id = p_duplicate_id;
+
+  RETURN kept;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_client_id ON public.jobs(client_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_client_id ON public.invoices(client_id);
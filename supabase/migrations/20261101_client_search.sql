@@ -0,0 +1,115 @@
+-- Ranked client search and duplicate detection, backed by trigram indexes.
+-- Names are compared without punctuation or legal suffixes so that
+-- "Dangote Ltd." and "Dangote Limited" are treated as the same name.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION public.normalise_client_name(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(replace(lower(coalesce(p_name, '')), '&', ' and '), '[^a-z0-9 ]', ' ', 'g'),
+      '\m(limited|ltd|plc|llc|company|co|incorporated|inc)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Everything a search can match on; phone numbers are reduced to digits
+CREATE OR REPLACE FUNCTION public.client_search_text(
+  p_name TEXT,
+  p_contact_person TEXT,
+  p_email TEXT,
+  p_phone TEXT
+)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    public.normalise_client_name(p_name),
+    lower(p_contact_person),
+    lower(p_email),
+    nullif(regexp_replace(coalesce(p_phone, ''), '[^0-9]', '', 'g'), '')
+  )
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_clients_search_text ON public.clients
+  USING gin (public.client_search_text(name, contact_person, email, phone) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_clients_normalised_name ON public.clients
+  USING gin (public.normalise_client_name(name) gin_trgm_ops);
+
+-- Best matches first: exact and prefix name matches, then the closest
+-- fuzzy matches on name, contact person, email or phone
+CREATE OR REPLACE FUNCTION public.search_clients(p_query TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  contact_person TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  agency_id UUID,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT
+      lower(trim(p_query)) AS text,
+      public.normalise_client_name(p_query) AS name,
+      regexp_replace(p_query, '[^0-9]', '', 'g') AS digits
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      public.normalise_client_name(c.name) AS normalised_name,
+      public.client_search_text(c.name, c.contact_person, c.email, c.phone) AS search_text
+    FROM public.clients c
+  )
+  SELECT
+    m.id, m.name, m.contact_person, m.email, m.phone, m.address, m.agency_id,
+    m.created_at, m.created_by, m.updated_at,
+    greatest(
+      CASE
+        WHEN m.normalised_name = query.name THEN 1
+        WHEN query.name <> '' AND m.normalised_name LIKE query.name || '%' THEN 0.9
+        ELSE 0
+      END,
+      similarity(m.normalised_name, query.name),
+      word_similarity(query.text, m.search_text)
+    )::REAL AS rank
+  FROM matches m, query
+  WHERE query.text <> ''
+    AND (
+      m.search_text ILIKE '%' || query.text || '%'
+      OR query.text <% m.search_text
+      OR (length(query.digits) >= 4 AND m.search_text LIKE '%' || query.digits || '%')
+    )
+  ORDER BY rank DESC, m.name
+  LIMIT greatest(p_limit, 1);
+$$ LANGUAGE sql STABLE;
+
+-- Existing clients whose names look like the same business
+CREATE OR REPLACE FUNCTION public.find_duplicate_clients(p_name TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  contact_person TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  agency_id UUID,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  SELECT
+    c.id, c.name, c.contact_person, c.email, c.phone, c.address, c.agency_id,
+    c.created_at, c.created_by, c.updated_at,
+    similarity(public.normalise_client_name(c.name), public.normalise_client_name(p_name)) AS rank
+  FROM public.clients c
+  WHERE public.normalise_client_name(p_name) <> ''
+    AND public.normalise_client_name(c.name) % public.normalise_client_name(p_name)
+  ORDER BY rank DESC, c.name
+  LIMIT greatest(p_limit, 1);
+$$ LANGUAGE sql STABLE SET pg_trgm.similarity_threshold = 0.6;
@@ -0,0 +1,208 @@
+-- Advertiser portal. An advertiser user is linked to one client and sees
+-- only that client's jobs, spots and invoices. Advertisers ask for airtime
+-- through booking requests, which a host or admin approves by creating the
+-- job or rejects with a note.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_client_id ON public.users(client_id);
+
+-- Users may edit their own profile, but only staff may move an advertiser
+-- to a different client
+CREATE OR REPLACE FUNCTION public.protect_user_client_link()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.client_id IS DISTINCT FROM OLD.client_id
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'host')
+    )
+  THEN
+    RAISE EXCEPTION 'Only staff can change which client a user belongs to';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_user_client_change ON public.users;
+CREATE TRIGGER on_user_client_change
+  BEFORE UPDATE OF client_id ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_user_client_link();
+
+-- The client the signed-in advertiser belongs to; NULL for staff
+CREATE OR REPLACE FUNCTION public.current_client_id()
+RETURNS UUID AS $$
+  SELECT client_id
+  FROM public.users
+  WHERE id = auth.uid()
+    AND role = 'advertiser'
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Staff link an advertiser's login to the client they buy airtime for
+CREATE OR REPLACE FUNCTION public.link_advertiser_to_client(p_email TEXT, p_client_id UUID)
+RETURNS public.users AS $$
+DECLARE
+  advertiser public.users;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'host')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can give advertisers portal access';
+  END IF;
+
+  UPDATE public.users
+  SET client_id = p_client_id
+  WHERE lower(email) = lower(trim(p_email))
+    AND role = 'advertiser'
+  RETURNING * INTO advertiser;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No advertiser account uses %', p_email;
+  END IF;
+
+  RETURN advertiser;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.unlink_advertiser(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'host')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can remove portal access';
+  END IF;
+
+  UPDATE public.users SET client_id = NULL WHERE id = p_user_id AND role = 'advertiser';
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Advertisers of a client, for the client's portal access list
+CREATE OR REPLACE FUNCTION public.list_client_advertisers(p_client_id UUID)
+RETURNS TABLE (id UUID, email TEXT, name TEXT) AS $$
+  SELECT u.id, u.email, u.name
+  FROM public.users u
+  WHERE u.client_id = p_client_id
+    AND u.role = 'advertiser'
+    AND EXISTS (
+      SELECT 1 FROM public.users staff
+      WHERE staff.id = auth.uid()
+      AND staff.role IN ('admin', 'host')
+    )
+  ORDER BY u.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE IF NOT EXISTS public.booking_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds > 0),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  -- 'HH:MM' times the advertiser would like; staff choose the actual slots
+  preferred_air_times TEXT[] NOT NULL DEFAULT '{}',
+  spots_per_day INTEGER NOT NULL DEFAULT 1 CHECK (spots_per_day > 0),
+  budget NUMERIC(12, 2) CHECK (budget IS NULL OR budget > 0),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  review_note TEXT,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  CHECK ((status = 'pending') = (reviewed_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_requests_client_id ON public.booking_requests(client_id);
+CREATE INDEX IF NOT EXISTS idx_booking_requests_status ON public.booking_requests(status);
+
+-- Enable Row Level Security
+ALTER TABLE public.booking_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view booking requests"
+  ON public.booking_requests
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'host')
+    )
+  );
+
+CREATE POLICY "Staff can review booking requests"
+  ON public.booking_requests
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'host')
+    )
+  );
+
+CREATE POLICY "Advertisers can view their own booking requests"
+  ON public.booking_requests
+  FOR SELECT
+  USING (client_id = public.current_client_id());
+
+CREATE POLICY "Advertisers can submit booking requests"
+  ON public.booking_requests
+  FOR INSERT
+  WITH CHECK (
+    client_id = public.current_client_id()
+    AND created_by = auth.uid()
+    AND status = 'pending'
+  );
+
+-- Older projects may still carry advertiser policies that matched on a
+-- jobs.client column that never existed; replace them with client-based ones
+DROP POLICY IF EXISTS "Advertisers can view their own jobs" ON public.jobs;
+DROP POLICY IF EXISTS "Advertisers can view their own invoices" ON public.invoices;
+
+CREATE POLICY "Advertisers can view their own jobs"
+  ON public.jobs
+  FOR SELECT
+  USING (client_id = public.current_client_id());
+
+CREATE POLICY "Advertisers can view their own invoices"
+  ON public.invoices
+  FOR SELECT
+  USING (client_id = public.current_client_id());
+
+CREATE POLICY "Advertisers can view their own client"
+  ON public.clients
+  FOR SELECT
+  USING (id = public.current_client_id());
+
+CREATE POLICY "Advertisers can view their own schedules"
+  ON public.schedules
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.client_id = public.current_client_id()
+    )
+  );
+
+CREATE POLICY "Advertisers can view their own invoice items"
+  ON public.invoice_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND invoices.client_id = public.current_client_id()
+    )
+  );
@@ -0,0 +1,180 @@
+-- Booking approval. Sales staff draft jobs and submit them for approval;
+-- approvers check availability and approve or reject them with a reason.
+-- A job has no schedules until it is approved, at which point approve_job()
+-- books its spots in one transaction.
+--
+--   draft ──> pending_approval ──> scheduled ──> in_progress ──> completed
+--     ^             │    │
+--     └─────────────┘    └──> rejected ──> draft / pending_approval
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE public.jobs
+  ADD CONSTRAINT jobs_status_check CHECK (status IN (
+    'draft', 'pending_approval', 'rejected', 'scheduled', 'in_progress', 'completed', 'cancelled'
+  ));
+ALTER TABLE public.jobs ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES public.users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.users(id),
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- Whether the signed-in user may approve or reject bookings
+CREATE OR REPLACE FUNCTION public.can_approve_jobs()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'admin'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enforces the workflow above. Jobs that are already booked keep moving
+-- freely between scheduled, in_progress, completed and cancelled. Updates
+-- made without a signed-in user (the service role) are trusted.
+CREATE OR REPLACE FUNCTION public.enforce_job_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  unapproved CONSTANT TEXT[] := ARRAY['draft', 'pending_approval', 'rejected'];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> ALL (ARRAY['draft', 'pending_approval']) AND NOT public.can_approve_jobs() THEN
+      RAISE EXCEPTION 'New bookings must be saved as a draft or submitted for approval';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = ANY (unapproved) THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('pending_approval', 'cancelled'))
+      OR (OLD.status = 'pending_approval' AND NEW.status IN ('draft', 'scheduled', 'rejected'))
+      OR (OLD.status = 'rejected' AND NEW.status IN ('draft', 'pending_approval', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'A % booking cannot be moved to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status IN ('scheduled', 'rejected') AND NOT public.can_approve_jobs() THEN
+      RAISE EXCEPTION 'Only approvers can approve or reject bookings';
+    END IF;
+
+    IF NEW.status = 'rejected' AND coalesce(trim(NEW.rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'A rejected booking needs a reason';
+    END IF;
+  ELSIF NEW.status = ANY (unapproved) THEN
+    RAISE EXCEPTION 'A booked job cannot be moved back to %', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_job_status_change ON public.jobs;
+CREATE TRIGGER on_job_status_change
+  BEFORE INSERT OR UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_job_status_transition();
+
+-- Unapproved bookings must not take up airtime
+CREATE OR REPLACE FUNCTION public.prevent_unapproved_schedules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = NEW.job_id
+    AND jobs.status IN ('draft', 'pending_approval', 'rejected')
+  ) THEN
+    RAISE EXCEPTION 'Spots can only be scheduled once the booking is approved';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_schedule_for_unapproved_job ON public.schedules;
+CREATE TRIGGER on_schedule_for_unapproved_job
+  BEFORE INSERT OR UPDATE OF job_id ON public.schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_unapproved_schedules();
+
+-- Approves a pending booking and schedules a spot for every air time on
+-- every booked date that hasn't passed. The airtime availability trigger
+-- rejects the whole approval if any spot clashes. A booking request the
+-- job was created from is approved with it. Returns the number of spots.
+CREATE OR REPLACE FUNCTION public.approve_job(p_job_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  job public.jobs;
+  rule_id UUID;
+  spot_count INTEGER;
+BEGIN
+  IF NOT public.can_approve_jobs() THEN
+    RAISE EXCEPTION 'Only approvers can approve bookings';
+  END IF;
+
+  SELECT * INTO job FROM public.jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', p_job_id;
+  END IF;
+
+  IF job.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'Only bookings waiting for approval can be approved';
+  END IF;
+
+  IF job.duration_seconds IS NULL THEN
+    RAISE EXCEPTION 'Set the spot duration before approving the booking';
+  END IF;
+
+  SELECT id INTO rule_id
+  FROM public.job_recurrence_rules
+  WHERE job_id = p_job_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  UPDATE public.jobs
+  SET
+    status = 'scheduled',
+    reviewed_at = NOW(),
+    reviewed_by = auth.uid(),
+    rejection_reason = NULL,
+    updated_at = NOW()
+  WHERE id = p_job_id;
+
+  INSERT INTO public.schedules (job_id, recurrence_rule_id, scheduled_date, start_time, end_time, status, created_by)
+  SELECT
+    job.id,
+    rule_id,
+    day::DATE,
+    air_time,
+    air_time + make_interval(secs => job.duration_seconds),
+    'upcoming',
+    job.created_by
+  FROM unnest(job.repeat_days) AS day,
+    unnest(job.air_times) AS air_time
+  -- repeat_days holds booked dates; older jobs stored weekday names
+  WHERE CASE WHEN day ~ '^\d{4}-\d{2}-\d{2}$' THEN day::DATE >= CURRENT_DATE ELSE FALSE END
+  ORDER BY 3, 4;
+
+  GET DIAGNOSTICS spot_count = ROW_COUNT;
+
+  UPDATE public.booking_requests
+  SET
+    status = 'approved',
+    reviewed_at = NOW(),
+    reviewed_by = auth.uid(),
+    updated_at = NOW()
+  WHERE job_id = p_job_id
+    AND status = 'pending';
+
+  RETURN spot_count;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_booking_requests_job_id ON public.booking_requests(job_id);
@@ -0,0 +1,386 @@
+-- Role-based access. lib/utils/permissions.ts holds the same matrix for
+-- the UI and the API helpers; these policies have the final say.
+--
+--                        admin  host (sales)  traffic  finance  advertiser
+--   users                manage     -            -        -         -
+--   jobs                 all    view, own     all      view     own client
+--   approve bookings     yes        -          yes       -         -
+--   schedules            all    own, air      all      view     own client
+--   clients              all    add, edit     add,edit all      own client
+--   invoices & payments  all       view         -       all      own client
+--   booking requests     all       all          all      -       own client
+--   station settings     manage  view          view     view       view
+--
+-- Signing up only ever creates advertiser accounts. Staff are invited by an
+-- admin; the first admin is set directly in the database.
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'host', 'traffic', 'finance', 'advertiser'));
+
+-- Whether the signed-in user has one of the given roles. SECURITY DEFINER so
+-- policies on users can call it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.has_role(VARIADIC p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = ANY (p_roles)
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_approve_jobs()
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role('admin', 'traffic')
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users
+
+-- Only admins change roles, and the station always keeps one admin
+CREATE OR REPLACE FUNCTION public.protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS NOT DISTINCT FROM OLD.role THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF OLD.role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.role = 'admin'
+    AND users.id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'The station needs at least one admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_user_role_change ON public.users;
+CREATE TRIGGER on_user_role_change
+  BEFORE UPDATE OF role ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_user_role();
+
+CREATE POLICY "Staff can view users"
+  ON public.users
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'traffic', 'finance'));
+
+CREATE POLICY "Admins can update users"
+  ON public.users
+  FOR UPDATE
+  USING (public.has_role('admin'));
+
+-- Jobs
+DROP POLICY IF EXISTS "Admins have full access to jobs" ON public.jobs;
+DROP POLICY IF EXISTS "Hosts can view all jobs" ON public.jobs;
+DROP POLICY IF EXISTS "Hosts can manage their own jobs" ON public.jobs;
+
+CREATE POLICY "Staff can view jobs"
+  ON public.jobs
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'traffic', 'finance'));
+
+CREATE POLICY "Sales and traffic can create jobs"
+  ON public.jobs
+  FOR INSERT
+  WITH CHECK (
+    public.has_role('admin', 'host', 'traffic')
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Admins and traffic can update jobs"
+  ON public.jobs
+  FOR UPDATE
+  USING (public.has_role('admin', 'traffic'));
+
+CREATE POLICY "Hosts can update their own jobs"
+  ON public.jobs
+  FOR UPDATE
+  USING (public.has_role('host') AND created_by = auth.uid());
+
+CREATE POLICY "Admins can delete jobs"
+  ON public.jobs
+  FOR DELETE
+  USING (public.has_role('admin'));
+
+CREATE POLICY "Hosts can delete their own unapproved jobs"
+  ON public.jobs
+  FOR DELETE
+  USING (
+    public.has_role('host')
+    AND created_by = auth.uid()
+    AND status IN ('draft', 'rejected')
+  );
+
+-- Recurrence rules
+DROP POLICY IF EXISTS "Admins have full access to recurrence rules" ON public.job_recurrence_rules;
+DROP POLICY IF EXISTS "Hosts can manage recurrence rules for their jobs" ON public.job_recurrence_rules;
+
+CREATE POLICY "Staff can view recurrence rules"
+  ON public.job_recurrence_rules
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'traffic', 'finance'));
+
+CREATE POLICY "Admins and traffic can manage recurrence rules"
+  ON public.job_recurrence_rules
+  FOR ALL
+  USING (public.has_role('admin', 'traffic'));
+
+CREATE POLICY "Hosts can manage recurrence rules for their jobs"
+  ON public.job_recurrence_rules
+  FOR ALL
+  USING (
+    public.has_role('host')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+-- Schedules
+DROP POLICY IF EXISTS "Admins have full access to schedules" ON public.schedules;
+DROP POLICY IF EXISTS "Hosts can view all schedules" ON public.schedules;
+DROP POLICY IF EXISTS "Hosts can manage schedules for their own jobs" ON public.schedules;
+
+CREATE POLICY "Staff can view schedules"
+  ON public.schedules
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'traffic', 'finance'));
+
+CREATE POLICY "Admins and traffic can manage schedules"
+  ON public.schedules
+  FOR ALL
+  USING (public.has_role('admin', 'traffic'));
+
+CREATE POLICY "Hosts can manage schedules for their jobs"
+  ON public.schedules
+  FOR ALL
+  USING (
+    public.has_role('host')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+-- Presenters mark any spot live or aired from the schedule
+CREATE POLICY "Hosts can update spots they air"
+  ON public.schedules
+  FOR UPDATE
+  USING (public.has_role('host'));
+
+-- Clients
+DROP POLICY IF EXISTS "Admins have full access to clients" ON public.clients;
+DROP POLICY IF EXISTS "Hosts can view all clients" ON public.clients;
+DROP POLICY IF EXISTS "Hosts can manage their own clients" ON public.clients;
+
+CREATE POLICY "Staff can view clients"
+  ON public.clients
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'traffic', 'finance'));
+
+CREATE POLICY "Staff can add clients"
+  ON public.clients
+  FOR INSERT
+  WITH CHECK (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Staff can update clients"
+  ON public.clients
+  FOR UPDATE
+  USING (public.has_role('admin', 'host', 'traffic', 'finance'));
+
+CREATE POLICY "Admins can delete clients"
+  ON public.clients
+  FOR DELETE
+  USING (public.has_role('admin'));
+
+-- Invoices
+DROP POLICY IF EXISTS "Admins have full access to invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Hosts can view all invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Hosts can manage invoices for their jobs" ON public.invoices;
+
+CREATE POLICY "Sales and finance can view invoices"
+  ON public.invoices
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'finance'));
+
+CREATE POLICY "Finance can manage invoices"
+  ON public.invoices
+  FOR ALL
+  USING (public.has_role('admin', 'finance'));
+
+DROP POLICY IF EXISTS "Admins have full access to invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Hosts can view all invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Hosts can add items for their jobs to their invoices" ON public.invoice_items;
+
+CREATE POLICY "Sales and finance can view invoice items"
+  ON public.invoice_items
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'finance'));
+
+CREATE POLICY "Finance can manage invoice items"
+  ON public.invoice_items
+  FOR ALL
+  USING (public.has_role('admin', 'finance'));
+
+-- Payments
+DROP POLICY IF EXISTS "Admins have full access to payments" ON public.payments;
+DROP POLICY IF EXISTS "Hosts can view all payments" ON public.payments;
+DROP POLICY IF EXISTS "Hosts can record payments on their invoices" ON public.payments;
+DROP POLICY IF EXISTS "Hosts can reverse payments on their invoices" ON public.payments;
+
+CREATE POLICY "Sales and finance can view payments"
+  ON public.payments
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'finance'));
+
+CREATE POLICY "Finance can manage payments"
+  ON public.payments
+  FOR ALL
+  USING (public.has_role('admin', 'finance'));
+
+-- Agencies
+DROP POLICY IF EXISTS "Admins have full access to agencies" ON public.agencies;
+DROP POLICY IF EXISTS "Hosts can add agencies" ON public.agencies;
+
+CREATE POLICY "Finance can manage agencies"
+  ON public.agencies
+  FOR ALL
+  USING (public.has_role('admin', 'finance'));
+
+CREATE POLICY "Hosts can add agencies"
+  ON public.agencies
+  FOR INSERT
+  WITH CHECK (
+    public.has_role('host')
+    AND created_by = auth.uid()
+  );
+
+-- Booking requests
+DROP POLICY IF EXISTS "Staff can view booking requests" ON public.booking_requests;
+DROP POLICY IF EXISTS "Staff can review booking requests" ON public.booking_requests;
+
+CREATE POLICY "Staff can view booking requests"
+  ON public.booking_requests
+  FOR SELECT
+  USING (public.has_role('admin', 'host', 'traffic'));
+
+CREATE POLICY "Staff can review booking requests"
+  ON public.booking_requests
+  FOR UPDATE
+  USING (public.has_role('admin', 'host', 'traffic'));
+
+-- Client functions were limited to admins and hosts; every staff role that
+-- manages clients may now merge them and manage portal access
+CREATE OR REPLACE FUNCTION public.merge_clients(p_keep_id UUID, p_duplicate_id UUID)
+RETURNS public.clients AS $$
+DECLARE
+  duplicate public.clients;
+  kept public.clients;
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can merge clients';
+  END IF;
+
+  IF p_keep_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  -- Lock both rows so a concurrent edit or merge can't interleave
+  PERFORM 1 FROM public.clients WHERE id IN (p_keep_id, p_duplicate_id) FOR UPDATE;
+
+  SELECT * INTO duplicate FROM public.clients WHERE id = p_duplicate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_duplicate_id;
+  END IF;
+
+  UPDATE public.clients
+  SET
+    contact_person = coalesce(contact_person, duplicate.contact_person),
+    email = coalesce(email, duplicate.email),
+    phone = coalesce(phone, duplicate.phone),
+    address = coalesce(address, duplicate.address),
+    agency_id = coalesce(agency_id, duplicate.agency_id),
+    updated_at = NOW()
+  WHERE id = p_keep_id
+  RETURNING * INTO kept;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_keep_id;
+  END IF;
+
+  UPDATE public.jobs SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+  UPDATE public.invoices SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+
+  DELETE FROM public.clients WHERE id = p_duplicate_id;
+
+  RETURN kept;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_user_client_link()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.client_id IS DISTINCT FROM OLD.client_id
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role('admin', 'host', 'traffic', 'finance')
+  THEN
+    RAISE EXCEPTION 'Only staff can change which client a user belongs to';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.link_advertiser_to_client(p_email TEXT, p_client_id UUID)
+RETURNS public.users AS $$
+DECLARE
+  advertiser public.users;
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can give advertisers portal access';
+  END IF;
+
+  UPDATE public.users
+  SET client_id = p_client_id
+  WHERE lower(email) = lower(trim(p_email))
+    AND role = 'advertiser'
+  RETURNING * INTO advertiser;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No advertiser account uses %', p_email;
+  END IF;
+
+  RETURN advertiser;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.unlink_advertiser(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can remove portal access';
+  END IF;
+
+  UPDATE public.users SET client_id = NULL WHERE id = p_user_id AND role = 'advertiser';
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.list_client_advertisers(p_client_id UUID)
+RETURNS TABLE (id UUID, email TEXT, name TEXT) AS $$
+  SELECT u.id, u.email, u.name
+  FROM public.users u
+  WHERE u.client_id = p_client_id
+    AND u.role = 'advertiser'
+    AND public.has_role('admin', 'host', 'traffic', 'finance')
+  ORDER BY u.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
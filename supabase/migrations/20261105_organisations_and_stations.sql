@@ -0,0 +1,971 @@
+-- Organisations and stations. An organisation (a single station or a media
+-- group) owns its clients, agencies and invoices; each of its stations has
+-- its own jobs, airtime and schedules. Staff belong to organisations through
+-- memberships and work in one station at a time, picked with the station
+-- switcher. Row level security shows staff the rows of their current
+-- station and its organisation; advertisers still see their own client.
+--
+-- Station settings, rate cards and tax rules were left shared by every
+-- organisation here; 20261114_organisation_scoped_settings.sql gives each
+-- organisation its own.
+CREATE TABLE IF NOT EXISTS public.organisations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.stations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  frequency TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (organisation_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.organisation_members (
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stations_organisation_id ON public.stations(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_organisation_members_user_id ON public.organisation_members(user_id);
+
+-- The station the user last switched to
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS current_station_id UUID REFERENCES public.stations(id) ON DELETE SET NULL;
+
+-- Whether the signed-in user is a member of the organisation
+CREATE OR REPLACE FUNCTION public.is_member(p_organisation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organisation_members
+    WHERE organisation_id = p_organisation_id
+    AND user_id = auth.uid()
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The signed-in user's current station, provided they are still a member
+-- of its organisation; NULL for advertisers
+CREATE OR REPLACE FUNCTION public.current_station_id()
+RETURNS UUID AS $$
+  SELECT s.id
+  FROM public.users u
+  JOIN public.stations s ON s.id = u.current_station_id
+  JOIN public.organisation_members m ON m.organisation_id = s.organisation_id AND m.user_id = u.id
+  WHERE u.id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.current_organisation_id()
+RETURNS UUID AS $$
+  SELECT organisation_id
+  FROM public.stations
+  WHERE id = public.current_station_id()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users can only switch to stations of organisations they belong to
+CREATE OR REPLACE FUNCTION public.check_current_station()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.current_station_id IS NOT NULL
+    AND NEW.current_station_id IS DISTINCT FROM OLD.current_station_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.stations s
+      JOIN public.organisation_members m ON m.organisation_id = s.organisation_id
+      WHERE s.id = NEW.current_station_id
+      AND m.user_id = NEW.id
+    )
+  THEN
+    RAISE EXCEPTION 'You are not a member of that station''s organisation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_user_station_change ON public.users;
+CREATE TRIGGER on_user_station_change
+  BEFORE UPDATE OF current_station_id ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_current_station();
+
+-- Existing data moves into one organisation with one station, named after
+-- the station settings, and every staff user joins it
+ALTER TABLE public.clients ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id);
+ALTER TABLE public.agencies ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id);
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id);
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS station_id UUID REFERENCES public.stations(id);
+
+DO $$
+DECLARE
+  org_id UUID;
+  main_station_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users) OR EXISTS (SELECT 1 FROM public.organisations) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.organisations (name)
+  SELECT coalesce((SELECT station_name FROM public.organisation_settings WHERE id), 'Our Station')
+  RETURNING id INTO org_id;
+
+  INSERT INTO public.stations (organisation_id, name)
+  SELECT org_id, coalesce((SELECT station_name FROM public.organisation_settings WHERE id), 'Our Station')
+  RETURNING id INTO main_station_id;
+
+  INSERT INTO public.organisation_members (organisation_id, user_id)
+  SELECT org_id, id FROM public.users WHERE role <> 'advertiser';
+
+  UPDATE public.users SET current_station_id = main_station_id WHERE role <> 'advertiser';
+  UPDATE public.clients SET organisation_id = org_id WHERE organisation_id IS NULL;
+  UPDATE public.agencies SET organisation_id = org_id WHERE organisation_id IS NULL;
+  UPDATE public.invoices SET organisation_id = org_id WHERE organisation_id IS NULL;
+  UPDATE public.jobs SET station_id = main_station_id WHERE station_id IS NULL;
+END;
+$$;
+
+-- New rows land in the creator's current station and organisation
+ALTER TABLE public.clients
+  ALTER COLUMN organisation_id SET DEFAULT public.current_organisation_id(),
+  ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.agencies
+  ALTER COLUMN organisation_id SET DEFAULT public.current_organisation_id(),
+  ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.invoices
+  ALTER COLUMN organisation_id SET DEFAULT public.current_organisation_id(),
+  ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.jobs
+  ALTER COLUMN station_id SET DEFAULT public.current_station_id(),
+  ALTER COLUMN station_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clients_organisation_id ON public.clients(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_agencies_organisation_id ON public.agencies(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_organisation_id ON public.invoices(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_station_id ON public.jobs(station_id);
+
+-- A job's client, and an invoice's client, must belong to the same organisation
+CREATE OR REPLACE FUNCTION public.check_job_organisation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.clients c
+    JOIN public.stations s ON s.organisation_id = c.organisation_id
+    WHERE c.id = NEW.client_id
+    AND s.id = NEW.station_id
+  ) THEN
+    RAISE EXCEPTION 'The client belongs to a different organisation than the station';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_job_organisation_check ON public.jobs;
+CREATE TRIGGER on_job_organisation_check
+  BEFORE INSERT OR UPDATE OF client_id, station_id ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_job_organisation();
+
+CREATE OR REPLACE FUNCTION public.check_invoice_organisation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.clients
+    WHERE id = NEW.client_id
+    AND organisation_id = NEW.organisation_id
+  ) THEN
+    RAISE EXCEPTION 'The client belongs to a different organisation than the invoice';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_invoice_organisation_check ON public.invoices;
+CREATE TRIGGER on_invoice_organisation_check
+  BEFORE INSERT OR UPDATE OF client_id, organisation_id ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_invoice_organisation();
+
+-- Organisations, stations and memberships
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisations"
+  ON public.organisations
+  FOR SELECT
+  USING (public.is_member(id));
+
+CREATE POLICY "Admins can rename their organisation"
+  ON public.organisations
+  FOR UPDATE
+  USING (public.has_role('admin') AND public.is_member(id));
+
+CREATE POLICY "Members can view their stations"
+  ON public.stations
+  FOR SELECT
+  USING (public.is_member(organisation_id));
+
+CREATE POLICY "Admins can manage their stations"
+  ON public.stations
+  FOR ALL
+  USING (public.has_role('admin') AND public.is_member(organisation_id))
+  WITH CHECK (public.has_role('admin') AND public.is_member(organisation_id));
+
+CREATE POLICY "Members can view their colleagues' memberships"
+  ON public.organisation_members
+  FOR SELECT
+  USING (public.is_member(organisation_id));
+
+CREATE POLICY "Admins can manage memberships"
+  ON public.organisation_members
+  FOR ALL
+  USING (public.has_role('admin') AND public.is_member(organisation_id))
+  WITH CHECK (public.has_role('admin') AND public.is_member(organisation_id));
+
+-- Users: staff see the members of their current organisation and the
+-- advertisers of its clients
+ALTER POLICY "Staff can view users"
+  ON public.users
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.organisation_members
+        WHERE organisation_members.user_id = users.id
+        AND organisation_members.organisation_id = public.current_organisation_id()
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.clients
+        WHERE clients.id = users.client_id
+        AND clients.organisation_id = public.current_organisation_id()
+      )
+    )
+  );
+
+ALTER POLICY "Admins can update users"
+  ON public.users
+  USING (
+    public.has_role('admin')
+    AND EXISTS (
+      SELECT 1 FROM public.organisation_members
+      WHERE organisation_members.user_id = users.id
+      AND organisation_members.organisation_id = public.current_organisation_id()
+    )
+  );
+
+-- Jobs
+ALTER POLICY "Staff can view jobs"
+  ON public.jobs
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND station_id = public.current_station_id()
+  );
+
+ALTER POLICY "Sales and traffic can create jobs"
+  ON public.jobs
+  WITH CHECK (
+    public.has_role('admin', 'host', 'traffic')
+    AND created_by = auth.uid()
+    AND station_id = public.current_station_id()
+  );
+
+ALTER POLICY "Admins and traffic can update jobs"
+  ON public.jobs
+  USING (
+    public.has_role('admin', 'traffic')
+    AND station_id = public.current_station_id()
+  );
+
+ALTER POLICY "Hosts can update their own jobs"
+  ON public.jobs
+  USING (
+    public.has_role('host')
+    AND created_by = auth.uid()
+    AND station_id = public.current_station_id()
+  );
+
+ALTER POLICY "Admins can delete jobs"
+  ON public.jobs
+  USING (
+    public.has_role('admin')
+    AND station_id = public.current_station_id()
+  );
+
+ALTER POLICY "Hosts can delete their own unapproved jobs"
+  ON public.jobs
+  USING (
+    public.has_role('host')
+    AND created_by = auth.uid()
+    AND status IN ('draft', 'rejected')
+    AND station_id = public.current_station_id()
+  );
+
+-- Recurrence rules and schedules follow their job's station
+ALTER POLICY "Staff can view recurrence rules"
+  ON public.job_recurrence_rules
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+ALTER POLICY "Admins and traffic can manage recurrence rules"
+  ON public.job_recurrence_rules
+  USING (
+    public.has_role('admin', 'traffic')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+ALTER POLICY "Hosts can manage recurrence rules for their jobs"
+  ON public.job_recurrence_rules
+  USING (
+    public.has_role('host')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.created_by = auth.uid()
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+ALTER POLICY "Staff can view schedules"
+  ON public.schedules
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+ALTER POLICY "Admins and traffic can manage schedules"
+  ON public.schedules
+  USING (
+    public.has_role('admin', 'traffic')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+ALTER POLICY "Hosts can manage schedules for their jobs"
+  ON public.schedules
+  USING (
+    public.has_role('host')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.created_by = auth.uid()
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+ALTER POLICY "Hosts can update spots they air"
+  ON public.schedules
+  USING (
+    public.has_role('host')
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = schedules.job_id
+      AND jobs.station_id = public.current_station_id()
+    )
+  );
+
+-- Clients and agencies belong to the organisation
+ALTER POLICY "Staff can view clients"
+  ON public.clients
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Staff can add clients"
+  ON public.clients
+  WITH CHECK (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND created_by = auth.uid()
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Staff can update clients"
+  ON public.clients
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Admins can delete clients"
+  ON public.clients
+  USING (
+    public.has_role('admin')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view agencies" ON public.agencies;
+
+CREATE POLICY "Staff can view agencies"
+  ON public.agencies
+  FOR SELECT
+  USING (
+    public.has_role('admin', 'host', 'traffic', 'finance')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Finance can manage agencies"
+  ON public.agencies
+  USING (
+    public.has_role('admin', 'finance')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Hosts can add agencies"
+  ON public.agencies
+  WITH CHECK (
+    public.has_role('host')
+    AND created_by = auth.uid()
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Hosts can update their own agencies"
+  ON public.agencies
+  USING (
+    created_by = auth.uid()
+    AND organisation_id = public.current_organisation_id()
+  );
+
+-- Invoices, their items and payments
+ALTER POLICY "Sales and finance can view invoices"
+  ON public.invoices
+  USING (
+    public.has_role('admin', 'host', 'finance')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Finance can manage invoices"
+  ON public.invoices
+  USING (
+    public.has_role('admin', 'finance')
+    AND organisation_id = public.current_organisation_id()
+  );
+
+ALTER POLICY "Sales and finance can view invoice items"
+  ON public.invoice_items
+  USING (
+    public.has_role('admin', 'host', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+ALTER POLICY "Finance can manage invoice items"
+  ON public.invoice_items
+  USING (
+    public.has_role('admin', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+ALTER POLICY "Sales and finance can view payments"
+  ON public.payments
+  USING (
+    public.has_role('admin', 'host', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = payments.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+ALTER POLICY "Finance can manage payments"
+  ON public.payments
+  USING (
+    public.has_role('admin', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = payments.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+-- Booking requests follow their client
+ALTER POLICY "Staff can view booking requests"
+  ON public.booking_requests
+  USING (
+    public.has_role('admin', 'host', 'traffic')
+    AND EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE clients.id = booking_requests.client_id
+      AND clients.organisation_id = public.current_organisation_id()
+    )
+  );
+
+ALTER POLICY "Staff can review booking requests"
+  ON public.booking_requests
+  USING (
+    public.has_role('admin', 'host', 'traffic')
+    AND EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE clients.id = booking_requests.client_id
+      AND clients.organisation_id = public.current_organisation_id()
+    )
+  );
+
+-- Airtime is booked per station. Availability is checked against the
+-- station given, defaulting to the signed-in user's current station.
+DROP FUNCTION IF EXISTS public.check_airtime_availability(JSONB, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.check_airtime_availability(
+  p_slots JSONB,
+  p_exclude_job_id UUID DEFAULT NULL,
+  p_exclude_schedule_id UUID DEFAULT NULL,
+  p_station_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  conflict_type TEXT,
+  requested_date DATE,
+  requested_start_time TIME,
+  requested_end_time TIME,
+  schedule_id UUID,
+  job_id UUID,
+  job_title TEXT,
+  client_name TEXT,
+  start_time TIME,
+  end_time TIME,
+  booked_seconds INTEGER,
+  limit_seconds INTEGER
+) AS $$
+  WITH settings AS (
+    SELECT (max_commercial_minutes_per_hour * 60)::INTEGER AS limit_seconds
+    FROM public.airtime_settings
+    WHERE id
+  ),
+  slots AS (
+    SELECT
+      (slot->>'scheduled_date')::DATE AS scheduled_date,
+      (slot->>'start_time')::TIME AS start_time,
+      (slot->>'end_time')::TIME AS end_time
+    FROM jsonb_array_elements(p_slots) AS slot
+  ),
+  booked AS (
+    SELECT
+      s.id,
+      s.job_id,
+      s.scheduled_date,
+      s.start_time,
+      s.end_time,
+      j.title AS job_title,
+      c.name AS client_name
+    FROM public.schedules s
+    JOIN public.jobs j ON j.id = s.job_id
+    LEFT JOIN public.clients c ON c.id = j.client_id
+    WHERE s.status <> 'cancelled'
+      AND j.station_id = coalesce(p_station_id, public.current_station_id())
+      AND s.scheduled_date IN (SELECT scheduled_date FROM slots)
+      AND (p_exclude_job_id IS NULL OR s.job_id <> p_exclude_job_id)
+      AND (p_exclude_schedule_id IS NULL OR s.id <> p_exclude_schedule_id)
+  ),
+  -- Clock hours touched by the requested slots
+  hours AS (
+    SELECT DISTINCT
+      sl.scheduled_date,
+      make_time(h, 0, 0) AS hour_start,
+      CASE WHEN h = 23 THEN '24:00:00'::TIME ELSE make_time(h + 1, 0, 0) END AS hour_end
+    FROM slots sl,
+      generate_series(
+        extract(hour FROM sl.start_time)::INTEGER,
+        extract(hour FROM sl.end_time - INTERVAL '1 second')::INTEGER
+      ) AS h
+  ),
+  hour_usage AS (
+    SELECT
+      hr.scheduled_date,
+      hr.hour_start,
+      hr.hour_end,
+      (
+        SELECT coalesce(sum(greatest(0, extract(epoch FROM least(b.end_time, hr.hour_end) - greatest(b.start_time, hr.hour_start)))), 0)
+        FROM booked b
+        WHERE b.scheduled_date = hr.scheduled_date
+      ) + (
+        SELECT coalesce(sum(greatest(0, extract(epoch FROM least(sl.end_time, hr.hour_end) - greatest(sl.start_time, hr.hour_start)))), 0)
+        FROM slots sl
+        WHERE sl.scheduled_date = hr.scheduled_date
+      ) AS used_seconds
+    FROM hours hr
+  )
+  SELECT
+    'overlap',
+    sl.scheduled_date,
+    sl.start_time,
+    sl.end_time,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    NULL::INTEGER,
+    NULL::INTEGER
+  FROM slots sl
+  JOIN booked b
+    ON b.scheduled_date = sl.scheduled_date
+    AND b.start_time < sl.end_time
+    AND b.end_time > sl.start_time
+
+  UNION ALL
+
+  SELECT
+    'hour_limit',
+    hu.scheduled_date,
+    hu.hour_start,
+    hu.hour_end,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    hu.used_seconds::INTEGER,
+    settings.limit_seconds
+  FROM hour_usage hu
+  CROSS JOIN settings
+  LEFT JOIN booked b
+    ON b.scheduled_date = hu.scheduled_date
+    AND b.start_time < hu.hour_end
+    AND b.end_time > hu.hour_start
+  WHERE hu.used_seconds > settings.limit_seconds
+
+  ORDER BY 2, 3, 9;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The spot is checked against its own job's station
+CREATE OR REPLACE FUNCTION public.enforce_airtime_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  conflict RECORD;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO conflict
+  FROM public.check_airtime_availability(
+    jsonb_build_array(jsonb_build_object(
+      'scheduled_date', NEW.scheduled_date,
+      'start_time', NEW.start_time,
+      'end_time', NEW.end_time
+    )),
+    NULL,
+    NEW.id,
+    (SELECT station_id FROM public.jobs WHERE id = NEW.job_id)
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'exclusion_violation',
+      MESSAGE = CASE conflict.conflict_type
+        WHEN 'overlap' THEN format(
+          'Airtime on %s at %s is already booked for "%s"',
+          NEW.scheduled_date, NEW.start_time, conflict.job_title
+        )
+        ELSE format(
+          'Booking on %s at %s exceeds the commercial limit for the %s hour',
+          NEW.scheduled_date, NEW.start_time, conflict.requested_start_time
+        )
+      END,
+      DETAIL = conflict.conflict_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Client functions run as SECURITY DEFINER, so they check the organisation
+-- themselves
+CREATE OR REPLACE FUNCTION public.approve_job(p_job_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  job public.jobs;
+  rule_id UUID;
+  spot_count INTEGER;
+BEGIN
+  IF NOT public.can_approve_jobs() THEN
+    RAISE EXCEPTION 'Only approvers can approve bookings';
+  END IF;
+
+  SELECT * INTO job
+  FROM public.jobs
+  WHERE id = p_job_id
+    AND station_id = public.current_station_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', p_job_id;
+  END IF;
+
+  IF job.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'Only bookings waiting for approval can be approved';
+  END IF;
+
+  IF job.duration_seconds IS NULL THEN
+    RAISE EXCEPTION 'Set the spot duration before approving the booking';
+  END IF;
+
+  SELECT id INTO rule_id
+  FROM public.job_recurrence_rules
+  WHERE job_id = p_job_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  UPDATE public.jobs
+  SET
+    status = 'scheduled',
+    reviewed_at = NOW(),
+    reviewed_by = auth.uid(),
+    rejection_reason = NULL,
+    updated_at = NOW()
+  WHERE id = p_job_id;
+
+  INSERT INTO public.schedules (job_id, recurrence_rule_id, scheduled_date, start_time, end_time, status, created_by)
+  SELECT
+    job.id,
+    rule_id,
+    day::DATE,
+    air_time,
+    air_time + make_interval(secs => job.duration_seconds),
+    'upcoming',
+    job.created_by
+  FROM unnest(job.repeat_days) AS day,
+    unnest(job.air_times) AS air_time
+  -- repeat_days holds booked dates; older jobs stored weekday names
+  WHERE CASE WHEN day ~ '^\d{4}-\d{2}-\d{2}$' THEN day::DATE >= CURRENT_DATE ELSE FALSE END
+  ORDER BY 3, 4;
+
+  GET DIAGNOSTICS spot_count = ROW_COUNT;
+
+  UPDATE public.booking_requests
+  SET
+    status = 'approved',
+    reviewed_at = NOW(),
+    reviewed_by = auth.uid(),
+    updated_at = NOW()
+  WHERE job_id = p_job_id
+    AND status = 'pending';
+
+  RETURN spot_count;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.merge_clients(p_keep_id UUID, p_duplicate_id UUID)
+RETURNS public.clients AS $$
+DECLARE
+  duplicate public.clients;
+  kept public.clients;
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can merge clients';
+  END IF;
+
+  IF p_keep_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  -- Lock both rows so a concurrent edit or merge can't interleave
+  PERFORM 1 FROM public.clients WHERE id IN (p_keep_id, p_duplicate_id) FOR UPDATE;
+
+  SELECT * INTO duplicate
+  FROM public.clients
+  WHERE id = p_duplicate_id
+    AND organisation_id = public.current_organisation_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_duplicate_id;
+  END IF;
+
+  UPDATE public.clients
+  SET
+    contact_person = coalesce(contact_person, duplicate.contact_person),
+    email = coalesce(email, duplicate.email),
+    phone = coalesce(phone, duplicate.phone),
+    address = coalesce(address, duplicate.address),
+    agency_id = coalesce(agency_id, duplicate.agency_id),
+    updated_at = NOW()
+  WHERE id = p_keep_id
+    AND organisation_id = public.current_organisation_id()
+  RETURNING * INTO kept;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_keep_id;
+  END IF;
+
+  UPDATE public.jobs SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+  UPDATE public.invoices SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+
+  DELETE FROM public.clients WHERE id = p_duplicate_id;
+
+  RETURN kept;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.link_advertiser_to_client(p_email TEXT, p_client_id UUID)
+RETURNS public.users AS $$
+DECLARE
+  advertiser public.users;
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can give advertisers portal access';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.clients
+    WHERE id = p_client_id
+    AND organisation_id = public.current_organisation_id()
+  ) THEN
+    RAISE EXCEPTION 'Client % not found', p_client_id;
+  END IF;
+
+  UPDATE public.users
+  SET client_id = p_client_id
+  WHERE lower(email) = lower(trim(p_email))
+    AND role = 'advertiser'
+  RETURNING * INTO advertiser;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No advertiser account uses %', p_email;
+  END IF;
+
+  RETURN advertiser;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.unlink_advertiser(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can remove portal access';
+  END IF;
+
+  UPDATE public.users
+  SET client_id = NULL
+  WHERE id = p_user_id
+    AND role = 'advertiser'
+    AND client_id IN (
+      SELECT id FROM public.clients
+      WHERE organisation_id = public.current_organisation_id()
+    );
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.list_client_advertisers(p_client_id UUID)
+RETURNS TABLE (id UUID, email TEXT, name TEXT) AS $$
+  SELECT u.id, u.email, u.name
+  FROM public.users u
+  WHERE u.client_id = p_client_id
+    AND u.role = 'advertiser'
+    AND public.has_role('admin', 'host', 'traffic', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.clients c
+      WHERE c.id = p_client_id
+      AND c.organisation_id = public.current_organisation_id()
+    )
+  ORDER BY u.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Client search returns the organisation with the rest of the client. Both
+-- run as the caller, so row level security limits them to the organisation.
+DROP FUNCTION IF EXISTS public.search_clients(TEXT, INTEGER);
+DROP FUNCTION IF EXISTS public.find_duplicate_clients(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_clients(p_query TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  contact_person TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  agency_id UUID,
+  organisation_id UUID,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT
+      lower(trim(p_query)) AS text,
+      public.normalise_client_name(p_query) AS name,
+      regexp_replace(p_query, '[^0-9]', '', 'g') AS digits
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      public.normalise_client_name(c.name) AS normalised_name,
+      public.client_search_text(c.name, c.contact_person, c.email, c.phone) AS search_text
+    FROM public.clients c
+  )
+  SELECT
+    m.id, m.name, m.contact_person, m.email, m.phone, m.address, m.agency_id,
+    m.organisation_id, m.created_at, m.created_by, m.updated_at,
+    greatest(
+      CASE
+        WHEN m.normalised_name = query.name THEN 1
+        WHEN query.name <> '' AND m.normalised_name LIKE query.name || '%' THEN 0.9
+        ELSE 0
+      END,
+      similarity(m.normalised_name, query.name),
+      word_similarity(query.text, m.search_text)
+    )::REAL AS rank
+  FROM matches m, query
+  WHERE query.text <> ''
+    AND (
+      m.search_text ILIKE '%' || query.text || '%'
+      OR query.text <% m.search_text
+      OR (length(query.digits) >= 4 AND m.search_text LIKE '%' || query.digits || '%')
+    )
+  ORDER BY rank DESC, m.name
+  LIMIT greatest(p_limit, 1);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.find_duplicate_clients(p_name TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  contact_person TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  agency_id UUID,
+  organisation_id UUID,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  SELECT
+    c.id, c.name, c.contact_person, c.email, c.phone, c.address, c.agency_id,
+    c.organisation_id, c.created_at, c.created_by, c.updated_at,
+    similarity(public.normalise_client_name(c.name), public.normalise_client_name(p_name)) AS rank
+  FROM public.clients c
+  WHERE public.normalise_client_name(p_name) <> ''
+    AND public.normalise_client_name(c.name) % public.normalise_client_name(p_name)
+  ORDER BY rank DESC, c.name
+  LIMIT greatest(p_limit, 1);
+$$ LANGUAGE sql STABLE SET pg_trgm.similarity_threshold = 0.6;
@@ -0,0 +1,260 @@
+-- Invoice lines are priced, and invoices totalled, by the database. An
+-- invoice and its lines are created together by create_invoice(), so a
+-- failed line no longer leaves an invoice behind with a total nothing backs
+-- up. Amounts sent by the client are ignored. Mirrors priceLine() in
+-- lib/utils/pricing.ts and computeInvoiceTotals() in lib/utils/tax.ts,
+-- which the forms still use to preview totals.
+ALTER TABLE public.invoice_items ALTER COLUMN amount SET DEFAULT 0;
+ALTER TABLE public.invoices ALTER COLUMN total_amount SET DEFAULT 0;
+
+-- The rate of a VAT or withholding code; no code means no tax
+CREATE OR REPLACE FUNCTION public.tax_rule_rate(p_code TEXT, p_kind TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  rule public.tax_rules;
+BEGIN
+  IF p_code IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO rule FROM public.tax_rules WHERE code = p_code;
+  IF NOT FOUND OR rule.kind <> p_kind THEN
+    RAISE EXCEPTION 'Unknown % tax code: %', CASE WHEN p_kind = 'vat' THEN 'VAT' ELSE 'withholding' END, p_code;
+  END IF;
+
+  RETURN rule.rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Discounts come off first, including the line's share of the invoice
+-- discount; the agency's commission is taken from what is left, and VAT and
+-- WHT are charged on the net amount. Tax rates are copied when a code is set
+-- or changed, so later rule changes leave the line alone.
+CREATE OR REPLACE FUNCTION public.price_invoice_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  invoice_discount_rate NUMERIC;
+  line_discount NUMERIC;
+BEGIN
+  SELECT discount_rate INTO invoice_discount_rate
+  FROM public.invoices
+  WHERE id = NEW.invoice_id;
+
+  NEW.gross_amount := round(NEW.quantity * NEW.rate, 2);
+  line_discount := round(NEW.gross_amount * NEW.discount_rate / 100, 2);
+  NEW.discount_amount := line_discount
+    + round((NEW.gross_amount - line_discount) * coalesce(invoice_discount_rate, 0) / 100, 2);
+  NEW.commission_amount := round((NEW.gross_amount - NEW.discount_amount) * NEW.commission_rate / 100, 2);
+  NEW.amount := NEW.gross_amount - NEW.discount_amount - NEW.commission_amount;
+
+  NEW.tax_code := nullif(NEW.tax_code, '');
+  NEW.wht_code := nullif(NEW.wht_code, '');
+  IF TG_OP = 'INSERT' OR NEW.tax_code IS DISTINCT FROM OLD.tax_code THEN
+    NEW.tax_rate := public.tax_rule_rate(NEW.tax_code, 'vat');
+  ELSE
+    NEW.tax_rate := OLD.tax_rate;
+  END IF;
+  IF TG_OP = 'INSERT' OR NEW.wht_code IS DISTINCT FROM OLD.wht_code THEN
+    NEW.wht_rate := public.tax_rule_rate(NEW.wht_code, 'withholding');
+  ELSE
+    NEW.wht_rate := OLD.wht_rate;
+  END IF;
+
+  NEW.tax_amount := round(NEW.amount * NEW.tax_rate / 100, 2);
+  NEW.wht_amount := round(NEW.amount * NEW.wht_rate / 100, 2);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_invoice_item_price ON public.invoice_items;
+CREATE TRIGGER on_invoice_item_price
+  BEFORE INSERT OR UPDATE ON public.invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.price_invoice_item();
+
+-- Totals are the sums of the lines. A paid or part-paid invoice is re-checked
+-- against its ledger, since a new total can settle or reopen it.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_totals(p_invoice_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.invoices i
+  SET
+    gross_total = lines.gross_total,
+    discount_total = lines.discount_total,
+    commission_total = lines.commission_total,
+    subtotal = lines.subtotal,
+    tax_total = lines.tax_total,
+    wht_total = lines.wht_total,
+    total_amount = lines.subtotal + lines.tax_total,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      coalesce(sum(gross_amount), 0) AS gross_total,
+      coalesce(sum(discount_amount), 0) AS discount_total,
+      coalesce(sum(commission_amount), 0) AS commission_total,
+      coalesce(sum(amount), 0) AS subtotal,
+      coalesce(sum(tax_amount), 0) AS tax_total,
+      coalesce(sum(wht_amount), 0) AS wht_total
+    FROM public.invoice_items
+    WHERE invoice_id = p_invoice_id
+  ) AS lines
+  WHERE i.id = p_invoice_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE invoice_id = p_invoice_id
+    AND reversed_at IS NULL
+  ) THEN
+    PERFORM public.refresh_invoice_payment_status(p_invoice_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_invoice_item_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_invoice_totals(OLD.invoice_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.invoice_id IS DISTINCT FROM OLD.invoice_id) THEN
+    PERFORM public.refresh_invoice_totals(NEW.invoice_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_invoice_item_change ON public.invoice_items;
+CREATE TRIGGER on_invoice_item_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_invoice_item_change();
+
+-- A new invoice discount is spread over the lines again
+CREATE OR REPLACE FUNCTION public.handle_invoice_discount_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.invoice_items
+  SET discount_rate = discount_rate
+  WHERE invoice_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_invoice_discount_change ON public.invoices;
+CREATE TRIGGER on_invoice_discount_change
+  AFTER UPDATE OF discount_rate ON public.invoices
+  FOR EACH ROW
+  WHEN (NEW.discount_rate IS DISTINCT FROM OLD.discount_rate)
+  EXECUTE FUNCTION public.handle_invoice_discount_change();
+
+-- Only refresh_invoice_totals() sets the totals. It always runs from the
+-- item triggers, so a statement that reaches this trigger directly is a
+-- client writing totals by hand and keeps the stored ones instead.
+CREATE OR REPLACE FUNCTION public.protect_invoice_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.gross_total := 0;
+    NEW.discount_total := 0;
+    NEW.commission_total := 0;
+    NEW.subtotal := 0;
+    NEW.tax_total := 0;
+    NEW.wht_total := 0;
+    NEW.total_amount := 0;
+  ELSE
+    NEW.gross_total := OLD.gross_total;
+    NEW.discount_total := OLD.discount_total;
+    NEW.commission_total := OLD.commission_total;
+    NEW.subtotal := OLD.subtotal;
+    NEW.tax_total := OLD.tax_total;
+    NEW.wht_total := OLD.wht_total;
+    NEW.total_amount := OLD.total_amount;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_invoice_totals_protect ON public.invoices;
+CREATE TRIGGER on_invoice_totals_protect
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_invoice_totals();
+
+-- Creates an invoice and its lines in one transaction. p_invoice holds the
+-- invoice columns a caller may set; each p_items entry holds job_id,
+-- description, quantity, rate, the discount and commission rates and the tax
+-- codes, plus optionally the schedule_ids the line bills. Runs as the
+-- caller, so row level security decides who may invoice.
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices AS $$
+DECLARE
+  invoice public.invoices;
+  item JSONB;
+  item_id UUID;
+  schedule_count INTEGER;
+  linked_count INTEGER;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  INSERT INTO public.invoices (
+    client_id, agency_id, status, due_date, notes, discount_rate,
+    billing_period_start, billing_period_end, created_by
+  )
+  VALUES (
+    (p_invoice->>'client_id')::UUID,
+    (p_invoice->>'agency_id')::UUID,
+    coalesce(p_invoice->>'status', 'pending'),
+    (p_invoice->>'due_date')::DATE,
+    p_invoice->>'notes',
+    coalesce((p_invoice->>'discount_rate')::NUMERIC, 0),
+    (p_invoice->>'billing_period_start')::DATE,
+    (p_invoice->>'billing_period_end')::DATE,
+    coalesce(auth.uid(), (p_invoice->>'created_by')::UUID)
+  )
+  RETURNING * INTO invoice;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    INSERT INTO public.invoice_items (
+      invoice_id, job_id, description, quantity, rate,
+      discount_rate, commission_rate, tax_code, wht_code
+    )
+    VALUES (
+      invoice.id,
+      (item->>'job_id')::UUID,
+      item->>'description',
+      (item->>'quantity')::NUMERIC,
+      (item->>'rate')::NUMERIC,
+      coalesce((item->>'discount_rate')::NUMERIC, 0),
+      coalesce((item->>'commission_rate')::NUMERIC, 0),
+      item->>'tax_code',
+      item->>'wht_code'
+    )
+    RETURNING id INTO item_id;
+
+    -- Spots billed twice would be charged twice, so a spot another invoice
+    -- took in the meantime fails the whole invoice
+    IF jsonb_typeof(item->'schedule_ids') = 'array' THEN
+      schedule_count := jsonb_array_length(item->'schedule_ids');
+
+      UPDATE public.schedules
+      SET invoice_item_id = item_id, updated_at = NOW()
+      WHERE id IN (SELECT value::UUID FROM jsonb_array_elements_text(item->'schedule_ids'))
+        AND invoice_item_id IS NULL;
+      GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+      IF linked_count <> schedule_count THEN
+        RAISE EXCEPTION 'Some of the spots for % have already been invoiced', item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  SELECT * INTO invoice FROM public.invoices WHERE id = invoice.id;
+  RETURN invoice;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,514 @@
+-- Draft invoices and credit notes. A draft can be edited freely and has no
+-- number yet; issuing it claims the next invoice number and locks its lines.
+-- Billed amounts on an issued invoice are reversed with a credit note, which
+-- is numbered in its own series and reduces the invoice's balance.
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('draft', 'pending', 'partially_paid', 'paid', 'overdue', 'credited'));
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS issued_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS credited_total NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+UPDATE public.invoices SET issued_at = created_at WHERE issued_at IS NULL AND status <> 'draft';
+
+ALTER TABLE public.invoices ALTER COLUMN invoice_number DROP NOT NULL;
+
+-- Drafts have no number; one is claimed when the invoice is issued, so a
+-- discarded draft leaves no gap in the sequence
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    IF NEW.status = 'draft' THEN
+      RAISE EXCEPTION 'Issued invoices cannot be returned to draft';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    NEW.invoice_number := NULL;
+    NEW.issued_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT EXISTS (
+    SELECT 1 FROM public.invoice_items WHERE invoice_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  NEW.invoice_number := public.next_invoice_number();
+  NEW.issued_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_invoice_assign_number ON public.invoices;
+CREATE TRIGGER on_invoice_assign_number
+  BEFORE INSERT OR UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_invoice_number();
+
+DROP TRIGGER IF EXISTS on_invoice_number_locked ON public.invoices;
+CREATE TRIGGER on_invoice_number_locked
+  BEFORE UPDATE OF invoice_number ON public.invoices
+  FOR EACH ROW
+  WHEN (OLD.invoice_number IS NOT NULL AND NEW.invoice_number IS DISTINCT FROM OLD.invoice_number)
+  EXECUTE FUNCTION public.prevent_invoice_number_change();
+
+-- Once issued, what is billed is fixed; the due date and notes may still
+-- change, and the client may, so duplicate clients can still be merged.
+-- Only drafts can be deleted.
+CREATE OR REPLACE FUNCTION public.check_invoice_editable()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR OLD.status = 'draft' THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Issued invoices cannot be deleted; raise a credit note instead';
+  END IF;
+
+  IF (NEW.agency_id, NEW.discount_rate, NEW.billing_period_start, NEW.billing_period_end)
+    IS DISTINCT FROM (OLD.agency_id, OLD.discount_rate, OLD.billing_period_start, OLD.billing_period_end) THEN
+    RAISE EXCEPTION 'Issued invoices cannot be edited; raise a credit note instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_invoice_editable_check ON public.invoices;
+CREATE TRIGGER on_invoice_editable_check
+  BEFORE UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_invoice_editable();
+
+-- Lines can be added, changed and removed only while the invoice is a draft
+CREATE OR REPLACE FUNCTION public.check_invoice_item_editable()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE status <> 'draft'
+    AND id IN (
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.invoice_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.invoice_id END
+    )
+  ) THEN
+    RAISE EXCEPTION 'The lines of an issued invoice cannot be changed; raise a credit note instead';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_invoice_item_editable_check ON public.invoice_items;
+CREATE TRIGGER on_invoice_item_editable_check
+  BEFORE INSERT OR UPDATE OR DELETE ON public.invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_invoice_item_editable();
+
+-- Advertisers only see invoices once they are issued
+ALTER POLICY "Advertisers can view their own invoices"
+  ON public.invoices
+  USING (
+    client_id = public.current_client_id()
+    AND status <> 'draft'
+  );
+
+ALTER POLICY "Advertisers can view their own invoice items"
+  ON public.invoice_items
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND invoices.client_id = public.current_client_id()
+      AND invoices.status <> 'draft'
+    )
+  );
+
+-- create_invoice() now builds the invoice as a draft and issues it once its
+-- lines are in, unless the caller asked for a draft
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices AS $$
+DECLARE
+  invoice public.invoices;
+  item JSONB;
+  item_id UUID;
+  schedule_count INTEGER;
+  linked_count INTEGER;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  INSERT INTO public.invoices (
+    client_id, agency_id, status, due_date, notes, discount_rate,
+    billing_period_start, billing_period_end, created_by
+  )
+  VALUES (
+    (p_invoice->>'client_id')::UUID,
+    (p_invoice->>'agency_id')::UUID,
+    'draft',
+    (p_invoice->>'due_date')::DATE,
+    p_invoice->>'notes',
+    coalesce((p_invoice->>'discount_rate')::NUMERIC, 0),
+    (p_invoice->>'billing_period_start')::DATE,
+    (p_invoice->>'billing_period_end')::DATE,
+    coalesce(auth.uid(), (p_invoice->>'created_by')::UUID)
+  )
+  RETURNING * INTO invoice;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    INSERT INTO public.invoice_items (
+      invoice_id, job_id, description, quantity, rate,
+      discount_rate, commission_rate, tax_code, wht_code
+    )
+    VALUES (
+      invoice.id,
+      (item->>'job_id')::UUID,
+      item->>'description',
+      (item->>'quantity')::NUMERIC,
+      (item->>'rate')::NUMERIC,
+      coalesce((item->>'discount_rate')::NUMERIC, 0),
+      coalesce((item->>'commission_rate')::NUMERIC, 0),
+      item->>'tax_code',
+      item->>'wht_code'
+    )
+    RETURNING id INTO item_id;
+
+    -- Spots billed twice would be charged twice, so a spot another invoice
+    -- took in the meantime fails the whole invoice
+    IF jsonb_typeof(item->'schedule_ids') = 'array' THEN
+      schedule_count := jsonb_array_length(item->'schedule_ids');
+
+      UPDATE public.schedules
+      SET invoice_item_id = item_id, updated_at = NOW()
+      WHERE id IN (SELECT value::UUID FROM jsonb_array_elements_text(item->'schedule_ids'))
+        AND invoice_item_id IS NULL;
+      GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+      IF linked_count <> schedule_count THEN
+        RAISE EXCEPTION 'Some of the spots for % have already been invoiced', item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF coalesce(p_invoice->>'status', 'pending') <> 'draft' THEN
+    UPDATE public.invoices SET status = 'pending', updated_at = NOW() WHERE id = invoice.id;
+  END IF;
+
+  SELECT * INTO invoice FROM public.invoices WHERE id = invoice.id;
+  RETURN invoice;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Credit note numbers follow the invoice settings with their own prefix and
+-- counter, e.g. CN-2026-00007
+ALTER TABLE public.invoice_number_settings
+  ADD COLUMN IF NOT EXISTS credit_note_prefix TEXT NOT NULL DEFAULT 'CN'
+  CHECK (credit_note_prefix ~ '^[A-Za-z0-9]{1,10}$');
+
+CREATE TABLE IF NOT EXISTS public.credit_note_number_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+ALTER TABLE public.credit_note_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.format_credit_note_number(p_year INTEGER, p_number INTEGER)
+RETURNS TEXT AS $$
+  SELECT settings.credit_note_prefix
+    || CASE WHEN settings.reset_yearly THEN '-' || p_year ELSE '' END
+    || '-' || lpad(p_number::TEXT, settings.pad_length, '0')
+  FROM public.invoice_number_settings settings
+  WHERE settings.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Claims the next number. Must run in the transaction that inserts the credit note.
+CREATE OR REPLACE FUNCTION public.next_credit_note_number()
+RETURNS TEXT AS $$
+DECLARE
+  counter_year INTEGER;
+  next_number INTEGER;
+BEGIN
+  SELECT CASE WHEN reset_yearly THEN extract(year FROM now())::INTEGER ELSE 0 END
+  INTO counter_year
+  FROM public.invoice_number_settings
+  WHERE id;
+
+  INSERT INTO public.credit_note_number_counters AS counters (year, last_number)
+  VALUES (counter_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = counters.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  RETURN public.format_credit_note_number(extract(year FROM now())::INTEGER, next_number);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Credit notes are never edited or deleted; a mistaken one is offset by
+-- invoicing again. Totals follow the invoice: total_amount is subtotal + VAT
+-- and the client's balance falls by total_amount - wht_total.
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number TEXT NOT NULL UNIQUE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  tax_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  wht_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES public.users(id)
+);
+
+-- amount is the net amount credited against the invoice line; the line's
+-- VAT and WHT rates apply to it
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  invoice_item_id UUID NOT NULL REFERENCES public.invoice_items(id),
+  description TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  wht_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  wht_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON public.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON public.credit_note_items(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_invoice_item_id ON public.credit_note_items(invoice_item_id);
+
+-- Credits count towards settling an invoice alongside payments. An invoice
+-- settled by credits alone is 'credited' rather than 'paid'.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id UUID)
+RETURNS void AS $$
+  UPDATE public.invoices i
+  SET
+    amount_paid = ledger.amount_paid,
+    credited_total = credits.credited_total,
+    status = CASE
+      WHEN ledger.amount_paid + credits.credited_total >= i.total_amount - i.wht_total AND i.total_amount > 0 THEN
+        CASE WHEN ledger.amount_paid > 0 THEN 'paid' ELSE 'credited' END
+      WHEN ledger.amount_paid > 0 THEN 'partially_paid'
+      WHEN i.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'pending'
+    END,
+    paid_date = CASE
+      WHEN ledger.amount_paid > 0 AND ledger.amount_paid + credits.credited_total >= i.total_amount - i.wht_total
+        AND i.total_amount > 0 THEN ledger.last_payment_date
+    END,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      coalesce(sum(amount), 0) AS amount_paid,
+      max(payment_date) AS last_payment_date
+    FROM public.payments
+    WHERE invoice_id = p_invoice_id
+      AND reversed_at IS NULL
+  ) AS ledger,
+  (
+    SELECT coalesce(sum(total_amount - wht_total), 0) AS credited_total
+    FROM public.credit_notes
+    WHERE invoice_id = p_invoice_id
+  ) AS credits
+  WHERE i.id = p_invoice_id
+    AND i.status <> 'draft';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Payments settle what is left after credits, and drafts can't be paid
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  invoice_status TEXT;
+  balance NUMERIC;
+BEGIN
+  SELECT i.status, i.total_amount - i.wht_total - i.credited_total - coalesce((
+    SELECT sum(p.amount) FROM public.payments p
+    WHERE p.invoice_id = i.id AND p.reversed_at IS NULL AND p.id <> NEW.id
+  ), 0)
+  INTO invoice_status, balance
+  FROM public.invoices i
+  WHERE i.id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF invoice_status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices cannot take payments; issue the invoice first';
+  END IF;
+
+  IF NEW.reversed_at IS NULL AND NEW.amount > balance THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Raises a credit note against an issued invoice. Each p_items entry holds
+-- the invoice_item_id being credited, the net amount and optionally a
+-- description. A line can't be credited for more than it billed, nor the
+-- invoice below nothing owed. Credit notes are only written here.
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id UUID, p_reason TEXT, p_items JSONB)
+RETURNS public.credit_notes AS $$
+DECLARE
+  invoice public.invoices;
+  credit_note public.credit_notes;
+  line public.invoice_items;
+  item JSONB;
+  credit_amount NUMERIC;
+  already_credited NUMERIC;
+  balance NUMERIC;
+BEGIN
+  IF NOT public.has_role('admin', 'finance') THEN
+    RAISE EXCEPTION 'Only admin and finance staff can raise credit notes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id
+    AND organisation_id = public.current_organisation_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices are edited, not credited';
+  END IF;
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line';
+  END IF;
+
+  INSERT INTO public.credit_notes (credit_note_number, invoice_id, reason, created_by)
+  VALUES (public.next_credit_note_number(), invoice.id, trim(p_reason), auth.uid())
+  RETURNING * INTO credit_note;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO line
+    FROM public.invoice_items
+    WHERE id = (item->>'invoice_item_id')::UUID
+      AND invoice_id = invoice.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Credit note lines must be lines of invoice %', invoice.invoice_number;
+    END IF;
+
+    credit_amount := round((item->>'amount')::NUMERIC, 2);
+
+    SELECT coalesce(sum(amount), 0) INTO already_credited
+    FROM public.credit_note_items
+    WHERE invoice_item_id = line.id;
+
+    IF credit_amount > line.amount - already_credited THEN
+      RAISE EXCEPTION 'Credit of % exceeds the % left to credit on %',
+        credit_amount, line.amount - already_credited, line.description;
+    END IF;
+
+    INSERT INTO public.credit_note_items (
+      credit_note_id, invoice_item_id, description, amount,
+      tax_rate, tax_amount, wht_rate, wht_amount
+    )
+    VALUES (
+      credit_note.id,
+      line.id,
+      coalesce(nullif(trim(item->>'description'), ''), line.description),
+      credit_amount,
+      line.tax_rate,
+      round(credit_amount * line.tax_rate / 100, 2),
+      line.wht_rate,
+      round(credit_amount * line.wht_rate / 100, 2)
+    );
+  END LOOP;
+
+  UPDATE public.credit_notes c
+  SET
+    subtotal = lines.subtotal,
+    tax_total = lines.tax_total,
+    wht_total = lines.wht_total,
+    total_amount = lines.subtotal + lines.tax_total
+  FROM (
+    SELECT
+      sum(amount) AS subtotal,
+      sum(tax_amount) AS tax_total,
+      sum(wht_amount) AS wht_total
+    FROM public.credit_note_items
+    WHERE credit_note_id = credit_note.id
+  ) AS lines
+  WHERE c.id = credit_note.id
+  RETURNING c.* INTO credit_note;
+
+  balance := invoice.total_amount - invoice.wht_total - invoice.credited_total - invoice.amount_paid;
+  IF credit_note.total_amount - credit_note.wht_total > balance THEN
+    RAISE EXCEPTION 'Credit of % exceeds the outstanding balance of %; reverse a payment first',
+      credit_note.total_amount - credit_note.wht_total, balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM public.refresh_invoice_payment_status(invoice.id);
+  RETURN credit_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sales and finance can view credit notes"
+  ON public.credit_notes
+  FOR SELECT
+  USING (
+    public.has_role('admin', 'host', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = credit_notes.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Advertisers can view their own credit notes"
+  ON public.credit_notes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = credit_notes.invoice_id
+      AND invoices.client_id = public.current_client_id()
+    )
+  );
+
+CREATE POLICY "Sales and finance can view credit note items"
+  ON public.credit_note_items
+  FOR SELECT
+  USING (
+    public.has_role('admin', 'host', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.credit_notes
+      JOIN public.invoices ON invoices.id = credit_notes.invoice_id
+      WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Advertisers can view their own credit note items"
+  ON public.credit_note_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.credit_notes
+      JOIN public.invoices ON invoices.id = credit_notes.invoice_id
+      WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND invoices.client_id = public.current_client_id()
+    )
+  );
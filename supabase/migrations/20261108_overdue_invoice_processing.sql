@@ -0,0 +1,136 @@
+-- Overdue processing for the scheduled job in app/api/cron/check-overdue-invoices.
+-- check_overdue_invoices() moves unpaid invoices past their due date to
+-- 'overdue', and back to 'pending' if the due date is pushed out again, and
+-- records every change it makes. Running it again changes nothing, so the
+-- scheduler can retry freely. invoice_ageing() reports what is owed by age.
+
+-- Status changes made by scheduled jobs, oldest first per invoice
+CREATE TABLE IF NOT EXISTS public.invoice_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_status_events_invoice_id ON public.invoice_status_events(invoice_id);
+
+-- The changes the overdue check would make today. Part-paid invoices are
+-- left alone, as before; refresh_invoice_payment_status() owns those.
+CREATE OR REPLACE FUNCTION public.overdue_invoice_transitions()
+RETURNS TABLE (
+  invoice_id UUID,
+  invoice_number TEXT,
+  organisation_id UUID,
+  due_date DATE,
+  from_status TEXT,
+  to_status TEXT
+) AS $$
+  SELECT id, invoice_number, organisation_id, due_date, status,
+    CASE WHEN status = 'pending' THEN 'overdue' ELSE 'pending' END
+  FROM public.invoices
+  WHERE amount_paid = 0
+    AND (
+      (status = 'pending' AND due_date < CURRENT_DATE)
+      OR (status = 'overdue' AND due_date >= CURRENT_DATE)
+    )
+  ORDER BY due_date, invoice_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Applies the transitions and returns them; with p_dry_run it only returns
+-- them. An invoice another run changed first no longer matches its old
+-- status, so concurrent runs never log the same change twice.
+DROP FUNCTION IF EXISTS public.check_overdue_invoices();
+
+CREATE OR REPLACE FUNCTION public.check_overdue_invoices(p_dry_run BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (
+  invoice_id UUID,
+  invoice_number TEXT,
+  organisation_id UUID,
+  due_date DATE,
+  from_status TEXT,
+  to_status TEXT
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_dry_run THEN
+    RETURN QUERY SELECT * FROM public.overdue_invoice_transitions();
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH changed AS (
+    UPDATE public.invoices i
+    SET status = t.to_status, updated_at = NOW()
+    FROM public.overdue_invoice_transitions() t
+    WHERE i.id = t.invoice_id
+      AND i.status = t.from_status
+    RETURNING i.id, i.invoice_number, i.organisation_id, i.due_date, t.from_status, i.status
+  ),
+  logged AS (
+    INSERT INTO public.invoice_status_events (invoice_id, from_status, to_status, source)
+    SELECT id, from_status, status, 'overdue_check'
+    FROM changed
+  )
+  SELECT * FROM changed
+  ORDER BY due_date, invoice_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Outstanding balances of issued invoices per organisation, by how far past
+-- their due date they are on p_as_of
+CREATE OR REPLACE FUNCTION public.invoice_ageing(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  organisation_id UUID,
+  invoice_count INTEGER,
+  current_balance NUMERIC,
+  days_1_30 NUMERIC,
+  days_31_60 NUMERIC,
+  days_61_90 NUMERIC,
+  days_over_90 NUMERIC,
+  total_balance NUMERIC
+) AS $$
+  SELECT
+    organisation_id,
+    count(*)::INTEGER,
+    coalesce(sum(balance) FILTER (WHERE days_overdue <= 0), 0),
+    coalesce(sum(balance) FILTER (WHERE days_overdue BETWEEN 1 AND 30), 0),
+    coalesce(sum(balance) FILTER (WHERE days_overdue BETWEEN 31 AND 60), 0),
+    coalesce(sum(balance) FILTER (WHERE days_overdue BETWEEN 61 AND 90), 0),
+    coalesce(sum(balance) FILTER (WHERE days_overdue > 90), 0),
+    sum(balance)
+  FROM (
+    SELECT
+      organisation_id,
+      p_as_of - due_date AS days_overdue,
+      total_amount - wht_total - credited_total - amount_paid AS balance
+    FROM public.invoices
+    WHERE status IN ('pending', 'partially_paid', 'overdue')
+  ) AS open_invoices
+  WHERE balance > 0
+  GROUP BY organisation_id
+  ORDER BY organisation_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- These cover every organisation, so only the service role may call them
+REVOKE EXECUTE ON FUNCTION public.overdue_invoice_transitions() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_overdue_invoices(BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.invoice_ageing(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_overdue_invoices(BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION public.invoice_ageing(DATE) TO service_role;
+
+-- Enable Row Level Security
+ALTER TABLE public.invoice_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and finance can view invoice status events"
+  ON public.invoice_status_events
+  FOR SELECT
+  USING (
+    public.has_role('admin', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_status_events.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
@@ -0,0 +1,155 @@
+-- Job status automation for the scheduler entry point in
+-- app/api/cron/update-job-status, replacing the polling from the dashboard.
+-- update_job_statuses() works through every organisation: a booked job goes
+-- in_progress while its last spot is airing and completed once that spot
+-- has ended, and the spot becomes live or completed with it. Each run is
+-- logged to job_status_runs.
+
+-- One row per run. 'failed' means at least one organisation could not be
+-- updated (see errors); 'skipped' means another run was already under way.
+CREATE TABLE IF NOT EXISTS public.job_status_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed', 'skipped')),
+  organisations_processed INTEGER NOT NULL DEFAULT 0,
+  jobs_started INTEGER NOT NULL DEFAULT 0,
+  jobs_completed INTEGER NOT NULL DEFAULT 0,
+  schedules_updated INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_status_runs_started_at ON public.job_status_runs(started_at DESC);
+
+-- The spot that ends last, of those not cancelled, for each booked job of an
+-- organisation
+CREATE OR REPLACE FUNCTION public.latest_job_schedules(p_organisation_id UUID)
+RETURNS TABLE (job_id UUID, schedule_id UUID, starts_at TIMESTAMP, ends_at TIMESTAMP) AS $$
+  SELECT DISTINCT ON (s.job_id)
+    s.job_id, s.id, s.scheduled_date + s.start_time, s.scheduled_date + s.end_time
+  FROM public.schedules s
+  JOIN public.jobs j ON j.id = s.job_id
+  JOIN public.stations st ON st.id = j.station_id
+  WHERE st.organisation_id = p_organisation_id
+    AND s.status <> 'cancelled'
+    AND j.status IN ('scheduled', 'in_progress', 'completed')
+  ORDER BY s.job_id, s.scheduled_date + s.end_time DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Each update only matches jobs not already in the target status, so a run
+-- repeated straight after changes nothing
+CREATE OR REPLACE FUNCTION public.update_organisation_job_statuses(
+  p_organisation_id UUID,
+  OUT jobs_started INTEGER,
+  OUT jobs_completed INTEGER,
+  OUT schedules_updated INTEGER
+) AS $$
+DECLARE
+  now_local TIMESTAMP := LOCALTIMESTAMP;
+  completed_schedules INTEGER;
+  live_schedules INTEGER;
+BEGIN
+  WITH finished AS (
+    UPDATE public.jobs j
+    SET status = 'completed', updated_at = NOW()
+    FROM public.latest_job_schedules(p_organisation_id) latest
+    WHERE j.id = latest.job_id
+      AND latest.ends_at < now_local
+      AND j.status IN ('scheduled', 'in_progress')
+    RETURNING latest.schedule_id
+  ),
+  finished_schedules AS (
+    UPDATE public.schedules s
+    SET status = 'completed', updated_at = NOW()
+    FROM finished
+    WHERE s.id = finished.schedule_id
+      AND s.status <> 'completed'
+    RETURNING s.id
+  )
+  SELECT (SELECT count(*) FROM finished), (SELECT count(*) FROM finished_schedules)
+  INTO jobs_completed, completed_schedules;
+
+  WITH started AS (
+    UPDATE public.jobs j
+    SET status = 'in_progress', updated_at = NOW()
+    FROM public.latest_job_schedules(p_organisation_id) latest
+    WHERE j.id = latest.job_id
+      AND latest.starts_at <= now_local
+      AND latest.ends_at > now_local
+      AND j.status IN ('scheduled', 'completed')
+    RETURNING latest.schedule_id
+  ),
+  live AS (
+    UPDATE public.schedules s
+    SET status = 'live', updated_at = NOW()
+    FROM started
+    WHERE s.id = started.schedule_id
+      AND s.status <> 'live'
+    RETURNING s.id
+  )
+  SELECT (SELECT count(*) FROM started), (SELECT count(*) FROM live)
+  INTO jobs_started, live_schedules;
+
+  schedules_updated := completed_schedules + live_schedules;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs every organisation in its own subtransaction, so one that fails (a
+-- spot clashing with another booking, say) is logged and the rest still
+-- update. A run that finds another in progress records itself as skipped.
+CREATE OR REPLACE FUNCTION public.update_job_statuses()
+RETURNS public.job_status_runs AS $$
+DECLARE
+  run public.job_status_runs;
+  organisation RECORD;
+  counts RECORD;
+  processed INTEGER := 0;
+  started INTEGER := 0;
+  completed INTEGER := 0;
+  schedules INTEGER := 0;
+  failures JSONB := '[]';
+BEGIN
+  IF NOT pg_try_advisory_xact_lock(hashtext('update_job_statuses')) THEN
+    INSERT INTO public.job_status_runs (status, finished_at)
+    VALUES ('skipped', clock_timestamp())
+    RETURNING * INTO run;
+    RETURN run;
+  END IF;
+
+  FOR organisation IN SELECT id, name FROM public.organisations ORDER BY name LOOP
+    BEGIN
+      SELECT * INTO counts FROM public.update_organisation_job_statuses(organisation.id);
+      processed := processed + 1;
+      started := started + counts.jobs_started;
+      completed := completed + counts.jobs_completed;
+      schedules := schedules + counts.schedules_updated;
+    EXCEPTION WHEN OTHERS THEN
+      failures := failures || jsonb_build_object(
+        'organisation_id', organisation.id,
+        'organisation', organisation.name,
+        'error', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  INSERT INTO public.job_status_runs (
+    status, organisations_processed, jobs_started, jobs_completed,
+    schedules_updated, errors, finished_at
+  )
+  VALUES (
+    CASE WHEN jsonb_array_length(failures) > 0 THEN 'failed' ELSE 'succeeded' END,
+    processed, started, completed, schedules, failures, clock_timestamp()
+  )
+  RETURNING * INTO run;
+  RETURN run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- These cover every organisation, so only the service role may call them
+REVOKE EXECUTE ON FUNCTION public.latest_job_schedules(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_organisation_job_statuses(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_job_statuses() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_job_statuses() TO service_role;
+
+-- The log spans organisations, so it is left to the service role
+ALTER TABLE public.job_status_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,209 @@
+-- Airtime checks for spots that run past midnight, bookings made at the same
+-- moment, and status changes.
+--
+-- A spot whose end_time is before its start_time ends on the next day. The
+-- checks now compare spots as timestamps, so such a spot clashes with the
+-- early spots of the next day and counts towards the hours it airs in.
+
+CREATE OR REPLACE FUNCTION public.check_airtime_availability(
+  p_slots JSONB,
+  p_exclude_job_id UUID DEFAULT NULL,
+  p_exclude_schedule_id UUID DEFAULT NULL,
+  p_station_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  conflict_type TEXT,
+  requested_date DATE,
+  requested_start_time TIME,
+  requested_end_time TIME,
+  schedule_id UUID,
+  job_id UUID,
+  job_title TEXT,
+  client_name TEXT,
+  start_time TIME,
+  end_time TIME,
+  booked_seconds INTEGER,
+  limit_seconds INTEGER
+) AS $$
+  WITH settings AS (
+    SELECT (max_commercial_minutes_per_hour * 60)::INTEGER AS limit_seconds
+    FROM public.airtime_settings
+    WHERE id
+  ),
+  requested AS (
+    SELECT
+      (slot->>'scheduled_date')::DATE AS scheduled_date,
+      (slot->>'start_time')::TIME AS start_time,
+      (slot->>'end_time')::TIME AS end_time
+    FROM jsonb_array_elements(p_slots) AS slot
+  ),
+  slots AS (
+    SELECT
+      scheduled_date,
+      start_time,
+      end_time,
+      scheduled_date + start_time AS starts_at,
+      scheduled_date + end_time
+        + CASE WHEN end_time < start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at
+    FROM requested
+  ),
+  -- Spots from the day either side can run into the requested ones
+  booked AS (
+    SELECT
+      s.id,
+      s.job_id,
+      s.start_time,
+      s.end_time,
+      s.scheduled_date + s.start_time AS starts_at,
+      s.scheduled_date + s.end_time
+        + CASE WHEN s.end_time < s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at,
+      j.title AS job_title,
+      c.name AS client_name
+    FROM public.schedules s
+    JOIN public.jobs j ON j.id = s.job_id
+    LEFT JOIN public.clients c ON c.id = j.client_id
+    WHERE s.status <> 'cancelled'
+      AND j.station_id = coalesce(p_station_id, public.current_station_id())
+      AND s.scheduled_date IN (
+        SELECT sl.scheduled_date + day_offset
+        FROM slots sl, generate_series(-1, 1) AS day_offset
+      )
+      AND (p_exclude_job_id IS NULL OR s.job_id <> p_exclude_job_id)
+      AND (p_exclude_schedule_id IS NULL OR s.id <> p_exclude_schedule_id)
+  ),
+  -- Clock hours touched by the requested slots
+  hours AS (
+    SELECT DISTINCT hour_start, hour_start + INTERVAL '1 hour' AS hour_end
+    FROM slots sl,
+      generate_series(date_trunc('hour', sl.starts_at), sl.ends_at - INTERVAL '1 second', INTERVAL '1 hour') AS hour_start
+  ),
+  hour_usage AS (
+    SELECT
+      hr.hour_start,
+      hr.hour_end,
+      (
+        SELECT coalesce(sum(extract(epoch FROM least(b.ends_at, hr.hour_end) - greatest(b.starts_at, hr.hour_start))), 0)
+        FROM booked b
+        WHERE b.starts_at < hr.hour_end
+          AND b.ends_at > hr.hour_start
+      ) + (
+        SELECT coalesce(sum(extract(epoch FROM least(sl.ends_at, hr.hour_end) - greatest(sl.starts_at, hr.hour_start))), 0)
+        FROM slots sl
+        WHERE sl.starts_at < hr.hour_end
+          AND sl.ends_at > hr.hour_start
+      ) AS used_seconds
+    FROM hours hr
+  )
+  SELECT
+    'overlap',
+    sl.scheduled_date,
+    sl.start_time,
+    sl.end_time,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    NULL::INTEGER,
+    NULL::INTEGER
+  FROM slots sl
+  JOIN booked b
+    ON b.starts_at < sl.ends_at
+    AND b.ends_at > sl.starts_at
+
+  UNION ALL
+
+  SELECT
+    'hour_limit',
+    hu.hour_start::DATE,
+    hu.hour_start::TIME,
+    hu.hour_end::TIME,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    hu.used_seconds::INTEGER,
+    settings.limit_seconds
+  FROM hour_usage hu
+  CROSS JOIN settings
+  LEFT JOIN booked b
+    ON b.starts_at < hu.hour_end
+    AND b.ends_at > hu.hour_start
+  WHERE hu.used_seconds > settings.limit_seconds
+
+  ORDER BY 2, 3, 9;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A status change such as a spot going live leaves its airtime alone, so
+-- only a spot that moves, or comes back from cancelled, is checked again.
+-- Bookings of the same station and day take turns, so two made at once
+-- can't both pass the check; a spot running past midnight holds the next
+-- day as well.
+CREATE OR REPLACE FUNCTION public.enforce_airtime_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  conflict RECORD;
+  job_station_id UUID;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status <> 'cancelled'
+    AND (NEW.scheduled_date, NEW.start_time, NEW.end_time, NEW.job_id)
+      IS NOT DISTINCT FROM (OLD.scheduled_date, OLD.start_time, OLD.end_time, OLD.job_id)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT station_id INTO job_station_id FROM public.jobs WHERE id = NEW.job_id;
+
+  PERFORM pg_advisory_xact_lock(hashtext(format('airtime:%s:%s', job_station_id, NEW.scheduled_date)));
+  IF NEW.end_time < NEW.start_time THEN
+    PERFORM pg_advisory_xact_lock(hashtext(format('airtime:%s:%s', job_station_id, NEW.scheduled_date + 1)));
+  END IF;
+
+  SELECT * INTO conflict
+  FROM public.check_airtime_availability(
+    jsonb_build_array(jsonb_build_object(
+      'scheduled_date', NEW.scheduled_date,
+      'start_time', NEW.start_time,
+      'end_time', NEW.end_time
+    )),
+    NULL,
+    NEW.id,
+    job_station_id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'exclusion_violation',
+      MESSAGE = CASE conflict.conflict_type
+        WHEN 'overlap' THEN format(
+          'Airtime on %s at %s is already booked for "%s"',
+          NEW.scheduled_date, NEW.start_time, conflict.job_title
+        )
+        ELSE format(
+          'Booking on %s at %s exceeds the commercial limit for the %s hour',
+          NEW.scheduled_date, NEW.start_time, conflict.requested_start_time
+        )
+      END,
+      DETAIL = conflict.conflict_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The trigger now also runs when a spot moves to another job, since that
+-- can move it to another station
+DROP TRIGGER IF EXISTS on_schedule_airtime_check ON public.schedules;
+CREATE TRIGGER on_schedule_airtime_check
+  BEFORE INSERT OR UPDATE OF scheduled_date, start_time, end_time, status, job_id ON public.schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_airtime_availability();
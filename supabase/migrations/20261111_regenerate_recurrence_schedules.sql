@@ -0,0 +1,41 @@
+-- Rewriting a recurrence rule's future spots happens in one transaction:
+-- the upcoming spots from p_from onwards are deleted and p_schedules booked
+-- in their place, so a booking that fails (clashing airtime, say) leaves the
+-- old spots as they were. p_schedules is an array of objects with
+-- scheduled_date, start_time and end_time. Runs as the caller, so row level
+-- security decides who may rebook the job.
+CREATE OR REPLACE FUNCTION public.regenerate_recurrence_schedules(
+  p_rule_id UUID,
+  p_from DATE,
+  p_schedules JSONB
+)
+RETURNS SETOF public.schedules AS $$
+DECLARE
+  rule public.job_recurrence_rules;
+BEGIN
+  SELECT * INTO rule FROM public.job_recurrence_rules WHERE id = p_rule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurrence rule % not found', p_rule_id;
+  END IF;
+
+  DELETE FROM public.schedules
+  WHERE recurrence_rule_id = rule.id
+    AND status = 'upcoming'
+    AND scheduled_date >= p_from;
+
+  RETURN QUERY
+  INSERT INTO public.schedules (
+    job_id, recurrence_rule_id, scheduled_date, start_time, end_time, status, created_by
+  )
+  SELECT
+    rule.job_id,
+    rule.id,
+    (slot->>'scheduled_date')::DATE,
+    (slot->>'start_time')::TIME,
+    (slot->>'end_time')::TIME,
+    'upcoming',
+    rule.created_by
+  FROM jsonb_array_elements(coalesce(p_schedules, '[]')) AS slot
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,55 @@
+-- Merging clients also moves the duplicate's booking requests and advertiser
+-- logins to the kept client. Deleting the duplicate used to remove its
+-- booking requests (ON DELETE CASCADE) and leave its advertisers without a
+-- client, and so without the portal (ON DELETE SET NULL).
+CREATE OR REPLACE FUNCTION public.merge_clients(p_keep_id UUID, p_duplicate_id UUID)
+RETURNS public.clients AS $$
+DECLARE
+  duplicate public.clients;
+  kept public.clients;
+BEGIN
+  IF NOT public.has_role('admin', 'host', 'traffic', 'finance') THEN
+    RAISE EXCEPTION 'Only staff can merge clients';
+  END IF;
+
+  IF p_keep_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  -- Lock both rows so a concurrent edit or merge can't interleave
+  PERFORM 1 FROM public.clients WHERE id IN (p_keep_id, p_duplicate_id) FOR UPDATE;
+
+  SELECT * INTO duplicate
+  FROM public.clients
+  WHERE id = p_duplicate_id
+    AND organisation_id = public.current_organisation_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_duplicate_id;
+  END IF;
+
+  UPDATE public.clients
+  SET
+    contact_person = coalesce(contact_person, duplicate.contact_person),
+    email = coalesce(email, duplicate.email),
+    phone = coalesce(phone, duplicate.phone),
+    address = coalesce(address, duplicate.address),
+    agency_id = coalesce(agency_id, duplicate.agency_id),
+    updated_at = NOW()
+  WHERE id = p_keep_id
+    AND organisation_id = public.current_organisation_id()
+  RETURNING * INTO kept;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client % not found', p_keep_id;
+  END IF;
+
+  UPDATE public.jobs SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+  UPDATE public.invoices SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+  UPDATE public.booking_requests SET client_id = p_keep_id, updated_at = NOW() WHERE client_id = p_duplicate_id;
+  UPDATE public.users SET client_id = p_keep_id WHERE client_id = p_duplicate_id;
+
+  DELETE FROM public.clients WHERE id = p_duplicate_id;
+
+  RETURN kept;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
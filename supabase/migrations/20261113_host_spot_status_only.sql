@@ -0,0 +1,32 @@
+-- Hosts could update any column of any spot at their station through "Hosts
+-- can update spots they air". They now only change the status of spots on
+-- their own jobs: the rows come from "Hosts can manage schedules for their
+-- jobs", and the trigger below keeps every other column as it was. Moving a
+-- spot is left to traffic and admins, or to rebooking the job's rule.
+DROP POLICY IF EXISTS "Hosts can update spots they air" ON public.schedules;
+
+-- Deleting a recurrence rule or an invoice line clears the link on its
+-- spots, so those may still be set to NULL
+CREATE OR REPLACE FUNCTION public.protect_host_schedule_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND public.has_role('host')
+    AND (
+      to_jsonb(NEW) - 'status' - 'updated_at' - 'recurrence_rule_id' - 'invoice_item_id'
+        IS DISTINCT FROM to_jsonb(OLD) - 'status' - 'updated_at' - 'recurrence_rule_id' - 'invoice_item_id'
+      OR (NEW.recurrence_rule_id IS NOT NULL AND NEW.recurrence_rule_id IS DISTINCT FROM OLD.recurrence_rule_id)
+      OR (NEW.invoice_item_id IS NOT NULL AND NEW.invoice_item_id IS DISTINCT FROM OLD.invoice_item_id)
+    )
+  THEN
+    RAISE EXCEPTION 'Hosts can only change the status of a spot';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_host_schedule_change ON public.schedules;
+CREATE TRIGGER on_host_schedule_change
+  BEFORE UPDATE ON public.schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_host_schedule_changes();
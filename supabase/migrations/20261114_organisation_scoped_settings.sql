@@ -0,0 +1,465 @@
+-- Each organisation keeps its own settings, rate cards and tax rules; they
+-- were shared by every organisation until now. The single settings rows
+-- become one row per organisation, and row level security and the
+-- functions that read them follow the signed-in user's current
+-- organisation.
+--
+-- The existing rows go to the oldest organisation, the one created from
+-- them in 20261105_organisations_and_stations.sql. Any other organisation
+-- gets the same airtime limit, rate card defaults and tax rules, but its
+-- own letterhead and no rate cards, since those describe one business.
+
+-- Settings rows
+
+ALTER TABLE public.organisation_settings
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+ALTER TABLE public.airtime_settings
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+ALTER TABLE public.rate_card_settings
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+
+UPDATE public.organisation_settings
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+UPDATE public.airtime_settings
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+UPDATE public.rate_card_settings
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+
+-- Without an organisation yet, the rows are made when the first one is
+DELETE FROM public.organisation_settings WHERE organisation_id IS NULL;
+DELETE FROM public.airtime_settings WHERE organisation_id IS NULL;
+DELETE FROM public.rate_card_settings WHERE organisation_id IS NULL;
+
+ALTER TABLE public.organisation_settings DROP CONSTRAINT IF EXISTS organisation_settings_pkey;
+ALTER TABLE public.organisation_settings DROP COLUMN IF EXISTS id;
+ALTER TABLE public.organisation_settings ADD PRIMARY KEY (organisation_id);
+
+ALTER TABLE public.airtime_settings DROP CONSTRAINT IF EXISTS airtime_settings_pkey;
+ALTER TABLE public.airtime_settings DROP COLUMN IF EXISTS id;
+ALTER TABLE public.airtime_settings ADD PRIMARY KEY (organisation_id);
+
+ALTER TABLE public.rate_card_settings DROP CONSTRAINT IF EXISTS rate_card_settings_pkey;
+ALTER TABLE public.rate_card_settings DROP COLUMN IF EXISTS id;
+ALTER TABLE public.rate_card_settings ADD PRIMARY KEY (organisation_id);
+
+INSERT INTO public.organisation_settings (organisation_id, station_name)
+SELECT id, name FROM public.organisations
+ON CONFLICT (organisation_id) DO NOTHING;
+
+INSERT INTO public.airtime_settings (organisation_id, max_commercial_minutes_per_hour)
+SELECT o.id, coalesce(
+  (SELECT max_commercial_minutes_per_hour FROM public.airtime_settings ORDER BY updated_at LIMIT 1),
+  12
+)
+FROM public.organisations o
+ON CONFLICT (organisation_id) DO NOTHING;
+
+INSERT INTO public.rate_card_settings (organisation_id, default_spot_length, require_override_reason)
+SELECT o.id, coalesce(existing.default_spot_length, 30), coalesce(existing.require_override_reason, TRUE)
+FROM public.organisations o
+LEFT JOIN LATERAL (
+  SELECT default_spot_length, require_override_reason
+  FROM public.rate_card_settings
+  ORDER BY updated_at
+  LIMIT 1
+) existing ON TRUE
+ON CONFLICT (organisation_id) DO NOTHING;
+
+-- Rate cards
+
+ALTER TABLE public.rate_cards ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+
+UPDATE public.rate_cards
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+
+ALTER TABLE public.rate_cards
+  ALTER COLUMN organisation_id SET DEFAULT public.current_organisation_id(),
+  ALTER COLUMN organisation_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rate_cards_organisation_id ON public.rate_cards(organisation_id);
+
+-- Tax rules. Codes are now unique within an organisation, so invoice lines
+-- can no longer reference a rule by code alone; tax_rule_rate() checks the
+-- code against the invoice's organisation instead.
+
+ALTER TABLE public.invoice_items DROP CONSTRAINT IF EXISTS invoice_items_tax_code_fkey;
+ALTER TABLE public.invoice_items DROP CONSTRAINT IF EXISTS invoice_items_wht_code_fkey;
+
+ALTER TABLE public.tax_rules ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+
+UPDATE public.tax_rules
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+
+-- Without an organisation yet, the rules are seeded again with the first one
+DELETE FROM public.tax_rules WHERE organisation_id IS NULL;
+
+ALTER TABLE public.tax_rules DROP CONSTRAINT IF EXISTS tax_rules_pkey;
+ALTER TABLE public.tax_rules
+  ALTER COLUMN organisation_id SET DEFAULT public.current_organisation_id(),
+  ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.tax_rules ADD PRIMARY KEY (organisation_id, code);
+
+INSERT INTO public.tax_rules (organisation_id, code, name, kind, rate, is_default, is_active)
+SELECT o.id, rule.code, rule.name, rule.kind, rule.rate, rule.is_default, rule.is_active
+FROM public.organisations o
+CROSS JOIN public.tax_rules rule
+WHERE rule.organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+  AND o.id <> rule.organisation_id;
+
+DROP INDEX IF EXISTS public.idx_tax_rules_default_kind;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_rules_default_kind
+  ON public.tax_rules(organisation_id, kind)
+  WHERE is_default;
+
+-- New organisations start from the defaults
+CREATE OR REPLACE FUNCTION public.create_organisation_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.organisation_settings (organisation_id, station_name) VALUES (NEW.id, NEW.name);
+  INSERT INTO public.airtime_settings (organisation_id) VALUES (NEW.id);
+  INSERT INTO public.rate_card_settings (organisation_id) VALUES (NEW.id);
+  INSERT INTO public.tax_rules (organisation_id, code, name, kind, rate, is_default) VALUES
+    (NEW.id, 'VAT', 'VAT 7.5%', 'vat', 7.5, TRUE),
+    (NEW.id, 'VAT_EXEMPT', 'VAT exempt', 'vat', 0, FALSE),
+    (NEW.id, 'WHT_5', 'Withholding tax 5%', 'withholding', 5, FALSE),
+    (NEW.id, 'WHT_10', 'Withholding tax 10%', 'withholding', 10, FALSE);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_organisation_created ON public.organisations;
+CREATE TRIGGER on_organisation_created
+  AFTER INSERT ON public.organisations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_organisation_settings();
+
+-- Row level security. Advertisers see the letterhead of their client's
+-- organisation, which their invoices carry.
+
+DROP POLICY IF EXISTS "Authenticated users can view organisation settings" ON public.organisation_settings;
+DROP POLICY IF EXISTS "Admins can update organisation settings" ON public.organisation_settings;
+
+CREATE POLICY "Members can view their organisation's settings"
+  ON public.organisation_settings
+  FOR SELECT
+  USING (
+    organisation_id = public.current_organisation_id()
+    OR EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE clients.id = public.current_client_id()
+      AND clients.organisation_id = organisation_settings.organisation_id
+    )
+  );
+
+CREATE POLICY "Admins can update their organisation's settings"
+  ON public.organisation_settings
+  FOR UPDATE
+  USING (public.has_role('admin') AND organisation_id = public.current_organisation_id());
+
+DROP POLICY IF EXISTS "Authenticated users can view airtime settings" ON public.airtime_settings;
+DROP POLICY IF EXISTS "Admins can update airtime settings" ON public.airtime_settings;
+
+CREATE POLICY "Members can view their organisation's airtime settings"
+  ON public.airtime_settings
+  FOR SELECT
+  USING (organisation_id = public.current_organisation_id());
+
+CREATE POLICY "Admins can update their organisation's airtime settings"
+  ON public.airtime_settings
+  FOR UPDATE
+  USING (public.has_role('admin') AND organisation_id = public.current_organisation_id());
+
+DROP POLICY IF EXISTS "Authenticated users can view rate card settings" ON public.rate_card_settings;
+DROP POLICY IF EXISTS "Admins can update rate card settings" ON public.rate_card_settings;
+
+CREATE POLICY "Members can view their organisation's rate card settings"
+  ON public.rate_card_settings
+  FOR SELECT
+  USING (organisation_id = public.current_organisation_id());
+
+CREATE POLICY "Admins can update their organisation's rate card settings"
+  ON public.rate_card_settings
+  FOR UPDATE
+  USING (public.has_role('admin') AND organisation_id = public.current_organisation_id());
+
+DROP POLICY IF EXISTS "Authenticated users can view rate cards" ON public.rate_cards;
+DROP POLICY IF EXISTS "Authenticated users can view rate card dayparts" ON public.rate_card_dayparts;
+DROP POLICY IF EXISTS "Authenticated users can view rate card entries" ON public.rate_card_entries;
+DROP POLICY IF EXISTS "Admins have full access to rate cards" ON public.rate_cards;
+DROP POLICY IF EXISTS "Admins have full access to rate card dayparts" ON public.rate_card_dayparts;
+DROP POLICY IF EXISTS "Admins have full access to rate card entries" ON public.rate_card_entries;
+
+CREATE POLICY "Members can view their organisation's rate cards"
+  ON public.rate_cards
+  FOR SELECT
+  USING (organisation_id = public.current_organisation_id());
+
+CREATE POLICY "Admins can manage their organisation's rate cards"
+  ON public.rate_cards
+  FOR ALL
+  USING (public.has_role('admin') AND organisation_id = public.current_organisation_id())
+  WITH CHECK (public.has_role('admin') AND organisation_id = public.current_organisation_id());
+
+CREATE POLICY "Members can view their organisation's rate card dayparts"
+  ON public.rate_card_dayparts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.rate_cards
+      WHERE rate_cards.id = rate_card_dayparts.rate_card_id
+      AND rate_cards.organisation_id = public.current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Admins can manage their organisation's rate card dayparts"
+  ON public.rate_card_dayparts
+  FOR ALL
+  USING (
+    public.has_role('admin')
+    AND EXISTS (
+      SELECT 1 FROM public.rate_cards
+      WHERE rate_cards.id = rate_card_dayparts.rate_card_id
+      AND rate_cards.organisation_id = public.current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Members can view their organisation's rate card entries"
+  ON public.rate_card_entries
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.rate_cards
+      WHERE rate_cards.id = rate_card_entries.rate_card_id
+      AND rate_cards.organisation_id = public.current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Admins can manage their organisation's rate card entries"
+  ON public.rate_card_entries
+  FOR ALL
+  USING (
+    public.has_role('admin')
+    AND EXISTS (
+      SELECT 1 FROM public.rate_cards
+      WHERE rate_cards.id = rate_card_entries.rate_card_id
+      AND rate_cards.organisation_id = public.current_organisation_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view tax rules" ON public.tax_rules;
+DROP POLICY IF EXISTS "Admins can manage tax rules" ON public.tax_rules;
+
+CREATE POLICY "Members can view their organisation's tax rules"
+  ON public.tax_rules
+  FOR SELECT
+  USING (organisation_id = public.current_organisation_id());
+
+CREATE POLICY "Admins can manage their organisation's tax rules"
+  ON public.tax_rules
+  FOR ALL
+  USING (public.has_role('admin') AND organisation_id = public.current_organisation_id())
+  WITH CHECK (public.has_role('admin') AND organisation_id = public.current_organisation_id());
+
+-- The rate of one of the organisation's VAT or withholding codes; no code
+-- means no tax
+DROP FUNCTION IF EXISTS public.tax_rule_rate(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.tax_rule_rate(p_code TEXT, p_kind TEXT, p_organisation_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  rule public.tax_rules;
+BEGIN
+  IF p_code IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.tax_rules
+  WHERE organisation_id = p_organisation_id
+    AND code = p_code;
+  IF NOT FOUND OR rule.kind <> p_kind THEN
+    RAISE EXCEPTION 'Unknown % tax code: %', CASE WHEN p_kind = 'vat' THEN 'VAT' ELSE 'withholding' END, p_code;
+  END IF;
+
+  RETURN rule.rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- As in 20261106_invoice_totals_on_server.sql, with the tax codes looked up
+-- in the invoice's organisation
+CREATE OR REPLACE FUNCTION public.price_invoice_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  invoice_discount_rate NUMERIC;
+  invoice_organisation_id UUID;
+  line_discount NUMERIC;
+BEGIN
+  SELECT discount_rate, organisation_id INTO invoice_discount_rate, invoice_organisation_id
+  FROM public.invoices
+  WHERE id = NEW.invoice_id;
+
+  NEW.gross_amount := round(NEW.quantity * NEW.rate, 2);
+  line_discount := round(NEW.gross_amount * NEW.discount_rate / 100, 2);
+  NEW.discount_amount := line_discount
+    + round((NEW.gross_amount - line_discount) * coalesce(invoice_discount_rate, 0) / 100, 2);
+  NEW.commission_amount := round((NEW.gross_amount - NEW.discount_amount) * NEW.commission_rate / 100, 2);
+  NEW.amount := NEW.gross_amount - NEW.discount_amount - NEW.commission_amount;
+
+  NEW.tax_code := nullif(NEW.tax_code, '');
+  NEW.wht_code := nullif(NEW.wht_code, '');
+  IF TG_OP = 'INSERT' OR NEW.tax_code IS DISTINCT FROM OLD.tax_code THEN
+    NEW.tax_rate := public.tax_rule_rate(NEW.tax_code, 'vat', invoice_organisation_id);
+  ELSE
+    NEW.tax_rate := OLD.tax_rate;
+  END IF;
+  IF TG_OP = 'INSERT' OR NEW.wht_code IS DISTINCT FROM OLD.wht_code THEN
+    NEW.wht_rate := public.tax_rule_rate(NEW.wht_code, 'withholding', invoice_organisation_id);
+  ELSE
+    NEW.wht_rate := OLD.wht_rate;
+  END IF;
+
+  NEW.tax_amount := round(NEW.amount * NEW.tax_rate / 100, 2);
+  NEW.wht_amount := round(NEW.amount * NEW.wht_rate / 100, 2);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in 20261110_airtime_check_fixes.sql, with the hourly limit of the
+-- station's organisation
+CREATE OR REPLACE FUNCTION public.check_airtime_availability(
+  p_slots JSONB,
+  p_exclude_job_id UUID DEFAULT NULL,
+  p_exclude_schedule_id UUID DEFAULT NULL,
+  p_station_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  conflict_type TEXT,
+  requested_date DATE,
+  requested_start_time TIME,
+  requested_end_time TIME,
+  schedule_id UUID,
+  job_id UUID,
+  job_title TEXT,
+  client_name TEXT,
+  start_time TIME,
+  end_time TIME,
+  booked_seconds INTEGER,
+  limit_seconds INTEGER
+) AS $$
+  WITH settings AS (
+    SELECT (a.max_commercial_minutes_per_hour * 60)::INTEGER AS limit_seconds
+    FROM public.airtime_settings a
+    JOIN public.stations st ON st.organisation_id = a.organisation_id
+    WHERE st.id = coalesce(p_station_id, public.current_station_id())
+  ),
+  requested AS (
+    SELECT
+      (slot->>'scheduled_date')::DATE AS scheduled_date,
+      (slot->>'start_time')::TIME AS start_time,
+      (slot->>'end_time')::TIME AS end_time
+    FROM jsonb_array_elements(p_slots) AS slot
+  ),
+  slots AS (
+    SELECT
+      scheduled_date,
+      start_time,
+      end_time,
+      scheduled_date + start_time AS starts_at,
+      scheduled_date + end_time
+        + CASE WHEN end_time < start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at
+    FROM requested
+  ),
+  -- Spots from the day either side can run into the requested ones
+  booked AS (
+    SELECT
+      s.id,
+      s.job_id,
+      s.start_time,
+      s.end_time,
+      s.scheduled_date + s.start_time AS starts_at,
+      s.scheduled_date + s.end_time
+        + CASE WHEN s.end_time < s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at,
+      j.title AS job_title,
+      c.name AS client_name
+    FROM public.schedules s
+    JOIN public.jobs j ON j.id = s.job_id
+    LEFT JOIN public.clients c ON c.id = j.client_id
+    WHERE s.status <> 'cancelled'
+      AND j.station_id = coalesce(p_station_id, public.current_station_id())
+      AND s.scheduled_date IN (
+        SELECT sl.scheduled_date + day_offset
+        FROM slots sl, generate_series(-1, 1) AS day_offset
+      )
+      AND (p_exclude_job_id IS NULL OR s.job_id <> p_exclude_job_id)
+      AND (p_exclude_schedule_id IS NULL OR s.id <> p_exclude_schedule_id)
+  ),
+  -- Clock hours touched by the requested slots
+  hours AS (
+    SELECT DISTINCT hour_start, hour_start + INTERVAL '1 hour' AS hour_end
+    FROM slots sl,
+      generate_series(date_trunc('hour', sl.starts_at), sl.ends_at - INTERVAL '1 second', INTERVAL '1 hour') AS hour_start
+  ),
+  hour_usage AS (
+    SELECT
+      hr.hour_start,
+      hr.hour_end,
+      (
+        SELECT coalesce(sum(extract(epoch FROM least(b.ends_at, hr.hour_end) - greatest(b.starts_at, hr.hour_start))), 0)
+        FROM booked b
+        WHERE b.starts_at < hr.hour_end
+          AND b.ends_at > hr.hour_start
+      ) + (
+        SELECT coalesce(sum(extract(epoch FROM least(sl.ends_at, hr.hour_end) - greatest(sl.starts_at, hr.hour_start))), 0)
+        FROM slots sl
+        WHERE sl.starts_at < hr.hour_end
+          AND sl.ends_at > hr.hour_start
+      ) AS used_seconds
+    FROM hours hr
+  )
+  SELECT
+    'overlap',
+    sl.scheduled_date,
+    sl.start_time,
+    sl.end_time,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    NULL::INTEGER,
+    NULL::INTEGER
+  FROM slots sl
+  JOIN booked b
+    ON b.starts_at < sl.ends_at
+    AND b.ends_at > sl.starts_at
+
+  UNION ALL
+
+  SELECT
+    'hour_limit',
+    hu.hour_start::DATE,
+    hu.hour_start::TIME,
+    hu.hour_end::TIME,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    hu.used_seconds::INTEGER,
+    settings.limit_seconds
+  FROM hour_usage hu
+  CROSS JOIN settings
+  LEFT JOIN booked b
+    ON b.starts_at < hu.hour_end
+    AND b.ends_at > hu.hour_start
+  WHERE hu.used_seconds > settings.limit_seconds
+
+  ORDER BY 2, 3, 9;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,365 @@
+-- Invoice and credit note numbers run per organisation. Each organisation
+-- has its own numbering settings and counters, so two organisations no
+-- longer share one sequence, and the year in a number is the year of the
+-- issue date in the organisation's time zone rather than in UTC: an invoice
+-- issued at 00:30 on 1 January in Lagos is numbered in the new year.
+
+CREATE OR REPLACE FUNCTION public.is_time_zone(p_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_name)
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE public.organisation_settings
+  ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'Africa/Lagos'
+  CHECK (public.is_time_zone(time_zone));
+
+-- Wall-clock time at the organisation, by default now
+CREATE OR REPLACE FUNCTION public.organisation_local_time(p_organisation_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS TIMESTAMP AS $$
+  SELECT p_at AT TIME ZONE coalesce(
+    (SELECT time_zone FROM public.organisation_settings WHERE organisation_id = p_organisation_id),
+    'Africa/Lagos'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Numbering settings, one row per organisation as in
+-- 20261114_organisation_scoped_settings.sql. The existing row goes to the
+-- oldest organisation and is copied to the others.
+
+ALTER TABLE public.invoice_number_settings
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+
+UPDATE public.invoice_number_settings
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+
+DELETE FROM public.invoice_number_settings WHERE organisation_id IS NULL;
+
+ALTER TABLE public.invoice_number_settings DROP CONSTRAINT IF EXISTS invoice_number_settings_pkey;
+ALTER TABLE public.invoice_number_settings DROP COLUMN IF EXISTS id;
+ALTER TABLE public.invoice_number_settings ADD PRIMARY KEY (organisation_id);
+
+INSERT INTO public.invoice_number_settings (organisation_id, prefix, credit_note_prefix, pad_length, reset_yearly)
+SELECT o.id,
+  coalesce(existing.prefix, 'INV'),
+  coalesce(existing.credit_note_prefix, 'CN'),
+  coalesce(existing.pad_length, 5),
+  coalesce(existing.reset_yearly, TRUE)
+FROM public.organisations o
+LEFT JOIN LATERAL (
+  SELECT prefix, credit_note_prefix, pad_length, reset_yearly
+  FROM public.invoice_number_settings
+  ORDER BY updated_at
+  LIMIT 1
+) existing ON TRUE
+ON CONFLICT (organisation_id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Authenticated users can view invoice number settings" ON public.invoice_number_settings;
+DROP POLICY IF EXISTS "Admins can update invoice number settings" ON public.invoice_number_settings;
+
+CREATE POLICY "Members can view their organisation's invoice number settings"
+  ON public.invoice_number_settings
+  FOR SELECT
+  USING (organisation_id = public.current_organisation_id());
+
+CREATE POLICY "Admins can update their organisation's invoice number settings"
+  ON public.invoice_number_settings
+  FOR UPDATE
+  USING (public.has_role('admin') AND organisation_id = public.current_organisation_id());
+
+-- Counters, per organisation and year; the counts so far belong to the
+-- oldest organisation
+
+ALTER TABLE public.invoice_number_counters
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+UPDATE public.invoice_number_counters
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+DELETE FROM public.invoice_number_counters WHERE organisation_id IS NULL;
+ALTER TABLE public.invoice_number_counters DROP CONSTRAINT IF EXISTS invoice_number_counters_pkey;
+ALTER TABLE public.invoice_number_counters ADD PRIMARY KEY (organisation_id, year);
+
+ALTER TABLE public.credit_note_number_counters
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+UPDATE public.credit_note_number_counters
+SET organisation_id = (SELECT id FROM public.organisations ORDER BY created_at LIMIT 1)
+WHERE organisation_id IS NULL;
+DELETE FROM public.credit_note_number_counters WHERE organisation_id IS NULL;
+ALTER TABLE public.credit_note_number_counters DROP CONSTRAINT IF EXISTS credit_note_number_counters_pkey;
+ALTER TABLE public.credit_note_number_counters ADD PRIMARY KEY (organisation_id, year);
+
+-- Numbers are unique within an organisation
+
+DROP INDEX IF EXISTS public.idx_invoices_invoice_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_invoice_number ON public.invoices(organisation_id, invoice_number);
+
+ALTER TABLE public.credit_notes
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id);
+UPDATE public.credit_notes c
+SET organisation_id = i.organisation_id
+FROM public.invoices i
+WHERE i.id = c.invoice_id
+  AND c.organisation_id IS NULL;
+ALTER TABLE public.credit_notes ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.credit_notes DROP CONSTRAINT IF EXISTS credit_notes_credit_note_number_key;
+ALTER TABLE public.credit_notes
+  ADD CONSTRAINT credit_notes_credit_note_number_key UNIQUE (organisation_id, credit_note_number);
+
+-- Numbering functions
+
+DROP FUNCTION IF EXISTS public.format_invoice_number(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.next_invoice_number();
+DROP FUNCTION IF EXISTS public.format_credit_note_number(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.next_credit_note_number();
+
+CREATE OR REPLACE FUNCTION public.format_invoice_number(p_organisation_id UUID, p_year INTEGER, p_number INTEGER)
+RETURNS TEXT AS $$
+  SELECT settings.prefix
+    || CASE WHEN settings.reset_yearly THEN '-' || p_year ELSE '' END
+    || '-' || lpad(p_number::TEXT, settings.pad_length, '0')
+  FROM public.invoice_number_settings settings
+  WHERE settings.organisation_id = p_organisation_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Claims the organisation's next number for an invoice issued at
+-- p_issued_at. Must run in the transaction that issues the invoice.
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_organisation_id UUID, p_issued_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+  issue_year INTEGER := extract(year FROM public.organisation_local_time(p_organisation_id, p_issued_at))::INTEGER;
+  counter_year INTEGER;
+  next_number INTEGER;
+BEGIN
+  SELECT CASE WHEN reset_yearly THEN issue_year ELSE 0 END
+  INTO counter_year
+  FROM public.invoice_number_settings
+  WHERE organisation_id = p_organisation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice numbering is not set up for this organisation';
+  END IF;
+
+  INSERT INTO public.invoice_number_counters AS counters (organisation_id, year, last_number)
+  VALUES (p_organisation_id, counter_year, 1)
+  ON CONFLICT (organisation_id, year) DO UPDATE SET last_number = counters.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  RETURN public.format_invoice_number(p_organisation_id, issue_year, next_number);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- What the current organisation's next invoice will be numbered if issued
+-- now, without claiming it
+CREATE OR REPLACE FUNCTION public.preview_next_invoice_number()
+RETURNS TEXT AS $$
+  WITH issue AS (
+    SELECT
+      public.current_organisation_id() AS organisation_id,
+      extract(year FROM public.organisation_local_time(public.current_organisation_id()))::INTEGER AS year
+  )
+  SELECT public.format_invoice_number(
+    issue.organisation_id,
+    issue.year,
+    coalesce((
+      SELECT counters.last_number
+      FROM public.invoice_number_counters counters
+      WHERE counters.organisation_id = issue.organisation_id
+        AND counters.year = CASE WHEN settings.reset_yearly THEN issue.year ELSE 0 END
+    ), 0) + 1
+  )
+  FROM issue
+  JOIN public.invoice_number_settings settings ON settings.organisation_id = issue.organisation_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.format_credit_note_number(p_organisation_id UUID, p_year INTEGER, p_number INTEGER)
+RETURNS TEXT AS $$
+  SELECT settings.credit_note_prefix
+    || CASE WHEN settings.reset_yearly THEN '-' || p_year ELSE '' END
+    || '-' || lpad(p_number::TEXT, settings.pad_length, '0')
+  FROM public.invoice_number_settings settings
+  WHERE settings.organisation_id = p_organisation_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Claims the organisation's next credit note number. Must run in the
+-- transaction that inserts the credit note.
+CREATE OR REPLACE FUNCTION public.next_credit_note_number(p_organisation_id UUID, p_issued_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+  issue_year INTEGER := extract(year FROM public.organisation_local_time(p_organisation_id, p_issued_at))::INTEGER;
+  counter_year INTEGER;
+  next_number INTEGER;
+BEGIN
+  SELECT CASE WHEN reset_yearly THEN issue_year ELSE 0 END
+  INTO counter_year
+  FROM public.invoice_number_settings
+  WHERE organisation_id = p_organisation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice numbering is not set up for this organisation';
+  END IF;
+
+  INSERT INTO public.credit_note_number_counters AS counters (organisation_id, year, last_number)
+  VALUES (p_organisation_id, counter_year, 1)
+  ON CONFLICT (organisation_id, year) DO UPDATE SET last_number = counters.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  RETURN public.format_credit_note_number(p_organisation_id, issue_year, next_number);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- As in 20261107_invoice_drafts_and_credit_notes.sql, numbering the invoice
+-- in its own organisation's sequence
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    IF NEW.status = 'draft' THEN
+      RAISE EXCEPTION 'Issued invoices cannot be returned to draft';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    NEW.invoice_number := NULL;
+    NEW.issued_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT EXISTS (
+    SELECT 1 FROM public.invoice_items WHERE invoice_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  NEW.issued_at := NOW();
+  NEW.invoice_number := public.next_invoice_number(NEW.organisation_id, NEW.issued_at);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in 20261107_invoice_drafts_and_credit_notes.sql, numbering the credit
+-- note in the invoice's organisation
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id UUID, p_reason TEXT, p_items JSONB)
+RETURNS public.credit_notes AS $$
+DECLARE
+  invoice public.invoices;
+  credit_note public.credit_notes;
+  line public.invoice_items;
+  item JSONB;
+  credit_amount NUMERIC;
+  already_credited NUMERIC;
+  balance NUMERIC;
+BEGIN
+  IF NOT public.has_role('admin', 'finance') THEN
+    RAISE EXCEPTION 'Only admin and finance staff can raise credit notes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id
+    AND organisation_id = public.current_organisation_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices are edited, not credited';
+  END IF;
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line';
+  END IF;
+
+  INSERT INTO public.credit_notes (organisation_id, credit_note_number, invoice_id, reason, created_by)
+  VALUES (
+    invoice.organisation_id,
+    public.next_credit_note_number(invoice.organisation_id, NOW()),
+    invoice.id,
+    trim(p_reason),
+    auth.uid()
+  )
+  RETURNING * INTO credit_note;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO line
+    FROM public.invoice_items
+    WHERE id = (item->>'invoice_item_id')::UUID
+      AND invoice_id = invoice.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Credit note lines must be lines of invoice %', invoice.invoice_number;
+    END IF;
+
+    credit_amount := round((item->>'amount')::NUMERIC, 2);
+
+    SELECT coalesce(sum(amount), 0) INTO already_credited
+    FROM public.credit_note_items
+    WHERE invoice_item_id = line.id;
+
+    IF credit_amount > line.amount - already_credited THEN
+      RAISE EXCEPTION 'Credit of % exceeds the % left to credit on %',
+        credit_amount, line.amount - already_credited, line.description;
+    END IF;
+
+    INSERT INTO public.credit_note_items (
+      credit_note_id, invoice_item_id, description, amount,
+      tax_rate, tax_amount, wht_rate, wht_amount
+    )
+    VALUES (
+      credit_note.id,
+      line.id,
+      coalesce(nullif(trim(item->>'description'), ''), line.description),
+      credit_amount,
+      line.tax_rate,
+      round(credit_amount * line.tax_rate / 100, 2),
+      line.wht_rate,
+      round(credit_amount * line.wht_rate / 100, 2)
+    );
+  END LOOP;
+
+  UPDATE public.credit_notes c
+  SET
+    subtotal = lines.subtotal,
+    tax_total = lines.tax_total,
+    wht_total = lines.wht_total,
+    total_amount = lines.subtotal + lines.tax_total
+  FROM (
+    SELECT
+      sum(amount) AS subtotal,
+      sum(tax_amount) AS tax_total,
+      sum(wht_amount) AS wht_total
+    FROM public.credit_note_items
+    WHERE credit_note_id = credit_note.id
+  ) AS lines
+  WHERE c.id = credit_note.id
+  RETURNING c.* INTO credit_note;
+
+  balance := invoice.total_amount - invoice.wht_total - invoice.credited_total - invoice.amount_paid;
+  IF credit_note.total_amount - credit_note.wht_total > balance THEN
+    RAISE EXCEPTION 'Credit of % exceeds the outstanding balance of %; reverse a payment first',
+      credit_note.total_amount - credit_note.wht_total, balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM public.refresh_invoice_payment_status(invoice.id);
+  RETURN credit_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New organisations also get the default numbering
+CREATE OR REPLACE FUNCTION public.create_organisation_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.organisation_settings (organisation_id, station_name) VALUES (NEW.id, NEW.name);
+  INSERT INTO public.airtime_settings (organisation_id) VALUES (NEW.id);
+  INSERT INTO public.rate_card_settings (organisation_id) VALUES (NEW.id);
+  INSERT INTO public.invoice_number_settings (organisation_id) VALUES (NEW.id);
+  INSERT INTO public.tax_rules (organisation_id, code, name, kind, rate, is_default) VALUES
+    (NEW.id, 'VAT', 'VAT 7.5%', 'vat', 7.5, TRUE),
+    (NEW.id, 'VAT_EXEMPT', 'VAT exempt', 'vat', 0, FALSE),
+    (NEW.id, 'WHT_5', 'Withholding tax 5%', 'withholding', 5, FALSE),
+    (NEW.id, 'WHT_10', 'Withholding tax 10%', 'withholding', 10, FALSE);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,119 @@
+-- Finance staff can create invoices but not edit spots, so under row level
+-- security create_invoice() linked none of the spots an invoice was built
+-- from and failed with "already invoiced". Linking now happens in
+-- link_invoice_schedules(), which runs as the owner and checks the caller
+-- itself.
+
+-- Marks the spots as billed on the invoice line and returns how many were
+-- linked. Only admin and finance staff can link, only to lines of their own
+-- organisation's invoices, and only spots of that organisation not yet
+-- invoiced elsewhere.
+CREATE OR REPLACE FUNCTION public.link_invoice_schedules(p_invoice_item_id UUID, p_schedule_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  invoice_organisation_id UUID;
+  linked_count INTEGER;
+BEGIN
+  IF NOT public.has_role('admin', 'finance') THEN
+    RAISE EXCEPTION 'Only admin and finance staff can invoice spots'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT i.organisation_id INTO invoice_organisation_id
+  FROM public.invoice_items ii
+  JOIN public.invoices i ON i.id = ii.invoice_id
+  WHERE ii.id = p_invoice_item_id
+    AND i.organisation_id = public.current_organisation_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice line not found';
+  END IF;
+
+  UPDATE public.schedules s
+  SET invoice_item_id = p_invoice_item_id, updated_at = NOW()
+  FROM public.jobs j
+  JOIN public.stations st ON st.id = j.station_id
+  WHERE s.id = ANY (p_schedule_ids)
+    AND s.invoice_item_id IS NULL
+    AND j.id = s.job_id
+    AND st.organisation_id = invoice_organisation_id;
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  RETURN linked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in 20261107_invoice_drafts_and_credit_notes.sql, linking the spots
+-- through link_invoice_schedules()
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices AS $$
+DECLARE
+  invoice public.invoices;
+  item JSONB;
+  item_id UUID;
+  schedule_count INTEGER;
+  linked_count INTEGER;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  INSERT INTO public.invoices (
+    client_id, agency_id, status, due_date, notes, discount_rate,
+    billing_period_start, billing_period_end, created_by
+  )
+  VALUES (
+    (p_invoice->>'client_id')::UUID,
+    (p_invoice->>'agency_id')::UUID,
+    'draft',
+    (p_invoice->>'due_date')::DATE,
+    p_invoice->>'notes',
+    coalesce((p_invoice->>'discount_rate')::NUMERIC, 0),
+    (p_invoice->>'billing_period_start')::DATE,
+    (p_invoice->>'billing_period_end')::DATE,
+    coalesce(auth.uid(), (p_invoice->>'created_by')::UUID)
+  )
+  RETURNING * INTO invoice;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    INSERT INTO public.invoice_items (
+      invoice_id, job_id, description, quantity, rate,
+      discount_rate, commission_rate, tax_code, wht_code
+    )
+    VALUES (
+      invoice.id,
+      (item->>'job_id')::UUID,
+      item->>'description',
+      (item->>'quantity')::NUMERIC,
+      (item->>'rate')::NUMERIC,
+      coalesce((item->>'discount_rate')::NUMERIC, 0),
+      coalesce((item->>'commission_rate')::NUMERIC, 0),
+      item->>'tax_code',
+      item->>'wht_code'
+    )
+    RETURNING id INTO item_id;
+
+    -- Spots billed twice would be charged twice, so a spot another invoice
+    -- took in the meantime fails the whole invoice
+    IF jsonb_typeof(item->'schedule_ids') = 'array' THEN
+      schedule_count := jsonb_array_length(item->'schedule_ids');
+
+      linked_count := public.link_invoice_schedules(
+        item_id,
+        ARRAY(SELECT value::UUID FROM jsonb_array_elements_text(item->'schedule_ids'))
+      );
+
+      IF linked_count <> schedule_count THEN
+        RAISE EXCEPTION 'Some of the spots for % have already been invoiced', item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF coalesce(p_invoice->>'status', 'pending') <> 'draft' THEN
+    UPDATE public.invoices SET status = 'pending', updated_at = NOW() WHERE id = invoice.id;
+  END IF;
+
+  SELECT * INTO invoice FROM public.invoices WHERE id = invoice.id;
+  RETURN invoice;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,101 @@
+-- Job status automation works spot by spot. Every spot of a booked job goes
+-- live while it airs and completed once it has ended, not only the job's
+-- last one, and the job's status follows from all of its spots: in progress
+-- once the first has started and completed once they have all ended. Spot
+-- times are read in the organisation's time zone rather than the database's,
+-- and a spot whose end_time is before its start_time ends on the next day.
+
+DROP FUNCTION IF EXISTS public.latest_job_schedules(UUID);
+
+-- The spots of an organisation's booked jobs, cancelled ones aside, with
+-- when they start and end in local time
+CREATE OR REPLACE FUNCTION public.booked_job_spots(p_organisation_id UUID)
+RETURNS TABLE (job_id UUID, schedule_id UUID, starts_at TIMESTAMP, ends_at TIMESTAMP) AS $$
+  SELECT
+    s.job_id,
+    s.id,
+    s.scheduled_date + s.start_time,
+    s.scheduled_date + s.end_time
+      + CASE WHEN s.end_time < s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+  FROM public.schedules s
+  JOIN public.jobs j ON j.id = s.job_id
+  JOIN public.stations st ON st.id = j.station_id
+  WHERE st.organisation_id = p_organisation_id
+    AND s.status <> 'cancelled'
+    AND j.status IN ('scheduled', 'in_progress', 'completed');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Spots only move forward, from upcoming to live to completed, and each
+-- update only matches rows not already in the target status, so a run
+-- repeated straight after changes nothing
+CREATE OR REPLACE FUNCTION public.update_organisation_job_statuses(
+  p_organisation_id UUID,
+  OUT jobs_started INTEGER,
+  OUT jobs_completed INTEGER,
+  OUT schedules_updated INTEGER
+) AS $$
+DECLARE
+  now_local TIMESTAMP := public.organisation_local_time(p_organisation_id);
+  completed_schedules INTEGER;
+  live_schedules INTEGER;
+BEGIN
+  WITH finished AS (
+    UPDATE public.schedules s
+    SET status = 'completed', updated_at = NOW()
+    FROM public.booked_job_spots(p_organisation_id) spot
+    WHERE s.id = spot.schedule_id
+      AND spot.ends_at <= now_local
+      AND s.status IN ('upcoming', 'live')
+    RETURNING s.id
+  )
+  SELECT count(*) INTO completed_schedules FROM finished;
+
+  WITH airing AS (
+    UPDATE public.schedules s
+    SET status = 'live', updated_at = NOW()
+    FROM public.booked_job_spots(p_organisation_id) spot
+    WHERE s.id = spot.schedule_id
+      AND spot.starts_at <= now_local
+      AND spot.ends_at > now_local
+      AND s.status = 'upcoming'
+    RETURNING s.id
+  )
+  SELECT count(*) INTO live_schedules FROM airing;
+
+  WITH progress AS (
+    SELECT
+      spot.job_id,
+      bool_or(spot.starts_at <= now_local) AS any_started,
+      bool_and(spot.ends_at <= now_local) AS all_ended
+    FROM public.booked_job_spots(p_organisation_id) spot
+    GROUP BY spot.job_id
+  ),
+  finished AS (
+    UPDATE public.jobs j
+    SET status = 'completed', updated_at = NOW()
+    FROM progress
+    WHERE j.id = progress.job_id
+      AND progress.all_ended
+      AND j.status IN ('scheduled', 'in_progress')
+    RETURNING j.id
+  ),
+  started AS (
+    UPDATE public.jobs j
+    SET status = 'in_progress', updated_at = NOW()
+    FROM progress
+    WHERE j.id = progress.job_id
+      AND progress.any_started
+      AND NOT progress.all_ended
+      AND j.status IN ('scheduled', 'completed')
+    RETURNING j.id
+  )
+  SELECT (SELECT count(*) FROM started), (SELECT count(*) FROM finished)
+  INTO jobs_started, jobs_completed;
+
+  schedules_updated := completed_schedules + live_schedules;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- booked_job_spots() covers a whole organisation, so like the rest it is
+-- left to the service role
+REVOKE EXECUTE ON FUNCTION public.booked_job_spots(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,153 @@
+-- check_airtime_availability() runs as its owner and returns the titles and
+-- clients of booked spots, so a station passed in by id is only looked at
+-- if the caller is a member of its organisation. Without that anyone could
+-- read another organisation's bookings. The booking trigger checks spots
+-- for whoever books them and so may name any station.
+
+CREATE OR REPLACE FUNCTION public.check_airtime_availability(
+  p_slots JSONB,
+  p_exclude_job_id UUID DEFAULT NULL,
+  p_exclude_schedule_id UUID DEFAULT NULL,
+  p_station_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  conflict_type TEXT,
+  requested_date DATE,
+  requested_start_time TIME,
+  requested_end_time TIME,
+  schedule_id UUID,
+  job_id UUID,
+  job_title TEXT,
+  client_name TEXT,
+  start_time TIME,
+  end_time TIME,
+  booked_seconds INTEGER,
+  limit_seconds INTEGER
+) AS $$
+  -- A station asked for by id has to belong to one of the caller's
+  -- organisations, unless the check comes from the booking trigger
+  WITH station AS (
+    SELECT coalesce(p_station_id, public.current_station_id()) AS id
+    WHERE p_station_id IS NULL
+      OR pg_trigger_depth() > 0
+      OR EXISTS (
+        SELECT 1 FROM public.stations
+        WHERE stations.id = p_station_id
+          AND public.is_member(stations.organisation_id)
+      )
+  ),
+  settings AS (
+    SELECT (a.max_commercial_minutes_per_hour * 60)::INTEGER AS limit_seconds
+    FROM public.airtime_settings a
+    JOIN public.stations st ON st.organisation_id = a.organisation_id
+    WHERE st.id = (SELECT id FROM station)
+  ),
+  requested AS (
+    SELECT
+      (slot->>'scheduled_date')::DATE AS scheduled_date,
+      (slot->>'start_time')::TIME AS start_time,
+      (slot->>'end_time')::TIME AS end_time
+    FROM jsonb_array_elements(p_slots) AS slot
+  ),
+  slots AS (
+    SELECT
+      scheduled_date,
+      start_time,
+      end_time,
+      scheduled_date + start_time AS starts_at,
+      scheduled_date + end_time
+        + CASE WHEN end_time < start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at
+    FROM requested
+  ),
+  -- Spots from the day either side can run into the requested ones
+  booked AS (
+    SELECT
+      s.id,
+      s.job_id,
+      s.start_time,
+      s.end_time,
+      s.scheduled_date + s.start_time AS starts_at,
+      s.scheduled_date + s.end_time
+        + CASE WHEN s.end_time < s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at,
+      j.title AS job_title,
+      c.name AS client_name
+    FROM public.schedules s
+    JOIN public.jobs j ON j.id = s.job_id
+    LEFT JOIN public.clients c ON c.id = j.client_id
+    WHERE s.status <> 'cancelled'
+      AND j.station_id = (SELECT id FROM station)
+      AND s.scheduled_date IN (
+        SELECT sl.scheduled_date + day_offset
+        FROM slots sl, generate_series(-1, 1) AS day_offset
+      )
+      AND (p_exclude_job_id IS NULL OR s.job_id <> p_exclude_job_id)
+      AND (p_exclude_schedule_id IS NULL OR s.id <> p_exclude_schedule_id)
+  ),
+  -- Clock hours touched by the requested slots
+  hours AS (
+    SELECT DISTINCT hour_start, hour_start + INTERVAL '1 hour' AS hour_end
+    FROM slots sl,
+      generate_series(date_trunc('hour', sl.starts_at), sl.ends_at - INTERVAL '1 second', INTERVAL '1 hour') AS hour_start
+  ),
+  hour_usage AS (
+    SELECT
+      hr.hour_start,
+      hr.hour_end,
+      (
+        SELECT coalesce(sum(extract(epoch FROM least(b.ends_at, hr.hour_end) - greatest(b.starts_at, hr.hour_start))), 0)
+        FROM booked b
+        WHERE b.starts_at < hr.hour_end
+          AND b.ends_at > hr.hour_start
+      ) + (
+        SELECT coalesce(sum(extract(epoch FROM least(sl.ends_at, hr.hour_end) - greatest(sl.starts_at, hr.hour_start))), 0)
+        FROM slots sl
+        WHERE sl.starts_at < hr.hour_end
+          AND sl.ends_at > hr.hour_start
+      ) AS used_seconds
+    FROM hours hr
+  )
+  SELECT
+    'overlap',
+    sl.scheduled_date,
+    sl.start_time,
+    sl.end_time,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    NULL::INTEGER,
+    NULL::INTEGER
+  FROM slots sl
+  JOIN booked b
+    ON b.starts_at < sl.ends_at
+    AND b.ends_at > sl.starts_at
+
+  UNION ALL
+
+  SELECT
+    'hour_limit',
+    hu.hour_start::DATE,
+    hu.hour_start::TIME,
+    hu.hour_end::TIME,
+    b.id,
+    b.job_id,
+    b.job_title,
+    b.client_name,
+    b.start_time,
+    b.end_time,
+    hu.used_seconds::INTEGER,
+    settings.limit_seconds
+  FROM hour_usage hu
+  CROSS JOIN settings
+  LEFT JOIN booked b
+    ON b.starts_at < hu.hour_end
+    AND b.ends_at > hu.hour_start
+  WHERE hu.used_seconds > settings.limit_seconds
+
+  ORDER BY 2, 3, 9;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_airtime_availability(JSONB, UUID, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_airtime_availability(JSONB, UUID, UUID, UUID) TO authenticated;
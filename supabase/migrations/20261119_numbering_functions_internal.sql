@@ -0,0 +1,6 @@
+-- Claiming a number uses it up, so next_invoice_number() and
+-- next_credit_note_number() are only for assign_invoice_number() and
+-- create_credit_note(), which run as their owner. Called directly they
+-- would leave gaps in any organisation's numbering.
+REVOKE EXECUTE ON FUNCTION public.next_invoice_number(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.next_credit_note_number(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,29 @@
+-- Payments are never deleted, but "Finance can manage payments" covered
+-- DELETE as well, and the invoice kept the amount of a deleted payment as
+-- paid. Finance can now only record payments and reverse them; viewing stays
+-- with "Sales and finance can view payments".
+DROP POLICY IF EXISTS "Finance can manage payments" ON public.payments;
+
+CREATE POLICY "Finance can record payments"
+  ON public.payments
+  FOR INSERT
+  WITH CHECK (
+    public.has_role('admin', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = payments.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Finance can reverse payments"
+  ON public.payments
+  FOR UPDATE
+  USING (
+    public.has_role('admin', 'finance')
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = payments.invoice_id
+      AND invoices.organisation_id = public.current_organisation_id()
+    )
+  );
@@ -0,0 +1,37 @@
+-- What an invoice has been paid and credited, and the status that follows
+-- from it, come from the payment ledger and the credit notes. Only the
+-- functions that run as their owner change them: the refreshes after a
+-- payment or credit note and the overdue check. A statement sent through
+-- the API keeps the stored amounts, and can only move a draft to issued.
+CREATE OR REPLACE FUNCTION public.protect_invoice_payments()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated', 'service_role') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.amount_paid := 0;
+    NEW.credited_total := 0;
+    NEW.paid_date := NULL;
+    IF NEW.status NOT IN ('draft', 'pending') THEN
+      RAISE EXCEPTION 'New invoices are saved as a draft or issued as pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.amount_paid := OLD.amount_paid;
+  NEW.credited_total := OLD.credited_total;
+  NEW.paid_date := OLD.paid_date;
+  IF NEW.status IS DISTINCT FROM OLD.status AND OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'An issued invoice''s status follows its payments and credit notes';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_invoice_payments_protect ON public.invoices;
+CREATE TRIGGER on_invoice_payments_protect
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_invoice_payments();
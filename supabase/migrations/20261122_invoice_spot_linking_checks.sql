@@ -0,0 +1,50 @@
+-- link_invoice_schedules() can be called on its own, so it now checks what
+-- create_invoice() already gives it: the line is on a draft, and the spots
+-- belong to the line's job and the invoice's client. Without that spots
+-- could be attached to an issued invoice, or to another client's, and then
+-- never be billed.
+
+-- As in 20261116_invoice_spot_linking.sql, for spots of the line's job on a
+-- draft invoice of that job's client
+CREATE OR REPLACE FUNCTION public.link_invoice_schedules(p_invoice_item_id UUID, p_schedule_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  line RECORD;
+  linked_count INTEGER;
+BEGIN
+  IF NOT public.has_role('admin', 'finance') THEN
+    RAISE EXCEPTION 'Only admin and finance staff can invoice spots'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT ii.job_id, i.client_id, i.organisation_id, i.status INTO line
+  FROM public.invoice_items ii
+  JOIN public.invoices i ON i.id = ii.invoice_id
+  WHERE ii.id = p_invoice_item_id
+    AND i.organisation_id = public.current_organisation_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice line not found';
+  END IF;
+  IF line.status <> 'draft' THEN
+    RAISE EXCEPTION 'Spots can only be added to a draft invoice';
+  END IF;
+
+  UPDATE public.schedules s
+  SET invoice_item_id = p_invoice_item_id, updated_at = NOW()
+  FROM public.jobs j
+  JOIN public.stations st ON st.id = j.station_id
+  WHERE s.id = ANY (p_schedule_ids)
+    AND s.invoice_item_id IS NULL
+    AND s.job_id = line.job_id
+    AND j.id = s.job_id
+    AND j.client_id = line.client_id
+    AND st.organisation_id = line.organisation_id;
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  RETURN linked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.link_invoice_schedules(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.link_invoice_schedules(UUID, UUID[]) TO authenticated;
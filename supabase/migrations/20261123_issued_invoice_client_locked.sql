@@ -0,0 +1,30 @@
+-- An issued invoice's client only changes when clients are merged.
+-- merge_clients() runs as its owner, so a change made through the API is
+-- someone reassigning the invoice and is refused like any other edit.
+
+-- As in 20261107_invoice_drafts_and_credit_notes.sql, with the client locked
+-- outside of merge_clients()
+CREATE OR REPLACE FUNCTION public.check_invoice_editable()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR OLD.status = 'draft' THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Issued invoices cannot be deleted; raise a credit note instead';
+  END IF;
+
+  IF (NEW.agency_id, NEW.discount_rate, NEW.billing_period_start, NEW.billing_period_end)
+    IS DISTINCT FROM (OLD.agency_id, OLD.discount_rate, OLD.billing_period_start, OLD.billing_period_end) THEN
+    RAISE EXCEPTION 'Issued invoices cannot be edited; raise a credit note instead';
+  END IF;
+
+  IF NEW.client_id IS DISTINCT FROM OLD.client_id
+    AND current_user IN ('anon', 'authenticated', 'service_role') THEN
+    RAISE EXCEPTION 'The client of an issued invoice only changes when clients are merged';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
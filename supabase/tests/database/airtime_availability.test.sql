@@ -0,0 +1,123 @@
+-- Airtime checks from 20261110_airtime_check_fixes.sql: spots running past
+-- midnight and status changes on spots that no longer fit the limits. Also
+-- who may check a station, from 20261118_airtime_check_station_access.sql.
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Helpers
+
+-- Signs in the way PostgREST does for a request with the user's JWT
+CREATE FUNCTION pg_temp.sign_in_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  SELECT set_config('role', 'authenticated', TRUE);
+$$ LANGUAGE sql;
+
+-- Fixtures: one station with an overnight booking, and a host from another
+-- organisation
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media'),
+  ('10000000-0000-0000-0000-000000000002', 'Valley Radio');
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM'),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', 'Valley FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'traffic@coast.test'),
+  ('30000000-0000-0000-0000-000000000002', 'host@valley.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'traffic@coast.test', 'Coast Traffic', 'traffic', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000002', 'host@valley.test', 'Valley Host', 'host', '20000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.organisation_members (organisation_id, user_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002', '30000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Night Market', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.jobs (id, title, client_id, station_id, duration_seconds, air_time, rate, status, created_by) VALUES
+  ('50000000-0000-0000-0000-000000000001', 'Night market late spot', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 60, '23:59:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000001'),
+  ('50000000-0000-0000-0000-000000000002', 'Night market early spot', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 30, '00:00', 100, 'scheduled', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.schedules (id, job_id, scheduled_date, start_time, end_time, created_by) VALUES
+  ('60000000-0000-0000-0000-000000000001', '50000000-0000-0000-0000-000000000001', '2030-01-07', '23:59:30', '00:00:30', '30000000-0000-0000-0000-000000000001');
+
+-- Spots running past midnight
+
+SELECT throws_ok(
+  $$INSERT INTO public.schedules (job_id, scheduled_date, start_time, end_time, created_by)
+    VALUES ('50000000-0000-0000-0000-000000000002', '2030-01-08', '00:00', '00:00:30', '30000000-0000-0000-0000-000000000001')$$,
+  '23P01', 'Airtime on 2030-01-08 at 00:00:00 is already booked for "Night market late spot"',
+  'A spot running past midnight clashes with the first spot of the next day');
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.check_airtime_availability(
+    '[{"scheduled_date": "2030-01-07", "start_time": "23:59:45", "end_time": "00:00:15"}]',
+    NULL, NULL, '20000000-0000-0000-0000-000000000001'
+  ) WHERE conflict_type = 'overlap'), 1,
+  'A requested slot running past midnight is checked against the spots it overlaps');
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.check_airtime_availability(
+    '[{"scheduled_date": "2030-01-08", "start_time": "00:00:30", "end_time": "00:01:00"}]',
+    NULL, NULL, '20000000-0000-0000-0000-000000000001'
+  )), 0,
+  'The next day is free once the overnight spot has ended');
+
+RESET role;
+UPDATE public.airtime_settings SET max_commercial_minutes_per_hour = 0.5;
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT is(
+  (SELECT booked_seconds FROM public.check_airtime_availability(
+    '[{"scheduled_date": "2030-01-08", "start_time": "00:00:30", "end_time": "00:01:00"}]',
+    NULL, NULL, '20000000-0000-0000-0000-000000000001'
+  ) WHERE conflict_type = 'hour_limit' LIMIT 1), 60,
+  'The part of an overnight spot after midnight counts towards the next day''s first hour');
+
+-- Status changes
+
+SELECT lives_ok(
+  $$UPDATE public.schedules SET status = 'completed' WHERE id = '60000000-0000-0000-0000-000000000001'$$,
+  'A spot that breaks a lowered limit can still change status');
+SELECT throws_ok(
+  $$UPDATE public.schedules SET start_time = '23:59:00', end_time = '00:00:00' WHERE id = '60000000-0000-0000-0000-000000000001'$$,
+  '23P01', 'Booking on 2030-01-07 at 23:59:00 exceeds the commercial limit for the 23:00:00 hour',
+  'Moving a spot is checked against the limit again');
+
+-- Other organisations
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000002');
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.check_airtime_availability(
+    '[{"scheduled_date": "2030-01-07", "start_time": "23:59:45", "end_time": "00:00:15"}]',
+    NULL, NULL, '20000000-0000-0000-0000-000000000001'
+  )), 0,
+  'Another organisation''s bookings are not shown');
+
+RESET role;
+SET LOCAL role anon;
+
+SELECT throws_ok(
+  $$SELECT * FROM public.check_airtime_availability(
+    '[{"scheduled_date": "2030-01-07", "start_time": "23:59:45", "end_time": "00:00:15"}]',
+    NULL, NULL, '20000000-0000-0000-0000-000000000001'
+  )$$,
+  '42501', 'permission denied for function check_airtime_availability',
+  'Signed-out visitors cannot check airtime');
+
+RESET role;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,101 @@
+-- merge_clients() from 20261112_merge_clients_portal_records.sql: everything
+-- that belonged to the duplicate ends up with the kept client. Issued
+-- invoices only change client this way
+-- (20261123_issued_invoice_client_locked.sql).
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Helpers
+
+-- Signs in the way PostgREST does for a request with the user's JWT
+CREATE FUNCTION pg_temp.sign_in_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  SELECT set_config('role', 'authenticated', TRUE);
+$$ LANGUAGE sql;
+
+-- Fixtures: a client entered twice, with an advertiser, a booking request
+-- and an issued invoice on the duplicate, another client, and a finance user
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media');
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'traffic@coast.test'),
+  ('30000000-0000-0000-0000-000000000002', 'advertiser@client.test'),
+  ('30000000-0000-0000-0000-000000000003', 'finance@coast.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'traffic@coast.test', 'Coast Traffic', 'traffic', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000002', 'advertiser@client.test', 'Bakery Owner', 'advertiser', NULL),
+  ('30000000-0000-0000-0000-000000000003', 'finance@coast.test', 'Coast Finance', 'finance', '20000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.organisation_members (organisation_id, user_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000003');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Harbour Bakery', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000002', 'Harbour Bakery Ltd', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000003', 'Valley Motors', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001');
+
+UPDATE public.users SET client_id = '40000000-0000-0000-0000-000000000002'
+WHERE id = '30000000-0000-0000-0000-000000000002';
+
+INSERT INTO public.jobs (id, title, client_id, station_id, duration_seconds, air_time, rate, status, created_by) VALUES
+  ('50000000-0000-0000-0000-000000000001', 'Bakery breakfast spot', '40000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 30, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.booking_requests (id, client_id, title, duration_seconds, start_date, end_date, created_by) VALUES
+  ('90000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000002', 'Bakery holiday spots', 30, '2030-12-01', '2030-12-24', '30000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.invoices (id, organisation_id, client_id, due_date, status, created_by) VALUES
+  ('70000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000002', '2030-02-01', 'pending', '30000000-0000-0000-0000-000000000003');
+
+-- Merge
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT lives_ok(
+  $$SELECT public.merge_clients('40000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000002')$$,
+  'Staff can merge a duplicate client');
+
+-- Checked as the superuser, so row level security hides nothing
+RESET role;
+
+SELECT is((SELECT count(*)::INTEGER FROM public.clients WHERE id = '40000000-0000-0000-0000-000000000002'), 0,
+  'The duplicate is deleted');
+SELECT is((SELECT client_id FROM public.jobs WHERE id = '50000000-0000-0000-0000-000000000001'),
+  '40000000-0000-0000-0000-000000000001'::UUID,
+  'The duplicate''s jobs move to the kept client');
+SELECT is((SELECT count(*)::INTEGER FROM public.booking_requests WHERE id = '90000000-0000-0000-0000-000000000001'), 1,
+  'The duplicate''s booking requests survive the merge');
+SELECT is((SELECT client_id FROM public.booking_requests WHERE id = '90000000-0000-0000-0000-000000000001'),
+  '40000000-0000-0000-0000-000000000001'::UUID,
+  'The duplicate''s booking requests move to the kept client');
+SELECT is((SELECT client_id FROM public.users WHERE id = '30000000-0000-0000-0000-000000000002'),
+  '40000000-0000-0000-0000-000000000001'::UUID,
+  'The duplicate''s advertisers keep portal access through the kept client');
+SELECT is((SELECT client_id FROM public.invoices WHERE id = '70000000-0000-0000-0000-000000000001'),
+  '40000000-0000-0000-0000-000000000001'::UUID,
+  'The duplicate''s issued invoices move to the kept client');
+
+-- Reassigning an issued invoice
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000003');
+
+SELECT throws_ok(
+  $$UPDATE public.invoices SET client_id = '40000000-0000-0000-0000-000000000003'
+    WHERE id = '70000000-0000-0000-0000-000000000001'$$,
+  'P0001', 'The client of an issued invoice only changes when clients are merged',
+  'An issued invoice cannot be moved to another client');
+
+SELECT * FROM finish();
+ROLLBACK;
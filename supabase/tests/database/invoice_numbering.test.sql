@@ -0,0 +1,108 @@
+-- Invoice numbering from 20261115_organisation_invoice_numbering.sql: each
+-- organisation has its own sequence, and the year in a number is the year
+-- of the issue date where the organisation is.
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- Helpers
+
+-- Signs in the way PostgREST does for a request with the user's JWT
+CREATE FUNCTION pg_temp.sign_in_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  SELECT set_config('role', 'authenticated', TRUE);
+$$ LANGUAGE sql;
+
+-- Fixtures: two organisations with a client each
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media'),
+  ('10000000-0000-0000-0000-000000000002', 'Valley Radio');
+
+UPDATE public.organisation_settings SET time_zone = 'UTC'
+WHERE organisation_id = '10000000-0000-0000-0000-000000000002';
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM'),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', 'Valley FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'finance@coast.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'finance@coast.test', 'Coast Finance', 'finance', '20000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.organisation_members (organisation_id, user_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Harbour Bakery', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000002', 'Valley Motors', '10000000-0000-0000-0000-000000000002', '30000000-0000-0000-0000-000000000001');
+
+-- Sequences
+
+INSERT INTO public.invoices (id, organisation_id, client_id, due_date, status, created_by) VALUES
+  ('70000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000001', '2030-02-01', 'pending', '30000000-0000-0000-0000-000000000001'),
+  ('70000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', '40000000-0000-0000-0000-000000000002', '2030-02-01', 'pending', '30000000-0000-0000-0000-000000000001');
+
+SELECT is(
+  (SELECT invoice_number FROM public.invoices WHERE id = '70000000-0000-0000-0000-000000000001'),
+  (SELECT 'INV-' || extract(year FROM now() AT TIME ZONE 'Africa/Lagos') || '-00001'),
+  'The first invoice of an organisation is number one');
+SELECT is(
+  (SELECT invoice_number FROM public.invoices WHERE id = '70000000-0000-0000-0000-000000000002'),
+  (SELECT 'INV-' || extract(year FROM now() AT TIME ZONE 'UTC') || '-00001'),
+  'Another organisation''s invoices do not use up the number');
+
+-- Issue dates around new year
+
+SELECT is(
+  public.next_invoice_number('10000000-0000-0000-0000-000000000001', '2030-12-31 23:30:00+00'),
+  'INV-2031-00001',
+  'An invoice issued after midnight in Lagos is numbered in the new year');
+SELECT is(
+  public.next_invoice_number('10000000-0000-0000-0000-000000000002', '2030-12-31 23:30:00+00'),
+  'INV-2030-00001',
+  'The same moment is still the old year in UTC');
+SELECT is(
+  public.next_credit_note_number('10000000-0000-0000-0000-000000000001', '2030-12-31 23:30:00+00'),
+  'CN-2031-00001',
+  'Credit notes are numbered by the local issue date too');
+
+SELECT throws_ok(
+  $$UPDATE public.organisation_settings SET time_zone = 'Lagos'
+    WHERE organisation_id = '10000000-0000-0000-0000-000000000001'$$,
+  '23514', NULL,
+  'Unknown time zones are rejected');
+
+-- Preview
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT is(
+  public.preview_next_invoice_number(),
+  (SELECT 'INV-' || extract(year FROM now() AT TIME ZONE 'Africa/Lagos') || '-00002'),
+  'The preview shows the next number of the user''s organisation');
+
+-- Claiming numbers
+
+SELECT throws_ok(
+  $$SELECT public.next_invoice_number('10000000-0000-0000-0000-000000000001', now())$$,
+  '42501', 'permission denied for function next_invoice_number',
+  'Numbers cannot be claimed outside of issuing an invoice');
+
+INSERT INTO public.invoices (id, client_id, due_date, status, created_by) VALUES
+  ('70000000-0000-0000-0000-000000000003', '40000000-0000-0000-0000-000000000001', '2030-02-01', 'pending', '30000000-0000-0000-0000-000000000001');
+
+SELECT is(
+  (SELECT invoice_number FROM public.invoices WHERE id = '70000000-0000-0000-0000-000000000003'),
+  (SELECT 'INV-' || extract(year FROM now() AT TIME ZONE 'Africa/Lagos') || '-00002'),
+  'Issuing an invoice still claims the next number');
+
+SELECT * FROM finish();
+ROLLBACK;
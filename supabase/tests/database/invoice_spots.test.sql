@@ -0,0 +1,128 @@
+-- create_invoice() from 20261116_invoice_spot_linking.sql: the spots an
+-- invoice is built from are linked to its lines whoever in finance creates
+-- it, and a spot is never billed twice. link_invoice_schedules() only links
+-- a line's own spots on a draft (20261122_invoice_spot_linking_checks.sql).
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Helpers
+
+-- Signs in the way PostgREST does for a request with the user's JWT
+CREATE FUNCTION pg_temp.sign_in_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  SELECT set_config('role', 'authenticated', TRUE);
+$$ LANGUAGE sql;
+
+-- Fixtures: a job with two aired spots, another client's job with one, and
+-- a host and a finance user
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media');
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'finance@coast.test'),
+  ('30000000-0000-0000-0000-000000000002', 'host@coast.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'finance@coast.test', 'Coast Finance', 'finance', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000002', 'host@coast.test', 'Coast Host', 'host', '20000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.organisation_members (organisation_id, user_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Harbour Bakery', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000002'),
+  ('40000000-0000-0000-0000-000000000002', 'Valley Motors', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.jobs (id, title, client_id, station_id, duration_seconds, air_time, rate, status, created_by) VALUES
+  ('50000000-0000-0000-0000-000000000001', 'Bakery breakfast spot', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 30, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000002'),
+  ('50000000-0000-0000-0000-000000000002', 'Motors drive-time spot', '40000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 30, '17:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.schedules (id, job_id, scheduled_date, start_time, end_time, status, created_by) VALUES
+  ('60000000-0000-0000-0000-000000000001', '50000000-0000-0000-0000-000000000001', '2030-01-07', '07:30', '07:30:30', 'completed', '30000000-0000-0000-0000-000000000002'),
+  ('60000000-0000-0000-0000-000000000002', '50000000-0000-0000-0000-000000000001', '2030-01-08', '07:30', '07:30:30', 'completed', '30000000-0000-0000-0000-000000000002'),
+  ('60000000-0000-0000-0000-000000000003', '50000000-0000-0000-0000-000000000002', '2030-01-08', '17:30', '17:30:30', 'completed', '30000000-0000-0000-0000-000000000002');
+
+-- Finance
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT lives_ok(
+  $$SELECT public.create_invoice(
+    '{"client_id": "40000000-0000-0000-0000-000000000001", "due_date": "2030-02-07"}',
+    '[{"job_id": "50000000-0000-0000-0000-000000000001", "description": "Bakery breakfast spot", "quantity": 2, "rate": 100,
+       "schedule_ids": ["60000000-0000-0000-0000-000000000001", "60000000-0000-0000-0000-000000000002"]}]'
+  )$$,
+  'Finance can invoice aired spots');
+
+RESET role;
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.schedules WHERE invoice_item_id IS NOT NULL),
+  2,
+  'The spots are linked to the invoice line');
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT throws_ok(
+  $$SELECT public.create_invoice(
+    '{"client_id": "40000000-0000-0000-0000-000000000001", "due_date": "2030-02-07"}',
+    '[{"job_id": "50000000-0000-0000-0000-000000000001", "description": "Bakery breakfast spot", "quantity": 1, "rate": 100,
+       "schedule_ids": ["60000000-0000-0000-0000-000000000001"]}]'
+  )$$,
+  'P0001', 'Some of the spots for Bakery breakfast spot have already been invoiced',
+  'A spot can only be invoiced once');
+
+CREATE TEMP TABLE draft_invoice AS
+SELECT id FROM public.create_invoice(
+  '{"client_id": "40000000-0000-0000-0000-000000000001", "due_date": "2030-02-07", "status": "draft"}',
+  '[{"job_id": "50000000-0000-0000-0000-000000000001", "description": "Bakery breakfast spot", "quantity": 1, "rate": 100}]'
+);
+
+SELECT is(
+  public.link_invoice_schedules(
+    (SELECT ii.id FROM public.invoice_items ii JOIN draft_invoice d ON d.id = ii.invoice_id),
+    ARRAY['60000000-0000-0000-0000-000000000003'::UUID]
+  ),
+  0,
+  'Another client''s spots are not linked to the line');
+
+SELECT throws_ok(
+  $$SELECT public.link_invoice_schedules(
+    (SELECT ii.id FROM public.invoice_items ii WHERE ii.invoice_id NOT IN (SELECT id FROM draft_invoice)),
+    ARRAY['60000000-0000-0000-0000-000000000003'::UUID]
+  )$$,
+  'P0001', 'Spots can only be added to a draft invoice',
+  'Spots cannot be added to an issued invoice');
+
+-- Everyone else
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000002');
+
+SELECT throws_ok(
+  $$SELECT public.link_invoice_schedules(
+    (SELECT id FROM public.invoice_items LIMIT 1),
+    ARRAY['60000000-0000-0000-0000-000000000001'::UUID]
+  )$$,
+  '42501', 'Only admin and finance staff can invoice spots',
+  'Hosts cannot link spots to invoices');
+
+RESET role;
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.invoices),
+  2,
+  'The failed invoice was not kept');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,95 @@
+-- Job status automation from 20261117_spot_job_status_updates.sql: every
+-- spot goes live and then completed in its organisation's time zone, and
+-- each job follows all of its spots.
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Fixtures: a station on UTC and one fourteen hours ahead of it
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media'),
+  ('10000000-0000-0000-0000-000000000002', 'Island Radio');
+
+UPDATE public.organisation_settings SET time_zone = 'UTC'
+WHERE organisation_id = '10000000-0000-0000-0000-000000000001';
+UPDATE public.organisation_settings SET time_zone = 'Pacific/Kiritimati'
+WHERE organisation_id = '10000000-0000-0000-0000-000000000002';
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM'),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', 'Island FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'traffic@coast.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'traffic@coast.test', 'Coast Traffic', 'traffic', '20000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Harbour Bakery', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000002', 'Lagoon Tours', '10000000-0000-0000-0000-000000000002', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.jobs (id, title, client_id, station_id, duration_seconds, air_time, rate, status, created_by) VALUES
+  ('50000000-0000-0000-0000-000000000001', 'Bakery campaign', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 120, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000001'),
+  ('50000000-0000-0000-0000-000000000002', 'Bakery one-off', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 30, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000001'),
+  ('50000000-0000-0000-0000-000000000003', 'Lagoon tours spot', '40000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000002', 120, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000001');
+
+-- The campaign has aired once, is airing now and airs again tomorrow; the
+-- one-off aired yesterday. Spots airing now may run past midnight.
+INSERT INTO public.schedules (id, job_id, scheduled_date, start_time, end_time, created_by)
+SELECT id, job_id, (starts_at)::DATE, starts_at::TIME, (starts_at + duration)::TIME, '30000000-0000-0000-0000-000000000001'
+FROM (VALUES
+  ('60000000-0000-0000-0000-000000000001'::UUID, '50000000-0000-0000-0000-000000000001'::UUID, (now() AT TIME ZONE 'UTC') - INTERVAL '1 day', INTERVAL '2 minutes'),
+  ('60000000-0000-0000-0000-000000000002', '50000000-0000-0000-0000-000000000001', (now() AT TIME ZONE 'UTC') - INTERVAL '1 minute', INTERVAL '2 minutes'),
+  ('60000000-0000-0000-0000-000000000003', '50000000-0000-0000-0000-000000000001', (now() AT TIME ZONE 'UTC') + INTERVAL '1 day', INTERVAL '2 minutes'),
+  ('60000000-0000-0000-0000-000000000004', '50000000-0000-0000-0000-000000000002', (now() AT TIME ZONE 'UTC') - INTERVAL '1 day' - INTERVAL '1 hour', INTERVAL '30 seconds'),
+  ('60000000-0000-0000-0000-000000000005', '50000000-0000-0000-0000-000000000003', (now() AT TIME ZONE 'Pacific/Kiritimati') - INTERVAL '1 minute', INTERVAL '2 minutes')
+) AS spots (id, job_id, starts_at, duration);
+
+SELECT is(
+  (SELECT status FROM public.update_job_statuses()),
+  'succeeded',
+  'The run succeeds');
+
+-- Spots
+
+SELECT is(
+  (SELECT status FROM public.schedules WHERE id = '60000000-0000-0000-0000-000000000001'),
+  'completed',
+  'An earlier spot of a job still airing is completed');
+SELECT is(
+  (SELECT status FROM public.schedules WHERE id = '60000000-0000-0000-0000-000000000002'),
+  'live',
+  'The spot airing now is live');
+SELECT is(
+  (SELECT status FROM public.schedules WHERE id = '60000000-0000-0000-0000-000000000003'),
+  'upcoming',
+  'Tomorrow''s spot is still upcoming');
+SELECT is(
+  (SELECT status FROM public.schedules WHERE id = '60000000-0000-0000-0000-000000000005'),
+  'live',
+  'Spots go live by the time where the station is');
+
+-- Jobs
+
+SELECT is(
+  (SELECT status FROM public.jobs WHERE id = '50000000-0000-0000-0000-000000000001'),
+  'in_progress',
+  'A job with spots still to air is in progress');
+SELECT is(
+  (SELECT status FROM public.jobs WHERE id = '50000000-0000-0000-0000-000000000002'),
+  'completed',
+  'A job whose spots have all aired is completed');
+
+SELECT is(
+  (SELECT row(jobs_started, jobs_completed, schedules_updated)::TEXT FROM public.update_job_statuses()),
+  '(0,0,0)',
+  'A repeated run changes nothing');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,103 @@
+-- The payment ledger from 20261026_invoice_payments.sql: payments are
+-- recorded and reversed, never deleted (20261120_payments_reverse_only.sql),
+-- and the invoice's amount paid and status follow the ledger
+-- (20261121_protect_invoice_payment_columns.sql).
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Helpers
+
+-- Signs in the way PostgREST does for a request with the user's JWT
+CREATE FUNCTION pg_temp.sign_in_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  SELECT set_config('role', 'authenticated', TRUE);
+$$ LANGUAGE sql;
+
+-- Fixtures: an issued invoice and a finance user
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media');
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'finance@coast.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'finance@coast.test', 'Coast Finance', 'finance', '20000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.organisation_members (organisation_id, user_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Harbour Bakery', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001');
+
+INSERT INTO public.jobs (id, title, client_id, station_id, duration_seconds, air_time, rate, status, created_by) VALUES
+  ('50000000-0000-0000-0000-000000000001', 'Bakery breakfast spot', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 30, '07:30', 100, 'completed', '30000000-0000-0000-0000-000000000001');
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+CREATE TEMP TABLE fixture_invoice AS
+SELECT id FROM public.create_invoice(
+  '{"client_id": "40000000-0000-0000-0000-000000000001", "due_date": "2030-02-07"}',
+  '[{"job_id": "50000000-0000-0000-0000-000000000001", "description": "Bakery breakfast spot", "quantity": 1, "rate": 100}]'
+);
+
+INSERT INTO public.payments (id, invoice_id, amount, method, created_by)
+SELECT '80000000-0000-0000-0000-000000000001', id, 50, 'bank_transfer', '30000000-0000-0000-0000-000000000001'
+FROM fixture_invoice;
+
+-- Deleting
+
+DELETE FROM public.payments WHERE id = '80000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.payments),
+  1,
+  'Finance cannot delete a payment');
+SELECT is(
+  (SELECT amount_paid FROM public.invoices WHERE id = (SELECT id FROM fixture_invoice)),
+  50.00,
+  'The invoice still counts the payment');
+
+-- Reversing
+
+SELECT lives_ok(
+  $$UPDATE public.payments
+    SET reversed_at = NOW(), reversed_by = '30000000-0000-0000-0000-000000000001', reversal_reason = 'Bounced'
+    WHERE id = '80000000-0000-0000-0000-000000000001'$$,
+  'Finance can reverse a payment');
+SELECT is(
+  (SELECT amount_paid FROM public.invoices WHERE id = (SELECT id FROM fixture_invoice)),
+  0.00,
+  'A reversed payment no longer counts');
+SELECT is(
+  (SELECT status FROM public.invoices WHERE id = (SELECT id FROM fixture_invoice)),
+  'pending',
+  'The invoice is unpaid again');
+
+-- Editing the invoice
+
+SELECT throws_ok(
+  $$UPDATE public.invoices SET status = 'paid', amount_paid = 107.50
+    WHERE id = (SELECT id FROM fixture_invoice)$$,
+  'P0001', 'An issued invoice''s status follows its payments and credit notes',
+  'Finance cannot mark an invoice paid without a payment');
+
+UPDATE public.invoices SET amount_paid = 107.50, notes = 'Paid in cash'
+WHERE id = (SELECT id FROM fixture_invoice);
+
+SELECT is(
+  (SELECT amount_paid FROM public.invoices WHERE id = (SELECT id FROM fixture_invoice)),
+  0.00,
+  'The amount paid is kept when the invoice is edited');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,252 @@
+-- Row level security, checked from each role's point of view against the
+-- matrix in 20261104_role_based_access.sql and the organisation and station
+-- scoping from 20261105_organisations_and_stations.sql.
+--
+-- Runs against the local database started by `supabase start` with
+-- `npm run test:db`; everything is rolled back afterwards.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(47);
+
+-- Helpers
+
+-- Signs in the way PostgREST does for a request with the user's JWT
+CREATE FUNCTION pg_temp.sign_in_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  SELECT set_config('role', 'authenticated', TRUE);
+$$ LANGUAGE sql;
+
+CREATE FUNCTION pg_temp.sign_out()
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', '', TRUE);
+  SELECT set_config('role', 'anon', TRUE);
+$$ LANGUAGE sql;
+
+-- Policies hide rows rather than raising, so updates and deletes are
+-- checked by how many rows they touched
+CREATE FUNCTION pg_temp.rows_affected(p_sql TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  EXECUTE p_sql;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fixtures: two organisations; the first runs two stations
+
+INSERT INTO public.organisations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Coast Media'),
+  ('10000000-0000-0000-0000-000000000002', 'Inland Radio');
+
+INSERT INTO public.stations (id, organisation_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Coast FM'),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001', 'Coast Gold'),
+  ('20000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000002', 'Inland FM');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'admin@coast.test'),
+  ('30000000-0000-0000-0000-000000000002', 'host@coast.test'),
+  ('30000000-0000-0000-0000-000000000003', 'host2@coast.test'),
+  ('30000000-0000-0000-0000-000000000004', 'traffic@coast.test'),
+  ('30000000-0000-0000-0000-000000000005', 'finance@coast.test'),
+  ('30000000-0000-0000-0000-000000000006', 'advertiser@client.test'),
+  ('30000000-0000-0000-0000-000000000007', 'host@inland.test');
+
+INSERT INTO public.users (id, email, name, role, current_station_id) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'admin@coast.test', 'Coast Admin', 'admin', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000002', 'host@coast.test', 'Coast Host', 'host', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000003', 'host2@coast.test', 'Coast Host Two', 'host', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000004', 'traffic@coast.test', 'Coast Traffic', 'traffic', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000005', 'finance@coast.test', 'Coast Finance', 'finance', '20000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000006', 'advertiser@client.test', 'Bakery Owner', 'advertiser', NULL),
+  ('30000000-0000-0000-0000-000000000007', 'host@inland.test', 'Inland Host', 'host', '20000000-0000-0000-0000-000000000003');
+
+INSERT INTO public.clients (id, name, organisation_id, created_by) VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Harbour Bakery', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000002', 'Pier Motors', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000003', 'Valley Farms', '10000000-0000-0000-0000-000000000002', '30000000-0000-0000-0000-000000000001'),
+  ('40000000-0000-0000-0000-000000000004', 'Dune Surf Shop', '10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001');
+
+UPDATE public.users SET client_id = '40000000-0000-0000-0000-000000000001'
+WHERE id = '30000000-0000-0000-0000-000000000006';
+
+INSERT INTO public.organisation_members (organisation_id, user_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000002'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000003'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000004'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000005'),
+  ('10000000-0000-0000-0000-000000000002', '30000000-0000-0000-0000-000000000007');
+
+INSERT INTO public.jobs (id, title, client_id, station_id, duration_seconds, air_time, rate, status, created_by) VALUES
+  ('50000000-0000-0000-0000-000000000001', 'Bakery breakfast spot', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 30, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000002'),
+  ('50000000-0000-0000-0000-000000000002', 'Motors weekend sale', '40000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000001', 30, '08:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000003'),
+  ('50000000-0000-0000-0000-000000000003', 'Bakery drive time spot', '40000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000002', 30, '17:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000002'),
+  ('50000000-0000-0000-0000-000000000004', 'Farm gate market', '40000000-0000-0000-0000-000000000003', '20000000-0000-0000-0000-000000000003', 30, '07:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000007');
+
+INSERT INTO public.schedules (id, job_id, scheduled_date, start_time, end_time, created_by) VALUES
+  ('60000000-0000-0000-0000-000000000001', '50000000-0000-0000-0000-000000000001', '2030-01-07', '07:30', '07:30:30', '30000000-0000-0000-0000-000000000002'),
+  ('60000000-0000-0000-0000-000000000002', '50000000-0000-0000-0000-000000000002', '2030-01-07', '08:30', '08:30:30', '30000000-0000-0000-0000-000000000003');
+
+INSERT INTO public.invoices (id, client_id, organisation_id, total_amount, due_date, created_by) VALUES
+  ('70000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 100, '2030-02-01', '30000000-0000-0000-0000-000000000005'),
+  ('70000000-0000-0000-0000-000000000002', '40000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000002', 100, '2030-02-01', '30000000-0000-0000-0000-000000000007');
+
+INSERT INTO public.invoice_items (invoice_id, job_id, description, quantity, rate, amount) VALUES
+  ('70000000-0000-0000-0000-000000000001', '50000000-0000-0000-0000-000000000001', 'Bakery breakfast spot', 1, 100, 100);
+
+-- Admin
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000001');
+
+SELECT is((SELECT count(*)::INTEGER FROM public.users), 6,
+  'Admins see their organisation''s staff and its clients'' advertisers');
+SELECT is((SELECT count(*)::INTEGER FROM public.jobs), 2,
+  'Admins see the jobs of their current station only');
+SELECT is((SELECT count(*)::INTEGER FROM public.clients), 3,
+  'Admins see their organisation''s clients only');
+SELECT is(pg_temp.rows_affected($$UPDATE public.users SET role = 'traffic' WHERE id = '30000000-0000-0000-0000-000000000003'$$), 1,
+  'Admins can change the role of their organisation''s users');
+SELECT is(pg_temp.rows_affected($$UPDATE public.users SET role = 'admin' WHERE id = '30000000-0000-0000-0000-000000000007'$$), 0,
+  'Admins cannot change the role of another organisation''s users');
+SELECT is(pg_temp.rows_affected($$DELETE FROM public.clients WHERE id = '40000000-0000-0000-0000-000000000004'$$), 1,
+  'Admins can delete clients');
+SELECT is((SELECT count(*)::INTEGER FROM public.tax_rules WHERE organisation_id <> '10000000-0000-0000-0000-000000000001'), 0,
+  'Admins see their organisation''s tax rules only');
+SELECT is(pg_temp.rows_affected($$UPDATE public.airtime_settings SET max_commercial_minutes_per_hour = 10 WHERE organisation_id = '10000000-0000-0000-0000-000000000001'$$), 1,
+  'Admins can change their organisation''s airtime limit');
+SELECT is(pg_temp.rows_affected($$UPDATE public.airtime_settings SET max_commercial_minutes_per_hour = 10 WHERE organisation_id = '10000000-0000-0000-0000-000000000002'$$), 0,
+  'Admins cannot change another organisation''s airtime limit');
+
+-- Host
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000002');
+
+SELECT is((SELECT count(*)::INTEGER FROM public.jobs), 2,
+  'Hosts see every job of their current station');
+SELECT is(pg_temp.rows_affected($$UPDATE public.jobs SET title = 'Bakery morning spot' WHERE id = '50000000-0000-0000-0000-000000000001'$$), 1,
+  'Hosts can edit their own jobs');
+SELECT is(pg_temp.rows_affected($$UPDATE public.jobs SET title = 'Motors clearance sale' WHERE id = '50000000-0000-0000-0000-000000000002'$$), 0,
+  'Hosts cannot edit other hosts'' jobs');
+SELECT lives_ok(
+  $$INSERT INTO public.jobs (title, client_id, air_time, rate, status, created_by)
+    VALUES ('Bakery lunch spot', '40000000-0000-0000-0000-000000000001', '12:30', 100, 'draft', '30000000-0000-0000-0000-000000000002')$$,
+  'Hosts can draft bookings in their current station');
+SELECT throws_ok(
+  $$INSERT INTO public.jobs (title, client_id, air_time, rate, status, created_by)
+    VALUES ('Bakery evening spot', '40000000-0000-0000-0000-000000000001', '19:30', 100, 'scheduled', '30000000-0000-0000-0000-000000000002')$$,
+  'P0001', 'New bookings must be saved as a draft or submitted for approval',
+  'Hosts cannot book jobs without approval');
+SELECT throws_ok(
+  $$INSERT INTO public.jobs (title, client_id, air_time, rate, status, created_by)
+    VALUES ('Bakery late spot', '40000000-0000-0000-0000-000000000001', '22:30', 100, 'draft', '30000000-0000-0000-0000-000000000003')$$,
+  '42501', 'new row violates row-level security policy for table "jobs"',
+  'Hosts cannot create jobs in someone else''s name');
+SELECT throws_ok(
+  $$INSERT INTO public.jobs (title, client_id, air_time, rate, status, created_by)
+    VALUES ('Farm gate spot', '40000000-0000-0000-0000-000000000003', '07:30', 100, 'draft', '30000000-0000-0000-0000-000000000002')$$,
+  'P0001', 'The client belongs to a different organisation than the station',
+  'Hosts cannot book another organisation''s clients');
+SELECT is(pg_temp.rows_affected($$UPDATE public.schedules SET status = 'live' WHERE id = '60000000-0000-0000-0000-000000000001'$$), 1,
+  'Hosts can mark spots live');
+SELECT is(pg_temp.rows_affected($$UPDATE public.schedules SET status = 'live' WHERE id = '60000000-0000-0000-0000-000000000002'$$), 0,
+  'Hosts cannot change spots of other hosts'' jobs');
+SELECT throws_ok(
+  $$UPDATE public.schedules SET start_time = '07:45', end_time = '07:45:30' WHERE id = '60000000-0000-0000-0000-000000000001'$$,
+  'P0001', 'Hosts can only change the status of a spot',
+  'Hosts cannot move spots');
+SELECT is((SELECT count(*)::INTEGER FROM public.invoices), 1,
+  'Hosts see their organisation''s invoices');
+SELECT is(pg_temp.rows_affected($$UPDATE public.invoices SET notes = 'Paid in cash' WHERE id = '70000000-0000-0000-0000-000000000001'$$), 0,
+  'Hosts cannot edit invoices');
+SELECT is(pg_temp.rows_affected($$DELETE FROM public.clients WHERE id = '40000000-0000-0000-0000-000000000002'$$), 0,
+  'Hosts cannot delete clients');
+SELECT throws_ok(
+  $$UPDATE public.users SET role = 'admin' WHERE id = '30000000-0000-0000-0000-000000000002'$$,
+  'P0001', 'Only admins can change roles',
+  'Hosts cannot promote themselves');
+
+-- Traffic
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000004');
+
+SELECT is(pg_temp.rows_affected($$UPDATE public.jobs SET rate = 120 WHERE id = '50000000-0000-0000-0000-000000000002'$$), 1,
+  'Traffic can edit any job in their current station');
+SELECT is(pg_temp.rows_affected($$UPDATE public.jobs SET rate = 120 WHERE id = '50000000-0000-0000-0000-000000000003'$$), 0,
+  'Traffic cannot edit jobs at other stations');
+SELECT is(pg_temp.rows_affected($$UPDATE public.schedules SET notes = 'Moved by traffic' WHERE id = '60000000-0000-0000-0000-000000000001'$$), 1,
+  'Traffic can manage schedules');
+SELECT is((SELECT count(*)::INTEGER FROM public.invoices), 0,
+  'Traffic cannot see invoices');
+
+-- Finance
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000005');
+
+SELECT is((SELECT count(*)::INTEGER FROM public.invoices), 1,
+  'Finance sees their organisation''s invoices only');
+SELECT is((SELECT count(*)::INTEGER FROM public.invoice_items), 1,
+  'Finance sees their organisation''s invoice items');
+SELECT is(pg_temp.rows_affected($$UPDATE public.invoices SET notes = 'Chased by phone' WHERE id = '70000000-0000-0000-0000-000000000001'$$), 1,
+  'Finance can edit invoices');
+SELECT is(pg_temp.rows_affected($$UPDATE public.invoices SET notes = 'Chased by phone' WHERE id = '70000000-0000-0000-0000-000000000002'$$), 0,
+  'Finance cannot edit another organisation''s invoices');
+SELECT is(pg_temp.rows_affected($$UPDATE public.jobs SET rate = 90 WHERE id = '50000000-0000-0000-0000-000000000001'$$), 0,
+  'Finance cannot edit jobs');
+
+-- Advertiser
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000006');
+
+SELECT is((SELECT count(*)::INTEGER FROM public.users), 1,
+  'Advertisers only see their own profile');
+SELECT is((SELECT count(*)::INTEGER FROM public.clients), 1,
+  'Advertisers only see their own client');
+SELECT is((SELECT count(*)::INTEGER FROM public.jobs), 3,
+  'Advertisers see their client''s jobs at every station');
+SELECT is((SELECT count(*)::INTEGER FROM public.schedules), 1,
+  'Advertisers see their client''s spots');
+SELECT is((SELECT organisation_id FROM public.organisation_settings), '10000000-0000-0000-0000-000000000001'::UUID,
+  'Advertisers see the settings of their client''s organisation only');
+SELECT is((SELECT count(*)::INTEGER FROM public.invoices), 1,
+  'Advertisers see their client''s invoices');
+SELECT is((SELECT count(*)::INTEGER FROM public.invoice_items), 1,
+  'Advertisers see their client''s invoice items');
+SELECT is(pg_temp.rows_affected($$UPDATE public.jobs SET rate = 1 WHERE id = '50000000-0000-0000-0000-000000000001'$$), 0,
+  'Advertisers cannot edit jobs');
+SELECT throws_ok(
+  $$UPDATE public.users SET client_id = '40000000-0000-0000-0000-000000000002' WHERE id = '30000000-0000-0000-0000-000000000006'$$,
+  'P0001', 'Only staff can change which client a user belongs to',
+  'Advertisers cannot switch to another client');
+
+-- Another organisation's host
+
+SELECT pg_temp.sign_in_as('30000000-0000-0000-0000-000000000007');
+
+SELECT is((SELECT count(*)::INTEGER FROM public.jobs), 1,
+  'Staff only see their own organisation''s jobs');
+SELECT is((SELECT count(*)::INTEGER FROM public.clients), 1,
+  'Staff only see their own organisation''s clients');
+SELECT is((SELECT count(*)::INTEGER FROM public.users), 1,
+  'Staff only see their own organisation''s users');
+SELECT throws_ok(
+  $$UPDATE public.users SET current_station_id = '20000000-0000-0000-0000-000000000001' WHERE id = '30000000-0000-0000-0000-000000000007'$$,
+  'P0001', 'You are not a member of that station''s organisation',
+  'Staff cannot switch to another organisation''s station');
+
+-- Signed out
+
+SELECT pg_temp.sign_out();
+
+SELECT is((SELECT count(*)::INTEGER FROM public.jobs), 0,
+  'Signed-out visitors see no jobs');
+SELECT is((SELECT count(*)::INTEGER FROM public.users), 0,
+  'Signed-out visitors see no users');
+
+SELECT * FROM finish();
+ROLLBACK;